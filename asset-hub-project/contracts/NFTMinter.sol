@@ -4,10 +4,10 @@ pragma solidity ^0.8.0;
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
 
-contract nftMinter is ERC721URIStorage {
+contract NFTMinter is ERC721URIStorage {
     uint256 private _tokenIds;
 
-    constructor() ERC721("SOREN NFT", "SOREN") {}
+    constructor(string memory name_, string memory symbol_) ERC721(name_, symbol_) {}
 
     function mintNFT(string memory tokenURI) public returns (uint256) {
         uint256 newItemId = _tokenIds;
@@ -0,0 +1,16 @@
+// Types for compile.js, used by the TypeScript CLI in src/cli.
+
+export interface CompilerOutput {
+  contracts: Record<string, Record<string, { abi: unknown[]; evm: { bytecode: { object: string } } }>>;
+  errors?: { severity: string; message: string; formattedMessage?: string }[];
+}
+
+export interface WrittenArtifact {
+  name: string;
+  abiPath: string;
+  bytecodePath: string;
+}
+
+export declare const compileSource: (solidityFilePath: string) => Promise<CompilerOutput>;
+export declare const writeArtifacts: (out: CompilerOutput, outputDir: string) => WrittenArtifact[];
+export declare const compileContract: (solidityFilePath: string, outputDir: string) => Promise<WrittenArtifact[]>;
@@ -1,62 +1,80 @@
 const { compile } = require('@parity/revive');
-const { readFileSync, writeFileSync, mkdirSync, existsSync } = require('fs');
+const { readFileSync, writeFileSync, mkdirSync } = require('fs');
 const { basename, join } = require('path');
 
-const compileContract = async (solidityFilePath, outputDir) => {
-  try {
-    // Read the Solidity file
-    const source = readFileSync(solidityFilePath, 'utf8');
-
-    // Construct the input object for the compiler
-    const input = {
-      [basename(solidityFilePath)]: { content: source },
-    };
-
-    console.log(`Compiling contract: ${basename(solidityFilePath)}...`);
-
-    // Compile the contract
-    const out = await compile(input);
-
-    for (const contracts of Object.values(out.contracts)) {
-      for (const [name, contract] of Object.entries(contracts)) {
-        console.log(`Compiled contract: ${name}`);
-
-        // Create directories if they don't exist
-        const abiDir = join(outputDir, 'abis');
-        const artifactsDir = join(outputDir, 'artifacts');
-        
-        if (!existsSync(abiDir)) {
-          mkdirSync(abiDir, { recursive: true });
-        }
-        
-        if (!existsSync(artifactsDir)) {
-          mkdirSync(artifactsDir, { recursive: true });
-        }
-
-        // Write the ABI
-        const abiPath = join(abiDir, `${name}.json`);
-        writeFileSync(abiPath, JSON.stringify(contract.abi, null, 2));
-        console.log(`ABI saved to ${abiPath}`);
-
-        // Write the bytecode
-        const bytecodePath = join(artifactsDir, `${name}.polkavm`);
-        writeFileSync(
-          bytecodePath,
-          Buffer.from(contract.evm.bytecode.object, 'hex')
-        );
-        console.log(`Bytecode saved to ${bytecodePath}`);
-      }
+// Compiles a Solidity file and returns the compiler output
+const compileSource = async (solidityFilePath) => {
+  // Read the Solidity file
+  const source = readFileSync(solidityFilePath, 'utf8');
+
+  // Construct the input object for the compiler
+  const input = {
+    [basename(solidityFilePath)]: { content: source },
+  };
+
+  const out = await compile(input);
+
+  // Warnings are fine, but errors leave contracts missing from the output
+  const errors = (out.errors ?? []).filter((error) => error.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(errors.map((error) => error.formattedMessage ?? error.message).join('\n'));
+  }
+  return out;
+};
+
+// Writes each compiled contract's ABI to abis/ and its bytecode to artifacts/,
+// returning the paths written per contract
+const writeArtifacts = (out, outputDir) => {
+  const abiDir = join(outputDir, 'abis');
+  const artifactsDir = join(outputDir, 'artifacts');
+  mkdirSync(abiDir, { recursive: true });
+  mkdirSync(artifactsDir, { recursive: true });
+
+  const written = [];
+  for (const contracts of Object.values(out.contracts)) {
+    for (const [name, contract] of Object.entries(contracts)) {
+      // Write the ABI
+      const abiPath = join(abiDir, `${name}.json`);
+      writeFileSync(abiPath, JSON.stringify(contract.abi, null, 2));
+
+      // Write the bytecode
+      const bytecodePath = join(artifactsDir, `${name}.polkavm`);
+      writeFileSync(
+        bytecodePath,
+        Buffer.from(contract.evm.bytecode.object, 'hex')
+      );
+
+      written.push({ name, abiPath, bytecodePath });
     }
-  } catch (error) {
-    console.error('Error compiling contracts:', error);
   }
+  return written;
+};
+
+const compileContract = async (solidityFilePath, outputDir) => {
+  console.log(`Compiling contract: ${basename(solidityFilePath)}...`);
+
+  const out = await compileSource(solidityFilePath);
+  const written = writeArtifacts(out, outputDir);
+  for (const { name, abiPath, bytecodePath } of written) {
+    console.log(`Compiled contract: ${name}`);
+    console.log(`ABI saved to ${abiPath}`);
+    console.log(`Bytecode saved to ${bytecodePath}`);
+  }
+  return written;
 };
 
-// Compile both contracts
-const contracts = ['Storage.sol', 'NFTMinter.sol'];
-const outputDir = join(__dirname, '..');
+module.exports = { compileSource, writeArtifacts, compileContract };
 
-for (const contract of contracts) {
-  const solidityFilePath = join(__dirname, '..', 'contracts', contract);
-  compileContract(solidityFilePath, outputDir);
+if (require.main === module) {
+  // Compile both contracts
+  const contracts = ['Storage.sol', 'NFTMinter.sol'];
+  const outputDir = join(__dirname, '..');
+
+  for (const contract of contracts) {
+    const solidityFilePath = join(__dirname, '..', 'contracts', contract);
+    compileContract(solidityFilePath, outputDir).catch((error) => {
+      console.error('Error compiling contracts:', error);
+      process.exitCode = 1;
+    });
+  }
 } 
\ No newline at end of file
@@ -1,4 +1,5 @@
 const { JsonRpcProvider } = require('ethers');
+const { getNetwork } = require('./networks');
 
 const createProvider = (rpcUrl, chainId, chainName) => {
   const provider = new JsonRpcProvider(rpcUrl, {
@@ -9,12 +10,17 @@ const createProvider = (rpcUrl, chainId, chainName) => {
   return provider;
 };
 
+// Creates a provider for a network from the registry
+const createNetworkProvider = (network) =>
+  createProvider(network.rpcUrls[0], network.chainId, network.id);
+
+// Network selected with ASSET_HUB_NETWORK (defaults to Westend Asset Hub)
+const NETWORK = getNetwork();
+
 const PROVIDER_RPC = {
-  rpc: 'https://westend-asset-hub-eth-rpc.polkadot.io',
-  chainId: 420420421,
-  name: 'westend-asset-hub'
+  rpc: NETWORK.rpcUrls[0],
+  chainId: NETWORK.chainId,
+  name: NETWORK.id
 };
 
-const provider = createProvider(PROVIDER_RPC.rpc, PROVIDER_RPC.chainId, PROVIDER_RPC.name);
-
-module.exports = { createProvider, PROVIDER_RPC }; 
\ No newline at end of file
+module.exports = { createProvider, createNetworkProvider, NETWORK, PROVIDER_RPC };
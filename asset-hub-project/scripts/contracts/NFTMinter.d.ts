@@ -0,0 +1,106 @@
+// Generated by asset-hub-project/scripts/generateBindings.js from abis/NFTMinter.json.
+// Do not edit by hand; run `npm run generate:bindings` in asset-hub-project instead.
+import {
+  AddressLike,
+  BaseContract,
+  BaseContractMethod,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  Interface,
+  JsonFragment,
+} from 'ethers';
+
+export declare const NFT_MINTER_ABI: JsonFragment[];
+export declare const NFT_MINTER_INTERFACE: Interface;
+
+export interface NFTMinterMethods {
+  approve: BaseContractMethod<[to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+  balanceOf: BaseContractMethod<[owner: AddressLike], bigint, bigint>;
+  getApproved: BaseContractMethod<[tokenId: BigNumberish], string, string>;
+  getItemId: BaseContractMethod<[], bigint, bigint>;
+  isApprovedForAll: BaseContractMethod<[owner: AddressLike, operator: AddressLike], boolean, boolean>;
+  mintNFT: BaseContractMethod<[tokenURI: string], bigint, ContractTransactionResponse>;
+  name: BaseContractMethod<[], string, string>;
+  ownerOf: BaseContractMethod<[tokenId: BigNumberish], string, string>;
+  'safeTransferFrom(address,address,uint256)': BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+  'safeTransferFrom(address,address,uint256,bytes)': BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish, data: BytesLike], void, ContractTransactionResponse>;
+  setApprovalForAll: BaseContractMethod<[operator: AddressLike, approved: boolean], void, ContractTransactionResponse>;
+  supportsInterface: BaseContractMethod<[interfaceId: BytesLike], boolean, boolean>;
+  symbol: BaseContractMethod<[], string, string>;
+  tokenURI: BaseContractMethod<[tokenId: BigNumberish], string, string>;
+  transferFrom: BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+}
+
+export interface NFTMinterEvents {
+  Approval: {
+    owner: string;
+    approved: string;
+    tokenId: bigint;
+  };
+  ApprovalForAll: {
+    owner: string;
+    operator: string;
+    approved: boolean;
+  };
+  BatchMetadataUpdate: {
+    _fromTokenId: bigint;
+    _toTokenId: bigint;
+  };
+  MetadataUpdate: {
+    _tokenId: bigint;
+  };
+  Transfer: {
+    from: string;
+    to: string;
+    tokenId: bigint;
+  };
+}
+
+export interface NFTMinterErrors {
+  ERC721IncorrectOwner: {
+    sender: string;
+    tokenId: bigint;
+    owner: string;
+  };
+  ERC721InsufficientApproval: {
+    operator: string;
+    tokenId: bigint;
+  };
+  ERC721InvalidApprover: {
+    approver: string;
+  };
+  ERC721InvalidOperator: {
+    operator: string;
+  };
+  ERC721InvalidOwner: {
+    owner: string;
+  };
+  ERC721InvalidReceiver: {
+    receiver: string;
+  };
+  ERC721InvalidSender: {
+    sender: string;
+  };
+  ERC721NonexistentToken: {
+    tokenId: bigint;
+  };
+}
+
+export type NFTMinterEventName = keyof NFTMinterEvents;
+export type NFTMinterErrorName = keyof NFTMinterErrors;
+
+export type NFTMinterEvent = {
+  [K in NFTMinterEventName]: { name: K; args: NFTMinterEvents[K] };
+}[NFTMinterEventName];
+
+export type NFTMinterError = {
+  [K in NFTMinterErrorName]: { name: K; args: NFTMinterErrors[K] };
+}[NFTMinterErrorName];
+
+export type NFTMinterContract = BaseContract & NFTMinterMethods;
+
+export declare const createNFTMinterClient: (address: string, runner?: ContractRunner | null) => NFTMinterContract;
+export declare const parseNFTMinterLog: (log: { topics: ReadonlyArray<string>; data: string }) => NFTMinterEvent | null;
+export declare const decodeNFTMinterError: (data: BytesLike) => NFTMinterError | null;
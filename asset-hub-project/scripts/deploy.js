@@ -1,86 +0,0 @@
-const { join } = require('path');
-const { ethers } = require('ethers');
-const { readFileSync, writeFileSync, existsSync } = require('fs');
-const { createProvider, PROVIDER_RPC } = require('./connectToProvider');
-
-// Reads and parses the ABI file for a given contract
-const getAbi = (contractName) => {
-  try {
-    return JSON.parse(
-      readFileSync(join(__dirname, '..', 'abis', `${contractName}.json`), 'utf8')
-    );
-  } catch (error) {
-    console.error(
-      `Could not find ABI for contract ${contractName}:`,
-      error.message
-    );
-    throw error;
-  }
-};
-
-// Reads the compiled bytecode for a given contract
-const getByteCode = (contractName) => {
-  try {
-    return `0x${readFileSync(
-      join(__dirname, '..', 'artifacts', `${contractName}.polkavm`)
-    ).toString('hex')}`;
-  } catch (error) {
-    console.error(
-      `Could not find bytecode for contract ${contractName}:`,
-      error.message
-    );
-    throw error;
-  }
-};
-
-const deployContract = async (contractName, mnemonic, constructorArgs = []) => {
-  console.log(`Deploying ${contractName}...`);
-
-  try {
-    // Step 1: Set up provider and wallet
-    const provider = createProvider(
-      PROVIDER_RPC.rpc,
-      PROVIDER_RPC.chainId,
-      PROVIDER_RPC.name
-    );
-    const walletMnemonic = ethers.Wallet.fromPhrase(mnemonic);
-    const wallet = walletMnemonic.connect(provider);
-
-    // Step 2: Create and deploy the contract
-    const factory = new ethers.ContractFactory(
-      getAbi(contractName),
-      getByteCode(contractName),
-      wallet
-    );
-    const contract = await factory.deploy(...constructorArgs);
-    await contract.waitForDeployment();
-
-    // Step 3: Save deployment information
-    const address = await contract.getAddress();
-    console.log(`Contract ${contractName} deployed at: ${address}`);
-
-    const addressesFile = join(__dirname, '..', 'contract-address.json');
-    const addresses = existsSync(addressesFile)
-      ? JSON.parse(readFileSync(addressesFile, 'utf8'))
-      : {};
-    addresses[contractName] = address;
-    writeFileSync(addressesFile, JSON.stringify(addresses, null, 2), 'utf8');
-  } catch (error) {
-    console.error(`Failed to deploy contract ${contractName}:`, error);
-    throw error;
-  }
-};
-
-// Replace with your mnemonic
-// const mnemonic = 'glass milk vicious dwarf famous achieve short crane book spider obtain hat';
-const mnemonic = 'battle nest immune equip beauty large push wise gift limit winter soccer'
-
-// Get the contract name from command line arguments
-const contractName = process.argv[2];
-if (!contractName) {
-  console.error('Please provide a contract name');
-  process.exit(1);
-}
-
-// Deploy the contract
-deployContract(contractName, mnemonic); 
\ No newline at end of file
@@ -0,0 +1,304 @@
+const { join, relative } = require('path');
+const { readFileSync, writeFileSync, existsSync, mkdirSync } = require('fs');
+
+const ROOT = join(__dirname, '..');
+
+// Contract to generate bindings for: ABI file, Solidity source and contract name in the source
+const CONTRACT = {
+  name: 'NFTMinter',
+  abiFile: join(ROOT, 'abis', 'NFTMinter.json'),
+  sourceFile: join(ROOT, 'contracts', 'NFTMinter.sol'),
+  sourceContractName: 'NFTMinter',
+  // Prefix of the exported constants, e.g. NFT_MINTER_ABI
+  constantPrefix: 'NFT_MINTER',
+};
+
+// Where the generated bindings are checked in
+const TARGETS = {
+  frontend: join(ROOT, '..', 'frontend', 'src', 'contracts', 'NFTMinter.ts'),
+  scripts: join(ROOT, 'scripts', 'contracts', 'NFTMinter.js'),
+  scriptsTypes: join(ROOT, 'scripts', 'contracts', 'NFTMinter.d.ts'),
+};
+
+const HEADER = `// Generated by asset-hub-project/scripts/generateBindings.js from abis/${CONTRACT.name}.json.
+// Do not edit by hand; run \`npm run generate:bindings\` in asset-hub-project instead.`;
+
+// Maps a Solidity ABI type to the TypeScript type ethers accepts (input) or returns (output)
+const tsType = (param, direction) => {
+  const { type } = param;
+
+  if (type.endsWith(']')) {
+    const inner = { ...param, type: type.slice(0, type.lastIndexOf('[')) };
+    return `Array<${tsType(inner, direction)}>`;
+  }
+  if (type === 'tuple') {
+    const fields = param.components.map((c) => `${c.name}: ${tsType(c, direction)}`);
+    return `{ ${fields.join('; ')} }`;
+  }
+  if (type === 'address') return direction === 'input' ? 'AddressLike' : 'string';
+  if (type === 'bool') return 'boolean';
+  if (type === 'string') return 'string';
+  if (/^u?int\d*$/.test(type)) return direction === 'input' ? 'BigNumberish' : 'bigint';
+  if (/^bytes\d*$/.test(type)) return direction === 'input' ? 'BytesLike' : 'string';
+  throw new Error(`Unsupported ABI type: ${type}`);
+};
+
+const paramName = (param, index) => param.name || `arg${index}`;
+
+const signature = (fragment) => `${fragment.name}(${fragment.inputs.map((i) => i.type).join(',')})`;
+
+const methodType = (fragment) => {
+  const args = fragment.inputs.map((input, i) => `${paramName(input, i)}: ${tsType(input, 'input')}`);
+  const outputs = fragment.outputs || [];
+  const result = outputs.length === 0
+    ? 'void'
+    : outputs.length === 1
+      ? tsType(outputs[0], 'output')
+      : `[${outputs.map((o, i) => `${paramName(o, i)}: ${tsType(o, 'output')}`).join(', ')}]`;
+  const isView = fragment.stateMutability === 'view' || fragment.stateMutability === 'pure';
+  return `BaseContractMethod<[${args.join(', ')}], ${result}, ${isView ? result : 'ContractTransactionResponse'}>`;
+};
+
+const argsType = (fragment) => {
+  if (fragment.inputs.length === 0) return '{}';
+  const fields = fragment.inputs.map((input, i) => `    ${paramName(input, i)}: ${tsType(input, 'output')};`);
+  return `{\n${fields.join('\n')}\n  }`;
+};
+
+// Type declarations shared by the frontend module and the scripts' .d.ts
+const renderTypes = (abi) => {
+  const functions = abi.filter((f) => f.type === 'function');
+  const events = abi.filter((f) => f.type === 'event');
+  const errors = abi.filter((f) => f.type === 'error');
+
+  const methodLines = [];
+  const byName = new Map();
+  for (const fn of functions) {
+    byName.set(fn.name, [...(byName.get(fn.name) || []), fn]);
+  }
+  for (const [name, overloads] of byName) {
+    if (overloads.length === 1) {
+      methodLines.push(`  ${name}: ${methodType(overloads[0])};`);
+    } else {
+      // Overloaded functions are only reachable by full signature
+      for (const fn of overloads) {
+        methodLines.push(`  '${signature(fn)}': ${methodType(fn)};`);
+      }
+    }
+  }
+
+  return `export interface ${CONTRACT.name}Methods {
+${methodLines.join('\n')}
+}
+
+export interface ${CONTRACT.name}Events {
+${events.map((e) => `  ${e.name}: ${argsType(e)};`).join('\n')}
+}
+
+export interface ${CONTRACT.name}Errors {
+${errors.map((e) => `  ${e.name}: ${argsType(e)};`).join('\n')}
+}
+
+export type ${CONTRACT.name}EventName = keyof ${CONTRACT.name}Events;
+export type ${CONTRACT.name}ErrorName = keyof ${CONTRACT.name}Errors;
+
+export type ${CONTRACT.name}Event = {
+  [K in ${CONTRACT.name}EventName]: { name: K; args: ${CONTRACT.name}Events[K] };
+}[${CONTRACT.name}EventName];
+
+export type ${CONTRACT.name}Error = {
+  [K in ${CONTRACT.name}ErrorName]: { name: K; args: ${CONTRACT.name}Errors[K] };
+}[${CONTRACT.name}ErrorName];
+
+export type ${CONTRACT.name}Contract = BaseContract & ${CONTRACT.name}Methods;`;
+};
+
+const renderAbi = (abi) => JSON.stringify(abi, null, 2);
+
+const names = (abi, type) => JSON.stringify(abi.filter((f) => f.type === type).map((f) => f.name));
+
+const renderFrontend = (abi) => `${HEADER}
+import {
+  AddressLike,
+  BaseContract,
+  BaseContractMethod,
+  BigNumberish,
+  BytesLike,
+  Contract,
+  ContractRunner,
+  ContractTransactionResponse,
+  Interface,
+} from 'ethers';
+
+export const ${CONTRACT.constantPrefix}_ABI = ${renderAbi(abi)} as const;
+
+${renderTypes(abi)}
+
+const EVENT_NAMES: readonly string[] = ${names(abi, 'event')};
+const ERROR_NAMES: readonly string[] = ${names(abi, 'error')};
+
+export const ${CONTRACT.constantPrefix}_INTERFACE = new Interface(${CONTRACT.constantPrefix}_ABI);
+
+/**
+ * Creates a typed client for a deployed ${CONTRACT.name} contract
+ * @param address The contract address
+ * @param runner A provider for reads or a signer for transactions
+ */
+export const create${CONTRACT.name}Client = (address: string, runner?: ContractRunner | null): ${CONTRACT.name}Contract =>
+  new Contract(address, ${CONTRACT.constantPrefix}_INTERFACE, runner) as unknown as ${CONTRACT.name}Contract;
+
+/**
+ * Decodes a log emitted by the contract
+ * @returns The event name and named arguments, or null for other contracts' logs
+ */
+export const parse${CONTRACT.name}Log = (log: { topics: ReadonlyArray<string>; data: string }): ${CONTRACT.name}Event | null => {
+  try {
+    const parsed = ${CONTRACT.constantPrefix}_INTERFACE.parseLog(log);
+    if (!parsed || !EVENT_NAMES.includes(parsed.name)) return null;
+    return { name: parsed.name, args: parsed.args.toObject() } as ${CONTRACT.name}Event;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decodes revert data into one of the contract's custom errors
+ * @returns The error name and named arguments, or null if the data is not a custom error
+ */
+export const decode${CONTRACT.name}Error = (data: BytesLike): ${CONTRACT.name}Error | null => {
+  try {
+    const parsed = ${CONTRACT.constantPrefix}_INTERFACE.parseError(data);
+    if (!parsed || !ERROR_NAMES.includes(parsed.name)) return null;
+    return { name: parsed.name, args: parsed.args.toObject() } as ${CONTRACT.name}Error;
+  } catch {
+    return null;
+  }
+};
+`;
+
+const renderScripts = (abi) => `${HEADER}
+const { Contract, Interface } = require('ethers');
+
+const ${CONTRACT.constantPrefix}_ABI = ${renderAbi(abi)};
+
+const EVENT_NAMES = ${names(abi, 'event')};
+const ERROR_NAMES = ${names(abi, 'error')};
+
+const ${CONTRACT.constantPrefix}_INTERFACE = new Interface(${CONTRACT.constantPrefix}_ABI);
+
+// Creates a typed client for a deployed ${CONTRACT.name} contract
+const create${CONTRACT.name}Client = (address, runner) =>
+  new Contract(address, ${CONTRACT.constantPrefix}_INTERFACE, runner);
+
+// Decodes a log emitted by the contract, or returns null for other contracts' logs
+const parse${CONTRACT.name}Log = (log) => {
+  try {
+    const parsed = ${CONTRACT.constantPrefix}_INTERFACE.parseLog(log);
+    if (!parsed || !EVENT_NAMES.includes(parsed.name)) return null;
+    return { name: parsed.name, args: parsed.args.toObject() };
+  } catch {
+    return null;
+  }
+};
+
+// Decodes revert data into one of the contract's custom errors, or returns null
+const decode${CONTRACT.name}Error = (data) => {
+  try {
+    const parsed = ${CONTRACT.constantPrefix}_INTERFACE.parseError(data);
+    if (!parsed || !ERROR_NAMES.includes(parsed.name)) return null;
+    return { name: parsed.name, args: parsed.args.toObject() };
+  } catch {
+    return null;
+  }
+};
+
+module.exports = {
+  ${CONTRACT.constantPrefix}_ABI,
+  ${CONTRACT.constantPrefix}_INTERFACE,
+  create${CONTRACT.name}Client,
+  parse${CONTRACT.name}Log,
+  decode${CONTRACT.name}Error,
+};
+`;
+
+const renderScriptsTypes = (abi) => `${HEADER}
+import {
+  AddressLike,
+  BaseContract,
+  BaseContractMethod,
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionResponse,
+  Interface,
+  JsonFragment,
+} from 'ethers';
+
+export declare const ${CONTRACT.constantPrefix}_ABI: JsonFragment[];
+export declare const ${CONTRACT.constantPrefix}_INTERFACE: Interface;
+
+${renderTypes(abi)}
+
+export declare const create${CONTRACT.name}Client: (address: string, runner?: ContractRunner | null) => ${CONTRACT.name}Contract;
+export declare const parse${CONTRACT.name}Log: (log: { topics: ReadonlyArray<string>; data: string }) => ${CONTRACT.name}Event | null;
+export declare const decode${CONTRACT.name}Error: (data: BytesLike) => ${CONTRACT.name}Error | null;
+`;
+
+const render = (abi) => ({
+  [TARGETS.frontend]: renderFrontend(abi),
+  [TARGETS.scripts]: renderScripts(abi),
+  [TARGETS.scriptsTypes]: renderScriptsTypes(abi),
+});
+
+// Compiles the Solidity source and fails if its ABI differs from the checked-in one
+const checkSourceAbi = async (abi) => {
+  const { compileSource } = require('./compile');
+  const out = await compileSource(CONTRACT.sourceFile);
+  const compiled = Object.values(out.contracts)
+    .map((contracts) => contracts[CONTRACT.sourceContractName])
+    .find(Boolean);
+  if (!compiled) {
+    throw new Error(`${CONTRACT.sourceContractName} not found in compiler output`);
+  }
+  return JSON.stringify(compiled.abi) === JSON.stringify(abi);
+};
+
+const main = async () => {
+  const check = process.argv.includes('--check');
+  const abi = JSON.parse(readFileSync(CONTRACT.abiFile, 'utf8'));
+  const files = render(abi);
+
+  if (!check) {
+    for (const [path, content] of Object.entries(files)) {
+      mkdirSync(join(path, '..'), { recursive: true });
+      writeFileSync(path, content, 'utf8');
+      console.log(`Bindings written to ${relative(ROOT, path)}`);
+    }
+    return;
+  }
+
+  const problems = [];
+
+  if (!(await checkSourceAbi(abi))) {
+    problems.push(
+      `contracts/${CONTRACT.name}.sol does not match abis/${CONTRACT.name}.json; run \`npm run compile\``
+    );
+  }
+
+  for (const [path, content] of Object.entries(files)) {
+    if (!existsSync(path) || readFileSync(path, 'utf8') !== content) {
+      problems.push(`${relative(ROOT, path)} is out of date; run \`npm run generate:bindings\``);
+    }
+  }
+
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(problem));
+    process.exit(1);
+  }
+  console.log('Contract bindings are up to date');
+};
+
+main().catch((error) => {
+  console.error('Error generating bindings:', error);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+// Types for networks.js, used by the TypeScript CLI in src/cli.
+import { FeePolicy } from '../src/fees/types';
+
+export interface ContractDeployment {
+  address: string;
+  deployBlock: number;
+}
+
+/** A network as stored in networks.json */
+export interface RegistryNetwork {
+  name: string;
+  chainId: number;
+  ss58Prefix: number;
+  rpcUrls: string[];
+  /** Substrate WebSocket endpoints of the same chain */
+  substrateRpcUrls?: string[];
+  explorerUrl: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  testnet: boolean;
+  faucetUrl?: string;
+  feePolicy?: Partial<FeePolicy>;
+  contracts: Record<string, ContractDeployment | undefined>;
+}
+
+/** A registry network together with its id */
+export interface Network extends RegistryNetwork {
+  id: string;
+}
+
+export declare const DEFAULT_NETWORK: string;
+export declare const loadNetworks: () => Record<string, RegistryNetwork>;
+export declare const getNetwork: (id?: string) => Network;
+export declare const getContractAddress: (network: Network, contractName: string) => string;
+export declare const saveDeployment: (networkId: string, contractName: string, deployment: ContractDeployment) => void;
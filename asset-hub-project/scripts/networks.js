@@ -0,0 +1,49 @@
+const { join } = require('path');
+const { readFileSync, writeFileSync } = require('fs');
+
+// Shared with the frontend, which imports the same file
+const NETWORKS_FILE = join(__dirname, '..', 'networks.json');
+
+const DEFAULT_NETWORK = 'westend-asset-hub';
+
+// Reads every registered network, keyed by network id
+const loadNetworks = () => JSON.parse(readFileSync(NETWORKS_FILE, 'utf8'));
+
+// Returns the network selected by id, falling back to ASSET_HUB_NETWORK and then Westend
+const getNetwork = (id = process.env.ASSET_HUB_NETWORK || DEFAULT_NETWORK) => {
+  const networks = loadNetworks();
+  const network = networks[id];
+  if (!network) {
+    throw new Error(
+      `Unknown network "${id}". Registered networks: ${Object.keys(networks).join(', ')}`
+    );
+  }
+  return { id, ...network };
+};
+
+// Returns the deployed address of a contract on a network
+const getContractAddress = (network, contractName) => {
+  const deployment = network.contracts[contractName];
+  if (!deployment) {
+    throw new Error(`${contractName} is not deployed on ${network.name}`);
+  }
+  return deployment.address;
+};
+
+// Records a deployment in the registry so the frontend and scripts pick it up
+const saveDeployment = (networkId, contractName, deployment) => {
+  const networks = loadNetworks();
+  if (!networks[networkId]) {
+    throw new Error(`Unknown network "${networkId}"`);
+  }
+  networks[networkId].contracts[contractName] = deployment;
+  writeFileSync(NETWORKS_FILE, `${JSON.stringify(networks, null, 2)}\n`, 'utf8');
+};
+
+module.exports = {
+  DEFAULT_NETWORK,
+  loadNetworks,
+  getNetwork,
+  getContractAddress,
+  saveDeployment,
+};
@@ -1,25 +1,26 @@
-const { ApiPromise, WsProvider } = require('@polkadot/api');
 const { ethers } = require('ethers');
+const { createNetworkProvider, NETWORK } = require('./connectToProvider');
+// Shared with the CLI; run `npm run build` first
+const { connectSubstrate } = require('../dist/cli/substrate');
+const { getAccountMapping } = require('../dist/substrate');
 
 const viewPolkadotHistory = async (contractAddress) => {
   try {
     console.log(`Checking transaction history for contract: ${contractAddress}`);
     
-    // Connect to Westend network
-    console.log('Connecting to Westend network...');
-    const provider = new WsProvider('wss://westend-rpc.polkadot.io');
-    const api = await ApiPromise.create({ provider });
+    // Contracts live on Asset Hub, not on the relay chain
+    console.log(`Connecting to ${NETWORK.name}...`);
+    const api = await connectSubstrate(NETWORK);
     
-    console.log('Connected to Westend network');
+    console.log(`Connected to ${NETWORK.name}`);
     
     // Get the current block number
     const header = await api.rpc.chain.getHeader();
     const currentBlock = header.number.toNumber();
     console.log(`Current block number: ${currentBlock}`);
     
-    // Convert Ethereum address to Polkadot format
-    // This is a simplified conversion and might not work for all addresses
-    const polkadotAddress = contractAddress.replace('0x', '');
+    // Look up the Substrate account pallet-revive maps the H160 address to
+    const { ss58: polkadotAddress } = await getAccountMapping(api, NETWORK, contractAddress);
     console.log(`Polkadot address format: ${polkadotAddress}`);
     
     // Try to get account info
@@ -65,10 +66,7 @@ const viewPolkadotHistory = async (contractAddress) => {
     // Get the current value using Ethers.js
     try {
       console.log('\nGetting current value using Ethers.js...');
-      const ethersProvider = new ethers.JsonRpcProvider('https://westend-asset-hub-eth-rpc.polkadot.io', {
-        chainId: 420420421,
-        name: 'westend-asset-hub'
-      });
+      const ethersProvider = createNetworkProvider(NETWORK);
       
       const abi = [
         "function storedNumber() view returns (uint256)"
@@ -82,7 +80,7 @@ const viewPolkadotHistory = async (contractAddress) => {
     
     // Disconnect from the network
     await api.disconnect();
-    console.log('\nDisconnected from Westend network');
+    console.log(`\nDisconnected from ${NETWORK.name}`);
     
   } catch (error) {
     console.error('Error:', error.message);
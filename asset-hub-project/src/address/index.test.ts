@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { dataSlice, getBytes, hexlify, keccak256 } from 'ethers';
+import { accountIdToH160, h160ToAccountId, h160ToSs58, ss58ToH160 } from '.';
+
+const H160 = '0x7c77d685560f02ffb9F9B58245c06e1124502450';
+
+test('pads an H160 with 0xEE bytes and maps it back', () => {
+  const accountId = h160ToAccountId(H160.toLowerCase());
+
+  assert.equal(hexlify(accountId), `${H160.toLowerCase()}${'ee'.repeat(12)}`);
+  assert.equal(accountIdToH160(accountId), H160);
+});
+
+test('maps a native account to the tail of its keccak256 hash', () => {
+  const accountId = getBytes(keccak256('0x01'));
+
+  assert.equal(accountIdToH160(accountId).toLowerCase(), dataSlice(keccak256(accountId), 12));
+});
+
+test('reads a 20-byte account as the H160 itself', () => {
+  assert.equal(accountIdToH160(getBytes(H160)), H160);
+});
+
+test('round-trips an H160 through its SS58 address', () => {
+  const ss58 = h160ToSs58(H160, 42);
+
+  assert.match(ss58, /^5/);
+  assert.equal(ss58ToH160(ss58), H160);
+  assert.throws(() => ss58ToH160('not an address'));
+});
@@ -0,0 +1,49 @@
+import { concat, dataSlice, getAddress, getBytes, hexlify, keccak256 } from 'ethers';
+import { decodeAddress, encodeAddress } from '@polkadot/util-crypto';
+
+// Shared by the asset-hub CLI and the frontend
+
+// pallet-revive maps an H160 to the AccountId32 made of the H160 followed by twelve 0xEE bytes
+const ETH_DERIVED_SUFFIX = new Uint8Array(12).fill(0xee);
+
+/**
+ * Maps a Substrate account ID to the H160 address pallet-revive uses for it.
+ * Ethereum-type accounts (20 bytes) already are that H160, and accounts
+ * derived from an H160 map back to it; every other account maps to the last
+ * 20 bytes of keccak256(accountId).
+ * @param accountId The 32-byte account ID, or the 20 bytes of an ethereum-type account
+ * @returns The checksummed H160 address
+ */
+export const accountIdToH160 = (accountId: Uint8Array): string => {
+  if (accountId.length === 20) {
+    return getAddress(hexlify(accountId));
+  }
+  const isEthDerived = ETH_DERIVED_SUFFIX.every((byte, index) => accountId[20 + index] === byte);
+  const h160 = isEthDerived ? hexlify(accountId.slice(0, 20)) : dataSlice(keccak256(accountId), 12);
+  return getAddress(h160);
+};
+
+/**
+ * Maps an H160 address to the AccountId32 pallet-revive uses for it
+ * @param h160 The H160 address
+ * @returns The 32-byte account ID
+ */
+export const h160ToAccountId = (h160: string): Uint8Array =>
+  getBytes(concat([getAddress(h160), ETH_DERIVED_SUFFIX]));
+
+/**
+ * Encodes the Substrate account of an H160 address
+ * @param h160 The H160 address
+ * @param ss58Prefix The network's SS58 prefix
+ * @returns The SS58 address
+ */
+export const h160ToSs58 = (h160: string, ss58Prefix: number): string =>
+  encodeAddress(h160ToAccountId(h160), ss58Prefix);
+
+/**
+ * Maps an SS58 address to the H160 the contracts see
+ * @param ss58 The SS58 address
+ * @returns The checksummed H160 address
+ * @throws Error if the address is not valid SS58
+ */
+export const ss58ToH160 = (ss58: string): string => accountIdToH160(decodeAddress(ss58));
@@ -0,0 +1,30 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { InterfaceAbi } from 'ethers';
+
+// src/cli and dist/cli sit at the same depth, so this resolves from either
+export const PROJECT_DIR = join(__dirname, '..', '..');
+export const CONTRACTS_DIR = join(PROJECT_DIR, 'contracts');
+
+export interface ContractArtifact {
+  abi: InterfaceAbi;
+  bytecode: string;
+}
+
+/**
+ * Reads a compiled contract's ABI from abis/ and its bytecode from artifacts/
+ * @param contractName Contract name, e.g. NFTMinter
+ * @returns The ABI and 0x-prefixed bytecode
+ * @throws Error if the contract has not been compiled
+ */
+export const readArtifact = (contractName: string): ContractArtifact => {
+  const abiPath = join(PROJECT_DIR, 'abis', `${contractName}.json`);
+  const bytecodePath = join(PROJECT_DIR, 'artifacts', `${contractName}.polkavm`);
+  if (!existsSync(abiPath) || !existsSync(bytecodePath)) {
+    throw new Error(`No compiled ${contractName} in abis/ and artifacts/; run \`asset-hub compile\` first`);
+  }
+  return {
+    abi: JSON.parse(readFileSync(abiPath, 'utf8')),
+    bytecode: `0x${readFileSync(bytecodePath).toString('hex')}`,
+  };
+};
@@ -0,0 +1,58 @@
+import { hexlify, isAddress } from 'ethers';
+import { decodeAddress } from '@polkadot/util-crypto';
+import { ss58ToH160 } from '../../address';
+import { formatNativeAmount, getAccountMapping, getNativeBalance } from '../../substrate';
+import { formatFields } from '../format';
+import { connectSubstrate } from '../substrate';
+import { Command } from '../types';
+
+const MAPPING_LABELS = {
+  'eth-derived': 'Ethereum account, padded with 0xEE bytes',
+  mapped: 'Polkadot account mapped with revive.mapAccount',
+};
+
+export const accountCommand: Command = {
+  path: ['account'],
+  args: '<address>',
+  description: "Show an H160 or SS58 address's mapping under pallet-revive and its native balances",
+  options: {
+    ws: { type: 'string', placeholder: '<url>', description: "Substrate RPC endpoint; overrides the network's" },
+  },
+  run: async (context, { positionals, values }) => {
+    const [input] = positionals;
+    if (!input) {
+      throw new Error('Missing address, e.g. `asset-hub account 0x...` or `asset-hub account 5...`');
+    }
+    const { network } = context;
+    const isH160 = isAddress(input);
+    // An SS58 address is checked before connecting, so a typo fails fast;
+    // an ethereum-type SS58 account is its H160
+    const decoded = isH160 ? null : decodeAddress(input);
+    const accountId = decoded?.length === 32 ? hexlify(decoded) : null;
+    const h160 = isH160 ? input : ss58ToH160(input);
+
+    const api = await connectSubstrate(network, typeof values.ws === 'string' ? values.ws : undefined);
+    try {
+      const mapping = await getAccountMapping(api, network, h160);
+      // A Polkadot account that has not called revive.mapAccount keeps its own balance,
+      // which contracts cannot see through its H160
+      const unmapped = accountId !== null && accountId !== mapping.accountId;
+      const balance = await getNativeBalance(api, accountId ?? mapping.accountId);
+
+      return {
+        data: { network: network.id, ...mapping, unmapped, ...balance },
+        text: formatFields([
+          ['EVM address', mapping.h160],
+          ['Substrate address', unmapped ? input : mapping.ss58],
+          ['Mapping', unmapped ? `not mapped; contracts see ${mapping.h160} as ${mapping.ss58}` : MAPPING_LABELS[mapping.kind]],
+          ['Free', formatNativeAmount(balance.free, balance)],
+          ['Reserved', formatNativeAmount(balance.reserved, balance)],
+          ['Frozen', formatNativeAmount(balance.frozen, balance)],
+          ['Existential deposit', formatNativeAmount(balance.existentialDeposit, balance)],
+        ]),
+      };
+    } finally {
+      await api.disconnect();
+    }
+  },
+};
@@ -0,0 +1,35 @@
+import { readdirSync } from 'node:fs';
+import { basename, join, relative, resolve } from 'node:path';
+import type { WrittenArtifact } from '../../../scripts/compile';
+import { CONTRACTS_DIR, PROJECT_DIR } from '../artifacts';
+import { Command } from '../types';
+
+export const compileCommand: Command = {
+  path: ['compile'],
+  args: '[file.sol...]',
+  description: 'Compile contracts into abis/ and artifacts/ (default: every file in contracts/)',
+  run: async (context, { positionals }) => {
+    // The compiler is large, so it is only loaded by this command
+    const { compileSource, writeArtifacts } = await import('../../../scripts/compile.js');
+    const files = positionals.length > 0
+      ? positionals.map((file) => resolve(file))
+      : readdirSync(CONTRACTS_DIR)
+        .filter((file) => file.endsWith('.sol'))
+        .sort()
+        .map((file) => join(CONTRACTS_DIR, file));
+
+    const written: WrittenArtifact[] = [];
+    for (const file of files) {
+      context.log(`Compiling ${basename(file)}...`);
+      written.push(...writeArtifacts(await compileSource(file), PROJECT_DIR));
+    }
+
+    const lines = written.map(({ name, abiPath, bytecodePath }) =>
+      `${name}: ${relative(PROJECT_DIR, abiPath)}, ${relative(PROJECT_DIR, bytecodePath)}`
+    );
+    if (written.some(({ name }) => name === 'NFTMinter')) {
+      lines.push('', 'NFTMinter changed? Run `npm run generate:bindings` to update the typed clients.');
+    }
+    return { data: written, text: lines.join('\n') };
+  },
+};
@@ -0,0 +1,43 @@
+import { dataLength, isHexString } from 'ethers';
+import { formatRevert, getDefaultDecoder } from '../../decoder';
+import { formatCall, formatFields, formatLogs } from '../format';
+import { Command } from '../types';
+
+export const decodeCommand: Command = {
+  path: ['decode'],
+  args: '<txHash | data>',
+  description: 'Decode a transaction, or raw calldata or revert data, with every ABI in abis/',
+  run: async (context, { positionals }) => {
+    const [input] = positionals;
+    if (!input || !isHexString(input)) {
+      throw new Error(`Expected a transaction hash or 0x-prefixed data, got "${input ?? ''}"`);
+    }
+    const decoder = getDefaultDecoder();
+
+    // Calldata and revert data are a 4-byte selector plus 32-byte words, so never exactly 32 bytes
+    if (dataLength(input) === 32) {
+      const decoded = await decoder.decodeTransaction(await context.getProvider(), input);
+      return {
+        data: decoded,
+        text: [
+          formatFields([
+            ['Status', decoded.status],
+            ['Call', decoded.to === null ? 'contract creation' : formatCall(decoded.call, decoded.data)],
+            ['Revert', decoded.status === 'reverted' ? formatRevert(decoded.revert) : null],
+          ]),
+          ...formatLogs(decoded.logs),
+        ].join('\n'),
+      };
+    }
+
+    const call = decoder.decodeCall(input);
+    if (call) {
+      return { data: { call }, text: `Call: ${formatCall(call, input)}` };
+    }
+    const revert = decoder.decodeRevert(input);
+    if (revert && revert.kind !== 'unknown') {
+      return { data: { revert }, text: `Revert: ${formatRevert(revert)}` };
+    }
+    throw new Error(`No ABI in abis/ matches selector ${input.slice(0, 10)}`);
+  },
+};
@@ -0,0 +1,58 @@
+import { ContractFactory, getCreateAddress } from 'ethers';
+import { formatAmount, sendWithFees } from '../../fees';
+import { saveDeployment } from '../../../scripts/networks';
+import { readArtifact } from '../artifacts';
+import { formatFields } from '../format';
+import { Command } from '../types';
+
+export const deployCommand: Command = {
+  path: ['deploy'],
+  args: '<contract> [constructor args...]',
+  description: 'Deploy a compiled contract and record it in networks.json',
+  options: {
+    'no-record': { type: 'boolean', description: 'Do not record the deployment in networks.json' },
+  },
+  run: async (context, { positionals, values }) => {
+    const [contractName, ...constructorArgs] = positionals;
+    if (!contractName) {
+      throw new Error('Missing contract name, e.g. `asset-hub deploy NFTMinter "My Collection" MYC`');
+    }
+    const { network } = context;
+    const { abi, bytecode } = readArtifact(contractName);
+
+    const signer = await context.getSigner();
+    const factory = new ContractFactory(abi, bytecode, signer);
+    const tx = await factory.getDeployTransaction(...constructorArgs);
+
+    context.log(`Deploying ${contractName} to ${network.name} from ${signer.address}...`);
+    const { response, fee } = await sendWithFees(signer, tx, network);
+    context.log(`Sent ${response.hash} (estimated fee ${formatAmount(fee.expectedCost, network)}), waiting for it to be mined...`);
+
+    const receipt = await response.wait();
+    if (!receipt) {
+      throw new Error(`Deployment ${response.hash} was dropped`);
+    }
+    const deployment = {
+      address: receipt.contractAddress ?? getCreateAddress({ from: response.from, nonce: response.nonce }),
+      deployBlock: receipt.blockNumber,
+    };
+
+    const recorded = !values['no-record'];
+    if (recorded) {
+      saveDeployment(network.id, contractName, deployment);
+    }
+
+    return {
+      data: { contract: contractName, network: network.id, ...deployment, txHash: response.hash, fee: receipt.fee, recorded },
+      text: formatFields([
+        ['Contract', contractName],
+        ['Network', network.name],
+        ['Address', deployment.address],
+        ['Block', deployment.deployBlock],
+        ['Transaction', response.hash],
+        ['Fee', formatAmount(receipt.fee, network)],
+        ['Recorded', recorded ? 'networks.json' : 'no'],
+      ]),
+    };
+  },
+};
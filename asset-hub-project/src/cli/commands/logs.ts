@@ -0,0 +1,71 @@
+import { NFT_MINTER_INTERFACE, parseNFTMinterLog } from '../../../scripts/contracts/NFTMinter';
+import { formatDecodedArgs } from '../../decoder';
+import { parseUint } from '../format';
+import { Command } from '../types';
+
+// Blocks per eth_getLogs call, the same range the frontend uses
+const LOG_CHUNK_SIZE = 10000;
+
+export const logsCommand: Command = {
+  path: ['logs'],
+  args: '',
+  description: 'List NFTMinter events, oldest first',
+  options: {
+    'from-block': { type: 'string', placeholder: '<n>', description: 'First block (default: the deploy block)' },
+    'to-block': { type: 'string', placeholder: '<n>', description: 'Last block (default: latest)' },
+    event: { type: 'string', placeholder: '<name>', description: 'Only this event, e.g. Transfer' },
+    token: { type: 'string', placeholder: '<id>', description: 'Only events about this token' },
+  },
+  run: async (context, { values }) => {
+    const provider = await context.getProvider();
+    const deployment = context.getDeployment('NFTMinter');
+
+    let topics: string[] | undefined;
+    if (typeof values.event === 'string') {
+      const fragment = NFT_MINTER_INTERFACE.getEvent(values.event);
+      if (!fragment) {
+        const names: string[] = [];
+        NFT_MINTER_INTERFACE.forEachEvent((event) => names.push(event.name));
+        throw new Error(`NFTMinter has no event "${values.event}". Events: ${names.join(', ')}`);
+      }
+      topics = [fragment.topicHash];
+    }
+    const tokenId = typeof values.token === 'string' ? parseUint('--token', values.token) : null;
+
+    const fromBlock = typeof values['from-block'] === 'string'
+      ? Number(parseUint('--from-block', values['from-block']))
+      : deployment.deployBlock;
+    const toBlock = typeof values['to-block'] === 'string'
+      ? Number(parseUint('--to-block', values['to-block']))
+      : await provider.getBlockNumber();
+
+    const events = [];
+    for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_SIZE) {
+      const end = Math.min(start + LOG_CHUNK_SIZE - 1, toBlock);
+      if (toBlock - fromBlock >= LOG_CHUNK_SIZE) {
+        context.log(`Scanning blocks ${start}-${end}...`);
+      }
+      const logs = await provider.getLogs({ address: deployment.address, topics, fromBlock: start, toBlock: end });
+      for (const log of logs) {
+        const event = parseNFTMinterLog(log);
+        if (!event) continue;
+        const args: Record<string, unknown> = event.args;
+        if (tokenId !== null && args.tokenId !== tokenId && args._tokenId !== tokenId) continue;
+        events.push({
+          blockNumber: log.blockNumber,
+          txHash: log.transactionHash,
+          logIndex: log.index,
+          name: event.name,
+          args: event.args,
+        });
+      }
+    }
+
+    return {
+      data: events,
+      text: events.length === 0
+        ? `No events in blocks ${fromBlock}-${toBlock}`
+        : events.map((event) => `${event.blockNumber} ${event.txHash} ${event.name}(${formatDecodedArgs(event.args)})`).join('\n'),
+    };
+  },
+};
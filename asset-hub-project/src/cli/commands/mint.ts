@@ -0,0 +1,56 @@
+import { ZeroAddress } from 'ethers';
+import { createNFTMinterClient, parseNFTMinterLog } from '../../../scripts/contracts/NFTMinter';
+import { formatAmount, sendWithFees } from '../../fees';
+import { formatFields } from '../format';
+import { Command } from '../types';
+
+export const mintCommand: Command = {
+  path: ['mint'],
+  args: '<tokenURI>',
+  description: 'Mint an NFT with the given token URI to the signing account',
+  run: async (context, { positionals }) => {
+    const [tokenUri] = positionals;
+    if (!tokenUri) {
+      throw new Error('Missing token URI, e.g. `asset-hub mint ipfs://<cid>`');
+    }
+    const { network } = context;
+    const { address } = context.getDeployment('NFTMinter');
+
+    const signer = await context.getSigner();
+    const contract = createNFTMinterClient(address, signer);
+    const tx = await contract.mintNFT.populateTransaction(tokenUri);
+
+    context.log(`Minting on ${network.name} from ${signer.address}...`);
+    const { response, fee } = await sendWithFees(signer, tx, network);
+    context.log(`Sent ${response.hash} (estimated fee ${formatAmount(fee.expectedCost, network)}), waiting for it to be mined...`);
+
+    const receipt = await response.wait();
+    if (!receipt) {
+      throw new Error(`Mint ${response.hash} was dropped`);
+    }
+    const minted = receipt.logs
+      .map((log) => parseNFTMinterLog(log))
+      .find((event) => event?.name === 'Transfer' && event.args.from === ZeroAddress);
+    const tokenId = minted?.name === 'Transfer' ? minted.args.tokenId : null;
+
+    return {
+      data: {
+        contract: address,
+        tokenId,
+        owner: signer.address,
+        tokenURI: tokenUri,
+        txHash: response.hash,
+        blockNumber: receipt.blockNumber,
+        fee: receipt.fee,
+      },
+      text: formatFields([
+        ['Token ID', tokenId ?? 'unknown (no Transfer event in the receipt)'],
+        ['Owner', signer.address],
+        ['Contract', address],
+        ['Transaction', response.hash],
+        ['Block', receipt.blockNumber],
+        ['Fee', formatAmount(receipt.fee, network)],
+      ]),
+    };
+  },
+};
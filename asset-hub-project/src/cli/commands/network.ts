@@ -0,0 +1,118 @@
+import { JsonRpcProvider } from 'ethers';
+import { formatAmount } from '../../fees';
+import { saveDeployment } from '../../../scripts/networks';
+import { formatFields } from '../format';
+import { Command } from '../types';
+
+export const networkStatusCommand: Command = {
+  path: ['network', 'status'],
+  args: '',
+  description: "Check the RPC endpoint, chain ID, fees and the registry's deployments",
+  run: async (context) => {
+    const { network } = context;
+    const provider = await context.getProvider();
+
+    const [chainId, latestBlock, feeData] = await Promise.all([
+      provider.send('eth_chainId', []).then((value: string) => Number(value)),
+      provider.getBlock('latest'),
+      provider.getFeeData(),
+    ]);
+    const contracts = await Promise.all(
+      Object.entries(network.contracts).map(async ([name, deployment]) => ({
+        name,
+        address: deployment?.address ?? null,
+        deployBlock: deployment?.deployBlock ?? null,
+        hasCode: deployment ? (await provider.getCode(deployment.address)) !== '0x' : false,
+      }))
+    );
+
+    const data = {
+      network: network.id,
+      name: network.name,
+      rpcUrl: context.rpcUrl,
+      chainId,
+      expectedChainId: network.chainId,
+      chainIdMatches: chainId === network.chainId,
+      latestBlock: latestBlock?.number ?? null,
+      latestBlockTime: latestBlock?.timestamp ?? null,
+      gasPrice: feeData.gasPrice,
+      maxFeePerGas: feeData.maxFeePerGas,
+      contracts,
+    };
+
+    const lines = [
+      formatFields([
+        ['Network', `${network.name} (${network.id})`],
+        ['RPC', context.rpcUrl],
+        ['Chain ID', data.chainIdMatches ? chainId : `${chainId} (the registry expects ${network.chainId})`],
+        ['Latest block', latestBlock && `${latestBlock.number} at ${new Date(latestBlock.timestamp * 1000).toISOString()}`],
+        ['Gas price', feeData.gasPrice !== null ? formatAmount(feeData.gasPrice, network) : 'not reported'],
+        ['Faucet', network.faucetUrl],
+      ]),
+    ];
+    if (contracts.length > 0) {
+      lines.push('', 'Contracts:');
+      for (const contract of contracts) {
+        const state = contract.hasCode ? 'deployed' : 'no code at this address';
+        lines.push(`  ${contract.name}: ${contract.address ?? 'not deployed'} (${state})`);
+      }
+    }
+    return { data, text: lines.join('\n') };
+  },
+};
+
+// Bisects the chain for the first block at which the address holds code, in
+// about log2(head) eth_getCode calls; the node must keep historical state
+const findDeployBlock = async (provider: JsonRpcProvider, address: string, head: number): Promise<number> => {
+  if ((await provider.getCode(address, head)) === '0x') {
+    throw new Error(`No contract at ${address} as of block ${head}`);
+  }
+  let low = 0;
+  let high = head;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, middle)) === '0x') {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+export const networkDeployBlockCommand: Command = {
+  path: ['network', 'deploy-block'],
+  args: '<contract>',
+  description: "Find the block a registered contract was deployed in and record it in networks.json",
+  options: {
+    'no-record': { type: 'boolean', description: 'Only print the block; leave networks.json as it is' },
+  },
+  run: async (context, { positionals, values }) => {
+    const [contractName] = positionals;
+    if (!contractName) {
+      throw new Error('Missing contract name, e.g. `asset-hub network deploy-block NFTMinter`');
+    }
+    const { network } = context;
+    const provider = await context.getProvider();
+    const { address, deployBlock: recordedBlock } = context.getDeployment(contractName);
+
+    context.log(`Searching ${network.name} for the block ${address} was deployed in...`);
+    const deployBlock = await findDeployBlock(provider, address, await provider.getBlockNumber());
+
+    const recorded = !values['no-record'];
+    if (recorded) {
+      saveDeployment(network.id, contractName, { address, deployBlock });
+    }
+
+    return {
+      data: { contract: contractName, network: network.id, address, deployBlock, previousDeployBlock: recordedBlock, recorded },
+      text: formatFields([
+        ['Contract', contractName],
+        ['Address', address],
+        ['Deploy block', deployBlock],
+        ['Previously recorded', recordedBlock],
+        ['Recorded', recorded ? 'networks.json' : 'no'],
+      ]),
+    };
+  },
+};
@@ -0,0 +1,27 @@
+import { createNFTMinterClient } from '../../../scripts/contracts/NFTMinter';
+import { parseUint } from '../format';
+import { Command } from '../types';
+
+export const ownerOfCommand: Command = {
+  path: ['owner-of'],
+  args: '<tokenId>',
+  description: 'Print the owner of a token',
+  run: async (context, { positionals }) => {
+    const tokenId = parseUint('tokenId', positionals[0]);
+    const { address } = context.getDeployment('NFTMinter');
+    const owner = await createNFTMinterClient(address, await context.getProvider()).ownerOf(tokenId);
+    return { data: { contract: address, tokenId, owner }, text: owner };
+  },
+};
+
+export const tokenUriCommand: Command = {
+  path: ['token-uri'],
+  args: '<tokenId>',
+  description: 'Print the metadata URI of a token',
+  run: async (context, { positionals }) => {
+    const tokenId = parseUint('tokenId', positionals[0]);
+    const { address } = context.getDeployment('NFTMinter');
+    const tokenUri = await createNFTMinterClient(address, await context.getProvider()).tokenURI(tokenId);
+    return { data: { contract: address, tokenId, tokenURI: tokenUri }, text: tokenUri };
+  },
+};
@@ -0,0 +1,55 @@
+import { isHexString } from 'ethers';
+import { formatAmount } from '../../fees';
+import { formatRevert, getDefaultDecoder } from '../../decoder';
+import { formatCall, formatFields, formatLogs } from '../format';
+import { Command } from '../types';
+
+export const txShowCommand: Command = {
+  path: ['tx', 'show'],
+  args: '<hash>',
+  description: 'Show a transaction with its receipt, decoded call, events and revert reason',
+  run: async (context, { positionals }) => {
+    const [hash] = positionals;
+    if (!hash || !isHexString(hash, 32)) {
+      throw new Error(`Expected a transaction hash, got "${hash ?? ''}"`);
+    }
+    const { network } = context;
+    const provider = await context.getProvider();
+
+    const decoded = await getDefaultDecoder().decodeTransaction(provider, hash);
+    const [tx, receipt, block] = await Promise.all([
+      provider.getTransaction(hash),
+      provider.getTransactionReceipt(hash),
+      decoded.blockNumber === null ? null : provider.getBlock(decoded.blockNumber),
+    ]);
+
+    const data = {
+      ...decoded,
+      timestamp: block?.timestamp ?? null,
+      contractAddress: receipt?.contractAddress ?? null,
+      nonce: tx?.nonce ?? null,
+      gasLimit: tx?.gasLimit ?? null,
+      gasUsed: receipt?.gasUsed ?? null,
+      gasPrice: receipt?.gasPrice ?? tx?.gasPrice ?? null,
+      fee: receipt?.fee ?? null,
+    };
+
+    const lines = [
+      formatFields([
+        ['Hash', decoded.hash],
+        ['Status', decoded.status],
+        ['Block', decoded.blockNumber],
+        ['Time', block && new Date(block.timestamp * 1000).toISOString()],
+        ['From', decoded.from],
+        ['To', decoded.to ?? `(contract creation) ${receipt?.contractAddress ?? ''}`],
+        ['Value', formatAmount(decoded.value, network)],
+        ['Gas used', receipt && tx && `${receipt.gasUsed} of ${tx.gasLimit}`],
+        ['Fee', receipt && formatAmount(receipt.fee, network)],
+        ['Call', decoded.to === null ? 'contract creation' : formatCall(decoded.call, decoded.data)],
+        ['Revert', decoded.status === 'reverted' ? formatRevert(decoded.revert) : null],
+      ]),
+      ...formatLogs(decoded.logs),
+    ];
+    return { data, text: lines.join('\n') };
+  },
+};
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createContext } from './context';
+
+const NFT_MINTER = '0x92fd6660B83F6a37A782A24385A9db5460c1D749';
+const OTHER = '0x1111111111111111111111111111111111111111';
+
+/**
+ * Starts a JSON-RPC node on localhost that answers eth_chainId and
+ * eth_blockNumber, recording every method it is asked for
+ */
+const startNode = async (chainId: number) => {
+  const methods: string[] = [];
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const payload = JSON.parse(body);
+      const answer = ({ id, method }: { id: number; method: string }) => {
+        methods.push(method);
+        const result = method === 'eth_chainId' ? `0x${chainId.toString(16)}` : '0x10';
+        return { jsonrpc: '2.0', id, result };
+      };
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify(Array.isArray(payload) ? payload.map(answer) : answer(payload)));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    methods,
+    stop: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
+
+test('reads deployments from the registry', () => {
+  const context = createContext({ network: 'westend-asset-hub' });
+
+  assert.equal(context.network.chainId, 420420421);
+  assert.equal(context.rpcUrl, 'https://westend-asset-hub-eth-rpc.polkadot.io');
+  assert.equal(context.getDeployment('NFTMinter').address, NFT_MINTER);
+  assert.throws(() => context.getDeployment('Missing'), { message: 'Missing is not deployed on Westend Asset Hub' });
+});
+
+test('prefers --address and --rpc over the registry', () => {
+  const context = createContext({ network: 'westend-asset-hub', rpc: 'http://localhost:8545', address: OTHER });
+
+  assert.equal(context.rpcUrl, 'http://localhost:8545');
+  assert.deepEqual(context.getDeployment('NFTMinter'), { address: OTHER, deployBlock: 0 });
+});
+
+test('rejects a network missing from the registry', () => {
+  assert.throws(() => createContext({ network: 'moonbeam' }), /Unknown network "moonbeam"/);
+});
+
+test('does not contact the node until a command asks for the provider', async () => {
+  const node = await startNode(420420421);
+  try {
+    const context = createContext({ network: 'westend-asset-hub', rpc: node.url });
+    await context.close();
+
+    assert.deepEqual(node.methods, []);
+  } finally {
+    await node.stop();
+  }
+});
+
+test('checks the chain ID of an --rpc node before using it', async () => {
+  const node = await startNode(420420421);
+  try {
+    const context = createContext({ network: 'westend-asset-hub', rpc: node.url });
+    const provider = await context.getProvider();
+
+    assert.equal(await provider.getBlockNumber(), 16);
+    assert.equal(node.methods[0], 'eth_chainId');
+    assert.equal(await context.getProvider(), provider);
+    await context.close();
+  } finally {
+    await node.stop();
+  }
+});
+
+test('refuses an --rpc node on another chain', async () => {
+  const node = await startNode(1);
+  try {
+    const context = createContext({ network: 'westend-asset-hub', rpc: node.url });
+
+    await assert.rejects(context.getProvider(), {
+      message: `${node.url} is on chain 1, but Westend Asset Hub is chain 420420421. Pass the matching --network or another --rpc.`,
+    });
+    await assert.rejects(context.getSigner(), /is on chain 1/);
+    await context.close();
+  } finally {
+    await node.stop();
+  }
+});
@@ -0,0 +1,83 @@
+import { HDNodeWallet, JsonRpcProvider, Network as EthersNetwork, Wallet } from 'ethers';
+import { getContractAddress, getNetwork, Network } from '../../scripts/networks';
+import { loadSigner } from './signer';
+import { CliContext } from './types';
+
+export interface ContextOptions {
+  network?: string;
+  rpc?: string;
+  address?: string;
+  keystore?: string;
+}
+
+/**
+ * Connects to the network's RPC. A node given with --rpc is asked for its
+ * chain ID first, so pointing it at another chain fails before anything is
+ * read or signed there.
+ * @throws Error if the --rpc node is on another chain
+ */
+const connect = async (network: Network, rpcUrl: string, checkChainId: boolean): Promise<JsonRpcProvider> => {
+  // The chain ID comes from the registry, so an unreachable node fails the first
+  // request instead of retrying network detection forever
+  const provider = new JsonRpcProvider(rpcUrl, undefined, {
+    staticNetwork: new EthersNetwork(network.id, network.chainId),
+  });
+  if (!checkChainId) return provider;
+
+  try {
+    const chainId = Number(await provider.send('eth_chainId', []));
+    if (chainId !== network.chainId) {
+      throw new Error(
+        `${rpcUrl} is on chain ${chainId}, but ${network.name} is chain ${network.chainId}. Pass the matching --network or another --rpc.`
+      );
+    }
+    return provider;
+  } catch (error) {
+    provider.destroy();
+    throw error;
+  }
+};
+
+/**
+ * Builds the context commands run in from the global options. Nothing
+ * connects until a command asks for the provider or the signer.
+ * @param options --network, --rpc, --address and --keystore
+ * @returns The context
+ * @throws Error if the network is not in the registry
+ */
+export const createContext = (options: ContextOptions): CliContext => {
+  const network = getNetwork(options.network);
+  const rpcUrl = options.rpc ?? network.rpcUrls[0];
+
+  let provider: Promise<JsonRpcProvider> | undefined;
+  let signer: Promise<Wallet | HDNodeWallet> | undefined;
+
+  const getProvider = () => {
+    provider ??= connect(network, rpcUrl, options.rpc !== undefined);
+    return provider;
+  };
+
+  return {
+    network,
+    rpcUrl,
+    getProvider,
+    log: (message) => console.error(message),
+    getSigner: () => {
+      signer ??= getProvider().then((connected) => loadSigner(connected, options.keystore));
+      return signer;
+    },
+    getDeployment: (contractName) => {
+      if (options.address) {
+        return { address: options.address, deployBlock: 0 };
+      }
+      // Throws with the network name if the contract is not deployed there
+      const address = getContractAddress(network, contractName);
+      return { address, deployBlock: network.contracts[contractName]?.deployBlock ?? 0 };
+    },
+    close: async () => {
+      // A failed connection has already cleaned up after itself
+      const connected = await provider?.catch(() => null);
+      connected?.destroy();
+    },
+  };
+};
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatCall, formatFields, formatLogs, parseUint, toJson } from './format';
+
+test('writes bigints as decimal strings in JSON output', () => {
+  assert.equal(toJson({ tokenId: 12345678901234567890n, name: 'One' }), '{\n  "tokenId": "12345678901234567890",\n  "name": "One"\n}');
+});
+
+test('aligns field values and leaves out missing ones', () => {
+  assert.equal(formatFields([['Network', 'Westend'], ['Token ID', 3n], ['Owner', undefined], ['Approved', null]]), 'Network:  Westend\nToken ID: 3');
+});
+
+test('describes a call by name, or by selector when no ABI matches', () => {
+  const call = { contract: 'NFTMinter', name: 'mintNFT', signature: 'mintNFT(string)', selector: '0xeacabe14', args: { tokenURI: 'ipfs://metadata' } };
+
+  assert.equal(formatCall(call, '0xeacabe14'), 'mintNFT(tokenURI=ipfs://metadata)');
+  assert.equal(formatCall(null, '0xdeadbeef00'), '0xdeadbeef (no ABI matches)');
+  assert.equal(formatCall(null, '0x'), 'none');
+});
+
+test('lists decoded and unknown logs under a heading', () => {
+  const address = '0x1111111111111111111111111111111111111111';
+
+  assert.deepEqual(formatLogs([]), []);
+  assert.deepEqual(formatLogs([
+    { address, topics: [], data: '0x', logIndex: 0, contract: 'NFTMinter', name: 'Transfer', signature: 'Transfer(address,address,uint256)', args: { tokenId: 3n } },
+    { address, topics: ['0x01'], data: '0x', logIndex: null, contract: null, name: null, signature: null, args: null },
+  ]), ['', 'Events:', '  #0 Transfer(tokenId=3)', `  #? unknown event 0x01 from ${address}`]);
+});
+
+test('parses non-negative integers and rejects anything else', () => {
+  assert.equal(parseUint('tokenId', '42'), 42n);
+  assert.throws(() => parseUint('tokenId', '-1'), { message: 'tokenId must be a non-negative integer, got "-1"' });
+  assert.throws(() => parseUint('tokenId', '1.5'), /non-negative integer/);
+  assert.throws(() => parseUint('tokenId', undefined), { message: 'tokenId must be a non-negative integer, got ""' });
+});
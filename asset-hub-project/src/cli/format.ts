@@ -0,0 +1,61 @@
+import { dataSlice } from 'ethers';
+import { formatDecodedArgs } from '../decoder';
+import { DecodedCall, DecodedLog } from '../decoder/types';
+
+/**
+ * Serializes a command result, writing bigints as decimal strings
+ * @param value The result data
+ * @returns Indented JSON
+ */
+export const toJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, item: unknown) => (typeof item === 'bigint' ? item.toString() : item), 2);
+
+/**
+ * Lays out label/value pairs as aligned lines for the human-readable output
+ * @param rows Labels and values; undefined and null values are left out
+ * @returns The lines joined with newlines
+ */
+export const formatFields = (rows: [string, unknown][]): string => {
+  const shown = rows.filter(([, value]) => value !== undefined && value !== null);
+  const width = Math.max(...shown.map(([label]) => label.length));
+  return shown.map(([label, value]) => `${`${label}:`.padEnd(width + 2)}${String(value)}`).join('\n');
+};
+
+/**
+ * Describes a transaction's call on one line
+ * @param call The decoded call, or null if no ABI matched
+ * @param data The raw calldata
+ * @returns e.g. `mintNFT(tokenURI=ipfs://...)`
+ */
+export const formatCall = (call: DecodedCall | null, data: string): string => {
+  if (call) return `${call.name}(${formatDecodedArgs(call.args)})`;
+  return data === '0x' ? 'none' : `${dataSlice(data, 0, 4)} (no ABI matches)`;
+};
+
+/**
+ * Lists decoded logs under an "Events:" heading
+ * @param logs The logs
+ * @returns The lines, or none if there are no logs
+ */
+export const formatLogs = (logs: DecodedLog[]): string[] =>
+  logs.length === 0
+    ? []
+    : ['', 'Events:', ...logs.map((log) =>
+      log.name && log.args
+        ? `  #${log.logIndex ?? '?'} ${log.name}(${formatDecodedArgs(log.args)})`
+        : `  #${log.logIndex ?? '?'} unknown event ${log.topics[0] ?? ''} from ${log.address}`
+    )];
+
+/**
+ * Parses a non-negative integer argument
+ * @param name Argument name used in the error message
+ * @param value The raw argument
+ * @returns The value as a bigint
+ * @throws Error if the value is not a non-negative integer
+ */
+export const parseUint = (name: string, value: string | undefined): bigint => {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    throw new Error(`${name} must be a non-negative integer, got "${value ?? ''}"`);
+  }
+  return BigInt(value);
+};
@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+import { parseArgs, ParseArgsConfig } from 'node:util';
+import { DEFAULT_NETWORK } from '../../scripts/networks';
+import { formatRevert, getDefaultDecoder, getRevertData } from '../decoder';
+import { accountCommand } from './commands/account';
+import { compileCommand } from './commands/compile';
+import { decodeCommand } from './commands/decode';
+import { deployCommand } from './commands/deploy';
+import { logsCommand } from './commands/logs';
+import { mintCommand } from './commands/mint';
+import { networkDeployBlockCommand, networkStatusCommand } from './commands/network';
+import { ownerOfCommand, tokenUriCommand } from './commands/token';
+import { txShowCommand } from './commands/tx';
+import { createContext } from './context';
+import { toJson } from './format';
+import { Command, CommandInput, CommandOption } from './types';
+
+const COMMANDS: Command[] = [
+  compileCommand,
+  deployCommand,
+  mintCommand,
+  ownerOfCommand,
+  tokenUriCommand,
+  txShowCommand,
+  decodeCommand,
+  logsCommand,
+  networkStatusCommand,
+  networkDeployBlockCommand,
+  accountCommand,
+];
+
+const GLOBAL_OPTIONS: Record<string, CommandOption> = {
+  network: {
+    type: 'string',
+    placeholder: '<id>',
+    description: `Network from networks.json (default: ASSET_HUB_NETWORK or ${DEFAULT_NETWORK})`,
+  },
+  rpc: { type: 'string', placeholder: '<url>', description: "RPC endpoint; overrides the network's, e.g. a local dev node" },
+  address: { type: 'string', placeholder: '<address>', description: "NFTMinter address; overrides the network's deployment" },
+  keystore: {
+    type: 'string',
+    placeholder: '<file>',
+    description: 'Encrypted JSON keystore of the signing account (default: ASSET_HUB_KEYSTORE)',
+  },
+  json: { type: 'boolean', description: 'Print the result as JSON' },
+  help: { type: 'boolean', description: 'Show help' },
+};
+
+const ENVIRONMENT = `Environment:
+  ASSET_HUB_NETWORK            Default network
+  ASSET_HUB_MNEMONIC           Signing account, as a mnemonic
+  ASSET_HUB_PRIVATE_KEY        Signing account, as a private key
+  ASSET_HUB_KEYSTORE           Encrypted JSON keystore of the signing account
+  ASSET_HUB_KEYSTORE_PASSWORD  Keystore password; prompted for if unset`;
+
+const formatOptions = (options: Record<string, CommandOption>): string[] => {
+  const rows = Object.entries(options).map(([name, option]) =>
+    [`--${name}${option.placeholder ? ` ${option.placeholder}` : ''}`, option.description]
+  );
+  const width = Math.max(...rows.map(([flag]) => flag.length));
+  return rows.map(([flag, description]) => `  ${flag.padEnd(width + 2)}${description}`);
+};
+
+const formatUsage = (command: Command) =>
+  ['asset-hub', ...command.path, command.args].filter(Boolean).join(' ');
+
+const formatHelp = (): string => {
+  const width = Math.max(...COMMANDS.map((command) => formatUsage(command).length));
+  return [
+    'Usage: asset-hub <command> [options]',
+    '',
+    'Commands:',
+    ...COMMANDS.map((command) => `  ${formatUsage(command).padEnd(width + 2)}${command.description}`),
+    '',
+    'Options:',
+    ...formatOptions(GLOBAL_OPTIONS),
+    '',
+    ENVIRONMENT,
+    '',
+    'Run `asset-hub <command> --help` for the options of a command.',
+  ].join('\n');
+};
+
+const formatCommandHelp = (command: Command): string =>
+  [
+    `Usage: ${formatUsage(command)} [options]`,
+    '',
+    command.description,
+    '',
+    'Options:',
+    ...formatOptions({ ...command.options, ...GLOBAL_OPTIONS }),
+  ].join('\n');
+
+const toParseArgsOptions = (options: Record<string, CommandOption>): ParseArgsConfig['options'] =>
+  Object.fromEntries(Object.entries(options).map(([name, option]) => [name, { type: option.type }]));
+
+// Picks the command whose words start the positional arguments, preferring the longest match
+const findCommand = (positionals: string[]): Command | undefined =>
+  COMMANDS
+    .filter((command) => command.path.every((word, index) => positionals[index] === word))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+
+// Reverts are described by their decoded reason rather than as raw data
+const describeError = (error: unknown): string => {
+  const revertData = getRevertData(error);
+  if (revertData) {
+    return `Reverted: ${formatRevert(getDefaultDecoder().decodeRevert(revertData))}`;
+  }
+  if (error instanceof Error && 'shortMessage' in error) {
+    return String(error.shortMessage);
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+const main = async (argv: string[]) => {
+  // A first lenient pass finds the command, whose own options are then parsed strictly
+  const allOptions = Object.assign({}, GLOBAL_OPTIONS, ...COMMANDS.map((command) => command.options));
+  const { positionals: words } = parseArgs({
+    args: argv,
+    options: toParseArgsOptions(allOptions),
+    allowPositionals: true,
+    strict: false,
+  });
+  const command = findCommand(words);
+
+  if (!command) {
+    if (words.length > 0) {
+      throw new Error(`Unknown command "${words.join(' ')}"\n\n${formatHelp()}`);
+    }
+    console.log(formatHelp());
+    return;
+  }
+
+  const parsed = parseArgs({
+    args: argv,
+    options: toParseArgsOptions({ ...command.options, ...GLOBAL_OPTIONS }),
+    allowPositionals: true,
+  });
+  const values: CommandInput['values'] = parsed.values;
+  const stringValue = (name: string) => (typeof values[name] === 'string' ? values[name] : undefined);
+  if (values.help) {
+    console.log(formatCommandHelp(command));
+    return;
+  }
+
+  const context = createContext({
+    network: stringValue('network'),
+    rpc: stringValue('rpc'),
+    address: stringValue('address'),
+    keystore: stringValue('keystore'),
+  });
+  try {
+    const result = await command.run(context, { positionals: parsed.positionals.slice(command.path.length), values });
+    console.log(values.json ? toJson(result.data) : result.text);
+  } finally {
+    await context.close();
+  }
+};
+
+main(process.argv.slice(2)).catch((error) => {
+  const message = describeError(error);
+  if (process.argv.includes('--json')) {
+    console.log(toJson({ error: message }));
+  } else {
+    console.error(`Error: ${message}`);
+  }
+  process.exitCode = 1;
+});
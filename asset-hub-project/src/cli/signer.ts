@@ -0,0 +1,78 @@
+import { readFileSync } from 'node:fs';
+import { HDNodeWallet, Provider, Wallet } from 'ethers';
+
+/**
+ * Reads a line from the terminal without echoing it
+ * @param question Prompt written to stderr
+ * @returns The line entered
+ * @throws Error if stdin is not a terminal or the prompt is cancelled
+ */
+const promptHidden = (question: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const { stdin, stderr } = process;
+    if (!stdin.isTTY) {
+      reject(new Error('Cannot prompt for the keystore password; set ASSET_HUB_KEYSTORE_PASSWORD'));
+      return;
+    }
+
+    let input = '';
+    const finish = () => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stderr.write('\n');
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          finish();
+          resolve(input);
+          return;
+        }
+        if (char === '\u0003') {
+          finish();
+          reject(new Error('Cancelled'));
+          return;
+        }
+        input = char === '\u007f' || char === '\b' ? input.slice(0, -1) : input + char;
+      }
+    };
+
+    stderr.write(question);
+    stdin.setEncoding('utf8');
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('data', onData);
+  });
+
+/**
+ * Loads the account that signs transactions. An encrypted JSON keystore
+ * (--keystore or ASSET_HUB_KEYSTORE) takes precedence, decrypted with
+ * ASSET_HUB_KEYSTORE_PASSWORD or a password prompt; otherwise
+ * ASSET_HUB_MNEMONIC or ASSET_HUB_PRIVATE_KEY is used.
+ * @param provider Provider the wallet is connected to
+ * @param keystorePath Keystore file given on the command line, if any
+ * @returns The connected wallet
+ * @throws Error if no credentials are configured or the keystore cannot be decrypted
+ */
+export const loadSigner = async (provider: Provider, keystorePath?: string): Promise<Wallet | HDNodeWallet> => {
+  const keystore = keystorePath ?? process.env.ASSET_HUB_KEYSTORE;
+  if (keystore) {
+    const json = readFileSync(keystore, 'utf8');
+    const password = process.env.ASSET_HUB_KEYSTORE_PASSWORD ?? await promptHidden(`Password for ${keystore}: `);
+    const wallet = await Wallet.fromEncryptedJson(json, password);
+    return wallet.connect(provider);
+  }
+
+  const mnemonic = process.env.ASSET_HUB_MNEMONIC?.trim();
+  if (mnemonic) {
+    return Wallet.fromPhrase(mnemonic, provider);
+  }
+
+  const privateKey = process.env.ASSET_HUB_PRIVATE_KEY?.trim();
+  if (privateKey) {
+    return new Wallet(privateKey, provider);
+  }
+
+  throw new Error('No signing account: pass --keystore <file>, or set ASSET_HUB_MNEMONIC or ASSET_HUB_PRIVATE_KEY');
+};
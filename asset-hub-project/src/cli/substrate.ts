@@ -0,0 +1,25 @@
+import type { ApiPromise } from '@polkadot/api';
+import { Network } from '../../scripts/networks';
+
+/**
+ * Connects to a network's Substrate RPC (not its eth-rpc)
+ * @param network The network, with substrateRpcUrls
+ * @param url Endpoint to use instead of the network's
+ * @returns The ready API
+ * @throws Error if no endpoint is configured or none of them answers
+ */
+export const connectSubstrate = async (network: Network, url?: string): Promise<ApiPromise> => {
+  const urls = url ? [url] : network.substrateRpcUrls ?? [];
+  if (urls.length === 0) {
+    throw new Error(`No Substrate RPC is configured for ${network.name}; pass --ws <url>`);
+  }
+  // Loaded on demand so commands that only use the eth-rpc do not pay for it
+  const { ApiPromise, WsProvider } = require('@polkadot/api') as typeof import('@polkadot/api');
+  const provider = new WsProvider(urls);
+  try {
+    return await ApiPromise.create({ provider, throwOnConnect: true, noInitWarn: true });
+  } catch (error) {
+    await provider.disconnect();
+    throw error;
+  }
+};
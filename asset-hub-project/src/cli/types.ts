@@ -0,0 +1,50 @@
+import { HDNodeWallet, JsonRpcProvider, Wallet } from 'ethers';
+import { ContractDeployment, Network } from '../../scripts/networks';
+
+export interface CliContext {
+  network: Network;
+  /** The node commands talk to, from --rpc or the network's first RPC URL */
+  rpcUrl: string;
+  /** Connects on first use, so commands that stay offline never reach the node */
+  getProvider: () => Promise<JsonRpcProvider>;
+  /** Progress messages; written to stderr so --json output stays parseable */
+  log: (message: string) => void;
+  /** Loads the signing account; only commands that send transactions call it */
+  getSigner: () => Promise<Wallet | HDNodeWallet>;
+  /**
+   * A contract's deployment on the network; --address overrides it, and then
+   * the deploy block is unknown and reported as 0
+   */
+  getDeployment: (contractName: string) => ContractDeployment;
+  /** Disconnects from the node if a command connected */
+  close: () => Promise<void>;
+}
+
+export interface CommandOption {
+  type: 'string' | 'boolean';
+  description: string;
+  /** Shown in help after a string option, e.g. "<n>" */
+  placeholder?: string;
+}
+
+export interface CommandInput {
+  positionals: string[];
+  values: Record<string, string | boolean | undefined>;
+}
+
+export interface CommandResult {
+  /** Printed with --json */
+  data: unknown;
+  /** Printed otherwise */
+  text: string;
+}
+
+export interface Command {
+  /** Words that select the command, e.g. ['tx', 'show'] */
+  path: string[];
+  /** Positional arguments as shown in help, e.g. "<hash>" */
+  args: string;
+  description: string;
+  options?: Record<string, CommandOption>;
+  run: (context: CliContext, input: CommandInput) => Promise<CommandResult>;
+}
@@ -0,0 +1,225 @@
+import {
+  AbiCoder,
+  dataLength,
+  dataSlice,
+  ErrorFragment,
+  EventFragment,
+  FunctionFragment,
+  Interface,
+  InterfaceAbi,
+  isError,
+  ParamType,
+  Provider,
+  Result,
+} from 'ethers';
+import { DecodedArgs, DecodedCall, DecodedLog, DecodedRevert, DecodedTransaction } from './types';
+
+// Shared with the frontend, so nothing here may depend on Node; index.ts adds
+// the ABIs read from disk
+
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+// https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_REASONS: Record<number, string> = {
+  0x00: 'Generic compiler panic',
+  0x01: 'Assertion failed',
+  0x11: 'Arithmetic overflow or underflow',
+  0x12: 'Division or modulo by zero',
+  0x21: 'Invalid enum value',
+  0x22: 'Incorrectly encoded storage byte array',
+  0x31: 'pop() on an empty array',
+  0x32: 'Array index out of bounds',
+  0x41: 'Out of memory',
+  0x51: 'Call to an uninitialized function',
+};
+
+interface Entry<T> {
+  contract: string;
+  iface: Interface;
+  fragment: T;
+}
+
+export interface AbiDecoder {
+  decodeCall: (data: string) => DecodedCall | null;
+  decodeLog: (log: { address: string; topics: ReadonlyArray<string>; data: string; index?: number }) => DecodedLog;
+  decodeRevert: (data: string) => DecodedRevert | null;
+  /** Fetches a transaction and decodes its call, logs and, if it reverted, the reason */
+  decodeTransaction: (provider: Provider, hash: string) => Promise<DecodedTransaction>;
+}
+
+const toPlain = (value: unknown): unknown =>
+  value instanceof Result ? value.toArray().map(toPlain) : value;
+
+const toArgs = (inputs: ReadonlyArray<ParamType>, values: Result): DecodedArgs =>
+  Object.fromEntries(inputs.map((input, index) => [input.name || String(index), toPlain(values[index])]));
+
+/**
+ * Extracts the revert data from a failed call or gas estimate
+ * @param error The error thrown by ethers
+ * @returns The revert data, or null if the error is not a revert or carries none
+ */
+export const getRevertData = (error: unknown): string | null =>
+  isError(error, 'CALL_EXCEPTION') && typeof error.data === 'string' ? error.data : null;
+
+/**
+ * Formats decoded arguments on one line, e.g. "to=0x12…, tokenId=3"
+ * @param args Arguments keyed by name
+ * @returns The formatted arguments
+ */
+export const formatDecodedArgs = (args: DecodedArgs): string =>
+  Object.entries(args).map(([name, value]) => `${name}=${String(value)}`).join(', ');
+
+/**
+ * Describes a revert in one line
+ * @param revert The decoded revert, or null when there was no revert data
+ * @returns e.g. `ERC721NonexistentToken(tokenId=9)` or `Panic 0x11: Arithmetic overflow or underflow`
+ */
+export const formatRevert = (revert: DecodedRevert | null): string => {
+  if (!revert) return 'No reason given';
+  switch (revert.kind) {
+    case 'error':
+      return `Error: ${revert.reason}`;
+    case 'panic':
+      return `Panic 0x${revert.code.toString(16).padStart(2, '0')}: ${revert.reason}`;
+    case 'custom':
+      return `${revert.name}(${formatDecodedArgs(revert.args)})`;
+    case 'unknown':
+      return `Unknown error ${revert.selector}`;
+  }
+};
+
+/**
+ * Creates a decoder for calls, logs and reverts of the given contracts
+ * @param abis ABIs keyed by contract name
+ * @returns The decoder
+ */
+export const createAbiDecoder = (abis: Record<string, InterfaceAbi>): AbiDecoder => {
+  const functions = new Map<string, Entry<FunctionFragment>>();
+  const events = new Map<string, Entry<EventFragment>[]>();
+  const errors = new Map<string, Entry<ErrorFragment>>();
+
+  // Larger ABIs first, so a signature shared by several contracts is attributed
+  // to the most complete one, e.g. NFTMinter rather than IERC721
+  const interfaces = Object.entries(abis)
+    .map(([contract, abi]) => ({ contract, iface: new Interface(abi) }))
+    .sort((a, b) => b.iface.fragments.length - a.iface.fragments.length);
+
+  for (const { contract, iface } of interfaces) {
+    iface.forEachFunction((fragment) => {
+      if (!functions.has(fragment.selector)) functions.set(fragment.selector, { contract, iface, fragment });
+    });
+    // ERC-20 and ERC-721 Transfer share a topic and differ only in which
+    // parameters are indexed, so every candidate is kept
+    iface.forEachEvent((fragment) => {
+      events.set(fragment.topicHash, [...(events.get(fragment.topicHash) ?? []), { contract, iface, fragment }]);
+    });
+    iface.forEachError((fragment) => {
+      if (!errors.has(fragment.selector)) errors.set(fragment.selector, { contract, iface, fragment });
+    });
+  }
+
+  const decodeCall = (data: string): DecodedCall | null => {
+    if (dataLength(data) < 4) return null;
+    const entry = functions.get(dataSlice(data, 0, 4));
+    if (!entry) return null;
+    try {
+      const { contract, iface, fragment } = entry;
+      return {
+        contract,
+        name: fragment.name,
+        signature: fragment.format('sighash'),
+        selector: fragment.selector,
+        args: toArgs(fragment.inputs, iface.decodeFunctionData(fragment, data)),
+      };
+    } catch {
+      return null;
+    }
+  };
+
+  const decodeLog: AbiDecoder['decodeLog'] = (log) => {
+    const raw = { address: log.address, logIndex: log.index ?? null, topics: [...log.topics], data: log.data };
+    for (const { contract, iface, fragment } of events.get(log.topics[0] ?? '') ?? []) {
+      try {
+        const values = iface.decodeEventLog(fragment, log.data, log.topics);
+        return { ...raw, contract, name: fragment.name, signature: fragment.format('sighash'), args: toArgs(fragment.inputs, values) };
+      } catch {
+        // Try the next candidate with the same topic
+      }
+    }
+    return { ...raw, contract: null, name: null, signature: null, args: null };
+  };
+
+  const decodeRevert = (data: string): DecodedRevert | null => {
+    if (dataLength(data) < 4) return null;
+    const selector = dataSlice(data, 0, 4);
+    try {
+      if (selector === ERROR_STRING_SELECTOR) {
+        const [reason] = AbiCoder.defaultAbiCoder().decode(['string'], dataSlice(data, 4));
+        return { kind: 'error', reason };
+      }
+      if (selector === PANIC_SELECTOR) {
+        const [code] = AbiCoder.defaultAbiCoder().decode(['uint256'], dataSlice(data, 4));
+        const number = Number(code);
+        return { kind: 'panic', code: number, reason: PANIC_REASONS[number] ?? 'Unknown panic code' };
+      }
+      const entry = errors.get(selector);
+      if (entry) {
+        const { contract, iface, fragment } = entry;
+        return {
+          kind: 'custom',
+          contract,
+          name: fragment.name,
+          signature: fragment.format('sighash'),
+          args: toArgs(fragment.inputs, iface.decodeErrorResult(fragment, data)),
+        };
+      }
+    } catch {
+      // Malformed arguments; fall through to the raw data
+    }
+    return { kind: 'unknown', selector, data };
+  };
+
+  const decodeTransaction = async (provider: Provider, hash: string): Promise<DecodedTransaction> => {
+    const [tx, receipt] = await Promise.all([provider.getTransaction(hash), provider.getTransactionReceipt(hash)]);
+    if (!tx) {
+      throw new Error(`Transaction ${hash} not found`);
+    }
+
+    let revert: DecodedRevert | null = null;
+    if (receipt?.status === 0) {
+      // Revert reasons are not stored on chain, so the call is replayed on the
+      // state before its block. That matches the original unless an earlier
+      // transaction in the same block changed the state it depends on.
+      try {
+        await provider.call({
+          from: tx.from,
+          to: tx.to,
+          data: tx.data,
+          value: tx.value,
+          gasLimit: tx.gasLimit,
+          blockTag: receipt.blockNumber - 1,
+        });
+      } catch (error) {
+        const data = getRevertData(error);
+        revert = data ? decodeRevert(data) : null;
+      }
+    }
+
+    return {
+      hash: tx.hash,
+      status: receipt === null ? 'pending' : receipt.status === 1 ? 'success' : 'reverted',
+      blockNumber: tx.blockNumber,
+      from: tx.from,
+      to: tx.to,
+      value: tx.value,
+      data: tx.data,
+      // Contract creations carry bytecode, not calldata
+      call: tx.to === null ? null : decodeCall(tx.data),
+      logs: receipt?.logs.map(decodeLog) ?? [],
+      revert,
+    };
+  };
+
+  return { decodeCall, decodeLog, decodeRevert, decodeTransaction };
+};
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AbiCoder, concat, Interface, makeError, ZeroAddress } from 'ethers';
+import { formatRevert, getDefaultDecoder, getRevertData, loadAbis } from '.';
+
+const NFT_MINTER = new Interface(loadAbis().NFTMinter);
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+test('decodes a call with the ABI that defines it', () => {
+  const call = getDefaultDecoder().decodeCall(NFT_MINTER.encodeFunctionData('mintNFT', ['ipfs://metadata']));
+
+  assert.deepEqual(call, {
+    contract: 'NFTMinter',
+    name: 'mintNFT',
+    signature: 'mintNFT(string)',
+    selector: NFT_MINTER.getFunction('mintNFT')!.selector,
+    args: { tokenURI: 'ipfs://metadata' },
+  });
+  assert.equal(getDefaultDecoder().decodeCall('0xdeadbeef'), null);
+});
+
+test('decodes an ERC-721 Transfer and leaves unknown logs raw', () => {
+  const { topics, data } = NFT_MINTER.encodeEventLog('Transfer', [ZeroAddress, RECIPIENT, 7n]);
+
+  const transfer = getDefaultDecoder().decodeLog({ address: RECIPIENT, topics, data, index: 2 });
+  assert.equal(transfer.name, 'Transfer');
+  assert.equal(transfer.logIndex, 2);
+  assert.deepEqual(transfer.args, { from: ZeroAddress, to: RECIPIENT, tokenId: 7n });
+
+  const unknown = getDefaultDecoder().decodeLog({ address: RECIPIENT, topics: [], data: '0x' });
+  assert.equal(unknown.name, null);
+  assert.equal(unknown.logIndex, null);
+});
+
+test('decodes reason strings, panics and custom errors', () => {
+  const decoder = getDefaultDecoder();
+  const coder = AbiCoder.defaultAbiCoder();
+
+  assert.equal(formatRevert(decoder.decodeRevert(concat(['0x08c379a0', coder.encode(['string'], ['Not allowed'])]))), 'Error: Not allowed');
+  assert.equal(formatRevert(decoder.decodeRevert(concat(['0x4e487b71', coder.encode(['uint256'], [0x12])]))), 'Panic 0x12: Division or modulo by zero');
+  assert.equal(formatRevert(decoder.decodeRevert(NFT_MINTER.encodeErrorResult('ERC721NonexistentToken', [9n]))), 'ERC721NonexistentToken(tokenId=9)');
+  assert.equal(formatRevert(decoder.decodeRevert('0x12345678')), 'Unknown error 0x12345678');
+  assert.equal(formatRevert(null), 'No reason given');
+});
+
+test('reads revert data only from call exceptions', () => {
+  const data = NFT_MINTER.encodeErrorResult('ERC721NonexistentToken', [9n]);
+  const error = makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data,
+    reason: null,
+    transaction: { to: null, data: '0x' },
+    invocation: null,
+    revert: null,
+  });
+
+  assert.equal(getRevertData(error), data);
+  assert.equal(getRevertData(new Error('execution reverted')), null);
+});
@@ -0,0 +1,31 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { InterfaceAbi } from 'ethers';
+import { AbiDecoder, createAbiDecoder } from './core';
+
+export * from './core';
+
+export const ABIS_DIR = join(__dirname, '..', '..', 'abis');
+
+/**
+ * Reads every ABI in a directory, keyed by contract name
+ * @param dir Directory of <Contract>.json ABI files (default: asset-hub-project/abis)
+ * @returns The ABIs
+ */
+export const loadAbis = (dir = ABIS_DIR): Record<string, InterfaceAbi> =>
+  Object.fromEntries(
+    readdirSync(dir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => [basename(file, '.json'), JSON.parse(readFileSync(join(dir, file), 'utf8'))])
+  );
+
+let defaultDecoder: AbiDecoder | undefined;
+
+/**
+ * Returns a decoder for every ABI in asset-hub-project/abis, created on first use
+ * @returns The shared decoder
+ */
+export const getDefaultDecoder = (): AbiDecoder => {
+  defaultDecoder ??= createAbiDecoder(loadAbis());
+  return defaultDecoder;
+};
@@ -0,0 +1,50 @@
+/** Decoded arguments keyed by parameter name, or by position for unnamed ones */
+export type DecodedArgs = Record<string, unknown>;
+
+export interface DecodedCall {
+  /** The ABI the function was found in */
+  contract: string;
+  name: string;
+  /** e.g. mintNFT(string) */
+  signature: string;
+  selector: string;
+  args: DecodedArgs;
+}
+
+/** A log; contract, name, signature and args are null when no ABI describes it */
+export interface DecodedLog {
+  address: string;
+  logIndex: number | null;
+  contract: string | null;
+  name: string | null;
+  signature: string | null;
+  args: DecodedArgs | null;
+  topics: string[];
+  data: string;
+}
+
+export type DecodedRevert =
+  /** require(condition, "message") and revert("message") */
+  | { kind: 'error'; reason: string }
+  /** assert, overflow, division by zero and other compiler checks */
+  | { kind: 'panic'; code: number; reason: string }
+  /** A custom error from one of the ABIs, e.g. ERC721NonexistentToken */
+  | { kind: 'custom'; contract: string; name: string; signature: string; args: DecodedArgs }
+  /** Revert data no ABI describes */
+  | { kind: 'unknown'; selector: string; data: string };
+
+export interface DecodedTransaction {
+  hash: string;
+  status: 'pending' | 'success' | 'reverted';
+  blockNumber: number | null;
+  from: string;
+  to: string | null;
+  value: bigint;
+  /** Raw calldata, or bytecode for contract creations */
+  data: string;
+  /** null for plain transfers and calldata no ABI describes */
+  call: DecodedCall | null;
+  logs: DecodedLog[];
+  /** Why a reverted transaction failed, or null if it did not or the reason is unknown */
+  revert: DecodedRevert | null;
+}
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FeeData, parseUnits, Provider } from 'ethers';
+import { checkBalance, estimateFee, getFeePolicy, InsufficientFundsError } from '.';
+import { FeeNetwork } from './types';
+
+const network: FeeNetwork = {
+  name: 'Testnet',
+  nativeCurrency: { symbol: 'TST', decimals: 18 },
+  faucetUrl: 'https://faucet.example.com',
+  feePolicy: { gasLimitBufferPercent: 50 },
+};
+
+// A node that reports the given fee data and holds the given balance for every account
+const createProvider = (feeData: Partial<FeeData>, balance = 0n) => ({
+  getFeeData: async () => ({ gasPrice: null, maxFeePerGas: null, maxPriorityFeePerGas: null, ...feeData }),
+  getBalance: async () => balance,
+}) as unknown as Provider;
+
+test('fills the gaps of a network fee policy with the defaults', () => {
+  assert.deepEqual(getFeePolicy(network), { gasLimitBufferPercent: 50, gasPriceBufferPercent: 10 });
+});
+
+test('buffers the gas limit and legacy gas price', async () => {
+  const gasPrice = parseUnits('1', 'gwei');
+  const fee = await estimateFee(createProvider({ gasPrice }), 100_000n, network);
+
+  assert.equal(fee.expectedCost, 100_000n * gasPrice);
+  assert.deepEqual(fee.overrides, { gasLimit: 150_000n, gasPrice: parseUnits('1.1', 'gwei') });
+  assert.equal(fee.maxCost, 150_000n * parseUnits('1.1', 'gwei'));
+});
+
+test('buffers the max fee of EIP-1559 networks', async () => {
+  const fee = await estimateFee(
+    createProvider({ gasPrice: parseUnits('1', 'gwei'), maxFeePerGas: parseUnits('2', 'gwei'), maxPriorityFeePerGas: 1n }),
+    100_000n,
+    network
+  );
+
+  assert.deepEqual(fee.overrides, { gasLimit: 150_000n, maxFeePerGas: parseUnits('2.2', 'gwei'), maxPriorityFeePerGas: 1n });
+  assert.equal(fee.maxCost, 150_000n * parseUnits('2.2', 'gwei'));
+});
+
+test('rejects a node that reports no gas price', async () => {
+  await assert.rejects(estimateFee(createProvider({}), 21_000n, network), /Testnet did not report a gas price/);
+});
+
+test('reports the shortfall of an account that cannot pay the maximum cost', async () => {
+  const fee = await estimateFee(createProvider({ gasPrice: 10n }), 100n, network);
+  const check = await checkBalance(createProvider({}, 1000n), '0x1111111111111111111111111111111111111111', fee);
+
+  assert.deepEqual(check, { balance: 1000n, required: 1650n, sufficient: false, shortfall: 650n });
+  assert.equal(
+    new InsufficientFundsError(check, network).message,
+    'Insufficient TST: this needs up to 0.00000000000000165 TST but the account holds 0.000000000000001 TST.'
+    + ' Get test tokens from https://faucet.example.com'
+  );
+});
@@ -0,0 +1,131 @@
+import { formatUnits, Provider, Signer, TransactionRequest, TransactionResponse } from 'ethers';
+import { BalanceCheck, FeeEstimate, FeeNetwork, FeePolicy, TxFeeOverrides } from './types';
+
+// Shared by the asset-hub CLI and the frontend; both read feePolicy from networks.json
+
+// Used for any field a network's feePolicy leaves out
+export const DEFAULT_FEE_POLICY: FeePolicy = {
+  gasLimitBufferPercent: 20,
+  gasPriceBufferPercent: 10,
+};
+
+/** The sender cannot cover the maximum cost of a transaction */
+export class InsufficientFundsError extends Error {
+  readonly check: BalanceCheck;
+
+  constructor(check: BalanceCheck, network: FeeNetwork) {
+    const faucet = network.faucetUrl ? ` Get test tokens from ${network.faucetUrl}` : '';
+    super(
+      `Insufficient ${network.nativeCurrency.symbol}: this needs up to ${formatAmount(check.required, network)}`
+      + ` but the account holds ${formatAmount(check.balance, network)}.${faucet}`
+    );
+    this.name = 'InsufficientFundsError';
+    this.check = check;
+  }
+}
+
+const applyBuffer = (value: bigint, percent: number): bigint =>
+  (value * BigInt(100 + Math.round(percent))) / 100n;
+
+/**
+ * Returns the fee policy for a network, filling gaps with the defaults
+ * @param network The network
+ * @returns The complete policy
+ */
+export const getFeePolicy = (network: FeeNetwork): FeePolicy => ({
+  ...DEFAULT_FEE_POLICY,
+  ...network.feePolicy,
+});
+
+/**
+ * Formats an amount of the network's native currency
+ * @param value The amount in the smallest unit
+ * @param network The network whose currency to use
+ * @returns The amount with its symbol, e.g. "0.0123 WND"
+ */
+export const formatAmount = (value: bigint, network: FeeNetwork): string =>
+  `${formatUnits(value, network.nativeCurrency.decimals)} ${network.nativeCurrency.symbol}`;
+
+/**
+ * Prices a gas estimate with the node's current fee data and the network's
+ * fee policy
+ * @param provider Provider for the network
+ * @param gas The node's gas estimate for the transaction
+ * @param network The network, for its fee policy
+ * @returns The expected and maximum cost, and the overrides to send with
+ * @throws Error if the node reports no gas price
+ */
+export const estimateFee = async (provider: Provider, gas: bigint, network: FeeNetwork): Promise<FeeEstimate> => {
+  const policy = getFeePolicy(network);
+  const feeData = await provider.getFeeData();
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas;
+  if (gasPrice === null) {
+    throw new Error(`${network.name} did not report a gas price`);
+  }
+
+  const gasLimit = applyBuffer(gas, policy.gasLimitBufferPercent);
+  const overrides: TxFeeOverrides = feeData.maxFeePerGas !== null
+    ? {
+      gasLimit,
+      maxFeePerGas: applyBuffer(feeData.maxFeePerGas, policy.gasPriceBufferPercent),
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? 0n,
+    }
+    : { gasLimit, gasPrice: applyBuffer(gasPrice, policy.gasPriceBufferPercent) };
+
+  return {
+    gas,
+    gasPrice,
+    expectedCost: gas * gasPrice,
+    maxCost: gasLimit * (overrides.maxFeePerGas ?? overrides.gasPrice ?? gasPrice),
+    overrides,
+  };
+};
+
+/**
+ * Checks whether an account can pay the maximum cost of a transaction
+ * @param provider Provider for the network
+ * @param address The paying account
+ * @param estimate The transaction's fee estimate
+ * @returns The balance and any shortfall
+ */
+export const checkBalance = async (provider: Provider, address: string, estimate: FeeEstimate): Promise<BalanceCheck> => {
+  const balance = await provider.getBalance(address);
+  const required = estimate.maxCost;
+  return {
+    balance,
+    required,
+    sufficient: balance >= required,
+    shortfall: balance >= required ? 0n : required - balance,
+  };
+};
+
+/**
+ * Estimates a transaction, checks the signer can pay for it and sends it with
+ * the fee policy applied. Works for contract calls (populateTransaction) and
+ * deployments (getDeployTransaction) alike.
+ * @param signer The sending account, connected to a provider
+ * @param tx The transaction to send
+ * @param network The network, for its fee policy
+ * @returns The response and the fee estimate
+ * @throws InsufficientFundsError if the signer cannot pay the maximum cost
+ */
+export const sendWithFees = async (
+  signer: Signer,
+  tx: TransactionRequest,
+  network: FeeNetwork
+): Promise<{ response: TransactionResponse; fee: FeeEstimate }> => {
+  const provider = signer.provider;
+  if (!provider) {
+    throw new Error('Signer is not connected to a provider');
+  }
+  const gas = await signer.estimateGas(tx);
+  const fee = await estimateFee(provider, gas, network);
+
+  const balance = await checkBalance(provider, await signer.getAddress(), fee);
+  if (!balance.sufficient) {
+    throw new InsufficientFundsError(balance, network);
+  }
+
+  const response = await signer.sendTransaction({ ...tx, ...fee.overrides });
+  return { response, fee };
+};
@@ -0,0 +1,44 @@
+// Safety margins added to node estimates before a transaction is sent, in percent
+export interface FeePolicy {
+  gasLimitBufferPercent: number;
+  gasPriceBufferPercent: number;
+}
+
+// The parts of a networks.json entry the fee service reads
+export interface FeeNetwork {
+  name: string;
+  nativeCurrency: {
+    symbol: string;
+    decimals: number;
+  };
+  faucetUrl?: string;
+  feePolicy?: Partial<FeePolicy>;
+}
+
+// Fee fields passed to the contract call
+export interface TxFeeOverrides {
+  gasLimit: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+export interface FeeEstimate {
+  // Gas the node expects the transaction to use
+  gas: bigint;
+  // Current price per unit of gas
+  gasPrice: bigint;
+  // What the transaction should cost: gas * gasPrice
+  expectedCost: bigint;
+  // The most it can cost under the fee policy; the sender must hold at least this
+  maxCost: bigint;
+  overrides: TxFeeOverrides;
+}
+
+export interface BalanceCheck {
+  balance: bigint;
+  required: bigint;
+  sufficient: boolean;
+  // How much is missing; zero when the balance is sufficient
+  shortfall: bigint;
+}
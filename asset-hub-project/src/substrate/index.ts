@@ -0,0 +1,107 @@
+import type { ApiPromise } from '@polkadot/api';
+import type {} from '@polkadot/api/augment';
+import type { Option, U8aFixed } from '@polkadot/types';
+import type { AccountId32 } from '@polkadot/types/interfaces';
+import { concat, formatUnits, getAddress, getBytes, hexlify } from 'ethers';
+import { encodeAddress } from '@polkadot/util-crypto';
+import { h160ToAccountId } from '../address';
+import { AccountMapping, ExistentialDepositCheck, NativeBalance, SubstrateNetwork } from './types';
+
+// Shared by the asset-hub CLI and the frontend, which each connect to the
+// network's substrateRpcUrls their own way
+
+/**
+ * Looks up the Polkadot account registered for an H160 with revive.mapAccount.
+ * Runtimes before OriginalAccount only stored the last twelve bytes.
+ * @returns The AccountId32, or null if the H160 is not a mapped account
+ */
+const getOriginalAccount = async (api: ApiPromise, h160: string): Promise<Uint8Array | null> => {
+  const { revive } = api.query;
+  if (revive?.originalAccount) {
+    // Newer than the augmented types, so the stored type is given here
+    const original = await revive.originalAccount<Option<AccountId32>>(h160);
+    return original.isSome ? original.unwrap().toU8a() : null;
+  }
+  if (revive?.addressSuffix) {
+    // Dropped from the augmented types along with the storage item, so typed here too
+    const suffix = await revive.addressSuffix<Option<U8aFixed>>(h160);
+    return suffix.isSome ? getBytes(concat([h160, suffix.unwrap().toU8a()])) : null;
+  }
+  throw new Error('This chain does not run pallet-revive');
+};
+
+/**
+ * Resolves the Substrate account pallet-revive uses for an H160: the mapped
+ * Polkadot account if one was registered, otherwise the H160 padded with
+ * 0xEE bytes
+ * @param api The network's API
+ * @param network For the SS58 prefix
+ * @param h160 The Ethereum address
+ */
+export const getAccountMapping = async (api: ApiPromise, network: SubstrateNetwork, h160: string): Promise<AccountMapping> => {
+  const address = getAddress(h160);
+  const original = await getOriginalAccount(api, address);
+  const accountId = original ?? h160ToAccountId(address);
+  return {
+    h160: address,
+    accountId: hexlify(accountId),
+    ss58: encodeAddress(accountId, network.ss58Prefix),
+    kind: original ? 'mapped' : 'eth-derived',
+  };
+};
+
+/**
+ * Reads an account's native balances and the chain's existential deposit
+ * @param api The network's API
+ * @param accountId Hex AccountId32
+ */
+export const getNativeBalance = async (api: ApiPromise, accountId: string): Promise<NativeBalance> => {
+  const { data } = await api.query.system.account(accountId);
+  return {
+    free: data.free.toBigInt(),
+    reserved: data.reserved.toBigInt(),
+    frozen: data.frozen.toBigInt(),
+    existentialDeposit: api.consts.balances.existentialDeposit.toBigInt(),
+    decimals: api.registry.chainDecimals[0],
+    symbol: api.registry.chainTokens[0],
+  };
+};
+
+/**
+ * Converts an EVM amount to native units. pallet-revive shows balances to
+ * the EVM with 18 decimals, more than the chain's own; the cost is rounded up.
+ * @param value The amount in wei
+ * @param network For the EVM decimals
+ * @param balance For the native decimals
+ */
+export const toNativeAmount = (value: bigint, network: SubstrateNetwork, balance: NativeBalance): bigint => {
+  const shift = network.nativeCurrency.decimals - balance.decimals;
+  if (shift <= 0) return value * 10n ** BigInt(-shift);
+  const scale = 10n ** BigInt(shift);
+  return (value + scale - 1n) / scale;
+};
+
+/**
+ * Checks whether paying an EVM cost would leave the account below the
+ * existential deposit, at which point the chain may reap it and whatever is
+ * left is lost
+ * @param balance The account's native balance
+ * @param cost The payment in wei, e.g. a fee estimate's maxCost
+ * @param network For the EVM decimals
+ */
+export const checkExistentialDeposit = (
+  balance: NativeBalance,
+  cost: bigint,
+  network: SubstrateNetwork
+): ExistentialDepositCheck => {
+  const remaining = balance.free - toNativeAmount(cost, network, balance);
+  return { remaining, belowExistentialDeposit: remaining < balance.existentialDeposit };
+};
+
+/**
+ * Formats an amount in native units, e.g. "1.5 WND"
+ * @param value The amount
+ * @param balance For the decimals and symbol
+ */
+export const formatNativeAmount = (value: bigint, balance: NativeBalance): string =>
+  `${formatUnits(value, balance.decimals)} ${balance.symbol}`;
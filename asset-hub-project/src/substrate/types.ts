@@ -0,0 +1,40 @@
+// The parts of a networks.json entry the account service reads
+export interface SubstrateNetwork {
+  name: string;
+  /** SS58 prefix used to display Substrate addresses on this chain */
+  ss58Prefix: number;
+  nativeCurrency: {
+    decimals: number;
+  };
+}
+
+export interface AccountMapping {
+  h160: string;
+  /** Hex AccountId32 pallet-revive uses for the H160 */
+  accountId: string;
+  /** That account in the network's SS58 format; funding it funds the H160 */
+  ss58: string;
+  /**
+   * eth-derived: the H160 followed by twelve 0xEE bytes, the account of
+   * every Ethereum address. mapped: a Polkadot account registered with
+   * revive.mapAccount.
+   */
+  kind: 'eth-derived' | 'mapped';
+}
+
+/** Balances in the chain's native units, which have fewer decimals than the EVM view */
+export interface NativeBalance {
+  free: bigint;
+  reserved: bigint;
+  frozen: bigint;
+  existentialDeposit: bigint;
+  decimals: number;
+  symbol: string;
+}
+
+export interface ExistentialDepositCheck {
+  /** Free balance left after the payment, in native units; negative if it cannot be paid */
+  remaining: bigint;
+  /** The payment would leave less than the existential deposit, so the account could be reaped */
+  belowExistentialDeposit: boolean;
+}
@@ -0,0 +1,61 @@
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import App from './App';
+import { NetworkProvider } from './context/NetworkProvider';
+import { WalletProvider } from './context/WalletProvider';
+import { CollectionProvider } from './context/CollectionProvider';
+import { ActivityProvider } from './context/ActivityProvider';
+import { DEMO_ACCOUNTS } from './constants/demo';
+
+// The mint and the transfer are each confirmed by polling the chain every few seconds
+const CONFIRMATION_TIMEOUT_MS = 15000;
+
+const renderApp = () => render(
+  <MemoryRouter>
+    <WalletProvider>
+      <NetworkProvider>
+        <CollectionProvider>
+          <ActivityProvider>
+            <App />
+          </ActivityProvider>
+        </CollectionProvider>
+      </NetworkProvider>
+    </WalletProvider>
+  </MemoryRouter>
+);
+
+describe('App in demo mode', () => {
+  beforeEach(() => {
+    vi.stubEnv('VITE_DEMO_MODE', 'true');
+  });
+
+  it('mints a token, shows it in the gallery and transfers it away', async () => {
+    renderApp();
+
+    // The minter and the gallery both offer to connect
+    fireEvent.click((await screen.findAllByRole('button', { name: 'Connect Wallet' }))[0]);
+    fireEvent.click(await screen.findByRole('button', { name: /Demo wallet/ }));
+    await screen.findByRole('heading', { name: /^Your NFTs/ });
+
+    const image = new File(['<svg xmlns="http://www.w3.org/2000/svg"/>'], 'sunrise.svg', { type: 'image/svg+xml' });
+    fireEvent.change(document.getElementById('file-upload')!, { target: { files: [image] } });
+    fireEvent.change(screen.getByPlaceholderText('Enter NFT name'), { target: { value: 'Sunrise' } });
+    fireEvent.change(screen.getByPlaceholderText('Enter NFT description'), { target: { value: 'Over the hills' } });
+    // The metadata preview describes the image once it is prepared
+    await screen.findByText(/"image_details"/);
+    fireEvent.click(screen.getByRole('button', { name: 'Mint NFT' }));
+
+    const card = (await screen.findByRole('heading', { name: 'Sunrise' }, { timeout: CONFIRMATION_TIMEOUT_MS })).closest('.rounded-xl') as HTMLElement;
+    fireEvent.click(within(card).getByRole('button', { name: 'Transfer' }));
+    const dialog = await screen.findByRole('dialog');
+    fireEvent.change(within(dialog).getByLabelText('Recipient'), { target: { value: DEMO_ACCOUNTS[1] } });
+    const transferButton = within(dialog).getByRole('button', { name: 'Transfer' });
+    await waitFor(() => expect(transferButton).toHaveProperty('disabled', false));
+    fireEvent.click(transferButton);
+
+    expect((await within(dialog).findByText(/Token #0 was sent to/, {}, { timeout: CONFIRMATION_TIMEOUT_MS })).textContent).toContain(DEMO_ACCOUNTS[1]);
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Close' }));
+    await waitFor(() => expect(screen.queryByRole('heading', { name: 'Sunrise' })).toBeNull());
+  }, 3 * CONFIRMATION_TIMEOUT_MS);
+});
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { ethers } from 'ethers';
+import { decodeAddress } from '@polkadot/util-crypto';
+import { useNativeAccount } from '../hooks/useNativeAccount';
+import { useNetwork } from '../hooks/useNetwork';
+import { useWallet } from '../hooks/useWallet';
+import { formatNativeAmount, hasSubstrateRpc } from '../utils/substrate';
+
+const MAPPING_LABELS = {
+  'eth-derived': 'Ethereum account, padded with 0xEE bytes',
+  mapped: 'Polkadot account mapped with revive.mapAccount',
+};
+
+const CopyButton: React.FC<{ value: string }> = ({ value }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = () => {
+    navigator.clipboard
+      .writeText(value)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      })
+      .catch((error) => console.error('Error copying address:', error));
+  };
+
+  return (
+    <button type="button" onClick={copy} className="ml-2 px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-xs">
+      {copied ? 'Copied' : 'Copy'}
+    </button>
+  );
+};
+
+/**
+ * Shows the connected account's two identities on Asset Hub, its H160 and
+ * the SS58 account pallet-revive maps it to, with the native balances and the
+ * existential deposit, so it can be funded from a Polkadot wallet
+ */
+export const AccountPanel: React.FC<{ account: string }> = ({ account }) => {
+  const { network } = useNetwork();
+  const { substrateAccount } = useWallet();
+  const { account: native, error } = useNativeAccount(account);
+
+  if (!hasSubstrateRpc(network)) return null;
+
+  // A Polkadot account only reaches contracts through its H160 once it is mapped;
+  // ethereum-type accounts are their H160 already
+  const substrateAccountId = substrateAccount ? decodeAddress(substrateAccount.address) : null;
+  const unmapped = substrateAccount && substrateAccountId?.length === 32 && native
+    && ethers.hexlify(substrateAccountId) !== native.mapping.accountId;
+
+  return (
+    <details className="mb-8 bg-white/10 rounded-xl p-6 shadow-xl">
+      <summary className="cursor-pointer text-lg font-semibold">Asset Hub account</summary>
+
+      {error && <p className="mt-4 text-sm text-red-300">{error}</p>}
+      {!native && !error && <p className="mt-4 text-sm text-purple-200">Reading the account from {network.name}...</p>}
+
+      {native && (
+        <div className="mt-4 space-y-4 text-sm">
+          <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1">
+            <dt className="text-purple-300">EVM address</dt>
+            <dd className="font-mono break-all">
+              {native.mapping.h160}
+              <CopyButton value={native.mapping.h160} />
+            </dd>
+            <dt className="text-purple-300">Substrate address</dt>
+            <dd className="font-mono break-all">
+              {native.mapping.ss58}
+              <CopyButton value={native.mapping.ss58} />
+            </dd>
+            <dt className="text-purple-300">Mapping</dt>
+            <dd>{MAPPING_LABELS[native.mapping.kind]}</dd>
+            <dt className="text-purple-300">Free</dt>
+            <dd>{formatNativeAmount(native.balance.free, native.balance)}</dd>
+            <dt className="text-purple-300">Reserved</dt>
+            <dd>{formatNativeAmount(native.balance.reserved, native.balance)}</dd>
+            <dt className="text-purple-300">Frozen</dt>
+            <dd>{formatNativeAmount(native.balance.frozen, native.balance)}</dd>
+            <dt className="text-purple-300">Existential deposit</dt>
+            <dd>{formatNativeAmount(native.balance.existentialDeposit, native.balance)}</dd>
+          </dl>
+
+          {unmapped ? (
+            <p className="text-yellow-200">
+              {substrateAccount.name ?? substrateAccount.address} is not mapped yet, so contracts see it as{' '}
+              {native.mapping.h160} without its balance. Call revive.mapAccount from it once before minting.
+            </p>
+          ) : (
+            <p className="text-purple-200">
+              To fund this account from a Polkadot wallet, send {native.balance.symbol} to the Substrate address
+              above. Keep at least the existential deposit in it, or the chain may remove the account and what is left.
+            </p>
+          )}
+        </div>
+      )}
+    </details>
+  );
+};
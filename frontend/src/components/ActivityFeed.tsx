@@ -0,0 +1,71 @@
+import { Link } from 'react-router-dom';
+import { useActivity } from '../hooks/useActivity';
+import { useCollection } from '../hooks/useCollection';
+import { useNetwork } from '../hooks/useNetwork';
+import { useWallet } from '../hooks/useWallet';
+import { getExplorerTxUrl } from '../utils/explorer';
+import { getTokenPath } from '../utils/routes';
+import { ActivityEvent } from '../types/activity';
+
+const KIND_LABELS: Record<ActivityEvent['kind'], string> = {
+  mint: 'Minted',
+  transfer: 'Transferred',
+  burn: 'Burned',
+  metadata: 'Metadata updated',
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Lists the latest mints, transfers, burns and metadata updates in the
+ * selected collection, from any tab, device or the CLI, as they land
+ */
+export const ActivityFeed: React.FC = () => {
+  const { events } = useActivity();
+  const { collection } = useCollection();
+  const { network } = useNetwork();
+  const { account } = useWallet();
+
+  if (!collection) return null;
+
+  const describeAddress = (address: string) =>
+    account && address.toLowerCase() === account.toLowerCase() ? 'you' : shortAddress(address);
+
+  return (
+    <div className="mt-12">
+      <h2 className="text-2xl font-bold mb-4">Recent activity</h2>
+
+      {events.length === 0 ? (
+        <div className="text-center py-6 bg-white/10 rounded-lg">
+          <p className="text-purple-200">Nothing has happened in {collection.name} lately.</p>
+        </div>
+      ) : (
+        <ul className="bg-white/10 rounded-lg divide-y divide-white/10">
+          {events.map((event) => (
+            <li key={event.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 text-sm">
+              <div>
+                <span className="font-semibold">{KIND_LABELS[event.kind]}</span>{' '}
+                <Link to={getTokenPath(network, event.tokenId, collection.address)} className="underline hover:text-white">
+                  #{event.tokenId.toString()}
+                </Link>
+                {event.kind === 'mint' && <span className="text-purple-200"> to {describeAddress(event.to)}</span>}
+                {event.kind === 'transfer' && (
+                  <span className="text-purple-200"> from {describeAddress(event.from)} to {describeAddress(event.to)}</span>
+                )}
+                {event.kind === 'burn' && <span className="text-purple-200"> by {describeAddress(event.from)}</span>}
+              </div>
+              <a
+                href={getExplorerTxUrl(network, event.txHash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-purple-300 hover:text-white"
+              >
+                Block {event.blockNumber}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
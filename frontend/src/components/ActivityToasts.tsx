@@ -0,0 +1,68 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useActivity } from '../hooks/useActivity';
+import { useCollection } from '../hooks/useCollection';
+import { useNetwork } from '../hooks/useNetwork';
+import { getTokenPath } from '../utils/routes';
+import { ActivityToast } from '../types/activity';
+
+// How long a toast stays up unless it is dismissed first
+const TOAST_DURATION_MS = 8000;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const describe = ({ direction, event }: ActivityToast): string => {
+  const token = `#${event.tokenId}`;
+  if (direction === 'incoming') {
+    return event.kind === 'mint' ? `${token} was minted to you` : `You received ${token} from ${shortAddress(event.from)}`;
+  }
+  return event.kind === 'burn' ? `${token} was burned` : `You sent ${token} to ${shortAddress(event.to)}`;
+};
+
+const Toast: React.FC<{ toast: ActivityToast; path: string; onDismiss: (id: string) => void }> = ({ toast, path, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(toast.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast.id, onDismiss]);
+
+  return (
+    <div
+      role="status"
+      className={`flex items-start gap-3 rounded-lg p-4 shadow-xl text-sm ${
+        toast.direction === 'incoming' ? 'bg-green-700' : 'bg-indigo-700'
+      }`}
+    >
+      <Link to={path} onClick={() => onDismiss(toast.id)} className="flex-1 hover:underline">
+        {describe(toast)}
+      </Link>
+      <button onClick={() => onDismiss(toast.id)} aria-label="Dismiss" className="text-white/70 hover:text-white">
+        ×
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Pops up a notice when a token arrives at or leaves the connected account,
+ * whichever tab, device or tool sent the transaction
+ */
+export const ActivityToasts: React.FC = () => {
+  const { toasts, dismissToast } = useActivity();
+  const { collection } = useCollection();
+  const { network } = useNetwork();
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 space-y-2">
+      {toasts.map((toast) => (
+        <Toast
+          key={toast.id}
+          toast={toast}
+          path={getTokenPath(network, toast.event.tokenId, collection?.address)}
+          onDismiss={dismissToast}
+        />
+      ))}
+    </div>
+  );
+};
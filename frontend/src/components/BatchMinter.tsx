@@ -0,0 +1,301 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { BatchItem, BatchState } from '../types/batch';
+import { NFTMinterContract } from '../contracts/NFTMinter';
+import { collectBatchFiles, parseManifest } from '../utils/manifest';
+import {
+  buildBatchReport,
+  createBatch,
+  isBatchFor,
+  loadBatch,
+  mintBatch,
+  reconcileBatch,
+  removeBatch,
+  saveBatch,
+  uploadBatch,
+} from '../utils/batch';
+
+interface BatchMinterProps {
+  account: string;
+  /** The selected network's chain */
+  chainId: number;
+  /** The selected collection */
+  contractAddress: string | null;
+  /** The collection connected to the signer, or null while the wallet is on another chain */
+  contract: NFTMinterContract | null;
+  onBatchMinted: () => void;
+}
+
+type BatchPhase = 'idle' | 'uploading' | 'minting';
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  pending: 'bg-white/10 text-purple-200',
+  uploaded: 'bg-indigo-500/30 text-indigo-100',
+  submitted: 'bg-yellow-500/30 text-yellow-100',
+  minted: 'bg-green-500/30 text-green-100',
+  failed: 'bg-red-500/30 text-red-100',
+};
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const BatchMinter: React.FC<BatchMinterProps> = ({ account, chainId, contractAddress, contract, onBatchMinted }) => {
+  const [batch, setBatch] = useState<BatchState | null>(null);
+  const [images, setImages] = useState<Map<string, File>>(new Map());
+  const [manifestFile, setManifestFile] = useState<File | null>(null);
+  const [phase, setPhase] = useState<BatchPhase>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const batchRef = useRef(batch);
+
+  const showBatch = useCallback((next: BatchState | null) => {
+    batchRef.current = next;
+    setBatch(next);
+  }, []);
+
+  // Updates go to the batch's own saved copy, so a run carries on correctly
+  // while another collection is shown, and stops once the batch is discarded
+  const createUpdater = useCallback((target: BatchState) => (index: number, changes: Partial<BatchItem>) => {
+    const current = loadBatch(target.chainId, target.contractAddress);
+    if (current?.id !== target.id) return;
+    const next = {
+      ...current,
+      items: current.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    };
+    saveBatch(next);
+    if (batchRef.current?.id === next.id) showBatch(next);
+  }, [showBatch]);
+
+  // Every collection on every chain has its own batch
+  useEffect(() => {
+    const saved = contractAddress ? loadBatch(chainId, contractAddress) : null;
+    showBatch(saved && saved.account.toLowerCase() === account.toLowerCase() ? saved : null);
+    setError(null);
+  }, [account, chainId, contractAddress, showBatch]);
+
+  // Pick up transactions that were sent before the page was reloaded
+  const batchId = batch?.id;
+  useEffect(() => {
+    const current = batchRef.current;
+    if (!contract || !contractAddress || !current || !isBatchFor(current, chainId, contractAddress)) return;
+    reconcileBatch(current, contract, createUpdater(current)).catch((err) => {
+      console.error('Error reconciling batch:', err);
+    });
+  }, [batchId, contract, contractAddress, chainId, createUpdater]);
+
+  const handleFilesPicked = async (fileList: FileList | null) => {
+    if (!fileList) return;
+    setError(null);
+    try {
+      const collected = await collectBatchFiles(Array.from(fileList));
+      setImages((prev) => new Map([...prev, ...collected.images]));
+      if (collected.manifest) {
+        setManifestFile(collected.manifest);
+      }
+    } catch (err) {
+      console.error('Error reading files:', err);
+      setError(err instanceof Error ? err.message : 'Could not read the selected files');
+    }
+  };
+
+  const handleCreateBatch = async () => {
+    if (!manifestFile || !contract || !contractAddress) return;
+    setError(null);
+    try {
+      const entries = await parseManifest(manifestFile);
+      const created = createBatch(entries, images, account, chainId, contractAddress);
+      saveBatch(created);
+      showBatch(created);
+    } catch (err) {
+      console.error('Error creating batch:', err);
+      setError(err instanceof Error ? err.message : 'Invalid manifest');
+    }
+  };
+
+  const handleRun = async () => {
+    const current = batchRef.current;
+    if (!current || !contract || !contractAddress) return;
+    if (!isBatchFor(current, chainId, contractAddress)) {
+      setError('This batch belongs to another collection or network; select it again to resume.');
+      return;
+    }
+    setError(null);
+    const update = createUpdater(current);
+
+    try {
+      setPhase('uploading');
+      await uploadBatch(current, images, update);
+
+      // Minting continues from the saved copy, which holds the uploaded URIs
+      const uploaded = loadBatch(current.chainId, current.contractAddress);
+      if (uploaded?.id !== current.id) return;
+      setPhase('minting');
+      const completed = await mintBatch(uploaded, contract, update);
+      if (!completed) {
+        setError('Signature rejected. The batch is paused; press Resume to continue.');
+      }
+      onBatchMinted();
+    } catch (err) {
+      console.error('Error running batch:', err);
+      setError(err instanceof Error ? err.message : 'Batch failed');
+    } finally {
+      setPhase('idle');
+    }
+  };
+
+  const handleDiscard = () => {
+    if (batchRef.current) removeBatch(batchRef.current);
+    showBatch(null);
+    setManifestFile(null);
+    setImages(new Map());
+  };
+
+  const counts = batch?.items.reduce<Record<string, number>>((acc, item) => {
+    acc[item.status] = (acc[item.status] ?? 0) + 1;
+    return acc;
+  }, {}) ?? {};
+  const missingImages = batch?.items.filter((item) => item.status === 'pending' && !images.has(item.filename)).length ?? 0;
+  const hasWork = batch?.items.some((item) => item.status !== 'minted' && !(item.status === 'failed' && item.txHash)) ?? false;
+
+  return (
+    <div className="space-y-6">
+      {!batch ? (
+        <>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-purple-200">
+              Images and manifest
+            </label>
+            <p className="text-xs text-purple-300">
+              Pick a folder or a ZIP containing the images and a manifest.csv / manifest.json mapping
+              each filename to its name, description and traits (CSV columns named trait:&lt;type&gt;).
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <label className="cursor-pointer px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm">
+                Choose folder
+                <input
+                  type="file"
+                  className="sr-only"
+                  multiple
+                  {...{ webkitdirectory: '' }}
+                  onChange={(e) => handleFilesPicked(e.target.files)}
+                />
+              </label>
+              <label className="cursor-pointer px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm">
+                Choose ZIP or files
+                <input
+                  type="file"
+                  className="sr-only"
+                  multiple
+                  accept=".zip,.csv,.json,image/*"
+                  onChange={(e) => handleFilesPicked(e.target.files)}
+                />
+              </label>
+            </div>
+            <p className="text-sm text-purple-200">
+              {images.size} image{images.size === 1 ? '' : 's'} selected
+              {manifestFile ? `, manifest: ${manifestFile.name}` : ', no manifest yet'}
+            </p>
+          </div>
+
+          <button
+            onClick={handleCreateBatch}
+            disabled={!manifestFile || images.size === 0 || !contract}
+            className="w-full py-3 px-6 rounded-lg font-semibold transition-colors duration-300 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white disabled:bg-none disabled:bg-gray-500 disabled:cursor-not-allowed"
+          >
+            Prepare Batch
+          </button>
+        </>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 text-sm">
+            {Object.entries(counts).map(([status, count]) => (
+              <span key={status} className={`px-2 py-1 rounded ${STATUS_STYLES[status as BatchItem['status']]}`}>
+                {status}: {count}
+              </span>
+            ))}
+          </div>
+
+          {missingImages > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-yellow-200">
+                {missingImages} item{missingImages === 1 ? '' : 's'} still need uploading. Re-select the
+                folder or ZIP to continue after a reload.
+              </p>
+              <input
+                type="file"
+                multiple
+                accept=".zip,image/*"
+                onChange={(e) => handleFilesPicked(e.target.files)}
+                className="text-sm text-purple-200"
+              />
+            </div>
+          )}
+
+          <div className="max-h-80 overflow-y-auto rounded-lg bg-black/20">
+            <table className="w-full text-xs">
+              <thead className="text-purple-300 text-left">
+                <tr>
+                  <th className="p-2">File</th>
+                  <th className="p-2">Status</th>
+                  <th className="p-2">Metadata CID</th>
+                  <th className="p-2">Tx</th>
+                  <th className="p-2">Token</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batch.items.map((item) => (
+                  <tr key={item.filename} className="border-t border-white/10" title={item.error}>
+                    <td className="p-2">{item.filename}</td>
+                    <td className="p-2">
+                      <span className={`px-2 py-0.5 rounded ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                    </td>
+                    <td className="p-2 font-mono">{item.metadataUri?.replace('ipfs://', '').slice(0, 12) ?? '-'}</td>
+                    <td className="p-2 font-mono">{item.txHash ? `${item.txHash.slice(0, 10)}...` : '-'}</td>
+                    <td className="p-2">{item.tokenId ?? '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleRun}
+              disabled={phase !== 'idle' || !contract || !hasWork}
+              className="flex-1 py-3 px-6 rounded-lg font-semibold bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {phase === 'uploading'
+                ? 'Uploading...'
+                : phase === 'minting'
+                  ? 'Minting...'
+                  : counts.pending === batch.items.length ? 'Start Batch' : 'Resume Batch'}
+            </button>
+            <button
+              onClick={() => downloadFile(`batch-${batch.id}.json`, JSON.stringify(buildBatchReport(batch), null, 2), 'application/json')}
+              className="py-3 px-4 rounded-lg bg-white/10 hover:bg-white/20"
+            >
+              Download Report
+            </button>
+            <button
+              onClick={handleDiscard}
+              disabled={phase !== 'idle'}
+              className="py-3 px-4 rounded-lg bg-red-500/30 hover:bg-red-500/50 disabled:opacity-50"
+            >
+              Discard
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div className="bg-red-500/20 text-red-200 p-4 rounded-lg whitespace-pre-line">
+          Error: {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import { useCollection } from '../hooks/useCollection';
+import { useWallet } from '../hooks/useWallet';
+
+interface CollectionPickerProps {
+  onCreate: () => void;
+  onConnectWallet: () => void;
+}
+
+/**
+ * Switches the collection the minter and gallery target between the shared
+ * one and the connected account's own, and opens the create wizard.
+ */
+export const CollectionPicker: React.FC<CollectionPickerProps> = ({ onCreate, onConnectWallet }) => {
+  const { collection, collections, selectCollection } = useCollection();
+  const { account } = useWallet();
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6 bg-white/10 rounded-lg px-4 py-3">
+      <label htmlFor="collection-picker" className="text-sm font-medium text-purple-200">Collection</label>
+      {collections.length > 0 ? (
+        <select
+          id="collection-picker"
+          value={collection?.address ?? ''}
+          onChange={(e) => selectCollection(e.target.value)}
+          className="flex-1 min-w-0 rounded-lg border-0 bg-white/10 py-2 px-3 text-white focus:ring-2 focus:ring-purple-500 sm:text-sm"
+        >
+          {collections.map((option) => (
+            <option key={option.address} value={option.address} className="text-black">
+              {option.symbol ? `${option.name} (${option.symbol})` : option.name}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span className="flex-1 text-sm text-purple-300">No collection on this network yet</span>
+      )}
+      <button
+        onClick={account ? onCreate : onConnectWallet}
+        className="px-4 py-2 rounded-lg text-sm font-semibold bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white"
+      >
+        New collection
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { useNetwork } from '../hooks/useNetwork';
+import { useWallet } from '../hooks/useWallet';
+import { useCollection } from '../hooks/useCollection';
+import { Collection, CollectionDraft, DeployStage } from '../types/collection';
+import { BalanceCheck } from '../types/fees';
+import { FriendlyError } from '../types/errors';
+import { deployCollection, prepareCollectionDeployment, PreparedDeployment, validateCollectionDraft } from '../utils/collections';
+import { checkBalance, formatAmount } from '../utils/fees';
+import { createReadProvider } from '../utils/polkadot';
+import { classifyError } from '../utils/errors';
+import { getExplorerAccountUrl, getExplorerTxUrl } from '../utils/explorer';
+import { ErrorNotice } from './ErrorNotice';
+
+interface CreateCollectionWizardProps {
+  onClose: () => void;
+}
+
+type WizardStep = 'details' | 'review' | 'deploying' | 'done';
+
+const STAGE_LABELS: Record<DeployStage, string> = {
+  'awaiting-signature': 'Confirm the deployment in your wallet...',
+  pending: 'Deploying, waiting for the transaction to be mined...',
+};
+
+const inputClassName = 'block w-full rounded-lg border-0 bg-white/10 py-2 px-3 text-white placeholder-purple-300 focus:ring-2 focus:ring-purple-500 sm:text-sm';
+
+/**
+ * Deploys a new NFTMinter collection from the connected wallet in three
+ * steps: name and symbol, fee review, then deployment. The new collection is
+ * recorded for the network and creator and becomes the selected one.
+ */
+export const CreateCollectionWizard: React.FC<CreateCollectionWizardProps> = ({ onClose }) => {
+  const { network, isWrongChain } = useNetwork();
+  const { wallet, account, getSigner, refreshBalance } = useWallet();
+  const { addCollection } = useCollection();
+  const [step, setStep] = useState<WizardStep>('details');
+  const [draft, setDraft] = useState<CollectionDraft>({ name: '', symbol: '' });
+  const [prepared, setPrepared] = useState<PreparedDeployment | null>(null);
+  const [balance, setBalance] = useState<BalanceCheck | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [stage, setStage] = useState<DeployStage | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [deployed, setDeployed] = useState<Collection | null>(null);
+  const [error, setError] = useState<FriendlyError | null>(null);
+
+  const draftErrors = validateCollectionDraft(draft);
+  const fieldError = (field: keyof CollectionDraft) =>
+    draft[field] ? draftErrors.find((entry) => entry.field === field)?.message : undefined;
+  const canSign = wallet?.kind === 'evm' && !!account && !isWrongChain;
+
+  const handleReview = async () => {
+    if (draftErrors.length > 0 || !account) return;
+    setError(null);
+    setIsPreparing(true);
+    try {
+      const signer = await getSigner(network.chainId);
+      const deployment = await prepareCollectionDeployment(signer, network, draft);
+      setPrepared(deployment);
+      setBalance(await checkBalance(createReadProvider(network), account, deployment.fee));
+      setStep('review');
+    } catch (err) {
+      console.error('Error preparing collection deployment:', err);
+      setError(classifyError(err, network));
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleDeploy = async () => {
+    if (!prepared) return;
+    setError(null);
+    setStep('deploying');
+    try {
+      const collection = await deployCollection(await getSigner(network.chainId), network, prepared, (next, hash) => {
+        setStage(next);
+        if (hash) setTxHash(hash);
+      });
+      console.log('Collection deployed:', collection);
+      addCollection(collection);
+      refreshBalance();
+      setDeployed(collection);
+      setStep('done');
+    } catch (err) {
+      console.error('Error deploying collection:', err);
+      setError(classifyError(err, network));
+      setStep('review');
+    } finally {
+      setStage(null);
+    }
+  };
+
+  const busy = isPreparing || step === 'deploying';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true">
+      <div className="w-full max-w-lg bg-indigo-900 rounded-xl p-6 shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold">Create a collection</h3>
+          <button
+            onClick={onClose}
+            disabled={busy}
+            aria-label="Close"
+            className="px-2 py-1 rounded hover:bg-white/10 disabled:opacity-40"
+          >
+            ✕
+          </button>
+        </div>
+
+        {step === 'details' && (
+          <>
+            <p className="text-sm text-purple-200">
+              Deploys your own NFTMinter contract on {network.name}. You can then mint into it and switch between
+              your collections above the minter.
+            </p>
+            <div className="space-y-2">
+              <label htmlFor="collection-name" className="block text-sm font-medium text-purple-200">Name</label>
+              <input
+                id="collection-name"
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                className={inputClassName}
+                placeholder="My Collection"
+              />
+              {fieldError('name') && <p className="text-xs text-red-300">{fieldError('name')}</p>}
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="collection-symbol" className="block text-sm font-medium text-purple-200">Symbol</label>
+              <input
+                id="collection-symbol"
+                type="text"
+                value={draft.symbol}
+                onChange={(e) => setDraft((prev) => ({ ...prev, symbol: e.target.value.toUpperCase() }))}
+                className={`${inputClassName} font-mono`}
+                placeholder="MYC"
+              />
+              {fieldError('symbol') && <p className="text-xs text-red-300">{fieldError('symbol')}</p>}
+            </div>
+
+            {wallet?.kind === 'substrate' && (
+              <p className="text-sm text-yellow-200">Connect an Ethereum wallet to deploy a collection.</p>
+            )}
+            {isWrongChain && (
+              <p className="text-sm text-yellow-200">Switch your wallet to {network.name} to deploy.</p>
+            )}
+
+            <button
+              onClick={handleReview}
+              disabled={draftErrors.length > 0 || !canSign || isPreparing}
+              className="w-full py-3 px-6 rounded-lg font-semibold bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isPreparing ? 'Estimating the fee...' : 'Review'}
+            </button>
+          </>
+        )}
+
+        {(step === 'review' || step === 'deploying') && prepared && (
+          <>
+            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+              <dt className="text-purple-300">Name</dt>
+              <dd>{draft.name.trim()}</dd>
+              <dt className="text-purple-300">Symbol</dt>
+              <dd className="font-mono">{draft.symbol.trim()}</dd>
+              <dt className="text-purple-300">Network</dt>
+              <dd>{network.name}</dd>
+              <dt className="text-purple-300">Creator</dt>
+              <dd className="font-mono break-all">{account}</dd>
+              <dt className="text-purple-300">Estimated fee</dt>
+              <dd>
+                {formatAmount(prepared.fee.expectedCost, network)}
+                <span className="text-purple-300"> (at most {formatAmount(prepared.fee.maxCost, network)})</span>
+              </dd>
+            </dl>
+
+            {balance && !balance.sufficient && (
+              <p className="text-sm text-yellow-200">
+                Your balance of {formatAmount(balance.balance, network)} is {formatAmount(balance.shortfall, network)} short.
+                {network.faucetUrl && (
+                  <> Get test tokens from the <a href={network.faucetUrl} target="_blank" rel="noopener noreferrer" className="underline">faucet</a>.</>
+                )}
+              </p>
+            )}
+
+            {stage && <p className="text-sm text-purple-200">{STAGE_LABELS[stage]}</p>}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setStep('details')}
+                disabled={busy}
+                className="flex-1 py-3 px-6 rounded-lg font-semibold bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleDeploy}
+                disabled={busy || !canSign || balance?.sufficient === false}
+                className="flex-1 py-3 px-6 rounded-lg font-semibold bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {step === 'deploying' ? 'Deploying...' : 'Deploy'}
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'done' && deployed && (
+          <div className="space-y-3">
+            <div className="bg-green-500/20 text-green-200 p-4 rounded-lg">
+              {deployed.name} ({deployed.symbol}) is live at{' '}
+              <a
+                href={getExplorerAccountUrl(network, deployed.address)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono underline hover:text-white break-all"
+              >
+                {deployed.address}
+              </a>
+              . It is now the selected collection.
+            </div>
+            <button
+              onClick={onClose}
+              className="w-full py-3 px-6 rounded-lg font-semibold bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white"
+            >
+              Start minting
+            </button>
+          </div>
+        )}
+
+        {txHash && (
+          <p className="text-sm text-purple-200">
+            Transaction:{' '}
+            <a
+              href={getExplorerTxUrl(network, txHash)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-mono underline hover:text-white break-all"
+            >
+              {txHash.slice(0, 10)}...{txHash.slice(-8)}
+            </a>
+          </p>
+        )}
+
+        {error && (
+          <ErrorNotice
+            error={error}
+            actions={{ retry: () => (step === 'review' ? handleDeploy() : handleReview()) }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { getDemoWallet } from '../utils/demo';
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Explains demo mode and lets the user act as another demo account, e.g. to
+ * see a transferred token arrive in the recipient's gallery
+ */
+export const DemoBanner: React.FC = () => {
+  const demoWallet = getDemoWallet();
+  const [selected, setSelected] = useState(demoWallet.getSelectedAccount);
+
+  const handleSelect = (address: string) => {
+    demoWallet.selectAccount(address);
+    setSelected(address);
+  };
+
+  return (
+    <div className="mb-8 bg-blue-500/20 text-blue-100 p-4 rounded-lg flex flex-wrap items-center justify-between gap-3">
+      <p className="text-sm">
+        Demo mode: transactions run on an in-memory chain and uploads stay in this tab. Reloading starts over.
+      </p>
+      <label className="flex items-center gap-2 text-sm">
+        Acting as
+        <select
+          value={selected}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="rounded-lg border-0 bg-white/10 py-1 px-2 text-white font-mono focus:ring-2 focus:ring-purple-500"
+        >
+          {demoWallet.accounts.map((address, index) => (
+            <option key={address} value={address} className="text-black">
+              Account {index + 1} ({shortAddress(address)})
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import { FriendlyError, RecoveryAction } from '../types/errors';
+
+interface ErrorNoticeProps {
+  error: FriendlyError;
+  // Handlers for the recovery actions this place can offer; others are not shown
+  actions?: Partial<Record<RecoveryAction, () => void>>;
+  // Replaces the error's own title, e.g. "Mint failed"
+  title?: string;
+  // Extra lines under the message, e.g. transaction links
+  children?: React.ReactNode;
+}
+
+const ACTION_LABELS: Record<RecoveryAction, string> = {
+  retry: 'Try again',
+  reconnect: 'Reconnect wallet',
+  'switch-network': 'Switch network',
+};
+
+/**
+ * Shows a classified error with its recovery action and the original error
+ * behind an expandable technical details section
+ */
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, actions, title, children }) => {
+  const onAction = error.action ? actions?.[error.action] : undefined;
+
+  return (
+    <div className="bg-red-500/20 text-red-200 p-4 rounded-lg space-y-2">
+      <p className="font-semibold">{title ?? error.title}</p>
+      <p>{error.message}</p>
+      {children}
+      {onAction && error.action && (
+        <button
+          type="button"
+          onClick={onAction}
+          className="px-4 py-2 rounded-lg bg-red-500/30 hover:bg-red-500/50 text-white text-sm"
+        >
+          {ACTION_LABELS[error.action]}
+        </button>
+      )}
+      <details className="text-xs">
+        <summary className="cursor-pointer text-red-300 hover:text-white">Technical details</summary>
+        <pre className="mt-2 whitespace-pre-wrap break-all bg-black/30 rounded p-2 max-h-64 overflow-auto">{error.details}</pre>
+      </details>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import type { ModelViewerElement } from '@google/model-viewer';
+import { AnimationKind, ResolvedAnimation } from '../types/nft';
+import { useInView } from '../hooks/useInView';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace JSX {
+    interface IntrinsicElements {
+      'model-viewer': React.DetailedHTMLProps<React.HTMLAttributes<ModelViewerElement>, ModelViewerElement> & {
+        src: string;
+        poster?: string;
+        alt?: string;
+        loading?: 'auto' | 'lazy' | 'eager';
+        reveal?: 'auto' | 'manual' | 'interaction';
+        'camera-controls'?: string;
+        'auto-rotate'?: string;
+      };
+    }
+  }
+}
+
+interface MediaViewerProps {
+  // Poster, shown until the media is in view and for audio
+  image: string;
+  animation: ResolvedAnimation | null;
+  alt: string;
+  className?: string;
+  // Galleries only load models once clicked, so a page of them stays light
+  compact?: boolean;
+}
+
+const KIND_LABELS: Record<AnimationKind, string> = {
+  video: 'Video',
+  audio: 'Audio',
+  model: '3D',
+};
+
+// model-viewer bundles three.js, so it is only loaded for the first model shown
+let modelViewerLoader: Promise<unknown> | null = null;
+const loadModelViewer = () => {
+  modelViewerLoader ??= import('@google/model-viewer');
+  return modelViewerLoader;
+};
+
+const ModelViewer: React.FC<{ src: string; poster: string; alt: string; compact: boolean }> = ({ src, poster, alt, compact }) => {
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadModelViewer()
+      .then(() => {
+        if (!cancelled) setReady(true);
+      })
+      .catch((error) => console.error('Error loading the 3D viewer:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!ready) {
+    return poster ? <img src={poster} alt={alt} className="w-full h-full object-cover" /> : null;
+  }
+  return (
+    <model-viewer
+      src={src}
+      poster={poster || undefined}
+      alt={alt}
+      loading="lazy"
+      reveal={compact ? 'interaction' : 'auto'}
+      camera-controls=""
+      auto-rotate=""
+      style={{ width: '100%', height: '100%', backgroundColor: 'transparent' }}
+    />
+  );
+};
+
+/**
+ * Shows a token's media: its animation_url with the player or viewer for
+ * its type, or the image. Nothing beyond the poster is loaded until the
+ * element is near the viewport, and videos and audio only stream once played.
+ */
+export const MediaViewer: React.FC<MediaViewerProps> = ({ image, animation, alt, className = '', compact = false }) => {
+  const [ref, inView] = useInView<HTMLDivElement>();
+
+  const poster = image
+    ? <img src={image} alt={alt} loading="lazy" className="w-full h-full object-cover" />
+    : <div className="w-full h-full bg-white/20 flex items-center justify-center text-purple-300">No image</div>;
+
+  let content: React.ReactNode = poster;
+  if (animation && inView) {
+    switch (animation.kind) {
+      case 'video':
+        content = (
+          <video
+            src={animation.url}
+            poster={image || undefined}
+            controls
+            loop
+            playsInline
+            preload="none"
+            className="w-full h-full object-cover bg-black"
+          />
+        );
+        break;
+      case 'audio':
+        content = (
+          <div className="relative w-full h-full">
+            {poster}
+            <audio src={animation.url} controls preload="none" className="absolute bottom-2 left-2 right-2 w-[calc(100%-1rem)]" />
+          </div>
+        );
+        break;
+      case 'model':
+        content = <ModelViewer src={animation.url} poster={image} alt={alt} compact={compact} />;
+        break;
+      default:
+        content = (
+          <div className="relative w-full h-full">
+            {poster}
+            <a
+              href={animation.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="absolute bottom-2 right-2 px-3 py-1 rounded-lg bg-black/60 text-sm hover:bg-black/80"
+            >
+              Open media
+            </a>
+          </div>
+        );
+    }
+  }
+
+  return (
+    <div ref={ref} className={`relative ${className}`}>
+      {content}
+      {animation?.kind && (
+        <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-xs font-semibold pointer-events-none">
+          {KIND_LABELS[animation.kind]}
+        </span>
+      )}
+    </div>
+  );
+};
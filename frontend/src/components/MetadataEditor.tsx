@@ -0,0 +1,207 @@
+import { MetadataExtras, MetadataValidationError, TraitDisplayType, TraitDraft } from '../types/nft';
+
+interface MetadataEditorProps {
+  extras: MetadataExtras;
+  onChange: (extras: MetadataExtras) => void;
+  errors: MetadataValidationError[];
+}
+
+const DISPLAY_TYPES: { value: TraitDisplayType; label: string }[] = [
+  { value: 'number', label: 'Number' },
+  { value: 'boost_number', label: 'Boost number' },
+  { value: 'boost_percentage', label: 'Boost percentage' },
+  { value: 'date', label: 'Date (Unix timestamp)' },
+];
+
+const inputClassName = 'block w-full rounded-lg border-0 bg-white/10 py-2 px-3 text-white placeholder-purple-300 focus:ring-2 focus:ring-purple-500 sm:text-sm';
+
+export const MetadataEditor: React.FC<MetadataEditorProps> = ({ extras, onChange, errors }) => {
+  const fieldError = (field: string) => errors.find((error) => error.field === field)?.message;
+
+  const updateTrait = (id: string, changes: Partial<TraitDraft>) => {
+    onChange({
+      ...extras,
+      attributes: extras.attributes.map((trait) => (trait.id === id ? { ...trait, ...changes } : trait)),
+    });
+  };
+
+  const addTrait = () => {
+    onChange({
+      ...extras,
+      attributes: [...extras.attributes, { id: crypto.randomUUID(), trait_type: '', valueType: 'string', value: '' }],
+    });
+  };
+
+  const removeTrait = (id: string) => {
+    onChange({ ...extras, attributes: extras.attributes.filter((trait) => trait.id !== id) });
+  };
+
+  const moveTrait = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= extras.attributes.length) return;
+    const attributes = [...extras.attributes];
+    [attributes[index], attributes[target]] = [attributes[target], attributes[index]];
+    onChange({ ...extras, attributes });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <label htmlFor="external-url" className="block text-sm font-medium text-purple-200">
+          External URL
+        </label>
+        <input
+          type="url"
+          id="external-url"
+          value={extras.external_url}
+          onChange={(e) => onChange({ ...extras, external_url: e.target.value })}
+          className={inputClassName}
+          placeholder="https://example.com/my-nft"
+        />
+        {fieldError('external_url') && <p className="text-xs text-red-300">{fieldError('external_url')}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="animation-url" className="block text-sm font-medium text-purple-200">
+          Animation URL
+        </label>
+        <input
+          type="text"
+          id="animation-url"
+          value={extras.animation_url}
+          onChange={(e) => onChange({ ...extras, animation_url: e.target.value })}
+          className={inputClassName}
+          placeholder="ipfs://... or https://..."
+        />
+        {fieldError('animation_url') && <p className="text-xs text-red-300">{fieldError('animation_url')}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="background-color" className="block text-sm font-medium text-purple-200">
+          Background Color
+        </label>
+        <div className="flex items-center gap-3">
+          <input
+            type="color"
+            aria-label="Pick background color"
+            value={`#${/^#?[0-9a-fA-F]{6}$/.test(extras.background_color) ? extras.background_color.replace('#', '') : '000000'}`}
+            onChange={(e) => onChange({ ...extras, background_color: e.target.value.slice(1) })}
+            className="h-10 w-12 rounded bg-transparent cursor-pointer"
+          />
+          <input
+            type="text"
+            id="background-color"
+            value={extras.background_color}
+            onChange={(e) => onChange({ ...extras, background_color: e.target.value })}
+            className={inputClassName}
+            placeholder="ffffff"
+          />
+        </div>
+        {fieldError('background_color') && <p className="text-xs text-red-300">{fieldError('background_color')}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="block text-sm font-medium text-purple-200">Traits</span>
+          <button
+            type="button"
+            onClick={addTrait}
+            className="text-sm px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20"
+          >
+            + Add trait
+          </button>
+        </div>
+
+        {extras.attributes.length === 0 && (
+          <p className="text-xs text-purple-300">No traits yet.</p>
+        )}
+
+        {extras.attributes.map((trait, index) => (
+          <div key={trait.id} className="space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                aria-label="Trait name"
+                value={trait.trait_type}
+                onChange={(e) => updateTrait(trait.id, { trait_type: e.target.value })}
+                className={`${inputClassName} flex-1 min-w-[8rem]`}
+                placeholder="Trait (e.g. Background)"
+              />
+              <select
+                aria-label="Value type"
+                value={trait.valueType}
+                onChange={(e) => {
+                  const valueType = e.target.value as TraitDraft['valueType'];
+                  updateTrait(trait.id, {
+                    valueType,
+                    display_type: valueType === 'number' ? trait.display_type : undefined,
+                  });
+                }}
+                className="rounded-lg border-0 bg-white/10 py-2 px-2 text-white sm:text-sm"
+              >
+                <option value="string">Text</option>
+                <option value="number">Number</option>
+              </select>
+              <input
+                type={trait.valueType === 'number' ? 'number' : 'text'}
+                aria-label="Trait value"
+                value={trait.value}
+                onChange={(e) => updateTrait(trait.id, { value: e.target.value })}
+                className={`${inputClassName} flex-1 min-w-[6rem]`}
+                placeholder="Value"
+              />
+              {trait.valueType === 'number' && (
+                <select
+                  aria-label="Display type"
+                  value={trait.display_type ?? ''}
+                  onChange={(e) => updateTrait(trait.id, {
+                    display_type: (e.target.value || undefined) as TraitDisplayType | undefined,
+                  })}
+                  className="rounded-lg border-0 bg-white/10 py-2 px-2 text-white sm:text-sm"
+                >
+                  <option value="">Default display</option>
+                  {DISPLAY_TYPES.map((displayType) => (
+                    <option key={displayType.value} value={displayType.value}>
+                      {displayType.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <div className="flex gap-1">
+                <button
+                  type="button"
+                  onClick={() => moveTrait(index, -1)}
+                  disabled={index === 0}
+                  aria-label="Move trait up"
+                  className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveTrait(index, 1)}
+                  disabled={index === extras.attributes.length - 1}
+                  aria-label="Move trait down"
+                  className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeTrait(trait.id)}
+                  aria-label="Remove trait"
+                  className="px-2 py-1 rounded bg-red-500/30 hover:bg-red-500/50"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+            {fieldError(`attributes[${index}]`) && (
+              <p className="text-xs text-red-300">{fieldError(`attributes[${index}]`)}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import { Link } from 'react-router-dom';
+import { MintingState, MintStage } from '../types/mint';
+import { RecoveryAction } from '../types/errors';
+import { NetworkConfig } from '../types/network';
+import { MINT_CONFIRMATIONS } from '../constants/contract';
+import { getExplorerTxUrl } from '../utils/explorer';
+import { getTokenPath } from '../utils/routes';
+import { ErrorNotice } from './ErrorNotice';
+
+interface MintProgressProps {
+  state: MintingState;
+  network: NetworkConfig;
+  // Collection minted into, for the token link
+  collectionAddress?: string;
+  // Recovery actions offered for a classified failure
+  actions?: Partial<Record<RecoveryAction, () => void>>;
+}
+
+const STEPS: { stage: MintStage; label: string }[] = [
+  { stage: 'uploading-image', label: 'Upload image' },
+  { stage: 'uploading-metadata', label: 'Upload metadata' },
+  { stage: 'awaiting-signature', label: 'Sign transaction' },
+  { stage: 'pending', label: 'Wait for confirmations' },
+  { stage: 'confirmed', label: 'Minted' },
+];
+
+const UPLOAD_STAGES: MintStage[] = ['uploading-image', 'uploading-metadata'];
+
+const FAILURE_TITLES: Partial<Record<MintStage, string>> = {
+  failed: 'Mint failed',
+  replaced: 'Mint replaced',
+  dropped: 'Mint dropped',
+};
+
+const TxLink: React.FC<{ network: NetworkConfig; hash: string }> = ({ network, hash }) => (
+  <a
+    href={getExplorerTxUrl(network, hash)}
+    target="_blank"
+    rel="noopener noreferrer"
+    className="font-mono underline hover:text-white break-all"
+  >
+    {hash.slice(0, 10)}...{hash.slice(-8)}
+  </a>
+);
+
+export const MintProgress: React.FC<MintProgressProps> = ({ state, network, collectionAddress, actions }) => {
+  const failureTitle = FAILURE_TITLES[state.stage];
+
+  if (failureTitle || (state.stage === 'idle' && state.error)) {
+    const links = (
+      <>
+        {state.txHash && (
+          <p className="text-sm">Transaction: <TxLink network={network} hash={state.txHash} /></p>
+        )}
+        {state.replacementHash && (
+          <p className="text-sm">Replaced by: <TxLink network={network} hash={state.replacementHash} /></p>
+        )}
+      </>
+    );
+
+    if (state.failure) {
+      return (
+        <ErrorNotice error={state.failure} actions={actions} title={failureTitle}>
+          {links}
+        </ErrorNotice>
+      );
+    }
+
+    return (
+      <div className="bg-red-500/20 text-red-200 p-4 rounded-lg space-y-1">
+        <p>{failureTitle ? `${failureTitle}: ` : 'Error: '}{state.error}</p>
+        {links}
+      </div>
+    );
+  }
+
+  if (state.stage === 'idle') {
+    return null;
+  }
+
+  const steps = state.storage === 'onchain' ? STEPS.filter((step) => !UPLOAD_STAGES.includes(step.stage)) : STEPS;
+  const current = steps.findIndex((step) => step.stage === state.stage);
+
+  return (
+    <div className={`p-4 rounded-lg space-y-3 ${state.stage === 'confirmed' ? 'bg-green-500/20 text-green-200' : 'bg-white/5 text-purple-200'}`}>
+      <ol className="space-y-1 text-sm">
+        {steps.map((step, index) => {
+          const done = index < current || state.stage === 'confirmed';
+          const active = index === current && state.stage !== 'confirmed';
+          return (
+            <li key={step.stage} className={`flex items-center gap-2 ${done || active ? '' : 'opacity-50'}`}>
+              <span className="w-4 text-center">{done ? '✓' : active ? '•' : ''}</span>
+              <span className={active ? 'font-semibold text-white' : ''}>
+                {step.label}
+                {step.stage === 'pending' && active && state.confirmations > 0 && (
+                  ` (${state.confirmations}/${MINT_CONFIRMATIONS})`
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+
+      {state.txHash && (
+        <p className="text-sm">Transaction: <TxLink network={network} hash={state.txHash} /></p>
+      )}
+      {state.tokenId && (
+        <p className="text-sm">
+          Token ID: <Link to={getTokenPath(network, state.tokenId, collectionAddress)} className="underline hover:text-white">#{state.tokenId}</Link>
+        </p>
+      )}
+      {state.error && (
+        <p className="text-sm text-yellow-200">{state.error}</p>
+      )}
+    </div>
+  );
+};
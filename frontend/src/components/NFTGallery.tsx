@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useNetwork } from '../hooks/useNetwork';
+import { useCollection } from '../hooks/useCollection';
+import { useActivity } from '../hooks/useActivity';
+import { createNFTMinterClient, NFTMinterContract } from '../contracts/NFTMinter';
+import { getOwnedTokenIds, loadToken } from '../utils/tokens';
+import { getIndexedOwnedTokenIds } from '../utils/indexer';
+import { createReadProvider } from '../utils/polkadot';
+import { getTokenPath } from '../utils/routes';
+import { OwnedNFT } from '../types/nft';
+import { TransferDialog } from './TransferDialog';
+import { MediaViewer } from './MediaViewer';
+
+// Number of tokens shown per gallery page
+const PAGE_SIZE = 6;
+
+interface NFTGalleryProps {
+  account: string;
+  refreshKey: number;
+}
+
+const compareTokenIds = (a: bigint, b: bigint) => (a < b ? -1 : a > b ? 1 : 0);
+
+const SkeletonCard = () => (
+  <div className="bg-white/10 rounded-xl overflow-hidden shadow-xl animate-pulse">
+    <div className="w-full h-64 bg-white/20"></div>
+    <div className="p-6 space-y-3">
+      <div className="h-5 w-2/3 bg-white/20 rounded"></div>
+      <div className="h-4 w-full bg-white/20 rounded"></div>
+    </div>
+  </div>
+);
+
+export const NFTGallery: React.FC<NFTGalleryProps> = ({ account, refreshKey }) => {
+  const [contract, setContract] = useState<NFTMinterContract | null>(null);
+  const [tokenIds, setTokenIds] = useState<bigint[]>([]);
+  const [nfts, setNfts] = useState<Record<string, OwnedNFT>>({});
+  const [page, setPage] = useState(0);
+  const [loadingIds, setLoadingIds] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [transferring, setTransferring] = useState<OwnedNFT | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { network } = useNetwork();
+  const { collection } = useCollection();
+  const { subscribe } = useActivity();
+
+  // Rebuild the owned token list from Transfer logs
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTokenIds = async () => {
+      setLoadingIds(true);
+      setError(null);
+
+      try {
+        if (!collection) {
+          throw new Error(`No collection deployed on ${network.name}`);
+        }
+        // Read through the network's public RPC so the gallery works whatever chain the wallet is on
+        const provider = createReadProvider(network);
+        const contractInstance = createNFTMinterClient(collection.address, provider);
+
+        console.log(`Fetching NFTs for account ${account} on ${network.name}`);
+        const owned = await getIndexedOwnedTokenIds(network, collection.address, account)
+          ?? await getOwnedTokenIds(contractInstance, account, collection.deployBlock);
+        console.log('Owned token IDs:', owned.map(String));
+
+        if (!cancelled) {
+          setContract(contractInstance);
+          setTokenIds(owned);
+          setNfts({});
+          setPage(0);
+        }
+      } catch (err) {
+        console.error('Error fetching NFTs:', err);
+        if (!cancelled) {
+          setError('Could not fetch your NFTs. Please try again later.');
+          setTokenIds([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoadingIds(false);
+        }
+      }
+    };
+
+    fetchTokenIds();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [account, refreshKey, reloadKey, network, collection]);
+
+  // Apply transfers and metadata updates from other tabs, devices or the CLI as they land
+  useEffect(() => subscribe((events) => {
+    const owner = account.toLowerCase();
+    for (const event of events) {
+      const { tokenId } = event;
+      if (event.kind === 'metadata') {
+        // Dropping the cached token makes the page load it again
+        setNfts((prev) => {
+          if (!prev[tokenId.toString()]) return prev;
+          const next = { ...prev };
+          delete next[tokenId.toString()];
+          return next;
+        });
+        continue;
+      }
+      if (event.from.toLowerCase() === owner) {
+        setTokenIds((prev) => prev.filter((id) => id !== tokenId));
+      }
+      if (event.to.toLowerCase() === owner) {
+        setTokenIds((prev) => (prev.includes(tokenId) ? prev : [...prev, tokenId].sort(compareTokenIds)));
+      }
+    }
+  }), [subscribe, account]);
+
+  const pageCount = Math.ceil(tokenIds.length / PAGE_SIZE);
+
+  // Step back when tokens leaving the account empty the last page
+  useEffect(() => {
+    if (page > 0 && page >= pageCount) {
+      setPage(pageCount - 1);
+    }
+  }, [page, pageCount]);
+  const pageTokenIds = tokenIds.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  // Resolve token URIs for the visible page concurrently
+  useEffect(() => {
+    if (!contract) return;
+
+    const missing = tokenIds
+      .slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE)
+      .filter((tokenId) => !nfts[tokenId.toString()]);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+
+    Promise.allSettled(missing.map((tokenId) => loadToken(contract, tokenId)))
+      .then((results) => {
+        if (cancelled) return;
+        const loaded: Record<string, OwnedNFT> = {};
+        results.forEach((result, index) => {
+          const tokenId = missing[index];
+          if (result.status === 'fulfilled') {
+            loaded[tokenId.toString()] = result.value;
+          } else {
+            // Keep a placeholder so the page does not retry the token forever
+            console.error(`Error fetching token ${tokenId}:`, result.reason);
+            loaded[tokenId.toString()] = {
+              tokenId,
+              tokenURI: '',
+              name: `NFT #${tokenId}`,
+              description: 'Metadata unavailable',
+              image: '',
+              animation: null,
+            };
+          }
+        });
+        setNfts((prev) => ({ ...prev, ...loaded }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contract, tokenIds, page, nfts]);
+
+  return (
+    <div className="mt-12">
+      <h2 className="text-3xl font-bold text-center mb-8">
+        Your NFTs{collection?.creator ? ` in ${collection.name}` : ''}
+      </h2>
+
+      {error && (
+        <div className="bg-red-500 text-white p-4 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {loadingIds ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {Array.from({ length: 3 }, (_, index) => (
+            <SkeletonCard key={index} />
+          ))}
+        </div>
+      ) : tokenIds.length === 0 ? (
+        !error && (
+          <div className="text-center py-8 bg-white/10 rounded-lg">
+            <p className="text-purple-200">No NFTs found. Mint a new one to get started!</p>
+          </div>
+        )
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {pageTokenIds.map((tokenId) => {
+              const nft = nfts[tokenId.toString()];
+              if (!nft) {
+                return <SkeletonCard key={tokenId.toString()} />;
+              }
+              return (
+                <div
+                  key={tokenId.toString()}
+                  className="bg-white/10 backdrop-blur-sm rounded-xl overflow-hidden shadow-xl transform hover:scale-105 transition-transform duration-300"
+                >
+                  {nft.animation ? (
+                    // Players are kept out of the link so their controls do not navigate
+                    <MediaViewer image={nft.image} animation={nft.animation} alt={nft.name} className="h-64" compact />
+                  ) : (
+                    <Link to={getTokenPath(network, tokenId, collection?.address)} className="block">
+                      <img
+                        src={nft.image}
+                        alt={nft.name}
+                        loading="lazy"
+                        className="w-full h-64 object-cover"
+                      />
+                    </Link>
+                  )}
+                  <Link to={getTokenPath(network, tokenId, collection?.address)} className="block">
+                    <div className="p-6">
+                      <p className="text-sm text-purple-300 mb-1">#{nft.tokenId.toString()}</p>
+                      <h3 className="text-xl font-bold mb-2">{nft.name}</h3>
+                      <p className="text-purple-200">{nft.description}</p>
+                    </div>
+                  </Link>
+                  <div className="px-6 pb-6">
+                    <button
+                      onClick={() => setTransferring(nft)}
+                      className="w-full py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-medium"
+                    >
+                      Transfer
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-8">
+              <button
+                onClick={() => setPage((prev) => prev - 1)}
+                disabled={page === 0}
+                className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span className="text-purple-200">
+                Page {page + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage((prev) => prev + 1)}
+                disabled={page >= pageCount - 1}
+                className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      {transferring && collection && (
+        <TransferDialog
+          nft={transferring}
+          account={account}
+          contractAddress={collection.address}
+          onClose={() => setTransferring(null)}
+          onTransferred={() => setReloadKey((prev) => prev + 1)}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,192 +1,547 @@
-import { useState, useEffect } from 'react';
-import { ethers } from 'ethers';
-import { uploadToIPFS, uploadMetadataToIPFS } from '../utils/ipfs';
-import { MintingState, NFTMetadata } from '../types/nft';
-
-// Deployed contract address on Westend Asset Hub
-const NFT_MINTER_CONTRACT_ADDRESS = '0x92fd6660B83F6a37A782A24385A9db5460c1D749';
-
-// Contract ABI for the NFTMinter contract
-const NFT_MINTER_ABI = [
-  "function mintNFT(string memory tokenURI) public returns (uint256)",
-  "function getItemId() public view returns(uint256)",
-  "function tokenURI(uint256 tokenId) view returns (string)",
-  "function ownerOf(uint256 tokenId) view returns (address)",
-  "function balanceOf(address owner) view returns (uint256)",
-  "function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)",
-  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
-];
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { uploadToIPFS, uploadMetadataToIPFS, computeIpfsUri } from '../utils/ipfs';
+import { buildMetadata, EMPTY_METADATA_EXTRAS, serializeMetadata, validateMetadata } from '../utils/metadata';
+import { AnimationKind, MetadataExtras } from '../types/nft';
+import { MediaMetadata, MediaRendition, PreparedAnimation, PreparedMedia } from '../types/media';
+import { MintingState, MintStage, MintStorage, OnChainCostEstimate, PendingMint } from '../types/mint';
+import { BalanceCheck, FeeEstimate } from '../types/fees';
+import { UploadProgress } from '../types/storage';
+import { MetadataEditor } from './MetadataEditor';
+import { BatchMinter } from './BatchMinter';
+import { useNetwork } from '../hooks/useNetwork';
+import { useWallet } from '../hooks/useWallet';
+import { useCollection } from '../hooks/useCollection';
+import { useNativeAccount } from '../hooks/useNativeAccount';
+import { createNFTMinterClient } from '../contracts/NFTMinter';
+import { loadPendingMints, savePendingMint, trackMint } from '../utils/mint';
+import { createReadProvider } from '../utils/polkadot';
+import { getNetworkByChainId } from '../constants/networks';
+import { ONCHAIN_URI_BUDGET_BYTES } from '../constants/contract';
+import { buildOnChainTokenUri, estimateOnChainExtraCost, exceedsOnChainBudget, fileToDataUri, getUriBytes, ONCHAIN_IMAGE_TYPES } from '../utils/onchain';
+import { checkBalance, estimateMintFee, formatAmount, InsufficientFundsError } from '../utils/fees';
+import { classifyError } from '../utils/errors';
+import { checkExistentialDeposit, formatNativeAmount } from '../utils/substrate';
+import {
+  computeMediaUris,
+  describeMediaLimits,
+  getAnimationKind,
+  getAnimationLimits,
+  getAnimationMetadata,
+  getFileType,
+  getMediaLimits,
+  getMediaMetadata,
+  prepareAnimation,
+  prepareMedia,
+  toAcceptAttribute,
+  uploadMedia,
+  validateMediaFile,
+} from '../utils/media';
+import { MintProgress } from './MintProgress';
+import { MediaViewer } from './MediaViewer';
 
 interface NFTMinterProps {
   onNFTCreated: (nft: { name: string; description: string; image: string }) => void;
-  account: string | null;
-  onConnectWallet: () => Promise<void>;
+  onBatchMinted: () => void;
+  onConnectWallet: () => void;
 }
 
-interface EthereumProvider {
-  request: (args: { method: string; params?: any[] }) => Promise<any>;
-  on: (event: string, callback: (params: any) => void) => void;
-  removeListener: (event: string, callback: (params: any) => void) => void;
-}
+const IDLE_STATE: MintingState = { stage: 'idle', error: null, confirmations: 0 };
+
+// Stages during which a new mint cannot be started
+const ACTIVE_STAGES: MintStage[] = ['uploading-image', 'uploading-metadata', 'awaiting-signature', 'pending'];
+
+// Delay before re-estimating the mint fee while the form is edited
+const ESTIMATE_DEBOUNCE_MS = 600;
+
+const MEDIA_LIMITS = getMediaLimits();
+
+// On-chain mints can only embed the accepted types that wallets render from a data: URI
+const ONCHAIN_MEDIA_LIMITS = {
+  ...MEDIA_LIMITS,
+  types: MEDIA_LIMITS.types.filter((type) => ONCHAIN_IMAGE_TYPES.includes(type)),
+};
+
+const ANIMATION_LIMITS = getAnimationLimits();
 
-declare global {
-  interface Window {
-    ethereum?: EthereumProvider;
-  }
+const ANIMATION_LABELS: Record<AnimationKind, string> = {
+  video: 'video',
+  audio: 'audio file',
+  model: '3D model',
+};
+
+const RENDITION_LABELS: Record<MediaRendition, string> = {
+  image: 'Uploading image',
+  preview: 'Uploading preview',
+  thumbnail: 'Uploading thumbnail',
+};
+
+interface FeePreview {
+  fee: FeeEstimate;
+  balance: BalanceCheck;
+  // Only for on-chain mints
+  onChain: OnChainCostEstimate | null;
 }
 
-export const NFTMinter: React.FC<NFTMinterProps> = ({ onNFTCreated, account, onConnectWallet }) => {
+// Keeps embedded images from flooding the metadata preview
+const truncateDataUri = (uri: string) => (uri.startsWith('data:') && uri.length > 96
+  ? `${uri.slice(0, 64)}... (${uri.length} characters)`
+  : uri);
+
+export const NFTMinter: React.FC<NFTMinterProps> = ({ onNFTCreated, onBatchMinted, onConnectWallet }) => {
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
+  const [storage, setStorage] = useState<MintStorage>('ipfs');
   const [file, setFile] = useState<File | null>(null);
+  const [media, setMedia] = useState<PreparedMedia | null>(null);
+  const [mediaFields, setMediaFields] = useState<MediaMetadata>({});
+  const [isDragging, setIsDragging] = useState(false);
+  const [animationFile, setAnimationFile] = useState<File | null>(null);
+  const [animation, setAnimation] = useState<PreparedAnimation | null>(null);
+  const [animationUri, setAnimationUri] = useState<string | null>(null);
+  const [animationPreviewUrl, setAnimationPreviewUrl] = useState<string | null>(null);
+  const [animationError, setAnimationError] = useState<string | null>(null);
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
-  const [signer, setSigner] = useState<ethers.Signer | null>(null);
-  const [mintingState, setMintingState] = useState<MintingState>({
-    isMinting: false,
-    error: null,
-    success: false,
-  });
+  const [extras, setExtras] = useState<MetadataExtras>(EMPTY_METADATA_EXTRAS);
+  const [imageUri, setImageUri] = useState<string | null>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const [ipfsTokenUri, setIpfsTokenUri] = useState<string | null>(null);
+  const [feePreview, setFeePreview] = useState<FeePreview | null>(null);
+  const [feeError, setFeeError] = useState<string | null>(null);
+  const [mintingState, setMintingState] = useState<MintingState>(IDLE_STATE);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<{ label: string; progress: UploadProgress } | null>(null);
+  const { network, isWrongChain, switchWalletNetwork } = useNetwork();
+  const { wallet, account, signer, balance, chainId, refreshBalance, disconnect } = useWallet();
+  const { collection } = useCollection();
+  const { account: nativeAccount } = useNativeAccount(account);
+  // The balance is read on the wallet's chain, which may not be the selected network
+  const walletNetwork = chainId !== null ? getNetworkByChainId(chainId) : undefined;
+  const contractAddress = collection?.address;
+  const trackingRef = useRef(new Set<string>());
+  const isMinting = ACTIVE_STAGES.includes(mintingState.stage);
+  const mediaLimits = storage === 'onchain' ? ONCHAIN_MEDIA_LIMITS : MEDIA_LIMITS;
+  // Video, audio and model files are far too large to embed in a token URI
+  const animationBlocked = storage === 'onchain' && animationFile !== null;
+
+  const updateMintingState = useCallback((changes: Partial<MintingState>) => {
+    setMintingState((prev) => ({ ...prev, ...changes }));
+  }, []);
 
-  // Initialize provider, signer, and contract
+  // Follows a sent mint until it is final; the same transaction is never tracked twice
+  const track = useCallback(async (mint: PendingMint) => {
+    const mintNetwork = getNetworkByChainId(mint.chainId);
+    if (!mintNetwork || trackingRef.current.has(mint.txHash)) return;
+    trackingRef.current.add(mint.txHash);
+    updateMintingState({ storage: mint.metadataUri.startsWith('data:') ? 'onchain' : 'ipfs' });
+
+    try {
+      const stage = await trackMint(createReadProvider(mintNetwork), mint, updateMintingState);
+      console.log(`Mint ${mint.txHash} finished as ${stage}`);
+      if (stage === 'confirmed') {
+        onNFTCreated({ name: mint.name, description: mint.description, image: mint.image });
+        refreshBalance();
+      }
+    } catch (error) {
+      console.error('Error tracking mint:', error);
+      updateMintingState({
+        stage: 'idle',
+        error: 'Lost track of the mint transaction. It will be checked again after a reload.',
+      });
+    } finally {
+      trackingRef.current.delete(mint.txHash);
+    }
+  }, [onNFTCreated, updateMintingState, refreshBalance]);
+
+  // Resume tracking mints that were still pending when the page was reloaded
   useEffect(() => {
-    const init = async () => {
-      if (window.ethereum && account) {
-        try {
-          const provider = new ethers.BrowserProvider(window.ethereum as ethers.Eip1193Provider);
-          const signer = await provider.getSigner();
-          setSigner(signer);
-          
-          const contractInstance = new ethers.Contract(
-            NFT_MINTER_CONTRACT_ADDRESS,
-            NFT_MINTER_ABI,
-            signer
-          );
-          
-          setContract(contractInstance);
-        } catch (error) {
-          console.error('Error initializing provider and contract:', error);
-          setMintingState({
-            isMinting: false,
-            error: 'Failed to initialize wallet connection',
-            success: false,
-          });
-        }
+    if (!account || !contractAddress) return;
+    const pending = loadPendingMints().filter((mint) =>
+      mint.from.toLowerCase() === account.toLowerCase()
+      && mint.chainId === network.chainId
+      && mint.contractAddress.toLowerCase() === contractAddress.toLowerCase()
+    );
+    pending.forEach((mint) => {
+      track(mint);
+    });
+  }, [account, contractAddress, network.chainId, track]);
+
+  // Writes are only wired up while the wallet is on the selected network's chain
+  const contract = useMemo(
+    () => (contractAddress && signer && !isWrongChain ? createNFTMinterClient(contractAddress, signer) : null),
+    [contractAddress, signer, isWrongChain]
+  );
+
+  // Shows the picked file; the object URL is released when the file changes
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Strip metadata and make the preview and thumbnail as soon as a file is picked
+  useEffect(() => {
+    setMedia(null);
+    setImageError(null);
+    if (!file) return;
+
+    let cancelled = false;
+    prepareMedia(file)
+      .then((prepared) => {
+        if (!cancelled) setMedia(prepared);
+      })
+      .catch((error) => {
+        console.error('Error preparing image:', error);
+        if (!cancelled) setImageError(error instanceof Error ? error.message : 'Could not read the image');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Plays the picked animation file in the upload box
+  useEffect(() => {
+    if (!animationFile) {
+      setAnimationPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(animationFile);
+    setAnimationPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [animationFile]);
+
+  // Type and hash the animation file, then compute the CID it will be pinned under
+  useEffect(() => {
+    setAnimation(null);
+    setAnimationUri(null);
+    if (!animationFile) return;
+
+    let cancelled = false;
+    const prepare = async () => {
+      const prepared = await prepareAnimation(animationFile);
+      if (cancelled) return;
+      setAnimation(prepared);
+      const uri = await computeIpfsUri(prepared.file);
+      if (!cancelled) setAnimationUri(uri);
+    };
+    prepare().catch((error) => {
+      console.error('Error preparing animation:', error);
+      if (!cancelled) setAnimationError(error instanceof Error ? error.message : 'Could not read the file');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [animationFile]);
+
+  // Compute the image URIs up front so the metadata preview matches what gets minted:
+  // the CIDs the image and its renditions will be pinned under, or the data: URI it will be embedded as
+  useEffect(() => {
+    setImageUri(null);
+    setMediaFields({});
+    if (!media) return;
+    setImageError(null);
+
+    let cancelled = false;
+    const computeUris = async () => {
+      if (storage === 'onchain') {
+        // Renditions and details would only take up contract storage
+        const uri = await fileToDataUri(media.file);
+        if (!cancelled) setImageUri(uri);
+        return;
+      }
+      const uris = await computeMediaUris(media);
+      if (!cancelled) {
+        setImageUri(uris.image);
+        setMediaFields(getMediaMetadata(uris, media));
       }
     };
-    
-    init();
-  }, [account]);
+    computeUris().catch((error) => {
+      console.error('Error computing image URI:', error);
+      if (!cancelled) setImageError(error instanceof Error ? error.message : 'Could not read the image');
+    });
 
-  // Handle account changes
+    return () => {
+      cancelled = true;
+    };
+  }, [media, storage]);
+
+  const animationFields = storage === 'ipfs' && animation && animationUri ? getAnimationMetadata(animationUri, animation) : {};
+  const metadata = buildMetadata(name, description, imageUri ?? '', extras, { ...mediaFields, ...animationFields });
+  const validationErrors = validateMetadata(metadata);
+  const onChainUri = storage === 'onchain' && imageUri ? buildOnChainTokenUri(metadata) : null;
+  const onChainBytes = onChainUri ? getUriBytes(onChainUri) : 0;
+  const overBudget = onChainUri ? exceedsOnChainBudget(onChainUri) : false;
+  const metadataJson = serializeMetadata(metadata);
+
+  // The metadata CID is known before uploading, so IPFS mints are estimated with their real token URI
   useEffect(() => {
-    if (window.ethereum) {
-      const handleAccountsChanged = async (accounts: string[]) => {
-        if (accounts.length === 0) {
-          setSigner(null);
-          setContract(null);
-        } else {
-          const provider = new ethers.BrowserProvider(window.ethereum as ethers.Eip1193Provider);
-          const signer = await provider.getSigner();
-          const contractInstance = new ethers.Contract(
-            NFT_MINTER_CONTRACT_ADDRESS,
-            NFT_MINTER_ABI,
-            signer
-          );
-          setSigner(signer);
-          setContract(contractInstance);
+    setIpfsTokenUri(null);
+    if (storage !== 'ipfs' || !imageUri) return;
+
+    let cancelled = false;
+    computeIpfsUri(new Blob([metadataJson], { type: 'application/json' }))
+      .then((uri) => {
+        if (!cancelled) setIpfsTokenUri(uri);
+      })
+      .catch((error) => console.error('Error computing metadata CID:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, imageUri, metadataJson]);
+
+  const tokenUri = storage === 'onchain' ? onChainUri : ipfsTokenUri;
+
+  // Estimate the fee and compare it with the balance once the form settles
+  useEffect(() => {
+    setFeePreview(null);
+    setFeeError(null);
+    const provider = contract?.runner?.provider;
+    if (!tokenUri || overBudget || !contract || !provider || !account || isWrongChain) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const fee = await estimateMintFee(contract, tokenUri, network);
+        const [balance, onChain] = await Promise.all([
+          checkBalance(provider, account, fee),
+          storage === 'onchain' ? estimateOnChainExtraCost(contract, tokenUri, fee) : null,
+        ]);
+        if (!cancelled) setFeePreview({ fee, balance, onChain });
+      } catch (error) {
+        console.error('Error estimating mint fee:', error);
+        if (!cancelled) {
+          setFeeError(storage === 'onchain'
+            ? 'Could not estimate the fee; the mint may not fit in a block.'
+            : 'Could not estimate the fee.');
         }
-      };
+      }
+    }, ESTIMATE_DEBOUNCE_MS);
 
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
-      window.ethereum.on('chainChanged', () => window.location.reload());
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [tokenUri, overBudget, contract, account, isWrongChain, network, storage]);
 
-      return () => {
-        window.ethereum?.removeListener('accountsChanged', handleAccountsChanged);
-        window.ethereum?.removeListener('chainChanged', () => window.location.reload());
-      };
+  const insufficientFunds = feePreview !== null && !feePreview.balance.sufficient;
+  // Fees come out of the Substrate account, which the chain reaps below the existential deposit
+  const depositCheck = feePreview && nativeAccount
+    ? checkExistentialDeposit(nativeAccount.balance, feePreview.fee.maxCost, network)
+    : null;
+
+  // Picked, dropped and pasted files all go through the same checks; video,
+  // audio and model files become the animation and images its poster
+  const selectFile = useCallback((picked: File) => {
+    if (getAnimationKind(getFileType(picked))) {
+      const problem = storage === 'onchain'
+        ? 'Video, audio and 3D files can only be minted via IPFS'
+        : validateMediaFile(picked, ANIMATION_LIMITS);
+      setAnimationError(problem);
+      if (!problem) setAnimationFile(picked);
+      return;
     }
-  }, []);
+    const problem = validateMediaFile(picked, mediaLimits);
+    setImageError(problem);
+    if (!problem) setFile(picked);
+  }, [mediaLimits, storage]);
+
+  const removeAnimation = () => {
+    setAnimationFile(null);
+    setAnimationError(null);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setFile(file);
-      setPreviewUrl(URL.createObjectURL(file));
-    }
+    // A video and its poster can be picked together
+    Array.from(e.target.files ?? []).slice(0, 2).forEach(selectFile);
+    // Picking the same file again after clearing the form should still fire
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (!isMinting) setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!isMinting) Array.from(e.dataTransfer.files).slice(0, 2).forEach(selectFile);
   };
 
+  // An image pasted anywhere on the page is taken as the NFT image
+  const acceptsPaste = !!account && mode === 'single' && !isMinting;
+  useEffect(() => {
+    if (!acceptsPaste) return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const pasted = e.clipboardData?.files[0];
+      if (!pasted) return;
+      e.preventDefault();
+      selectFile(pasted);
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [acceptsPaste, selectFile]);
+
   const handleMint = async () => {
-    if (!file || !name || !description) {
+    if (animationFile && !file) {
       setMintingState({
-        isMinting: false,
-        error: 'Please fill in all fields',
-        success: false,
+        ...IDLE_STATE,
+        error: `Add a poster image; it is shown wherever the ${ANIMATION_LABELS[animation?.kind ?? 'video']} cannot be played`,
       });
       return;
     }
 
-    if (!account || !contract || !signer) {
+    if (animationBlocked) {
+      setMintingState({ ...IDLE_STATE, error: 'Video, audio and 3D files can only be minted via IPFS' });
+      return;
+    }
+
+    if (animationFile && !animation) {
+      setMintingState({ ...IDLE_STATE, error: animationError ?? 'The media file is still being prepared' });
+      return;
+    }
+
+    if (!file || !name || !description) {
+      setMintingState({ ...IDLE_STATE, error: 'Please fill in all fields' });
+      return;
+    }
+
+    if (!media) {
+      setMintingState({ ...IDLE_STATE, error: imageError ?? 'The image is still being prepared' });
+      return;
+    }
+
+    const invalidFields = validationErrors.filter((error) => error.field !== 'image');
+    if (invalidFields.length > 0) {
+      setMintingState({ ...IDLE_STATE, error: invalidFields.map((error) => error.message).join('. ') });
+      return;
+    }
+
+    if (!account || !contract || !signer || !contractAddress) {
+      setMintingState({ ...IDLE_STATE, error: 'Please connect your wallet first' });
+      return;
+    }
+
+    if (storage === 'onchain' && (!onChainUri || !imageUri)) {
+      setMintingState({ ...IDLE_STATE, error: imageError ?? 'The image is still being encoded' });
+      return;
+    }
+
+    if (overBudget) {
       setMintingState({
-        isMinting: false,
-        error: 'Please connect your wallet first',
-        success: false,
+        ...IDLE_STATE,
+        error: `The token URI is ${onChainBytes} bytes, over the ${ONCHAIN_URI_BUDGET_BYTES} byte on-chain budget. Use a smaller image or mint via IPFS.`,
       });
       return;
     }
 
-    setMintingState({ isMinting: true, error: null, success: false });
+    if (feePreview && !feePreview.balance.sufficient) {
+      setMintingState({ ...IDLE_STATE, error: new InsufficientFundsError(feePreview.balance, network).message });
+      return;
+    }
+
+    setMintingState({
+      ...IDLE_STATE,
+      stage: storage === 'onchain' ? 'awaiting-signature' : 'uploading-image',
+      storage,
+    });
 
     try {
-      // Upload image to IPFS
-      console.log('Uploading image to IPFS...');
-      const imageUri = await uploadToIPFS(file);
-      console.log('Image uploaded to IPFS:', imageUri);
+      let metadataUri: string;
+      let finalImageUri: string;
 
-      // Create and upload metadata
-      const metadata: NFTMetadata = {
-        name,
-        description,
-        image: imageUri,
-      };
-      console.log('Uploading metadata to IPFS...');
-      const metadataUri = await uploadMetadataToIPFS(metadata);
-      console.log('Metadata uploaded to IPFS:', metadataUri);
+      if (onChainUri && imageUri) {
+        // Metadata and image travel in the token URI itself; nothing is pinned
+        metadataUri = onChainUri;
+        finalImageUri = imageUri;
+      } else {
+        // Upload the image and its renditions to IPFS; each URI is verified against the file's CID
+        console.log('Uploading image to IPFS...');
+        const uris = await uploadMedia(media, {
+          onProgress: (rendition, progress) => setUploadProgress({ label: RENDITION_LABELS[rendition], progress }),
+        });
+        finalImageUri = uris.image;
+        console.log('Image uploaded to IPFS:', uris);
 
-      // Mint NFT
-      console.log('Minting NFT with metadata URI:', metadataUri);
-      const tx = await contract.mintNFT(metadataUri);
-      console.log('Transaction sent:', tx.hash);
+        let uploadedAnimation: MediaMetadata = {};
+        if (animation) {
+          const label = `Uploading ${ANIMATION_LABELS[animation.kind]}`;
+          const uri = await uploadToIPFS(animation.file, {
+            onProgress: (progress) => setUploadProgress({ label, progress }),
+          });
+          console.log('Animation uploaded to IPFS:', uri);
+          uploadedAnimation = getAnimationMetadata(uri, animation);
+        }
 
-      // Wait for the transaction to be mined
-      const receipt = await tx.wait();
-      console.log('Transaction confirmed:', receipt);
+        // Create and upload metadata
+        updateMintingState({ stage: 'uploading-metadata' });
+        const finalMetadata = buildMetadata(name, description, finalImageUri, extras, {
+          ...getMediaMetadata(uris, media),
+          ...uploadedAnimation,
+        });
+        console.log('Uploading metadata to IPFS...');
+        metadataUri = await uploadMetadataToIPFS(finalMetadata, {
+          onProgress: (progress) => setUploadProgress({ label: 'Uploading metadata', progress }),
+        });
+        console.log('Metadata uploaded to IPFS:', metadataUri);
+        setUploadProgress(null);
+      }
+
+      // Price the mint with the final token URI and make sure the account can pay for it
+      const fee = await estimateMintFee(contract, metadataUri, network);
+      const provider = contract.runner?.provider;
+      if (provider) {
+        const balance = await checkBalance(provider, account, fee);
+        if (!balance.sufficient) {
+          throw new InsufficientFundsError(balance, network);
+        }
+      }
+
+      // Mint NFT; the block number is taken first so a replacement can be detected later
+      updateMintingState({ stage: 'awaiting-signature' });
+      const startBlock = await createReadProvider(network).getBlockNumber();
+      console.log('Minting NFT with metadata URI:', truncateDataUri(metadataUri));
+      const tx = await contract.mintNFT(metadataUri, fee.overrides);
+      console.log('Transaction sent:', tx.hash);
 
-      // Pass the NFT data to parent component
-      onNFTCreated({
+      const pending: PendingMint = {
+        txHash: tx.hash,
+        nonce: tx.nonce,
+        from: tx.from,
+        chainId: network.chainId,
+        contractAddress,
+        startBlock,
+        metadataUri,
         name,
         description,
-        image: imageUri
-      });
-
-      setMintingState({
-        isMinting: false,
-        error: null,
-        success: true,
-      });
+        image: finalImageUri,
+        submittedAt: Date.now(),
+      };
+      savePendingMint(pending);
 
       // Clear form
       setFile(null);
+      setAnimationFile(null);
       setName('');
       setDescription('');
-      setPreviewUrl(null);
+      setExtras(EMPTY_METADATA_EXTRAS);
+
+      await track(pending);
     } catch (error) {
       console.error('Error minting NFT:', error);
-      setMintingState({
-        isMinting: false,
-        error: error instanceof Error ? error.message : 'Failed to mint NFT',
-        success: false,
-      });
+      setUploadProgress(null);
+      const failure = classifyError(error, network);
+      updateMintingState({ stage: 'failed', error: failure.message, failure });
     }
   };
 
@@ -203,19 +558,104 @@ export const NFTMinter: React.FC<NFTMinterProps> = ({ onNFTCreated, account, onC
         </button>
       ) : (
         <div className="mb-6">
-          <p className="text-purple-200">Connected Account: {account}</p>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-purple-200 break-all">
+              Connected Account: {account}
+              {wallet && <span className="text-purple-300"> ({wallet.name})</span>}
+              {balance !== null && walletNetwork && (
+                <span className="block text-sm text-purple-300">Balance: {formatAmount(balance, walletNetwork)}</span>
+              )}
+            </p>
+            <div className="flex gap-2 text-sm">
+              <button onClick={onConnectWallet} className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20">
+                Change
+              </button>
+              <button onClick={disconnect} className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20">
+                Disconnect
+              </button>
+            </div>
+          </div>
+          {wallet?.kind === 'substrate' && (
+            <p className="mt-2 text-sm text-yellow-200">
+              Minting and transfers are signed with an Ethereum wallet. Your Polkadot account is shown
+              through the H160 address it maps to on Asset Hub.
+            </p>
+          )}
         </div>
       )}
-      
+
       {account && (
+        <div className="flex gap-2 mb-6">
+          {(['single', 'batch'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-300 ${
+                mode === option ? 'bg-purple-600 text-white' : 'bg-white/10 text-purple-200 hover:bg-white/20'
+              }`}
+            >
+              {option === 'single' ? 'Single NFT' : 'Batch Mint'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {account && mode === 'batch' && (
+        <BatchMinter
+          account={account}
+          chainId={network.chainId}
+          contractAddress={contractAddress ?? null}
+          contract={contract}
+          onBatchMinted={onBatchMinted}
+        />
+      )}
+      
+      {account && mode === 'single' && (
         <div className="space-y-6">
+          <div className="space-y-2">
+            <span className="block text-sm font-medium text-purple-200">Storage</span>
+            <div className="flex gap-2">
+              {(['ipfs', 'onchain'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setStorage(option)}
+                  disabled={isMinting}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-300 ${
+                    storage === option ? 'bg-purple-600 text-white' : 'bg-white/10 text-purple-200 hover:bg-white/20'
+                  }`}
+                >
+                  {option === 'ipfs' ? 'IPFS' : 'On-chain'}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-purple-300">
+              {storage === 'ipfs'
+                ? 'The image and metadata are pinned to IPFS and the token stores a link to them.'
+                : 'The image and metadata are embedded in the token URI, so the token needs no pinning and lasts as long as the chain.'}
+            </p>
+          </div>
+
           <div className="space-y-2">
             <label className="block text-sm font-medium text-purple-200">
-              NFT Image
+              {animationFile ? 'Media and poster image' : 'NFT Image'}
             </label>
-            <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-purple-300 border-dashed rounded-lg">
+            <div
+              onDragOver={handleDragOver}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-dashed rounded-lg transition-colors duration-300 ${
+                isDragging ? 'border-purple-100 bg-white/10' : 'border-purple-300'
+              }`}
+            >
               <div className="space-y-1 text-center">
-                {previewUrl ? (
+                {animation && animationPreviewUrl ? (
+                  <MediaViewer
+                    image={previewUrl ?? ''}
+                    animation={{ url: animationPreviewUrl, kind: animation.kind }}
+                    alt="Preview"
+                    className="mx-auto h-48 w-64 rounded-lg overflow-hidden"
+                  />
+                ) : previewUrl ? (
                   <img
                     src={previewUrl}
                     alt="Preview"
@@ -247,16 +687,56 @@ export const NFTMinter: React.FC<NFTMinterProps> = ({ onNFTCreated, account, onC
                       id="file-upload"
                       name="file-upload"
                       type="file"
-                      accept="image/*"
+                      accept={toAcceptAttribute(storage === 'ipfs' ? [...mediaLimits.types, ...ANIMATION_LIMITS.types] : mediaLimits.types)}
+                      multiple
                       onChange={handleFileChange}
                       className="sr-only"
                     />
                   </label>
-                  <p className="pl-1">or drag and drop</p>
+                  <p className="pl-1">or drop or paste it here</p>
                 </div>
-                <p className="text-xs text-purple-300">PNG, JPG, GIF up to 10MB</p>
+                <p className="text-xs text-purple-300">
+                  {storage === 'onchain'
+                    ? `${describeMediaLimits(mediaLimits)}; the whole token must fit in ${ONCHAIN_URI_BUDGET_BYTES / 1024} KB`
+                    : describeMediaLimits(mediaLimits)}
+                </p>
+                {storage === 'ipfs' && (
+                  <p className="text-xs text-purple-300">
+                    Or a video, audio file or 3D model ({describeMediaLimits(ANIMATION_LIMITS)}) together with a poster image
+                  </p>
+                )}
+                {animationFile && (
+                  <p className="text-xs text-purple-200">
+                    {animationFile.name}{' '}
+                    <button type="button" onClick={removeAnimation} disabled={isMinting} className="underline hover:text-white">
+                      Remove
+                    </button>
+                  </p>
+                )}
               </div>
             </div>
+            {imageError && (
+              <p className="text-sm text-red-300">{imageError}</p>
+            )}
+            {animationError && (
+              <p className="text-sm text-red-300">{animationError}</p>
+            )}
+            {animationBlocked && !animationError && (
+              <p className="text-sm text-red-300">Video, audio and 3D files can only be minted via IPFS.</p>
+            )}
+            {animation && !file && (
+              <p className="text-sm text-yellow-200">
+                Add a poster image; it is shown wherever the {ANIMATION_LABELS[animation.kind]} cannot be played.
+              </p>
+            )}
+            {media && !imageError && (
+              <p className="text-xs text-purple-300">
+                {media.stripped && 'Camera and location data were removed. '}
+                {storage === 'ipfs' && (media.preview || media.thumbnail) && (
+                  `A ${[media.preview && 'preview', media.thumbnail && 'thumbnail'].filter(Boolean).join(' and ')} will be pinned alongside the original.`
+                )}
+              </p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -287,23 +767,124 @@ export const NFTMinter: React.FC<NFTMinterProps> = ({ onNFTCreated, account, onC
             />
           </div>
 
+          <details className="bg-white/5 rounded-lg p-4">
+            <summary className="cursor-pointer text-sm font-medium text-purple-200">
+              Advanced metadata
+            </summary>
+            <div className="mt-4">
+              <MetadataEditor
+                extras={extras}
+                onChange={setExtras}
+                errors={validationErrors}
+              />
+            </div>
+          </details>
+
+          <div className="space-y-2">
+            <span className="block text-sm font-medium text-purple-200">Metadata Preview</span>
+            <pre className="bg-black/30 rounded-lg p-4 text-xs text-purple-100 overflow-x-auto">
+              {serializeMetadata({ ...metadata, image: truncateDataUri(metadata.image) })}
+            </pre>
+            {file && !imageUri && !imageError && (
+              <p className="text-xs text-purple-300">
+                {!media ? 'Preparing image...' : storage === 'onchain' ? 'Encoding image...' : 'Computing image CID...'}
+              </p>
+            )}
+          </div>
+
+          {onChainUri && (
+            <div className="space-y-2 bg-white/5 rounded-lg p-4 text-sm">
+              <div className="flex justify-between text-purple-200">
+                <span>Token URI size</span>
+                <span className={overBudget ? 'text-red-300' : ''}>
+                  {onChainBytes.toLocaleString()} / {ONCHAIN_URI_BUDGET_BYTES.toLocaleString()} bytes
+                </span>
+              </div>
+              <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${overBudget ? 'bg-red-500' : 'bg-gradient-to-r from-purple-600 to-indigo-600'}`}
+                  style={{ width: `${Math.min(onChainBytes / ONCHAIN_URI_BUDGET_BYTES, 1) * 100}%` }}
+                />
+              </div>
+              {overBudget ? (
+                <p className="text-red-300">Too large to store on-chain. Use a smaller image or switch to IPFS.</p>
+              ) : feePreview?.onChain && (
+                <p className="text-purple-200">
+                  About {formatAmount(feePreview.onChain.extraFee, network)} ({feePreview.onChain.extraGas.toLocaleString()} gas)
+                  of the fee pays for storing the data, compared with an IPFS mint.
+                </p>
+              )}
+            </div>
+          )}
+
+          {tokenUri && !overBudget && !isWrongChain && (
+            <div className="space-y-1 bg-white/5 rounded-lg p-4 text-sm">
+              {feePreview ? (
+                <>
+                  <div className="flex justify-between text-purple-200">
+                    <span>Estimated fee</span>
+                    <span>{formatAmount(feePreview.fee.expectedCost, network)}</span>
+                  </div>
+                  <div className="flex justify-between text-purple-300 text-xs">
+                    <span>At most, with the fee margin</span>
+                    <span>{formatAmount(feePreview.fee.maxCost, network)}</span>
+                  </div>
+                  <div className="flex justify-between text-purple-200">
+                    <span>Your balance</span>
+                    <span className={insufficientFunds ? 'text-red-300' : ''}>
+                      {formatAmount(feePreview.balance.balance, network)}
+                    </span>
+                  </div>
+                  {insufficientFunds && (
+                    <p className="text-red-300 pt-2">
+                      You need {formatAmount(feePreview.balance.shortfall, network)} more to mint.
+                      {network.faucetUrl && (
+                        <>
+                          {' '}Get test tokens from the{' '}
+                          <a href={network.faucetUrl} target="_blank" rel="noopener noreferrer" className="underline hover:text-white">
+                            {network.name} faucet
+                          </a>.
+                        </>
+                      )}
+                    </p>
+                  )}
+                  {!insufficientFunds && depositCheck?.belowExistentialDeposit && nativeAccount && (
+                    <p className="text-yellow-200 pt-2">
+                      This mint could leave your account with{' '}
+                      {formatNativeAmount(depositCheck.remaining > 0n ? depositCheck.remaining : 0n, nativeAccount.balance)},
+                      below the existential deposit of{' '}
+                      {formatNativeAmount(nativeAccount.balance.existentialDeposit, nativeAccount.balance)}. The chain
+                      may then remove the account along with what is left in it; top it up before minting.
+                    </p>
+                  )}
+                </>
+              ) : feeError ? (
+                <p className="text-yellow-200">{feeError}</p>
+              ) : (
+                <p className="text-purple-300">Estimating fee...</p>
+              )}
+            </div>
+          )}
+
           <button
             onClick={handleMint}
-            disabled={mintingState.isMinting || !signer}
+            disabled={isMinting || !signer || isWrongChain || overBudget || insufficientFunds || animationBlocked}
             className={`w-full py-3 px-6 rounded-lg font-semibold transition-colors duration-300 ${
-              mintingState.isMinting || !signer
+              isMinting || !signer || isWrongChain || overBudget || insufficientFunds || animationBlocked
                 ? 'bg-gray-500 cursor-not-allowed'
                 : 'bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white'
             }`}
           >
-            {mintingState.isMinting ? (
+            {isMinting ? (
               <div className="flex items-center justify-center">
                 <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                Minting...
+                {mintingState.stage === 'awaiting-signature' ? 'Confirm in your wallet...' : 'Minting...'}
               </div>
+            ) : isWrongChain ? (
+              `Switch to ${network.name} to mint`
             ) : !signer ? (
               'Initializing Wallet...'
             ) : (
@@ -311,17 +892,41 @@ export const NFTMinter: React.FC<NFTMinterProps> = ({ onNFTCreated, account, onC
             )}
           </button>
 
-          {mintingState.error && (
-            <div className="bg-red-500/20 text-red-200 p-4 rounded-lg">
-              Error: {mintingState.error}
+          {uploadProgress && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm text-purple-200">
+                <span>{uploadProgress.label}...</span>
+                <span>
+                  {Math.round((uploadProgress.progress.loaded / Math.max(uploadProgress.progress.total, 1)) * 100)}%
+                </span>
+              </div>
+              <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-purple-600 to-indigo-600 transition-all duration-300"
+                  style={{ width: `${(uploadProgress.progress.loaded / Math.max(uploadProgress.progress.total, 1)) * 100}%` }}
+                />
+              </div>
             </div>
           )}
 
-          {mintingState.success && (
-            <div className="bg-green-500/20 text-green-200 p-4 rounded-lg">
-              NFT minted successfully!
-            </div>
-          )}
+          <MintProgress
+            state={mintingState}
+            network={network}
+            collectionAddress={contractAddress}
+            actions={{
+              retry: () => {
+                handleMint();
+              },
+              reconnect: onConnectWallet,
+              'switch-network': () => {
+                switchWalletNetwork().catch((error) => {
+                  console.error('Error switching network:', error);
+                  const failure = classifyError(error, network);
+                  setMintingState({ ...IDLE_STATE, error: failure.message, failure });
+                });
+              },
+            }}
+          />
         </div>
       )}
     </div>
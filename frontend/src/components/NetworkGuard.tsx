@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { useNetwork } from '../hooks/useNetwork';
+import { getNetworkByChainId } from '../constants/networks';
+import { classifyError } from '../utils/errors';
+import { FriendlyError } from '../types/errors';
+import { ErrorNotice } from './ErrorNotice';
+
+export const NetworkGuard: React.FC = () => {
+  const { network, networks, walletChainId, isWrongChain, selectNetwork, switchWalletNetwork } = useNetwork();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<FriendlyError | null>(null);
+
+  const walletNetwork = walletChainId !== null ? getNetworkByChainId(walletChainId) : undefined;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSwitching(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Error switching network:', err);
+      setError(classifyError(err, network));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 space-y-4">
+      <div className="flex items-center justify-center gap-3">
+        <label htmlFor="network" className="text-sm text-purple-200">Network</label>
+        <select
+          id="network"
+          value={network.id}
+          disabled={isSwitching}
+          onChange={(e) => run(() => selectNetwork(e.target.value))}
+          className="rounded-lg border-0 bg-white/10 py-2 px-3 text-white focus:ring-2 focus:ring-purple-500 sm:text-sm"
+        >
+          {networks.map((option) => (
+            <option key={option.id} value={option.id} className="text-black">
+              {option.name}{option.contracts.NFTMinter ? '' : ' (no collection deployed)'}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {isWrongChain && (
+        <div className="bg-yellow-500/20 text-yellow-100 p-4 rounded-lg flex flex-wrap items-center justify-between gap-3">
+          <span>
+            Your wallet is connected to {walletNetwork ? walletNetwork.name : `chain ${walletChainId}`}, but this
+            app is set to {network.name}.
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => run(switchWalletNetwork)}
+              disabled={isSwitching}
+              className="px-4 py-2 rounded-lg bg-yellow-500/40 hover:bg-yellow-500/60 disabled:opacity-50"
+            >
+              {isSwitching ? 'Switching...' : `Switch to ${network.name}`}
+            </button>
+            {walletNetwork && (
+              <button
+                onClick={() => run(() => selectNetwork(walletNetwork.id))}
+                disabled={isSwitching}
+                className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50"
+              >
+                Use {walletNetwork.name}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {!network.contracts.NFTMinter && (
+        <div className="bg-red-500/20 text-red-200 p-4 rounded-lg">
+          No NFTMinter collection is registered for {network.name}. Create your own with New collection,
+          deploy one with the asset-hub CLI or pick another network.
+        </div>
+      )}
+
+      {error && (
+        <ErrorNotice
+          error={error}
+          actions={{ retry: () => run(switchWalletNetwork), 'switch-network': () => run(switchWalletNetwork) }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { ethers } from 'ethers';
+import { useNetwork } from '../hooks/useNetwork';
+import { getNetworkById } from '../constants/networks';
+import { createNFTMinterClient, decodeNFTMinterError } from '../contracts/NFTMinter';
+import { createReadProvider } from '../utils/polkadot';
+import { getTokenProvenance } from '../utils/tokens';
+import { getIndexedProvenance } from '../utils/indexer';
+import { findCollection } from '../utils/collections';
+import { getPublicUrl, resolveMediaUrl, resolveMetadata } from '../utils/resolver';
+import { getExplorerAccountUrl, getExplorerTxUrl } from '../utils/explorer';
+import { formatBytes, resolveAnimation } from '../utils/media';
+import { TransactionDetails } from './TransactionDetails';
+import { MediaViewer } from './MediaViewer';
+import { NFTMetadata, ProvenanceEvent, ResolvedAnimation } from '../types/nft';
+import { ContractDeployment, NetworkConfig } from '../types/network';
+
+interface TokenDetails {
+  tokenId: bigint;
+  owner: string | null;
+  tokenURI: string;
+  metadata: NFTMetadata | null;
+  // Displayable URL for metadata.image_preview, or metadata.image when there is no preview
+  imageUrl: string;
+  animation: ResolvedAnimation | null;
+  provenance: ProvenanceEvent[];
+}
+
+const PROVENANCE_LABELS: Record<ProvenanceEvent['kind'], string> = {
+  mint: 'Minted',
+  transfer: 'Transferred',
+  burn: 'Burned',
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const AddressLink: React.FC<{ network: NetworkConfig; address: string }> = ({ network, address }) => (
+  <a
+    href={getExplorerAccountUrl(network, address)}
+    target="_blank"
+    rel="noopener noreferrer"
+    title={address}
+    className="font-mono underline hover:text-white"
+  >
+    {shortAddress(address)}
+  </a>
+);
+
+// Parses the route parameter, rejecting anything that is not a non-negative integer
+const parseTokenId = (id: string | undefined): bigint | null => (id && /^\d+$/.test(id) ? BigInt(id) : null);
+
+export const TokenDetail: React.FC = () => {
+  const { id } = useParams();
+  const [searchParams] = useSearchParams();
+  const { network: selectedNetwork } = useNetwork();
+  const network = getNetworkById(searchParams.get('network') ?? '') ?? selectedNetwork;
+  const collectionParam = searchParams.get('collection');
+  const deployment = useMemo((): ContractDeployment | undefined => {
+    if (!collectionParam) return network.contracts.NFTMinter;
+    if (!ethers.isAddress(collectionParam)) return undefined;
+    // Collections deployed from another browser are not recorded here; their logs are scanned from genesis
+    return findCollection(network, collectionParam) ?? { address: collectionParam, deployBlock: 0 };
+  }, [network, collectionParam]);
+
+  const [details, setDetails] = useState<TokenDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Provenance entry whose transaction is expanded
+  const [openTx, setOpenTx] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchDetails = async () => {
+      setLoading(true);
+      setError(null);
+      setDetails(null);
+
+      try {
+        const tokenId = parseTokenId(id);
+        if (tokenId === null) {
+          throw new Error(`"${id}" is not a valid token ID`);
+        }
+        if (!deployment) {
+          throw new Error(collectionParam
+            ? `"${collectionParam}" is not a collection address`
+            : `No collection deployed on ${network.name}`);
+        }
+
+        // Read through the public RPC so visitors without a wallet can view the token
+        const contract = createNFTMinterClient(deployment.address, createReadProvider(network));
+
+        let owner: string | null = null;
+        let tokenURI = '';
+        try {
+          [owner, tokenURI] = await Promise.all([contract.ownerOf(tokenId), contract.tokenURI(tokenId)]);
+        } catch (err) {
+          // Burned or never minted tokens revert with ERC721NonexistentToken
+          const revert = ethers.isError(err, 'CALL_EXCEPTION') && err.data ? decodeNFTMinterError(err.data) : null;
+          if (revert?.name !== 'ERC721NonexistentToken') throw err;
+        }
+
+        const provenance = await getIndexedProvenance(network, deployment.address, tokenId)
+          ?? await getTokenProvenance(contract, tokenId, deployment.deployBlock);
+        if (owner === null && provenance.length === 0) {
+          throw new Error(`Token #${tokenId} does not exist on ${network.name}`);
+        }
+
+        let metadata: NFTMetadata | null = null;
+        if (tokenURI) {
+          try {
+            metadata = await resolveMetadata(tokenURI);
+          } catch (err) {
+            console.error(`Error resolving metadata for token ${tokenId}:`, err);
+          }
+        }
+
+        const [imageUrl, animation] = await Promise.all([
+          resolveMediaUrl(metadata?.image_preview || metadata?.image || ''),
+          metadata ? resolveAnimation(metadata) : null,
+        ]);
+
+        if (!cancelled) {
+          setDetails({ tokenId, owner, tokenURI, metadata, imageUrl, animation, provenance });
+        }
+      } catch (err) {
+        console.error('Error fetching token details:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Could not load this token');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchDetails();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, network, deployment, collectionParam]);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <Link to="/" className="inline-block text-purple-200 hover:text-white">
+        ← Back to minter
+      </Link>
+
+      {loading && (
+        <div className="bg-white/10 rounded-xl p-8 animate-pulse space-y-4">
+          <div className="w-full h-80 bg-white/20 rounded-lg"></div>
+          <div className="h-6 w-1/2 bg-white/20 rounded"></div>
+          <div className="h-4 w-full bg-white/20 rounded"></div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-500 text-white p-4 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {details && (
+        <>
+          <div className="bg-white/10 backdrop-blur-sm rounded-xl overflow-hidden shadow-xl md:flex">
+            <div className="md:w-1/2">
+              <MediaViewer
+                image={details.imageUrl}
+                animation={details.animation}
+                alt={details.metadata?.name ?? `NFT #${details.tokenId}`}
+                className="w-full h-full min-h-80"
+              />
+            </div>
+            <div className="p-8 md:w-1/2 space-y-4">
+              <div>
+                <p className="text-sm text-purple-300">#{details.tokenId.toString()} on {network.name}</p>
+                <h2 className="text-3xl font-bold">{details.metadata?.name || `NFT #${details.tokenId}`}</h2>
+              </div>
+              {details.metadata?.description && (
+                <p className="text-purple-200">{details.metadata.description}</p>
+              )}
+
+              <dl className="space-y-2 text-sm">
+                <div>
+                  <dt className="text-purple-300">Owner</dt>
+                  <dd>
+                    {details.owner ? <AddressLink network={network} address={details.owner} /> : 'Burned'}
+                  </dd>
+                </div>
+                {details.metadata?.image_preview && details.metadata.image && !details.metadata.image.startsWith('data:') && (
+                  <div>
+                    <dt className="text-purple-300">Original image</dt>
+                    <dd>
+                      <a
+                        href={getPublicUrl(details.metadata.image)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline hover:text-white"
+                      >
+                        {details.metadata.image_details
+                          ? [
+                              details.metadata.image_details.width && `${details.metadata.image_details.width} × ${details.metadata.image_details.height}`,
+                              details.metadata.image_details.format,
+                              formatBytes(details.metadata.image_details.bytes),
+                            ].filter(Boolean).join(', ')
+                          : 'Full size'}
+                      </a>
+                    </dd>
+                  </div>
+                )}
+                {details.tokenURI && (
+                  <div>
+                    <dt className="text-purple-300">Token URI</dt>
+                    <dd className="font-mono break-all">
+                      {details.tokenURI.startsWith('data:') ? (
+                        `${details.tokenURI.slice(0, 64)}...`
+                      ) : (
+                        <a
+                          href={getPublicUrl(details.tokenURI)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="underline hover:text-white"
+                        >
+                          {details.tokenURI}
+                        </a>
+                      )}
+                    </dd>
+                  </div>
+                )}
+                {details.metadata?.external_url && (
+                  <div>
+                    <dt className="text-purple-300">External URL</dt>
+                    <dd className="break-all">
+                      <a href={details.metadata.external_url} target="_blank" rel="noopener noreferrer" className="underline hover:text-white">
+                        {details.metadata.external_url}
+                      </a>
+                    </dd>
+                  </div>
+                )}
+              </dl>
+
+              {details.metadata?.attributes && details.metadata.attributes.length > 0 && (
+                <div className="grid grid-cols-2 gap-2">
+                  {details.metadata.attributes.map((attribute, index) => (
+                    <div key={`${attribute.trait_type}-${index}`} className="bg-white/10 rounded-lg p-2 text-sm">
+                      <p className="text-purple-300 text-xs">{attribute.trait_type}</p>
+                      <p className="font-semibold">{String(attribute.value)}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white/10 backdrop-blur-sm rounded-xl p-8 shadow-xl">
+            <h3 className="text-xl font-bold mb-4">Provenance</h3>
+            <ol className="space-y-4">
+              {[...details.provenance].reverse().map((event) => (
+                <li key={`${event.txHash}-${event.to}`} className="border-l-2 border-purple-400 pl-4 text-sm space-y-1">
+                  <p className="font-semibold">
+                    {PROVENANCE_LABELS[event.kind]}
+                    {event.kind !== 'mint' && <> from <AddressLink network={network} address={event.from} /></>}
+                    {event.kind !== 'burn' && <> to <AddressLink network={network} address={event.to} /></>}
+                  </p>
+                  <p className="text-purple-300">
+                    {event.timestamp !== null ? new Date(event.timestamp * 1000).toLocaleString() : `Block ${event.blockNumber}`}
+                    {' · '}
+                    <a
+                      href={getExplorerTxUrl(network, event.txHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono underline hover:text-white"
+                    >
+                      {event.txHash.slice(0, 10)}...
+                    </a>
+                    {' · '}
+                    <button
+                      type="button"
+                      onClick={() => setOpenTx(openTx === event.txHash ? null : event.txHash)}
+                      className="underline hover:text-white"
+                    >
+                      {openTx === event.txHash ? 'Hide details' : 'Details'}
+                    </button>
+                  </p>
+                  {openTx === event.txHash && <TransactionDetails network={network} txHash={event.txHash} />}
+                </li>
+              ))}
+            </ol>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
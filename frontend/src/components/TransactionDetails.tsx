@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { createReadProvider } from '../utils/polkadot';
+import { decodeTransaction, formatDecodedArgs, formatRevert } from '../utils/decoder';
+import { DecodedArgs, DecodedTransaction } from '../types/decoder';
+import { NetworkConfig } from '../types/network';
+
+interface TransactionDetailsProps {
+  network: NetworkConfig;
+  txHash: string;
+}
+
+// On-chain token URIs run to kilobytes; show their start and length instead
+const MAX_VALUE_LENGTH = 80;
+
+const shortenArgs = (args: DecodedArgs): DecodedArgs =>
+  Object.fromEntries(Object.entries(args).map(([name, value]) => [
+    name,
+    typeof value === 'string' && value.length > MAX_VALUE_LENGTH
+      ? `${value.slice(0, MAX_VALUE_LENGTH - 20)}… (${value.length} chars)`
+      : value,
+  ]));
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex gap-2">
+    <dt className="text-purple-300 w-16 shrink-0">{label}</dt>
+    <dd className="break-all">{children}</dd>
+  </div>
+);
+
+/**
+ * Decoded view of a transaction: its call, the events it emitted and, if it
+ * failed, the revert reason. Reads through the network's public RPC.
+ */
+export const TransactionDetails: React.FC<TransactionDetailsProps> = ({ network, txHash }) => {
+  const [decoded, setDecoded] = useState<DecodedTransaction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDecoded(null);
+    setError(null);
+
+    decodeTransaction(createReadProvider(network), txHash)
+      .then((result) => {
+        if (!cancelled) setDecoded(result);
+      })
+      .catch((err) => {
+        console.error(`Error decoding transaction ${txHash}:`, err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load this transaction');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [network, txHash]);
+
+  if (error) {
+    return <p className="text-red-300 text-xs">{error}</p>;
+  }
+  if (!decoded) {
+    return <p className="text-purple-300 text-xs">Decoding transaction...</p>;
+  }
+
+  return (
+    <dl className="bg-black/20 rounded-lg p-3 space-y-1 font-mono text-xs">
+      <Row label="Status">{decoded.status}</Row>
+      <Row label="Call">
+        {decoded.call
+          ? `${decoded.call.name}(${formatDecodedArgs(shortenArgs(decoded.call.args))})`
+          : decoded.data === '0x' ? 'none' : `${decoded.data.slice(0, 10)} (unknown function)`}
+      </Row>
+      {decoded.status === 'reverted' && <Row label="Revert">{formatRevert(decoded.revert)}</Row>}
+      {decoded.logs.length > 0 && (
+        <Row label="Events">
+          <ul className="space-y-1">
+            {decoded.logs.map((log, index) => (
+              <li key={log.logIndex ?? index}>
+                {log.name && log.args
+                  ? `${log.name}(${formatDecodedArgs(shortenArgs(log.args))})`
+                  : `Unknown event from ${log.address}`}
+              </li>
+            ))}
+          </ul>
+        </Row>
+      )}
+    </dl>
+  );
+};
@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { useNetwork } from '../hooks/useNetwork';
+import { useWallet } from '../hooks/useWallet';
+import { createNFTMinterClient } from '../contracts/NFTMinter';
+import { resolveAddress } from '../utils/address';
+import { checkRecipient, RecipientKind } from '../utils/transfer';
+import { createReadProvider } from '../utils/polkadot';
+import { getExplorerTxUrl } from '../utils/explorer';
+import { ResolvedAddress } from '../types/address';
+import { OwnedNFT } from '../types/nft';
+
+interface TransferDialogProps {
+  nft: OwnedNFT;
+  account: string;
+  contractAddress: string;
+  onClose: () => void;
+  onTransferred: () => void;
+}
+
+type TransferPhase = 'editing' | 'awaiting-signature' | 'pending' | 'confirmed';
+
+const inputClassName = 'block w-full rounded-lg border-0 bg-white/10 py-2 px-3 text-white placeholder-purple-300 focus:ring-2 focus:ring-purple-500 sm:text-sm font-mono';
+
+export const TransferDialog: React.FC<TransferDialogProps> = ({ nft, account, contractAddress, onClose, onTransferred }) => {
+  const { network, isWrongChain } = useNetwork();
+  const { wallet, getSigner, refreshBalance } = useWallet();
+  const [input, setInput] = useState('');
+  const [recipient, setRecipient] = useState<ResolvedAddress | null>(null);
+  const [recipientKind, setRecipientKind] = useState<RecipientKind | null>(null);
+  const [forceUnsafe, setForceUnsafe] = useState(false);
+  const [phase, setPhase] = useState<TransferPhase>('editing');
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Resolve the typed address and find out whether it can receive the token safely
+  useEffect(() => {
+    setRecipient(null);
+    setRecipientKind(null);
+    setForceUnsafe(false);
+    setError(null);
+    if (!input.trim()) return;
+
+    let resolved: ResolvedAddress;
+    try {
+      resolved = resolveAddress(input);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid address');
+      return;
+    }
+    if (resolved.h160.toLowerCase() === account.toLowerCase()) {
+      setError('You already own this token');
+      return;
+    }
+    if (resolved.h160 === ethers.ZeroAddress) {
+      setError('Cannot transfer to the zero address');
+      return;
+    }
+    setRecipient(resolved);
+
+    let cancelled = false;
+    const contract = createNFTMinterClient(contractAddress, createReadProvider(network));
+    checkRecipient(contract, account, resolved.h160, nft.tokenId)
+      .then((kind) => {
+        if (!cancelled) setRecipientKind(kind);
+      })
+      .catch((err) => {
+        console.error('Error checking recipient:', err);
+        if (!cancelled) setError('Could not check the recipient. The transfer would likely fail.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [input, account, contractAddress, network, nft.tokenId]);
+
+  const handleTransfer = async () => {
+    if (!recipient || !recipientKind) return;
+    setError(null);
+
+    try {
+      setPhase('awaiting-signature');
+      const contract = createNFTMinterClient(contractAddress, await getSigner(network.chainId));
+
+      // transferFrom skips the IERC721Receiver check; only used when the user insists
+      const tx = recipientKind === 'non-receiver'
+        ? await contract.transferFrom(account, recipient.h160, nft.tokenId)
+        : await contract['safeTransferFrom(address,address,uint256)'](account, recipient.h160, nft.tokenId);
+      console.log('Transfer sent:', tx.hash);
+      setTxHash(tx.hash);
+      setPhase('pending');
+
+      const receipt = await tx.wait();
+      console.log('Transfer confirmed:', receipt);
+      setPhase('confirmed');
+      refreshBalance();
+      onTransferred();
+    } catch (err) {
+      console.error('Error transferring NFT:', err);
+      setPhase('editing');
+      setError(ethers.isError(err, 'ACTION_REJECTED')
+        ? 'Signature rejected'
+        : err instanceof Error ? err.message : 'Transfer failed');
+    }
+  };
+
+  const busy = phase === 'awaiting-signature' || phase === 'pending';
+  const canSubmit = !!recipient && !!recipientKind && wallet?.kind === 'evm' && !isWrongChain && !busy
+    && (recipientKind !== 'non-receiver' || forceUnsafe);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true">
+      <div className="w-full max-w-lg bg-indigo-900 rounded-xl p-6 shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold">Transfer {nft.name}</h3>
+          <button
+            onClick={onClose}
+            disabled={busy}
+            aria-label="Close"
+            className="px-2 py-1 rounded hover:bg-white/10 disabled:opacity-40"
+          >
+            ✕
+          </button>
+        </div>
+
+        {phase === 'confirmed' ? (
+          <div className="bg-green-500/20 text-green-200 p-4 rounded-lg">
+            Token #{nft.tokenId.toString()} was sent to <span className="font-mono break-all">{recipient?.h160}</span>.
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <label htmlFor="recipient" className="block text-sm font-medium text-purple-200">
+                Recipient
+              </label>
+              <input
+                id="recipient"
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                disabled={busy}
+                className={inputClassName}
+                placeholder="0x... or 5... Polkadot address"
+              />
+              {recipient?.source === 'ss58' && (
+                <p className="text-xs text-purple-300">
+                  Maps to <span className="font-mono break-all">{recipient.h160}</span> on {network.name}
+                </p>
+              )}
+              {recipient && !recipientKind && !error && (
+                <p className="text-xs text-purple-300">Checking recipient...</p>
+              )}
+              {recipientKind === 'receiver' && (
+                <p className="text-xs text-purple-300">Recipient is a contract that accepts ERC-721 tokens.</p>
+              )}
+            </div>
+
+            {recipientKind === 'non-receiver' && (
+              <div className="bg-yellow-500/20 text-yellow-100 p-4 rounded-lg space-y-2 text-sm">
+                <p>
+                  The recipient is a contract that does not implement IERC721Receiver, so a safe transfer
+                  would revert. A plain transfer will go through, but the token may be locked in that
+                  contract forever.
+                </p>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={forceUnsafe}
+                    onChange={(e) => setForceUnsafe(e.target.checked)}
+                  />
+                  I understand, send it anyway
+                </label>
+              </div>
+            )}
+
+            {wallet?.kind === 'substrate' && (
+              <p className="text-sm text-yellow-200">Connect an Ethereum wallet to sign the transfer.</p>
+            )}
+
+            {isWrongChain && (
+              <p className="text-sm text-yellow-200">Switch your wallet to {network.name} to transfer.</p>
+            )}
+
+            <button
+              onClick={handleTransfer}
+              disabled={!canSubmit}
+              className="w-full py-3 px-6 rounded-lg font-semibold bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {phase === 'awaiting-signature'
+                ? 'Confirm in your wallet...'
+                : phase === 'pending' ? 'Transferring...' : 'Transfer'}
+            </button>
+          </>
+        )}
+
+        {txHash && (
+          <p className="text-sm text-purple-200">
+            Transaction:{' '}
+            <a
+              href={getExplorerTxUrl(network, txHash)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-mono underline hover:text-white break-all"
+            >
+              {txHash.slice(0, 10)}...{txHash.slice(-8)}
+            </a>
+          </p>
+        )}
+
+        {error && (
+          <div className="bg-red-500/20 text-red-200 p-4 rounded-lg">
+            Error: {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
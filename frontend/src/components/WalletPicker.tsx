@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { useWallet } from '../hooks/useWallet';
+import { Wallet, WalletKind } from '../types/wallet';
+import { FriendlyError } from '../types/errors';
+import { classifyError } from '../utils/errors';
+import { ErrorNotice } from './ErrorNotice';
+
+interface WalletPickerProps {
+  onClose: () => void;
+}
+
+const INSTALL_LINKS = [
+  { name: 'MetaMask', url: 'https://metamask.io/download/' },
+  { name: 'Talisman', url: 'https://talisman.xyz/download' },
+  { name: 'SubWallet', url: 'https://www.subwallet.app/download.html' },
+  { name: 'Polkadot.js', url: 'https://polkadot.js.org/extension/' },
+];
+
+const GROUPS: { kind: WalletKind; title: string; hint: string }[] = [
+  { kind: 'evm', title: 'Ethereum wallets', hint: 'Mint, transfer and sign with an H160 account' },
+  { kind: 'substrate', title: 'Polkadot wallets', hint: 'Use a Substrate account through its mapped H160 address' },
+];
+
+export const WalletPicker: React.FC<WalletPickerProps> = ({ onClose }) => {
+  const { wallets, connect, isConnecting, substrateAccounts, substrateAccount, selectSubstrateAccount } = useWallet();
+  const [error, setError] = useState<FriendlyError | null>(null);
+  // Last wallet tried, so a failed connection can be retried
+  const [lastWallet, setLastWallet] = useState<Wallet | null>(null);
+  const [choosingAccount, setChoosingAccount] = useState(false);
+
+  const handleConnect = async (wallet: Wallet) => {
+    setError(null);
+    setLastWallet(wallet);
+    try {
+      await connect(wallet.id);
+      if (wallet.kind === 'substrate') {
+        setChoosingAccount(true);
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      console.error(`Error connecting ${wallet.name}:`, err);
+      setError(classifyError(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true">
+      <div className="w-full max-w-md bg-indigo-900 rounded-xl p-6 shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold">{choosingAccount ? 'Choose an account' : 'Connect a wallet'}</h3>
+          <button onClick={onClose} aria-label="Close" className="px-2 py-1 rounded hover:bg-white/10">
+            ✕
+          </button>
+        </div>
+
+        {choosingAccount ? (
+          <div className="space-y-2">
+            {substrateAccounts.map((option) => (
+              <button
+                key={option.address}
+                onClick={() => {
+                  selectSubstrateAccount(option.address);
+                  onClose();
+                }}
+                className={`w-full text-left px-4 py-3 rounded-lg hover:bg-white/20 ${
+                  option.address === substrateAccount?.address ? 'bg-white/20' : 'bg-white/10'
+                }`}
+              >
+                <p className="font-medium">{option.name ?? 'Unnamed account'}</p>
+                <p className="text-xs text-purple-300 font-mono break-all">{option.address}</p>
+              </button>
+            ))}
+          </div>
+        ) : wallets.length === 0 ? (
+          <div className="space-y-3 text-purple-200">
+            <p>No wallet extension was found. Install one and reload the page:</p>
+            <ul className="space-y-1">
+              {INSTALL_LINKS.map((link) => (
+                <li key={link.name}>
+                  <a href={link.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-white">
+                    {link.name}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          GROUPS.map((group) => {
+            const options = wallets.filter((wallet) => wallet.kind === group.kind);
+            if (options.length === 0) return null;
+            return (
+              <div key={group.kind} className="space-y-2">
+                <div>
+                  <p className="text-sm font-medium text-purple-200">{group.title}</p>
+                  <p className="text-xs text-purple-300">{group.hint}</p>
+                </div>
+                {options.map((wallet) => (
+                  <button
+                    key={wallet.id}
+                    onClick={() => handleConnect(wallet)}
+                    disabled={isConnecting}
+                    className="w-full flex items-center gap-3 px-4 py-3 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50"
+                  >
+                    {wallet.icon ? (
+                      <img src={wallet.icon} alt="" className="h-6 w-6" />
+                    ) : (
+                      <span className="h-6 w-6 rounded-full bg-white/20" />
+                    )}
+                    <span>{wallet.name}</span>
+                  </button>
+                ))}
+              </div>
+            );
+          })
+        )}
+
+        {error && (
+          <ErrorNotice
+            error={error}
+            actions={lastWallet ? { retry: () => handleConnect(lastWallet), reconnect: () => handleConnect(lastWallet) } : undefined}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,9 +0,0 @@
-export const NFT_ABI = [
-  "function mintNFT(string memory tokenURI) public returns (uint256)",
-  "function getItemId() public view returns(uint256)",
-  "function tokenURI(uint256 tokenId) view returns (string)",
-  "function ownerOf(uint256 tokenId) view returns (address)",
-  "function balanceOf(address owner) view returns (uint256)",
-  "function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)",
-  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
-]; 
\ No newline at end of file
@@ -0,0 +1,17 @@
+// Maximum block range requested per eth_getLogs call
+export const LOG_CHUNK_SIZE = 10000;
+
+// Blocks a mint must be buried under before it is reported as confirmed
+export const MINT_CONFIRMATIONS = 2;
+
+// Largest data: token URI accepted for on-chain mints; every byte is kept in contract storage
+export const ONCHAIN_URI_BUDGET_BYTES = 16 * 1024;
+
+// Delay between polls for new contract events; Asset Hub produces a block about every 6 seconds
+export const EVENT_POLL_INTERVAL_MS = 6000;
+
+// Blocks of history read into the activity feed when it opens, about an hour of 6 second blocks
+export const ACTIVITY_BACKFILL_BLOCKS = 600;
+
+// Most recent events kept in the activity feed
+export const ACTIVITY_FEED_LIMIT = 20;
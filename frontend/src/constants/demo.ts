@@ -0,0 +1,15 @@
+import { ethers } from 'ethers';
+
+// Deterministic addresses for the demo wallet; the first is connected, the others receive transfers
+export const DEMO_ACCOUNTS = ['demo account 1', 'demo account 2', 'demo account 3'].map((seed) =>
+  ethers.getAddress(ethers.dataSlice(ethers.id(seed), 12))
+);
+
+// Native balance every demo account starts with
+export const DEMO_INITIAL_BALANCE = ethers.parseEther('100');
+
+// Gas price of the in-memory chain; there is no base fee, so fees are legacy-priced
+export const DEMO_GAS_PRICE = ethers.parseUnits('1', 'gwei');
+
+// An empty block is produced this often, so confirmations keep arriving while idle
+export const DEMO_BLOCK_TIME_MS = 3000;
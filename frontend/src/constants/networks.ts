@@ -0,0 +1,28 @@
+import registry from '../../../asset-hub-project/networks.json';
+import { NetworkConfig } from '../types/network';
+
+// Shared with the asset-hub-project scripts; `asset-hub deploy` records new deployments there
+const NETWORK_REGISTRY: Record<string, Omit<NetworkConfig, 'id'>> = registry;
+
+export const NETWORKS: NetworkConfig[] = Object.entries(NETWORK_REGISTRY).map(([id, network]) => ({
+  id,
+  ...network,
+}));
+
+export const DEFAULT_NETWORK_ID = import.meta.env.VITE_DEFAULT_NETWORK || 'westend-asset-hub';
+
+/**
+ * Looks up a registered network by id
+ * @param id The registry key, e.g. westend-asset-hub
+ * @returns The network, or undefined if it is not registered
+ */
+export const getNetworkById = (id: string): NetworkConfig | undefined =>
+  NETWORKS.find((network) => network.id === id);
+
+/**
+ * Looks up a registered network by EVM chain ID
+ * @param chainId The chain ID as a number or 0x-prefixed hex string
+ * @returns The network, or undefined if it is not registered
+ */
+export const getNetworkByChainId = (chainId: number | string): NetworkConfig | undefined =>
+  NETWORKS.find((network) => network.chainId === Number(chainId));
@@ -0,0 +1,92 @@
+import { useState, useEffect, useRef, useCallback, useMemo, ReactNode } from 'react';
+import { ActivityContext } from '../hooks/useActivity';
+import { useCollection } from '../hooks/useCollection';
+import { useNetwork } from '../hooks/useNetwork';
+import { useWallet } from '../hooks/useWallet';
+import { ActivityEvent, ActivityListener, ActivityToast } from '../types/activity';
+import { ACTIVITY_BACKFILL_BLOCKS, ACTIVITY_FEED_LIMIT, EVENT_POLL_INTERVAL_MS } from '../constants/contract';
+import { watchCollectionEvents } from '../utils/events';
+import { createReadProvider } from '../utils/polkadot';
+
+// A transfer to yourself is shown once, as incoming
+const toToast = (event: ActivityEvent, account: string): ActivityToast | null => {
+  if (event.kind === 'metadata') return null;
+  if (event.to.toLowerCase() === account) return { id: event.id, direction: 'incoming', event };
+  if (event.from.toLowerCase() === account) return { id: event.id, direction: 'outgoing', event };
+  return null;
+};
+
+export const ActivityProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { network } = useNetwork();
+  const { collection } = useCollection();
+  const { account } = useWallet();
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [toasts, setToasts] = useState<ActivityToast[]>([]);
+  const listenersRef = useRef(new Set<ActivityListener>());
+  // Read when events arrive, so switching accounts does not restart the watch
+  const accountRef = useRef(account);
+
+  useEffect(() => {
+    accountRef.current = account;
+    setToasts([]);
+  }, [account]);
+
+  const address = collection?.address;
+  const deployBlock = collection?.deployBlock ?? 0;
+
+  useEffect(() => {
+    setEvents([]);
+    setToasts([]);
+    if (!address) return;
+
+    // Read through the public RPC, like the gallery, whatever chain the wallet is on
+    const provider = createReadProvider(network);
+    const stop = watchCollectionEvents(provider, address, {
+      backfillBlocks: ACTIVITY_BACKFILL_BLOCKS,
+      deployBlock,
+      pollIntervalMs: EVENT_POLL_INTERVAL_MS,
+      onEvents: (batch, initial) => {
+        setEvents((prev) => [...[...batch].reverse(), ...prev].slice(0, ACTIVITY_FEED_LIMIT));
+        if (initial) return;
+
+        listenersRef.current.forEach((listener) => listener(batch));
+        const owner = accountRef.current?.toLowerCase();
+        if (!owner) return;
+        const added = batch
+          .map((event) => toToast(event, owner))
+          .filter((toast): toast is ActivityToast => toast !== null);
+        if (added.length > 0) {
+          setToasts((prev) => [...prev, ...added]);
+        }
+      },
+    });
+
+    return () => {
+      stop();
+      provider.destroy();
+    };
+  }, [network, address, deployBlock]);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((toast) => toast.id !== id));
+  }, []);
+
+  const subscribe = useCallback((listener: ActivityListener) => {
+    const listeners = listenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  const value = useMemo(
+    () => ({ events, toasts, dismissToast, subscribe }),
+    [events, toasts, dismissToast, subscribe]
+  );
+
+  return (
+    <ActivityContext.Provider value={value}>
+      {children}
+    </ActivityContext.Provider>
+  );
+};
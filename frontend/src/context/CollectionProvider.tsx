@@ -0,0 +1,49 @@
+import { useState, useCallback, useMemo, ReactNode } from 'react';
+import { CollectionContext } from '../hooks/useCollection';
+import { useNetwork } from '../hooks/useNetwork';
+import { useWallet } from '../hooks/useWallet';
+import { Collection } from '../types/collection';
+import { listCollections, loadRecordedCollections, recordCollection } from '../utils/collections';
+
+// Selected collection address per network id
+const SELECTED_COLLECTION_STORAGE_KEY = 'nftminter.selectedCollection';
+
+const loadSelected = (): Record<string, string> => {
+  const saved = localStorage.getItem(SELECTED_COLLECTION_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+export const CollectionProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { network } = useNetwork();
+  const { account } = useWallet();
+  const [recorded, setRecorded] = useState(loadRecordedCollections);
+  const [selected, setSelected] = useState(loadSelected);
+
+  const collections = useMemo(() => listCollections(recorded, network, account), [recorded, network, account]);
+
+  // Falls back to the first collection when the saved one belongs to another account
+  const selectedAddress = selected[network.id]?.toLowerCase();
+  const collection = collections.find((option) => option.address.toLowerCase() === selectedAddress)
+    ?? collections[0]
+    ?? null;
+
+  const selectCollection = useCallback((address: string) => {
+    setSelected((prev) => {
+      const next = { ...prev, [network.id]: address };
+      localStorage.setItem(SELECTED_COLLECTION_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, [network.id]);
+
+  const addCollection = useCallback((added: Collection) => {
+    recordCollection(added);
+    setRecorded(loadRecordedCollections());
+    selectCollection(added.address);
+  }, [selectCollection]);
+
+  return (
+    <CollectionContext.Provider value={{ collection, collections, selectCollection, addCollection }}>
+      {children}
+    </CollectionContext.Provider>
+  );
+};
@@ -0,0 +1,52 @@
+import { useState, useCallback, ReactNode } from 'react';
+import { DEFAULT_NETWORK_ID, NETWORKS, getNetworkById } from '../constants/networks';
+import { NetworkContext } from '../hooks/useNetwork';
+import { useWallet } from '../hooks/useWallet';
+import { switchToNetwork } from '../utils/polkadot';
+
+const NETWORK_STORAGE_KEY = 'nftminter.network';
+
+export const NetworkProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [networkId, setNetworkId] = useState(() => {
+    const saved = localStorage.getItem(NETWORK_STORAGE_KEY);
+    return saved && getNetworkById(saved) ? saved : DEFAULT_NETWORK_ID;
+  });
+  // The wallet session follows the wallet's chain
+  const { provider, chainId: walletChainId } = useWallet();
+
+  const network = getNetworkById(networkId) ?? NETWORKS[0];
+
+  const switchWalletNetwork = useCallback(async () => {
+    if (!provider) {
+      throw new Error('Connect an Ethereum wallet first');
+    }
+    await switchToNetwork(provider, network);
+  }, [provider, network]);
+
+  const selectNetwork = useCallback(async (id: string) => {
+    const selected = getNetworkById(id);
+    if (!selected) {
+      throw new Error(`Unknown network: ${id}`);
+    }
+    localStorage.setItem(NETWORK_STORAGE_KEY, id);
+    setNetworkId(id);
+    if (provider) {
+      await switchToNetwork(provider, selected);
+    }
+  }, [provider]);
+
+  return (
+    <NetworkContext.Provider
+      value={{
+        network,
+        networks: NETWORKS,
+        walletChainId,
+        isWrongChain: walletChainId !== null && walletChainId !== network.chainId,
+        selectNetwork,
+        switchWalletNetwork,
+      }}
+    >
+      {children}
+    </NetworkContext.Provider>
+  );
+};
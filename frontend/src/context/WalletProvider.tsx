@@ -0,0 +1,221 @@
+import { useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { ethers } from 'ethers';
+import { decodeAddress } from '@polkadot/util-crypto';
+import { WalletContext } from '../hooks/useWallet';
+import { EvmWallet, SubstrateAccount, SubstrateWallet, Wallet } from '../types/wallet';
+import { discoverEvmWallets, getAuthorizedAccounts, getWalletChainId, requestAccounts, WrongChainError } from '../utils/wallet/evm';
+import { connectSubstrateWallet, detectSubstrateWallets } from '../utils/wallet/substrate';
+import { accountIdToH160 } from '../utils/address';
+import { getDemoWallet, isDemoMode } from '../utils/demo';
+
+const WALLET_STORAGE_KEY = 'nftminter.wallet';
+const SUBSTRATE_ACCOUNT_STORAGE_KEY = 'nftminter.substrateAccount';
+
+// Delay between balance reads while the page is visible
+const BALANCE_POLL_INTERVAL_MS = 15000;
+
+export const WalletProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [evmWallets, setEvmWallets] = useState<EvmWallet[]>([]);
+  const [substrateWallets, setSubstrateWallets] = useState<SubstrateWallet[]>([]);
+  const [walletId, setWalletId] = useState<string | null>(null);
+  const [evmAccount, setEvmAccount] = useState<string | null>(null);
+  const [substrateAccounts, setSubstrateAccounts] = useState<SubstrateAccount[]>([]);
+  const [substrateAddress, setSubstrateAddress] = useState<string | null>(null);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const wallets: Wallet[] = useMemo(() => [...evmWallets, ...substrateWallets], [evmWallets, substrateWallets]);
+  const wallet = wallets.find((option) => option.id === walletId) ?? null;
+  const evmWallet = wallet?.kind === 'evm' ? wallet : null;
+  const substrateAccount = substrateAccounts.find((option) => option.address === substrateAddress) ?? null;
+  const account = evmWallet
+    ? evmAccount
+    : substrateAccount ? accountIdToH160(decodeAddress(substrateAccount.address)) : null;
+
+  // Discover wallets; extensions inject themselves after the page has loaded
+  useEffect(() => {
+    if (isDemoMode()) {
+      // The demo wallet stands in for every extension
+      setEvmWallets([getDemoWallet().wallet]);
+      return;
+    }
+
+    const stopDiscovery = discoverEvmWallets(setEvmWallets);
+    const detect = () => setSubstrateWallets(detectSubstrateWallets());
+    detect();
+    window.addEventListener('load', detect);
+
+    return () => {
+      stopDiscovery();
+      window.removeEventListener('load', detect);
+    };
+  }, []);
+
+  const applySubstrateAccounts = useCallback((accounts: SubstrateAccount[], preferred: string | null) => {
+    const selected = accounts.find((option) => option.address === preferred) ?? accounts[0];
+    setSubstrateAccounts(accounts);
+    setSubstrateAddress(selected.address);
+    localStorage.setItem(SUBSTRATE_ACCOUNT_STORAGE_KEY, selected.address);
+  }, []);
+
+  // Silently reconnect the wallet used last time, without prompting
+  useEffect(() => {
+    if (walletId) return;
+    const savedId = localStorage.getItem(WALLET_STORAGE_KEY);
+    const saved = wallets.find((option) => option.id === savedId);
+    if (!saved) return;
+
+    setWalletId(saved.id);
+    // Shown as connecting rather than offering a prompt that is not needed
+    setIsConnecting(true);
+    const restore = saved.kind === 'evm'
+      ? getAuthorizedAccounts(saved).then((accounts) => {
+        if (accounts.length === 0) {
+          // The user revoked this site in the wallet; wait for them to connect again
+          localStorage.removeItem(WALLET_STORAGE_KEY);
+          setWalletId(null);
+        }
+        setEvmAccount(accounts[0] ?? null);
+      })
+      // Extensions remember sites they have already authorized
+      : connectSubstrateWallet(saved)
+        .then((accounts) => applySubstrateAccounts(accounts, localStorage.getItem(SUBSTRATE_ACCOUNT_STORAGE_KEY)));
+    restore
+      .catch((error) => console.error(`Error restoring ${saved.name}:`, error))
+      .finally(() => setIsConnecting(false));
+  }, [wallets, walletId, applySubstrateAccounts]);
+
+  // Follow account and chain switches made in the EVM wallet, in place
+  useEffect(() => {
+    setChainId(null);
+    if (!evmWallet) return;
+
+    let cancelled = false;
+    getWalletChainId(evmWallet)
+      .then((id) => {
+        if (!cancelled) setChainId(id);
+      })
+      .catch((error) => console.error('Error reading wallet chain:', error));
+
+    const handleAccountsChanged = (accounts: string[]) => {
+      setEvmAccount(accounts[0] ?? null);
+    };
+    const handleChainChanged = (id: string) => {
+      setChainId(Number(id));
+    };
+
+    evmWallet.provider.on('accountsChanged', handleAccountsChanged);
+    evmWallet.provider.on('chainChanged', handleChainChanged);
+    return () => {
+      cancelled = true;
+      evmWallet.provider.removeListener('accountsChanged', handleAccountsChanged);
+      evmWallet.provider.removeListener('chainChanged', handleChainChanged);
+    };
+  }, [evmWallet]);
+
+  // A provider is bound to one chain, so a chain switch gets a new one instead of a reload
+  const browserProvider = useMemo(
+    () => (evmWallet && chainId !== null ? new ethers.BrowserProvider(evmWallet.provider as ethers.Eip1193Provider, chainId) : null),
+    [evmWallet, chainId]
+  );
+
+  const signer = useMemo(
+    () => (browserProvider && evmAccount ? new ethers.JsonRpcSigner(browserProvider, evmAccount) : null),
+    [browserProvider, evmAccount]
+  );
+
+  const refreshBalance = useCallback(async () => {
+    if (!browserProvider || !evmAccount) {
+      setBalance(null);
+      return;
+    }
+    try {
+      setBalance(await browserProvider.getBalance(evmAccount));
+    } catch (error) {
+      console.error('Error reading balance:', error);
+    }
+  }, [browserProvider, evmAccount]);
+
+  useEffect(() => {
+    setBalance(null);
+    refreshBalance();
+    const timer = setInterval(() => {
+      if (!document.hidden) refreshBalance();
+    }, BALANCE_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refreshBalance]);
+
+  const connect = useCallback(async (id: string) => {
+    const selected = wallets.find((option) => option.id === id);
+    if (!selected) {
+      throw new Error(`Wallet ${id} is not installed`);
+    }
+
+    setIsConnecting(true);
+    try {
+      if (selected.kind === 'evm') {
+        const accounts = await requestAccounts(selected);
+        setEvmAccount(accounts[0] ?? null);
+        setSubstrateAccounts([]);
+        setSubstrateAddress(null);
+      } else {
+        applySubstrateAccounts(await connectSubstrateWallet(selected), null);
+        setEvmAccount(null);
+      }
+      setWalletId(selected.id);
+      localStorage.setItem(WALLET_STORAGE_KEY, selected.id);
+    } finally {
+      setIsConnecting(false);
+    }
+  }, [wallets, applySubstrateAccounts]);
+
+  const disconnect = useCallback(() => {
+    setWalletId(null);
+    setEvmAccount(null);
+    setSubstrateAccounts([]);
+    setSubstrateAddress(null);
+    localStorage.removeItem(WALLET_STORAGE_KEY);
+    localStorage.removeItem(SUBSTRATE_ACCOUNT_STORAGE_KEY);
+  }, []);
+
+  const selectSubstrateAccount = useCallback((address: string) => {
+    setSubstrateAddress(address);
+    localStorage.setItem(SUBSTRATE_ACCOUNT_STORAGE_KEY, address);
+  }, []);
+
+  const getSigner = useCallback(async (expectedChainId: number) => {
+    if (!signer) {
+      throw new Error('Connect an Ethereum wallet to sign transactions');
+    }
+    if (chainId !== expectedChainId) {
+      throw new WrongChainError(chainId, expectedChainId);
+    }
+    return signer;
+  }, [signer, chainId]);
+
+  return (
+    <WalletContext.Provider
+      value={{
+        wallets,
+        wallet,
+        account,
+        substrateAccounts,
+        substrateAccount,
+        provider: evmWallet?.provider ?? null,
+        browserProvider,
+        signer,
+        chainId,
+        balance,
+        refreshBalance,
+        isConnecting,
+        connect,
+        disconnect,
+        selectSubstrateAccount,
+        getSigner,
+      }}
+    >
+      {children}
+    </WalletContext.Provider>
+  );
+};
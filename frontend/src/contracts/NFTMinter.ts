@@ -0,0 +1,656 @@
+// Generated by asset-hub-project/scripts/generateBindings.js from abis/NFTMinter.json.
+// Do not edit by hand; run `npm run generate:bindings` in asset-hub-project instead.
+import {
+  AddressLike,
+  BaseContract,
+  BaseContractMethod,
+  BigNumberish,
+  BytesLike,
+  Contract,
+  ContractRunner,
+  ContractTransactionResponse,
+  Interface,
+} from 'ethers';
+
+export const NFT_MINTER_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "name_",
+        "type": "string"
+      },
+      {
+        "internalType": "string",
+        "name": "symbol_",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      }
+    ],
+    "name": "ERC721IncorrectOwner",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "operator",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "ERC721InsufficientApproval",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "approver",
+        "type": "address"
+      }
+    ],
+    "name": "ERC721InvalidApprover",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "operator",
+        "type": "address"
+      }
+    ],
+    "name": "ERC721InvalidOperator",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      }
+    ],
+    "name": "ERC721InvalidOwner",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "receiver",
+        "type": "address"
+      }
+    ],
+    "name": "ERC721InvalidReceiver",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      }
+    ],
+    "name": "ERC721InvalidSender",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "ERC721NonexistentToken",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "approved",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "Approval",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "operator",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "approved",
+        "type": "bool"
+      }
+    ],
+    "name": "ApprovalForAll",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "_fromTokenId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "_toTokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "BatchMetadataUpdate",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "_tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "MetadataUpdate",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "Transfer",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "approve",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      }
+    ],
+    "name": "balanceOf",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getApproved",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getItemId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "operator",
+        "type": "address"
+      }
+    ],
+    "name": "isApprovedForAll",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "tokenURI",
+        "type": "string"
+      }
+    ],
+    "name": "mintNFT",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "name",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "ownerOf",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "safeTransferFrom",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "data",
+        "type": "bytes"
+      }
+    ],
+    "name": "safeTransferFrom",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "operator",
+        "type": "address"
+      },
+      {
+        "internalType": "bool",
+        "name": "approved",
+        "type": "bool"
+      }
+    ],
+    "name": "setApprovalForAll",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes4",
+        "name": "interfaceId",
+        "type": "bytes4"
+      }
+    ],
+    "name": "supportsInterface",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "symbol",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "tokenURI",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "transferFrom",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+export interface NFTMinterMethods {
+  approve: BaseContractMethod<[to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+  balanceOf: BaseContractMethod<[owner: AddressLike], bigint, bigint>;
+  getApproved: BaseContractMethod<[tokenId: BigNumberish], string, string>;
+  getItemId: BaseContractMethod<[], bigint, bigint>;
+  isApprovedForAll: BaseContractMethod<[owner: AddressLike, operator: AddressLike], boolean, boolean>;
+  mintNFT: BaseContractMethod<[tokenURI: string], bigint, ContractTransactionResponse>;
+  name: BaseContractMethod<[], string, string>;
+  ownerOf: BaseContractMethod<[tokenId: BigNumberish], string, string>;
+  'safeTransferFrom(address,address,uint256)': BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+  'safeTransferFrom(address,address,uint256,bytes)': BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish, data: BytesLike], void, ContractTransactionResponse>;
+  setApprovalForAll: BaseContractMethod<[operator: AddressLike, approved: boolean], void, ContractTransactionResponse>;
+  supportsInterface: BaseContractMethod<[interfaceId: BytesLike], boolean, boolean>;
+  symbol: BaseContractMethod<[], string, string>;
+  tokenURI: BaseContractMethod<[tokenId: BigNumberish], string, string>;
+  transferFrom: BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+}
+
+export interface NFTMinterEvents {
+  Approval: {
+    owner: string;
+    approved: string;
+    tokenId: bigint;
+  };
+  ApprovalForAll: {
+    owner: string;
+    operator: string;
+    approved: boolean;
+  };
+  BatchMetadataUpdate: {
+    _fromTokenId: bigint;
+    _toTokenId: bigint;
+  };
+  MetadataUpdate: {
+    _tokenId: bigint;
+  };
+  Transfer: {
+    from: string;
+    to: string;
+    tokenId: bigint;
+  };
+}
+
+export interface NFTMinterErrors {
+  ERC721IncorrectOwner: {
+    sender: string;
+    tokenId: bigint;
+    owner: string;
+  };
+  ERC721InsufficientApproval: {
+    operator: string;
+    tokenId: bigint;
+  };
+  ERC721InvalidApprover: {
+    approver: string;
+  };
+  ERC721InvalidOperator: {
+    operator: string;
+  };
+  ERC721InvalidOwner: {
+    owner: string;
+  };
+  ERC721InvalidReceiver: {
+    receiver: string;
+  };
+  ERC721InvalidSender: {
+    sender: string;
+  };
+  ERC721NonexistentToken: {
+    tokenId: bigint;
+  };
+}
+
+export type NFTMinterEventName = keyof NFTMinterEvents;
+export type NFTMinterErrorName = keyof NFTMinterErrors;
+
+export type NFTMinterEvent = {
+  [K in NFTMinterEventName]: { name: K; args: NFTMinterEvents[K] };
+}[NFTMinterEventName];
+
+export type NFTMinterError = {
+  [K in NFTMinterErrorName]: { name: K; args: NFTMinterErrors[K] };
+}[NFTMinterErrorName];
+
+export type NFTMinterContract = BaseContract & NFTMinterMethods;
+
+const EVENT_NAMES: readonly string[] = ["Approval","ApprovalForAll","BatchMetadataUpdate","MetadataUpdate","Transfer"];
+const ERROR_NAMES: readonly string[] = ["ERC721IncorrectOwner","ERC721InsufficientApproval","ERC721InvalidApprover","ERC721InvalidOperator","ERC721InvalidOwner","ERC721InvalidReceiver","ERC721InvalidSender","ERC721NonexistentToken"];
+
+export const NFT_MINTER_INTERFACE = new Interface(NFT_MINTER_ABI);
+
+/**
+ * Creates a typed client for a deployed NFTMinter contract
+ * @param address The contract address
+ * @param runner A provider for reads or a signer for transactions
+ */
+export const createNFTMinterClient = (address: string, runner?: ContractRunner | null): NFTMinterContract =>
+  new Contract(address, NFT_MINTER_INTERFACE, runner) as unknown as NFTMinterContract;
+
+/**
+ * Decodes a log emitted by the contract
+ * @returns The event name and named arguments, or null for other contracts' logs
+ */
+export const parseNFTMinterLog = (log: { topics: ReadonlyArray<string>; data: string }): NFTMinterEvent | null => {
+  try {
+    const parsed = NFT_MINTER_INTERFACE.parseLog(log);
+    if (!parsed || !EVENT_NAMES.includes(parsed.name)) return null;
+    return { name: parsed.name, args: parsed.args.toObject() } as NFTMinterEvent;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decodes revert data into one of the contract's custom errors
+ * @returns The error name and named arguments, or null if the data is not a custom error
+ */
+export const decodeNFTMinterError = (data: BytesLike): NFTMinterError | null => {
+  try {
+    const parsed = NFT_MINTER_INTERFACE.parseError(data);
+    if (!parsed || !ERROR_NAMES.includes(parsed.name)) return null;
+    return { name: parsed.name, args: parsed.args.toObject() } as NFTMinterError;
+  } catch {
+    return null;
+  }
+};
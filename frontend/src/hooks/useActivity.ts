@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+import { ActivityEvent, ActivityListener, ActivityToast } from '../types/activity';
+
+export interface ActivityContextValue {
+  /** Recent Transfer and MetadataUpdate events in the selected collection, newest first */
+  events: ActivityEvent[];
+  /** Tokens that arrived at or left the connected account since the page opened */
+  toasts: ActivityToast[];
+  dismissToast: (id: string) => void;
+  /**
+   * Calls the listener with each poll's new events, leaving out the initial
+   * backfill
+   * @returns A function that removes the listener
+   */
+  subscribe: (listener: ActivityListener) => () => void;
+}
+
+export const ActivityContext = createContext<ActivityContextValue | null>(null);
+
+/**
+ * Returns the live activity of the selected collection
+ * @throws Error if used outside ActivityProvider
+ */
+export const useActivity = (): ActivityContextValue => {
+  const context = useContext(ActivityContext);
+  if (!context) {
+    throw new Error('useActivity must be used within an ActivityProvider');
+  }
+  return context;
+};
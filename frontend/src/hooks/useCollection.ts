@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import { Collection } from '../types/collection';
+
+export interface CollectionContextValue {
+  /** Collection the minter and gallery target, or null if the network has none */
+  collection: Collection | null;
+  /** The shared collection and the connected account's own collections on the selected network */
+  collections: Collection[];
+  /** Targets another of the listed collections */
+  selectCollection: (address: string) => void;
+  /** Lists a newly deployed collection and targets it */
+  addCollection: (collection: Collection) => void;
+}
+
+export const CollectionContext = createContext<CollectionContextValue | null>(null);
+
+/**
+ * Returns the selected collection and the ones available to switch to
+ * @throws Error if used outside CollectionProvider
+ */
+export const useCollection = (): CollectionContextValue => {
+  const context = useContext(CollectionContext);
+  if (!context) {
+    throw new Error('useCollection must be used within a CollectionProvider');
+  }
+  return context;
+};
@@ -0,0 +1,31 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Reports once an element has come near the viewport, so heavy media is
+ * only mounted for the cards the user scrolls to. Stays true afterwards.
+ * @param rootMargin How far outside the viewport counts as near
+ * @returns A ref for the element and whether it has been in view
+ */
+export const useInView = <T extends Element>(rootMargin = '200px') => {
+  const ref = useRef<T>(null);
+  const [inView, setInView] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || inView) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      setInView(true);
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        setInView(true);
+      }
+    }, { rootMargin });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [inView, rootMargin]);
+
+  return [ref, inView] as const;
+};
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { useNetwork } from './useNetwork';
+import { useWallet } from './useWallet';
+import { NativeAccount } from '../types/substrate';
+import { hasSubstrateRpc, loadNativeAccount } from '../utils/substrate';
+
+/**
+ * Loads the Substrate side of an H160 on the selected network: its SS58
+ * identity under pallet-revive's mapping and its native balances. Read again
+ * whenever the wallet session's balance changes.
+ * @param h160 The Ethereum address, or null
+ * @returns The account, null while loading or when the network has no Substrate RPC, and the last error
+ */
+export const useNativeAccount = (h160: string | null): { account: NativeAccount | null; error: string | null } => {
+  const { network } = useNetwork();
+  const { balance } = useWallet();
+  const [account, setAccount] = useState<NativeAccount | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAccount(null);
+    setError(null);
+  }, [h160, network]);
+
+  useEffect(() => {
+    if (!h160 || !hasSubstrateRpc(network)) return;
+
+    let cancelled = false;
+    loadNativeAccount(network, h160)
+      .then((loaded) => {
+        if (!cancelled) setAccount(loaded);
+      })
+      .catch((err) => {
+        console.error('Error loading the Substrate account:', err);
+        if (!cancelled) setError(`Could not read the account from ${network.name}'s Substrate RPC`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [h160, network, balance]);
+
+  return { account, error };
+};
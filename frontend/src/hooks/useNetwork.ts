@@ -0,0 +1,31 @@
+import { createContext, useContext } from 'react';
+import { NetworkConfig } from '../types/network';
+
+export interface NetworkContextValue {
+  /** Network the app reads from and mints on */
+  network: NetworkConfig;
+  /** Every registered network */
+  networks: NetworkConfig[];
+  /** Chain ID the wallet is currently on, or null without a wallet */
+  walletChainId: number | null;
+  /** True when a wallet is connected to a different chain than the selected network */
+  isWrongChain: boolean;
+  /** Selects a network and asks the wallet to switch to it */
+  selectNetwork: (id: string) => Promise<void>;
+  /** Asks the wallet to switch to (or add) the selected network */
+  switchWalletNetwork: () => Promise<void>;
+}
+
+export const NetworkContext = createContext<NetworkContextValue | null>(null);
+
+/**
+ * Returns the selected network and wallet chain state
+ * @throws Error if used outside NetworkProvider
+ */
+export const useNetwork = (): NetworkContextValue => {
+  const context = useContext(NetworkContext);
+  if (!context) {
+    throw new Error('useNetwork must be used within a NetworkProvider');
+  }
+  return context;
+};
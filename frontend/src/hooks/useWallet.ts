@@ -0,0 +1,53 @@
+import { createContext, useContext } from 'react';
+import { ethers } from 'ethers';
+import { EIP1193Provider, SubstrateAccount, Wallet } from '../types/wallet';
+
+export interface WalletContextValue {
+  /** Every wallet found in the browser, EVM and Substrate */
+  wallets: Wallet[];
+  /** The connected wallet, or null */
+  wallet: Wallet | null;
+  /** H160 of the connected account; for Substrate accounts the address pallet-revive maps it to */
+  account: string | null;
+  /** Accounts shared by a connected Substrate extension */
+  substrateAccounts: SubstrateAccount[];
+  /** The selected Substrate account, or null for EVM wallets */
+  substrateAccount: SubstrateAccount | null;
+  /** EIP-1193 provider of the connected EVM wallet, or null */
+  provider: EIP1193Provider | null;
+  /** ethers provider over the EVM wallet, replaced whenever the wallet switches chain */
+  browserProvider: ethers.BrowserProvider | null;
+  /** Signer for the connected EVM account on the wallet's current chain */
+  signer: ethers.JsonRpcSigner | null;
+  /** Chain ID the EVM wallet is on, or null without one */
+  chainId: number | null;
+  /** Native balance of the EVM account on the wallet's chain, or null while unknown */
+  balance: bigint | null;
+  /** Reads the balance again, e.g. after a transaction */
+  refreshBalance: () => Promise<void>;
+  isConnecting: boolean;
+  /** Connects a wallet by id, prompting the user */
+  connect: (walletId: string) => Promise<void>;
+  disconnect: () => void;
+  selectSubstrateAccount: (address: string) => void;
+  /**
+   * Returns the signer for a write on the given chain
+   * @throws WrongChainError if the wallet is on another chain
+   */
+  getSigner: (expectedChainId: number) => Promise<ethers.Signer>;
+}
+
+export const WalletContext = createContext<WalletContextValue | null>(null);
+
+/**
+ * Returns the wallet session: the connected wallet and account, its chain,
+ * signer and balance
+ * @throws Error if used outside WalletProvider
+ */
+export const useWallet = (): WalletContextValue => {
+  const context = useContext(WalletContext);
+  if (!context) {
+    throw new Error('useWallet must be used within a WalletProvider');
+  }
+  return context;
+};
@@ -0,0 +1,33 @@
+import { ethers } from 'ethers';
+import { createDemoChain } from '../utils/demo/chain';
+import { createDemoWallet } from '../utils/demo/wallet';
+import { getNetworkByChainId, getNetworkById } from '../constants/networks';
+import { createNFTMinterClient } from '../contracts/NFTMinter';
+import { DemoChain } from '../types/demo';
+
+export const TEST_NETWORK = getNetworkById('westend-asset-hub')!;
+export const TEST_COLLECTION = TEST_NETWORK.contracts.NFTMinter!.address;
+
+/**
+ * Connects a demo wallet to fresh in-memory chains, one per registered
+ * network, starting on TEST_NETWORK
+ * @returns The wallet, a provider and signer on TEST_NETWORK and the shared collection
+ */
+export const connectDemoWallet = async () => {
+  const chains = new Map<number, DemoChain>();
+  const demoWallet = createDemoWallet((chainId) => {
+    const network = getNetworkByChainId(chainId);
+    if (network && !chains.has(chainId)) chains.set(chainId, createDemoChain(network));
+    return chains.get(chainId);
+  }, TEST_NETWORK.chainId);
+  await demoWallet.wallet.provider.request({ method: 'eth_requestAccounts' });
+
+  // The demo chain mines at once, so there is no need to wait the default four seconds between polls
+  const provider = new ethers.BrowserProvider(
+    demoWallet.wallet.provider as ethers.Eip1193Provider,
+    TEST_NETWORK.chainId,
+    { pollingInterval: 50 }
+  );
+  const signer = await provider.getSigner();
+  return { demoWallet, provider, signer, contract: createNFTMinterClient(TEST_COLLECTION, signer) };
+};
@@ -0,0 +1,63 @@
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// jsdom reads blobs only through FileReader
+const readBlob = <T extends ArrayBuffer | string>(blob: Blob, as: 'readAsArrayBuffer' | 'readAsText') =>
+  new Promise<T>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as T);
+    reader.onerror = () => reject(reader.error);
+    reader[as](blob);
+  });
+
+// Copied through a Buffer, since Node's crypto only accepts its own realm's ArrayBuffer
+const readBytes = async (blob: Blob) => Buffer.from(new Uint8Array(await readBlob<ArrayBuffer>(blob, 'readAsArrayBuffer')));
+
+Blob.prototype.arrayBuffer ??= async function (this: Blob) {
+  const bytes = await readBytes(this);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+Blob.prototype.stream ??= function (this: Blob) {
+  return new ReadableStream({
+    start: async (controller) => {
+      controller.enqueue(new Uint8Array(await readBytes(this)));
+      controller.close();
+    },
+  });
+};
+Blob.prototype.text ??= function (this: Blob) {
+  return readBlob<string>(this, 'readAsText');
+};
+
+// TextEncoder hands out Uint8Arrays of another realm than the tests', which
+// @polkadot/util-crypto does not hash, so every SS58 checksum would mismatch
+const encodeText = TextEncoder.prototype.encode;
+TextEncoder.prototype.encode = function (this: TextEncoder, input?: string) {
+  return new Uint8Array(encodeText.call(this, input));
+};
+
+// jsdom has no object URLs and Node's fetch cannot read them, yet the
+// in-memory storage provider serves uploads from them
+const objectUrls = new Map<string, Blob>();
+
+URL.createObjectURL = (blob: Blob) => {
+  const url = `blob:${crypto.randomUUID()}`;
+  objectUrls.set(url, blob);
+  return url;
+};
+URL.revokeObjectURL = (url: string) => {
+  objectUrls.delete(url);
+};
+
+const fetchUrl = globalThis.fetch;
+globalThis.fetch = async (input, init) => {
+  const blob = objectUrls.get(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+  return blob
+    ? new Response(await readBytes(blob), { headers: { 'Content-Type': blob.type } })
+    : fetchUrl(input, init);
+};
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
@@ -0,0 +1,30 @@
+export interface ActivityEvent {
+  /** Unique per log: transaction hash and log index */
+  id: string;
+  kind: 'mint' | 'transfer' | 'burn' | 'metadata';
+  tokenId: bigint;
+  /** Zero address for mints; both are empty for metadata updates */
+  from: string;
+  to: string;
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface ActivityToast {
+  id: string;
+  /** Whether the token came to or left the connected account */
+  direction: 'incoming' | 'outgoing';
+  event: ActivityEvent;
+}
+
+export type ActivityListener = (events: ActivityEvent[]) => void;
+
+export interface EventWatchOptions {
+  /** Blocks before the head to read on the first poll, for the initial feed */
+  backfillBlocks: number;
+  /** First block that can hold the contract's logs */
+  deployBlock: number;
+  pollIntervalMs: number;
+  /** Called with each poll's new events, oldest first; initial is true for the backfill */
+  onEvents: (events: ActivityEvent[], initial: boolean) => void;
+}
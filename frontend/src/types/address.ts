@@ -0,0 +1,8 @@
+// A recipient entered as either an EVM or a Substrate address
+export interface ResolvedAddress {
+  /** The H160 address the contract sees */
+  h160: string;
+  /** The SS58 address as entered, when the input was a Substrate account */
+  ss58?: string;
+  source: 'h160' | 'ss58';
+}
@@ -0,0 +1,44 @@
+import { MediaMetadata } from './media';
+import { NFTAttribute, NFTMetadata } from './nft';
+
+// One row of a CSV/JSON batch manifest
+export interface ManifestEntry {
+  filename: string;
+  name: string;
+  description: string;
+  external_url?: string;
+  animation_url?: string;
+  background_color?: string;
+  attributes?: NFTAttribute[];
+}
+
+export type BatchItemStatus =
+  | 'pending'    // waiting for upload
+  | 'uploaded'   // metadata pinned, waiting to be minted
+  | 'submitted'  // mint transaction sent
+  | 'minted'     // transaction confirmed
+  | 'failed';
+
+export interface BatchItem {
+  filename: string;
+  metadata: Omit<NFTMetadata, 'image'>;
+  status: BatchItemStatus;
+  imageUri?: string;
+  /** Renditions and details of the pinned image, recorded in the metadata */
+  media?: MediaMetadata;
+  metadataUri?: string;
+  txHash?: string;
+  nonce?: number;
+  tokenId?: string;
+  error?: string;
+}
+
+// Persisted to localStorage so a batch survives reloads and rejected signatures
+export interface BatchState {
+  id: string;
+  account: string;
+  chainId: number;
+  contractAddress: string;
+  createdAt: number;
+  items: BatchItem[];
+}
@@ -0,0 +1,27 @@
+import { ContractDeployment } from './network';
+
+// An NFTMinter deployment the minter and gallery can target
+export interface Collection extends ContractDeployment {
+  networkId: string;
+  name: string;
+  symbol: string;
+  // Account that deployed it; null for the shared collection from the network registry
+  creator: string | null;
+  // Deployment transaction; null for the shared collection
+  txHash: string | null;
+}
+
+// Constructor parameters entered in the create collection wizard
+export interface CollectionDraft {
+  name: string;
+  symbol: string;
+}
+
+export interface CollectionDraftError {
+  field: keyof CollectionDraft;
+  message: string;
+}
+
+export type DeployStage =
+  | 'awaiting-signature'
+  | 'pending';  // sent, waiting to be mined
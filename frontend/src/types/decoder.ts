@@ -0,0 +1,7 @@
+export type {
+  DecodedArgs,
+  DecodedCall,
+  DecodedLog,
+  DecodedRevert,
+  DecodedTransaction,
+} from '../../../asset-hub-project/src/decoder/types';
@@ -0,0 +1,18 @@
+import { EIP1193Provider, EvmWallet } from './wallet';
+
+// An in-memory chain answering JSON-RPC requests through the EIP-1193 request shape
+export interface DemoChain {
+  chainId: number;
+  request: EIP1193Provider['request'];
+}
+
+export interface DemoWallet {
+  /** Listed in the wallet picker like an injected wallet */
+  wallet: EvmWallet;
+  /** Every account the demo wallet holds */
+  accounts: string[];
+  /** The account sites see once connected */
+  getSelectedAccount: () => string;
+  /** Switches the selected account, as if the user picked another one in the extension */
+  selectAccount: (address: string) => void;
+}
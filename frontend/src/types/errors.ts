@@ -0,0 +1,25 @@
+export type ErrorKind =
+  | 'user-rejected'       // EIP-1193 4001 or ethers ACTION_REJECTED
+  | 'unauthorized'        // EIP-1193 4100: the account or method is not authorized
+  | 'unknown-chain'       // EIP-1193 4902: the wallet has not added the chain
+  | 'wrong-chain'         // the wallet is on another chain than the action targets
+  | 'insufficient-funds'
+  | 'nonce-conflict'      // nonce too low, already known or underpriced replacement
+  | 'timeout'             // the RPC node or wallet did not answer
+  | 'contract-revert'
+  | 'storage'             // an image or metadata upload failed
+  | 'unknown';
+
+// What the user can do about an error
+export type RecoveryAction = 'retry' | 'reconnect' | 'switch-network';
+
+// An error translated for display
+export interface FriendlyError {
+  kind: ErrorKind;
+  title: string;
+  message: string;
+  // null when repeating the same action would fail the same way
+  action: RecoveryAction | null;
+  // The original error, for the expandable technical details
+  details: string;
+}
@@ -0,0 +1,6 @@
+export type {
+  BalanceCheck,
+  FeeEstimate,
+  FeePolicy,
+  TxFeeOverrides,
+} from '../../../asset-hub-project/src/fees/types';
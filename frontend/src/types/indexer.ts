@@ -0,0 +1,27 @@
+// Envelope the indexer wraps every response in (see indexer/src/server.ts)
+export interface IndexerResponse<T> {
+  chainId: number;
+  contract: string;
+  network: string;
+  indexedBlock: number | null;
+  headBlock: number | null;
+  data: T;
+}
+
+export interface IndexedOwnedToken {
+  tokenId: string;
+  acquiredBlock: number;
+}
+
+export interface IndexedEventRecord {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  txHash: string;
+  name: string;
+  tokenId: string | null;
+  from: string | null;
+  to: string | null;
+  args: Record<string, string | boolean>;
+  timestamp: number | null;
+}
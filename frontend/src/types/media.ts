@@ -0,0 +1,48 @@
+import { AnimationKind, MediaDetails, NFTMetadata } from './nft';
+import { UploadProgress } from './storage';
+
+// What the upload box accepts, from VITE_MEDIA_TYPES and VITE_MEDIA_MAX_BYTES
+export interface MediaLimits {
+  types: string[];
+  maxBytes: number;
+}
+
+// A picked image after the media pipeline has run
+export interface PreparedMedia {
+  // The original with EXIF, GPS and text metadata removed
+  file: File;
+  // Web-sized copy; null when the original is small enough or cannot be scaled
+  preview: File | null;
+  // Gallery-sized copy; null when the original is small enough or cannot be scaled
+  thumbnail: File | null;
+  details: MediaDetails;
+  // Whether metadata was found and removed
+  stripped: boolean;
+}
+
+// Where each rendition of a prepared image is, or will be, pinned
+export interface MediaUris {
+  image: string;
+  preview?: string;
+  thumbnail?: string;
+}
+
+// A picked video, audio or 3D model file, minted as the animation_url
+export interface PreparedAnimation {
+  // The file, typed from its extension when the browser left the type empty
+  file: File;
+  kind: AnimationKind;
+  details: MediaDetails;
+}
+
+export type MediaMetadata = Pick<
+  NFTMetadata,
+  'image_preview' | 'image_thumbnail' | 'image_details' | 'animation_url' | 'animation_details'
+>;
+
+export type MediaRendition = 'image' | 'preview' | 'thumbnail';
+
+export interface MediaUploadOptions {
+  /** Called with byte counts as each rendition is sent */
+  onProgress?: (rendition: MediaRendition, progress: UploadProgress) => void;
+}
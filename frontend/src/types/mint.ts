@@ -0,0 +1,51 @@
+import { FriendlyError } from './errors';
+
+export type MintStage =
+  | 'idle'
+  | 'uploading-image'
+  | 'uploading-metadata'
+  | 'awaiting-signature'
+  | 'pending'     // sent, waiting to be mined
+  | 'confirmed'   // mined and buried under MINT_CONFIRMATIONS blocks
+  | 'failed'
+  | 'replaced'    // the nonce was used by another transaction (cancelled or sped up elsewhere)
+  | 'dropped';    // evicted from the mempool without being mined
+
+export interface MintingState {
+  stage: MintStage;
+  error: string | null;
+  // The classified error behind `error` when an exception caused it
+  failure?: FriendlyError;
+  txHash?: string;
+  replacementHash?: string;
+  confirmations: number;
+  tokenId?: string;
+  // On-chain mints skip the upload steps
+  storage?: MintStorage;
+}
+
+// A sent mint transaction, persisted so tracking resumes after a reload
+export interface PendingMint {
+  txHash: string;
+  nonce: number;
+  from: string;
+  chainId: number;
+  contractAddress: string;
+  // Block number before sending; replacements are searched from here
+  startBlock: number;
+  metadataUri: string;
+  name: string;
+  description: string;
+  image: string;
+  submittedAt: number;
+}
+
+// Where a single mint keeps its metadata and image
+export type MintStorage = 'ipfs' | 'onchain';
+
+// How much more an on-chain mint costs than minting an ipfs:// URI
+export interface OnChainCostEstimate {
+  uriBytes: number;
+  extraGas: bigint;
+  extraFee: bigint;
+}
@@ -0,0 +1,33 @@
+import { FeePolicy } from './fees';
+
+export interface ContractDeployment {
+  address: string;
+  /** Block the contract was deployed in; log scans start here */
+  deployBlock: number;
+}
+
+export interface NetworkConfig {
+  id: string;
+  name: string;
+  chainId: number;
+  /** SS58 prefix used to display Substrate addresses on this chain */
+  ss58Prefix: number;
+  rpcUrls: string[];
+  /** Substrate WebSocket endpoints of the same chain, for balances and account mapping */
+  substrateRpcUrls?: string[];
+  explorerUrl: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  testnet: boolean;
+  /** Where to get test tokens, shown when a balance is too low */
+  faucetUrl?: string;
+  /** Overrides for the default fee policy on this network */
+  feePolicy?: Partial<FeePolicy>;
+  contracts: {
+    NFTMinter?: ContractDeployment;
+    Storage?: ContractDeployment;
+  };
+}
@@ -1,11 +1,86 @@
+export type TraitDisplayType = 'number' | 'boost_number' | 'boost_percentage' | 'date';
+
+export interface NFTAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: TraitDisplayType;
+}
+
+// Facts about a pinned image or animation file, recorded by the media pipeline
+export interface MediaDetails {
+  // Hex SHA-256 of the pinned bytes
+  sha256: string;
+  bytes: number;
+  format: string;
+  width?: number;
+  height?: number;
+}
+
 export interface NFTMetadata {
   name: string;
   description: string;
   image: string;
-  attributes?: {
-    trait_type: string;
-    value: string | number;
-  }[];
+  // Downscaled copies of `image` for pages and galleries, pinned alongside it
+  image_preview?: string;
+  image_thumbnail?: string;
+  image_details?: MediaDetails;
+  external_url?: string;
+  // Video, audio or 3D model shown instead of `image` where supported; `image` is its poster
+  animation_url?: string;
+  animation_details?: MediaDetails;
+  background_color?: string;
+  attributes?: NFTAttribute[];
+}
+
+// Editable trait row; values stay strings until the metadata is built
+export interface TraitDraft {
+  id: string;
+  trait_type: string;
+  valueType: 'string' | 'number';
+  value: string;
+  display_type?: TraitDisplayType;
+}
+
+// Optional metadata fields collected by the metadata editor
+export interface MetadataExtras {
+  external_url: string;
+  animation_url: string;
+  background_color: string;
+  attributes: TraitDraft[];
+}
+
+export interface MetadataValidationError {
+  field: string;
+  message: string;
+}
+
+export interface OwnedNFT {
+  tokenId: bigint;
+  tokenURI: string;
+  name: string;
+  description: string;
+  image: string;
+  animation: ResolvedAnimation | null;
+}
+
+export type AnimationKind = 'video' | 'audio' | 'model';
+
+// A token's animation_url, resolved for display
+export interface ResolvedAnimation {
+  url: string;
+  // Null when the type could not be told; the media is then only linked
+  kind: AnimationKind | null;
+}
+
+// One entry of a token's ownership history, decoded from a Transfer log
+export interface ProvenanceEvent {
+  kind: 'mint' | 'transfer' | 'burn';
+  from: string;
+  to: string;
+  txHash: string;
+  blockNumber: number;
+  // Block timestamp in seconds, or null if the block could not be fetched
+  timestamp: number | null;
 }
 
 export interface PinataResponse {
@@ -13,9 +88,3 @@ export interface PinataResponse {
   PinSize: number;
   Timestamp: string;
 }
-
-export interface MintingState {
-  isMinting: boolean;
-  error: string | null;
-  success: boolean;
-} 
\ No newline at end of file
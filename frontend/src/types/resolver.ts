@@ -0,0 +1,8 @@
+// A token or media URI broken down into where its content can be fetched from
+export type ParsedUri =
+  | { kind: 'data'; mediaType: string; bytes: Uint8Array }
+  // CID followed by an optional path, e.g. "bafy.../metadata.json"
+  | { kind: 'ipfs'; path: string }
+  // Arweave transaction ID followed by an optional path
+  | { kind: 'arweave'; path: string }
+  | { kind: 'http'; url: string };
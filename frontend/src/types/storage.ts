@@ -0,0 +1,22 @@
+export type StorageProviderName = 'w3up' | 'pinata' | 'kubo' | 'memory';
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadOptions {
+  /** Called with byte counts as the upload body is sent */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface StorageProvider {
+  /** Identifier used to select the provider in config */
+  readonly name: StorageProviderName;
+  /** Uploads a file and returns its root CID */
+  upload: (file: File, options?: UploadOptions) => Promise<string>;
+  /** Computes locally the root CID this provider will assign to a file */
+  computeCid: (file: Blob) => Promise<string>;
+  /** Returns a URL the browser can load the content for a CID from */
+  getGatewayUrl: (cid: string) => string;
+}
@@ -0,0 +1,12 @@
+import { AccountMapping, NativeBalance } from '../../../asset-hub-project/src/substrate/types';
+
+export type {
+  AccountMapping,
+  ExistentialDepositCheck,
+  NativeBalance,
+} from '../../../asset-hub-project/src/substrate/types';
+
+export interface NativeAccount {
+  mapping: AccountMapping;
+  balance: NativeBalance;
+}
@@ -0,0 +1,61 @@
+// Minimal EIP-1193 provider surface used by the app
+export interface EIP1193Provider {
+  request: (args: { method: string; params?: unknown[] | Record<string, unknown> }) => Promise<unknown>;
+  on: (event: string, listener: (...args: never[]) => void) => void;
+  removeListener: (event: string, listener: (...args: never[]) => void) => void;
+}
+
+// Wallet metadata announced through EIP-6963
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  /** Data URI of the wallet icon */
+  icon: string;
+  /** Reverse-DNS identifier, e.g. io.metamask */
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EIP1193Provider;
+}
+
+export type WalletKind = 'evm' | 'substrate';
+
+export interface EvmWallet {
+  kind: 'evm';
+  /** evm:<rdns>, stable across page loads */
+  id: string;
+  name: string;
+  icon?: string;
+  provider: EIP1193Provider;
+}
+
+export interface SubstrateWallet {
+  kind: 'substrate';
+  /** substrate:<extension source>, e.g. substrate:polkadot-js */
+  id: string;
+  name: string;
+  icon?: string;
+  /** Extension key in window.injectedWeb3 */
+  source: string;
+}
+
+export type Wallet = EvmWallet | SubstrateWallet;
+
+export interface SubstrateAccount {
+  address: string;
+  name?: string;
+  source: string;
+}
+
+declare global {
+  interface Window {
+    ethereum?: EIP1193Provider;
+    injectedWeb3?: Record<string, unknown>;
+  }
+
+  interface WindowEventMap {
+    'eip6963:announceProvider': CustomEvent<EIP6963ProviderDetail>;
+  }
+}
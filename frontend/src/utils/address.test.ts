@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { dataSlice, keccak256 } from 'ethers';
+import { h160ToSs58, resolveAddress } from './address';
+
+const H160 = '0x7c77d685560f02ffb9F9B58245c06e1124502450';
+// Alice's dev account
+const ALICE_SS58 = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+const ALICE_ACCOUNT_ID = '0xd43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d';
+
+describe('resolveAddress', () => {
+  it.each([
+    ['checksummed', H160],
+    ['lowercase', H160.toLowerCase()],
+    ['padded with spaces', `  ${H160}\n`],
+  ])('takes a %s H160 as it is', (_form, input) => {
+    expect(resolveAddress(input)).toEqual({ h160: H160, source: 'h160' });
+  });
+
+  it('maps a native SS58 account to the tail of its keccak256 hash', () => {
+    const { h160, ss58, source } = resolveAddress(ALICE_SS58);
+
+    expect(h160.toLowerCase()).toBe(dataSlice(keccak256(ALICE_ACCOUNT_ID), 12));
+    expect({ ss58, source }).toEqual({ ss58: ALICE_SS58, source: 'ss58' });
+  });
+
+  it.each([42, 0])('maps the SS58 address of an eth-derived account back to its H160 (prefix %i)', (prefix) => {
+    const ss58 = h160ToSs58(H160, prefix);
+
+    expect(resolveAddress(ss58)).toEqual({ h160: H160, ss58, source: 'ss58' });
+  });
+
+  it.each([
+    ['an H160 with a wrong checksum', '0x7c77d685560f02ffb9f9B58245c06e1124502450', 'Invalid address checksum'],
+    ['hex that is not 20 bytes long', '0x7c77d685560f02ffb9f9', 'SS58 address must encode a 32-byte account'],
+    ['an SS58 address with a broken checksum', `${ALICE_SS58.slice(0, -1)}Z`, 'Enter a 0x-prefixed H160 address or an SS58 Polkadot address'],
+    ['a name', 'alice', 'Enter a 0x-prefixed H160 address or an SS58 Polkadot address'],
+  ])('rejects %s', (_form, input, message) => {
+    expect(() => resolveAddress(input)).toThrow(message);
+  });
+});
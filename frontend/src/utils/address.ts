@@ -0,0 +1,37 @@
+import { ethers } from 'ethers';
+import { decodeAddress } from '@polkadot/util-crypto';
+import { ResolvedAddress } from '../types/address';
+import { accountIdToH160 } from '../../../asset-hub-project/src/address';
+
+// The pallet-revive address mapping itself is shared with the asset-hub CLI
+export { accountIdToH160, h160ToAccountId, h160ToSs58 } from '../../../asset-hub-project/src/address';
+
+const H160_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * Parses a recipient entered as an H160 or SS58 address
+ * @param input The address as typed by the user
+ * @returns The H160 the contract should be called with
+ * @throws Error if the input is neither a valid H160 nor a valid SS58 address
+ */
+export const resolveAddress = (input: string): ResolvedAddress => {
+  const value = input.trim();
+
+  if (H160_PATTERN.test(value)) {
+    if (!ethers.isAddress(value)) {
+      throw new Error('Invalid address checksum');
+    }
+    return { h160: ethers.getAddress(value), source: 'h160' };
+  }
+
+  let accountId: Uint8Array;
+  try {
+    accountId = decodeAddress(value);
+  } catch {
+    throw new Error('Enter a 0x-prefixed H160 address or an SS58 Polkadot address');
+  }
+  if (accountId.length !== 32) {
+    throw new Error('SS58 address must encode a 32-byte account');
+  }
+  return { h160: accountIdToH160(accountId), ss58: value, source: 'ss58' };
+};
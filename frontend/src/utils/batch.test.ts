@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+import { describe, expect, it, vi } from 'vitest';
+import { createBatch, isBatchFor, loadBatch, mintBatch, reconcileBatch, removeBatch, saveBatch } from './batch';
+import { WrongChainError } from './wallet/evm';
+import { getNetworkById } from '../constants/networks';
+import { DEMO_ACCOUNTS, DEMO_BLOCK_TIME_MS } from '../constants/demo';
+import { BatchItem, BatchState } from '../types/batch';
+import { connectDemoWallet, TEST_COLLECTION, TEST_NETWORK } from '../test/demo';
+
+const OTHER_NETWORK = getNetworkById('kusama-asset-hub')!;
+
+const item = (filename: string, changes: Partial<BatchItem> = {}): BatchItem => ({
+  filename,
+  metadata: { name: filename, description: `The ${filename} item` },
+  status: 'uploaded',
+  metadataUri: `ipfs://${filename}`,
+  ...changes,
+});
+
+const batchOf = (items: BatchItem[], changes: Partial<BatchState> = {}): BatchState => ({
+  id: 'batch',
+  account: DEMO_ACCOUNTS[0],
+  chainId: TEST_NETWORK.chainId,
+  contractAddress: TEST_COLLECTION,
+  createdAt: 0,
+  items,
+  ...changes,
+});
+
+describe('batch storage', () => {
+  it('keeps one batch per chain and collection', () => {
+    const batch = batchOf([item('one.svg')]);
+    const elsewhere = batchOf([item('two.svg')], { chainId: OTHER_NETWORK.chainId });
+    saveBatch(batch);
+    saveBatch(elsewhere);
+
+    expect(loadBatch(TEST_NETWORK.chainId, TEST_COLLECTION.toUpperCase().replace('0X', '0x'))).toEqual(batch);
+    expect(loadBatch(OTHER_NETWORK.chainId, TEST_COLLECTION)).toEqual(elsewhere);
+    expect(isBatchFor(batch, OTHER_NETWORK.chainId, TEST_COLLECTION)).toBe(false);
+
+    removeBatch(batch);
+    expect(loadBatch(TEST_NETWORK.chainId, TEST_COLLECTION)).toBeNull();
+    expect(loadBatch(OTHER_NETWORK.chainId, TEST_COLLECTION)).toEqual(elsewhere);
+  });
+});
+
+describe('createBatch', () => {
+  it('lists every missing image and invalid entry', () => {
+    const images = new Map([['one.svg', new File(['<svg/>'], 'one.svg', { type: 'image/svg+xml' })]]);
+    const entries = [
+      { filename: 'one.svg', name: 'One', description: 'First', external_url: 'not a url' },
+      { filename: 'two.svg', name: 'Two', description: 'Second' },
+    ];
+
+    expect(() => createBatch(entries, images, DEMO_ACCOUNTS[0], TEST_NETWORK.chainId, TEST_COLLECTION))
+      .toThrow(/Row 1 \(one\.svg\): .*\nRow 2: image "two\.svg" was not found/);
+  });
+});
+
+describe('reconcileBatch', () => {
+  it('settles items sent before a reload from their receipts', async () => {
+    const { contract } = await connectDemoWallet();
+    const minted = await contract.mintNFT('ipfs://one.svg');
+    const reverted = await contract.transferFrom(DEMO_ACCOUNTS[0], DEMO_ACCOUNTS[1], 9n, { gasLimit: 100000n });
+    const batch = batchOf([
+      item('one.svg', { status: 'submitted', txHash: minted.hash, nonce: minted.nonce }),
+      item('two.svg', { status: 'submitted', txHash: reverted.hash, nonce: reverted.nonce }),
+      item('three.svg', { status: 'submitted', txHash: ethers.id('dropped'), nonce: 2 }),
+      item('four.svg'),
+    ]);
+    const update = vi.fn();
+
+    await reconcileBatch(batch, contract, update);
+
+    expect(update).toHaveBeenCalledWith(0, { status: 'minted', tokenId: '0' });
+    expect(update).toHaveBeenCalledWith(1, { status: 'failed', error: 'Transaction reverted' });
+    // Never reached the chain, so it is minted again
+    expect(update).toHaveBeenCalledWith(2, { status: 'uploaded', txHash: undefined, nonce: undefined });
+    expect(update).toHaveBeenCalledTimes(3);
+  });
+
+  it('refuses to look up a batch in another collection', async () => {
+    const { contract } = await connectDemoWallet();
+    const batch = batchOf([item('one.svg', { status: 'submitted', txHash: ethers.id('sent') })], {
+      contractAddress: ethers.getAddress(ethers.dataSlice(ethers.id('other collection'), 12)),
+    });
+    const update = vi.fn();
+
+    await expect(reconcileBatch(batch, contract, update)).rejects.toThrow(`This batch mints into ${batch.contractAddress}`);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to look up a batch once the wallet left its chain', async () => {
+    const { demoWallet, contract } = await connectDemoWallet();
+    await demoWallet.wallet.provider.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: ethers.toQuantity(OTHER_NETWORK.chainId) }],
+    });
+    const update = vi.fn();
+
+    await expect(reconcileBatch(batchOf([item('one.svg')]), contract, update)).rejects.toThrow(WrongChainError);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
+
+describe('mintBatch', () => {
+  // A later receipt may only count as confirmed once the demo chain produces its next empty block
+  it('mints every uploaded item with consecutive nonces', async () => {
+    const { contract } = await connectDemoWallet();
+    const batch = batchOf([item('one.svg'), item('two.svg', { status: 'pending', metadataUri: undefined }), item('three.svg')]);
+    const update = vi.fn();
+
+    expect(await mintBatch(batch, contract, update)).toBe(true);
+
+    expect(update).toHaveBeenCalledWith(0, expect.objectContaining({ status: 'submitted', nonce: 0 }));
+    expect(update).toHaveBeenCalledWith(2, expect.objectContaining({ status: 'submitted', nonce: 1 }));
+    expect(update).toHaveBeenCalledWith(0, { status: 'minted', tokenId: '0' });
+    expect(update).toHaveBeenCalledWith(2, { status: 'minted', tokenId: '1' });
+    expect(update).not.toHaveBeenCalledWith(1, expect.anything());
+    expect(await contract.tokenURI(1n)).toBe('ipfs://three.svg');
+  }, 3 * DEMO_BLOCK_TIME_MS);
+
+  it('sends nothing once the wallet left the batch chain', async () => {
+    const { demoWallet, contract } = await connectDemoWallet();
+    await demoWallet.wallet.provider.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: ethers.toQuantity(OTHER_NETWORK.chainId) }],
+    });
+    const update = vi.fn();
+
+    await expect(mintBatch(batchOf([item('one.svg')]), contract, update)).rejects.toThrow(WrongChainError);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
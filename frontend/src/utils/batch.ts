@@ -0,0 +1,287 @@
+import { ethers } from 'ethers';
+import { BatchItem, BatchState, ManifestEntry } from '../types/batch';
+import { uploadMetadataToIPFS } from './ipfs';
+import { getMediaLimits, getMediaMetadata, prepareMedia, uploadMedia, validateMediaFile } from './media';
+import { validateMetadata } from './metadata';
+import { getMintedTokenId } from './tokens';
+import { NFTMinterContract } from '../contracts/NFTMinter';
+import { WrongChainError } from './wallet/evm';
+
+const BATCH_STORAGE_PREFIX = 'nftminter.batch';
+
+// Number of items uploaded in parallel
+const UPLOAD_CONCURRENCY = 3;
+
+// Every collection on every chain has its own batch, so switching never resumes one into another
+const batchStorageKey = (chainId: number, contractAddress: string) =>
+  `${BATCH_STORAGE_PREFIX}.${chainId}.${contractAddress.toLowerCase()}`;
+
+/**
+ * Loads the in-progress batch saved in localStorage for a collection
+ * @param chainId The collection's chain
+ * @param contractAddress The collection
+ * @returns The saved batch, or null if there is none
+ */
+export const loadBatch = (chainId: number, contractAddress: string): BatchState | null => {
+  const saved = localStorage.getItem(batchStorageKey(chainId, contractAddress));
+  return saved ? JSON.parse(saved) : null;
+};
+
+/**
+ * Persists a batch so it can be resumed after a reload
+ * @param batch The batch to save
+ */
+export const saveBatch = (batch: BatchState) => {
+  localStorage.setItem(batchStorageKey(batch.chainId, batch.contractAddress), JSON.stringify(batch));
+};
+
+/**
+ * Forgets a saved batch
+ * @param batch The batch to remove
+ */
+export const removeBatch = (batch: BatchState) => {
+  localStorage.removeItem(batchStorageKey(batch.chainId, batch.contractAddress));
+};
+
+/**
+ * Whether a batch belongs to the given chain and collection
+ * @param batch The batch
+ * @param chainId The current chain
+ * @param contractAddress The current collection
+ */
+export const isBatchFor = (batch: BatchState, chainId: number, contractAddress: string): boolean =>
+  batch.chainId === chainId && batch.contractAddress.toLowerCase() === contractAddress.toLowerCase();
+
+/**
+ * Checks that a contract is the batch's collection and that its provider is
+ * still on the batch's chain. Sending or looking up a batch's transactions
+ * anywhere else would mint into the wrong collection, or find nothing and mint
+ * the items again.
+ * @throws WrongChainError if the wallet moved to another chain
+ * @throws Error if the contract is another collection
+ */
+const assertBatchSession = async (batch: BatchState, contract: NFTMinterContract) => {
+  const contractAddress = await contract.getAddress();
+  if (contractAddress.toLowerCase() !== batch.contractAddress.toLowerCase()) {
+    throw new Error(`This batch mints into ${batch.contractAddress}, not ${contractAddress}`);
+  }
+  // Asked of the wallet itself: a provider built for one chain reports a switch as an error
+  const provider = contract.runner?.provider;
+  const chainId = provider instanceof ethers.JsonRpcApiProvider
+    ? Number(await provider.send('eth_chainId', []))
+    : provider ? Number((await provider.getNetwork()).chainId) : null;
+  if (chainId !== batch.chainId) {
+    throw new WrongChainError(chainId, batch.chainId);
+  }
+};
+
+/**
+ * Creates a batch from a manifest, checking every entry has an accepted image
+ * and valid metadata before anything is uploaded
+ * @param entries The parsed manifest
+ * @param images The picked images keyed by filename
+ * @param account The minting account
+ * @param chainId The collection's chain
+ * @param contractAddress The collection to mint into
+ * @returns The new batch
+ * @throws Error listing every problem found in the manifest
+ */
+export const createBatch = (
+  entries: ManifestEntry[],
+  images: Map<string, File>,
+  account: string,
+  chainId: number,
+  contractAddress: string
+): BatchState => {
+  const problems: string[] = [];
+  const limits = getMediaLimits();
+
+  entries.forEach((entry, index) => {
+    const image = images.get(entry.filename);
+    const imageProblem = image ? validateMediaFile(image, limits) : `image "${entry.filename}" was not found`;
+    if (imageProblem) {
+      problems.push(`Row ${index + 1}: ${imageProblem}`);
+    }
+    const { filename, ...metadata } = entry;
+    for (const error of validateMetadata({ ...metadata, image: `ipfs://${filename}` })) {
+      problems.push(`Row ${index + 1} (${filename}): ${error.message}`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    account,
+    chainId,
+    contractAddress,
+    createdAt: Date.now(),
+    items: entries.map(({ filename, ...metadata }) => ({ filename, metadata, status: 'pending' })),
+  };
+};
+
+type BatchUpdate = (index: number, changes: Partial<BatchItem>) => void;
+
+/**
+ * Uploads images and metadata for every pending item. Images go through the
+ * same pipeline as single mints: camera and location data are stripped and
+ * the preview and thumbnail are pinned alongside. Items whose image is not
+ * available (e.g. after a reload) are skipped and stay pending.
+ * @param batch The batch to upload
+ * @param images The picked images keyed by filename
+ * @param update Called with every item change
+ */
+export const uploadBatch = async (batch: BatchState, images: Map<string, File>, update: BatchUpdate) => {
+  const queue = batch.items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.status === 'pending' || (item.status === 'failed' && !item.metadataUri));
+
+  const worker = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      const { item, index } = next;
+      const file = images.get(item.filename);
+      if (!file) continue;
+
+      try {
+        let { imageUri, media } = item;
+        if (!imageUri || !media) {
+          const prepared = await prepareMedia(file);
+          const uris = await uploadMedia(prepared);
+          imageUri = uris.image;
+          media = getMediaMetadata(uris, prepared);
+          update(index, { imageUri, media });
+        }
+        const metadataUri = await uploadMetadataToIPFS({ ...item.metadata, image: imageUri, ...media });
+        update(index, { metadataUri, status: 'uploaded', error: undefined });
+      } catch (error) {
+        console.error(`Error uploading ${item.filename}:`, error);
+        update(index, { status: 'failed', error: error instanceof Error ? error.message : 'Upload failed' });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: UPLOAD_CONCURRENCY }, worker));
+};
+
+/**
+ * Re-checks items whose mint transaction was sent before a reload
+ * @param batch The batch to reconcile
+ * @param contract The batch's collection, on the batch's chain
+ * @param update Called with every item change
+ * @throws WrongChainError or Error if the contract is not the batch's collection on its chain
+ */
+export const reconcileBatch = async (batch: BatchState, contract: NFTMinterContract, update: BatchUpdate) => {
+  const provider = contract.runner?.provider;
+  if (!provider) return;
+  await assertBatchSession(batch, contract);
+
+  await Promise.all(batch.items.map(async (item, index) => {
+    if (item.status !== 'submitted' || !item.txHash) return;
+
+    const receipt = await provider.getTransactionReceipt(item.txHash);
+    if (receipt) {
+      const tokenId = getMintedTokenId(contract, receipt);
+      update(index, receipt.status === 1
+        ? { status: 'minted', tokenId: tokenId?.toString() }
+        : { status: 'failed', error: 'Transaction reverted' });
+      return;
+    }
+
+    const tx = await provider.getTransaction(item.txHash);
+    if (!tx) {
+      // Dropped from the mempool; mint it again
+      update(index, { status: 'uploaded', txHash: undefined, nonce: undefined });
+    }
+  }));
+};
+
+/**
+ * Sends a mintNFT transaction for every uploaded item, one after another with
+ * explicitly assigned nonces, then waits for all receipts. Stops at the first
+ * rejected signature so the batch can be resumed later, and before any send
+ * once the wallet leaves the batch's chain.
+ * @param batch The batch to mint
+ * @param contract The batch's collection, connected to the minting signer
+ * @param update Called with every item change
+ * @returns False if the user rejected a signature
+ * @throws WrongChainError or Error if the contract is not the batch's collection on its chain
+ */
+export const mintBatch = async (
+  batch: BatchState,
+  contract: NFTMinterContract,
+  update: BatchUpdate
+): Promise<boolean> => {
+  const signer = contract.runner as ethers.Signer;
+  await assertBatchSession(batch, contract);
+  let nonce = await signer.getNonce('pending');
+  const confirmations: Promise<void>[] = [];
+  let completed = true;
+
+  for (const [index, item] of batch.items.entries()) {
+    if (item.status === 'submitted' && item.txHash) {
+      confirmations.push(waitForMint(contract, item.txHash, index, update));
+      continue;
+    }
+    // Failed sends never reached the chain and can be retried
+    const mintable = item.status === 'uploaded' || (item.status === 'failed' && !item.txHash);
+    if (!mintable || !item.metadataUri) continue;
+
+    try {
+      await assertBatchSession(batch, contract);
+      const tx = await contract.mintNFT(item.metadataUri, { nonce });
+      update(index, { status: 'submitted', txHash: tx.hash, nonce, error: undefined });
+      nonce++;
+      confirmations.push(waitForMint(contract, tx.hash, index, update));
+    } catch (error) {
+      // Sent items keep their hashes and are reconciled once the wallet is back on the batch's chain
+      if (error instanceof WrongChainError) throw error;
+      if (ethers.isError(error, 'ACTION_REJECTED')) {
+        update(index, { error: 'Signature rejected' });
+        completed = false;
+        break;
+      }
+      console.error(`Error minting ${item.filename}:`, error);
+      update(index, { status: 'failed', error: error instanceof Error ? error.message : 'Mint failed' });
+      // The failed send did not consume the nonce; re-read it in case the wallet did
+      nonce = await signer.getNonce('pending');
+    }
+  }
+
+  await Promise.all(confirmations);
+  return completed;
+};
+
+const waitForMint = async (contract: NFTMinterContract, txHash: string, index: number, update: BatchUpdate) => {
+  try {
+    const receipt = await contract.runner?.provider?.waitForTransaction(txHash);
+    if (!receipt || receipt.status !== 1) {
+      update(index, { status: 'failed', error: 'Transaction reverted' });
+      return;
+    }
+    update(index, { status: 'minted', tokenId: getMintedTokenId(contract, receipt)?.toString() });
+  } catch (error) {
+    // The wallet left the chain; the item stays submitted and is reconciled on return
+    if (ethers.isError(error, 'NETWORK_ERROR')) return;
+    console.error(`Error waiting for ${txHash}:`, error);
+    update(index, { status: 'failed', error: error instanceof Error ? error.message : 'Transaction failed' });
+  }
+};
+
+/**
+ * Builds the per-item report of a batch
+ * @param batch The batch
+ * @returns Report rows with the CID, transaction hash and token ID of each item
+ */
+export const buildBatchReport = (batch: BatchState) =>
+  batch.items.map((item) => ({
+    filename: item.filename,
+    name: item.metadata.name,
+    status: item.status,
+    imageCid: item.imageUri?.replace('ipfs://', '') ?? null,
+    metadataCid: item.metadataUri?.replace('ipfs://', '') ?? null,
+    txHash: item.txHash ?? null,
+    tokenId: item.tokenId ?? null,
+    error: item.error ?? null,
+  }));
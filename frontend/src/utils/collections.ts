@@ -0,0 +1,184 @@
+import { ethers } from 'ethers';
+import nftMinterArtifactUrl from '../../../asset-hub-project/artifacts/NFTMinter.polkavm?url';
+import { Collection, CollectionDraft, CollectionDraftError, DeployStage } from '../types/collection';
+import { FeeEstimate } from '../types/fees';
+import { NetworkConfig } from '../types/network';
+import { NFT_MINTER_ABI } from '../contracts/NFTMinter';
+import { estimateFee } from './fees';
+import { createReadProvider } from './polkadot';
+
+const COLLECTIONS_STORAGE_KEY = 'nftminter.collections';
+
+// Shown for the registry collection, whose name is whatever it was deployed with
+const SHARED_COLLECTION_NAME = 'Shared collection';
+
+const MAX_NAME_LENGTH = 64;
+const MAX_SYMBOL_LENGTH = 11;
+
+const isSameAddress = (a: string | null, b: string | null) => a !== null && b !== null && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Reads every collection deployed from this browser, on any network
+ * @returns The recorded collections, oldest first
+ */
+export const loadRecordedCollections = (): Collection[] => {
+  const saved = localStorage.getItem(COLLECTIONS_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+};
+
+/**
+ * Returns the collection recorded for a network in networks.json
+ * @param network The network to look up
+ * @returns The shared collection, or null if the network has none
+ */
+export const getSharedCollection = (network: NetworkConfig): Collection | null => {
+  const deployment = network.contracts.NFTMinter;
+  return deployment
+    ? { ...deployment, networkId: network.id, name: SHARED_COLLECTION_NAME, symbol: '', creator: null, txHash: null }
+    : null;
+};
+
+/**
+ * Lists the collections a creator can target on a network: the shared one
+ * first, then the ones they deployed
+ * @param recorded Every recorded collection, from loadRecordedCollections
+ * @param network The network to list
+ * @param creator The connected account, or null to list only the shared collection
+ */
+export const listCollections = (recorded: Collection[], network: NetworkConfig, creator: string | null): Collection[] => {
+  const shared = getSharedCollection(network);
+  const own = recorded.filter((collection) => collection.networkId === network.id && isSameAddress(collection.creator, creator));
+  return shared ? [shared, ...own] : own;
+};
+
+/**
+ * Finds a collection by address among the shared one and every recorded one
+ * on a network, whoever deployed it
+ * @param network The network the collection lives on
+ * @param address The contract address
+ * @returns The collection, or null if this browser does not know it
+ */
+export const findCollection = (network: NetworkConfig, address: string): Collection | null => {
+  const shared = getSharedCollection(network);
+  if (shared && isSameAddress(shared.address, address)) return shared;
+  return loadRecordedCollections().find((collection) => collection.networkId === network.id && isSameAddress(collection.address, address)) ?? null;
+};
+
+/**
+ * Remembers a deployed collection for its network and creator
+ * @param collection The new collection
+ */
+export const recordCollection = (collection: Collection) => {
+  const others = loadRecordedCollections().filter(
+    (recorded) => !(recorded.networkId === collection.networkId && isSameAddress(recorded.address, collection.address))
+  );
+  localStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify([...others, collection]));
+};
+
+/**
+ * Checks the name and symbol entered for a new collection
+ * @param draft The constructor parameters
+ * @returns One entry per invalid field, empty if the draft can be deployed
+ */
+export const validateCollectionDraft = (draft: CollectionDraft): CollectionDraftError[] => {
+  const errors: CollectionDraftError[] = [];
+  const name = draft.name.trim();
+  const symbol = draft.symbol.trim();
+
+  if (!name) {
+    errors.push({ field: 'name', message: 'Name is required' });
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.push({ field: 'name', message: `Name must be at most ${MAX_NAME_LENGTH} characters` });
+  }
+
+  if (!symbol) {
+    errors.push({ field: 'symbol', message: 'Symbol is required' });
+  } else if (!/^[A-Za-z0-9]+$/.test(symbol)) {
+    errors.push({ field: 'symbol', message: 'Symbol may only contain letters and digits' });
+  } else if (symbol.length > MAX_SYMBOL_LENGTH) {
+    errors.push({ field: 'symbol', message: `Symbol must be at most ${MAX_SYMBOL_LENGTH} characters` });
+  }
+
+  return errors;
+};
+
+/**
+ * Fetches the compiled NFTMinter PolkaVM blob that `asset-hub compile` writes
+ * to asset-hub-project/artifacts
+ * @returns The 0x-prefixed bytecode
+ * @throws Error if the artifact is missing or empty
+ */
+const loadBytecode = async (): Promise<string> => {
+  const response = await fetch(nftMinterArtifactUrl);
+  if (!response.ok) {
+    throw new Error(`Could not load the NFTMinter artifact: ${response.status} ${response.statusText}`);
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes.length === 0) {
+    throw new Error('The NFTMinter artifact is empty; run `asset-hub compile` in asset-hub-project');
+  }
+  return ethers.hexlify(bytes);
+};
+
+export interface PreparedDeployment {
+  /** The trimmed name and symbol passed to the constructor */
+  draft: CollectionDraft;
+  transaction: ethers.ContractDeployTransaction;
+  fee: FeeEstimate;
+}
+
+/**
+ * Builds and prices the transaction deploying a new collection
+ * @param signer The creator's signer, on the target network
+ * @param network The network to deploy on
+ * @param draft The collection name and symbol
+ * @returns The deploy transaction and its fee estimate
+ */
+export const prepareCollectionDeployment = async (
+  signer: ethers.Signer,
+  network: NetworkConfig,
+  draft: CollectionDraft
+): Promise<PreparedDeployment> => {
+  const trimmed = { name: draft.name.trim(), symbol: draft.symbol.trim() };
+  const factory = new ethers.ContractFactory(NFT_MINTER_ABI, await loadBytecode(), signer);
+  const transaction = await factory.getDeployTransaction(trimmed.name, trimmed.symbol);
+  const gas = await signer.estimateGas(transaction);
+  return { draft: trimmed, transaction, fee: await estimateFee(createReadProvider(network), gas, network) };
+};
+
+/**
+ * Deploys a new collection from the creator's wallet
+ * @param signer The creator's signer, on the target network
+ * @param network The network to deploy on
+ * @param prepared The transaction and fee from prepareCollectionDeployment
+ * @param onStage Called as the deployment moves through its stages, with the transaction hash once sent
+ * @returns The deployed collection, not yet recorded
+ * @throws Error if the deployment reverts or is dropped
+ */
+export const deployCollection = async (
+  signer: ethers.Signer,
+  network: NetworkConfig,
+  prepared: PreparedDeployment,
+  onStage: (stage: DeployStage, txHash?: string) => void
+): Promise<Collection> => {
+  onStage('awaiting-signature');
+  const response = await signer.sendTransaction({ ...prepared.transaction, ...prepared.fee.overrides });
+  onStage('pending', response.hash);
+
+  const receipt = await response.wait();
+  if (!receipt) {
+    throw new Error(`Deployment ${response.hash} was dropped`);
+  }
+  const address = receipt.contractAddress ?? ethers.getCreateAddress({ from: response.from, nonce: response.nonce });
+
+  const collection: Collection = {
+    address,
+    deployBlock: receipt.blockNumber,
+    networkId: network.id,
+    name: prepared.draft.name,
+    symbol: prepared.draft.symbol,
+    creator: response.from,
+    txHash: response.hash,
+  };
+  return collection;
+};
@@ -0,0 +1,23 @@
+import { ethers } from 'ethers';
+import { createAbiDecoder } from '../../../asset-hub-project/src/decoder/core';
+
+// The decoder itself is shared with the asset-hub CLI, which reads the ABIs from disk instead
+export { formatDecodedArgs, formatRevert, getRevertData } from '../../../asset-hub-project/src/decoder/core';
+
+// Every ABI the compiler wrote, keyed by contract name
+const ABIS = Object.fromEntries(
+  Object.entries(
+    import.meta.glob<ethers.InterfaceAbi>('../../../asset-hub-project/abis/*.json', { eager: true, import: 'default' })
+  ).map(([path, abi]) => [path.slice(path.lastIndexOf('/') + 1, -'.json'.length), abi])
+);
+
+const defaultDecoder = createAbiDecoder(ABIS);
+
+/** Decodes calldata with every ABI in asset-hub-project/abis */
+export const decodeCall = defaultDecoder.decodeCall;
+/** Decodes a log with every ABI in asset-hub-project/abis */
+export const decodeLog = defaultDecoder.decodeLog;
+/** Decodes revert data: Error(string), Panic(uint256) or a custom error from any ABI */
+export const decodeRevert = defaultDecoder.decodeRevert;
+/** Fetches a transaction and decodes its call, logs and revert reason */
+export const decodeTransaction = defaultDecoder.decodeTransaction;
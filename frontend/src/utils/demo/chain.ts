@@ -0,0 +1,653 @@
+import { ethers } from 'ethers';
+import { DemoChain } from '../../types/demo';
+import { NetworkConfig } from '../../types/network';
+import { NFT_MINTER_INTERFACE } from '../../contracts/NFTMinter';
+import { DEMO_ACCOUNTS, DEMO_BLOCK_TIME_MS, DEMO_GAS_PRICE, DEMO_INITIAL_BALANCE } from '../../constants/demo';
+
+// Name and symbol of the shared collection from the network registry
+const SHARED_COLLECTION_NAME = 'SOREN NFT';
+const SHARED_COLLECTION_SYMBOL = 'SOREN';
+
+// ERC-165, ERC-721, ERC-721 metadata and ERC-4906
+const SUPPORTED_INTERFACES = ['0x01ffc9a7', '0x80ac58cd', '0x5b5e139f', '0x49064906'];
+
+// Returned by eth_getCode for collections; the app only checks that code exists
+const COLLECTION_CODE = '0x6080604052';
+
+// Constructor arguments of NFTMinter, appended to the bytecode of a deployment
+const CONSTRUCTOR_TYPES = ['string', 'string'];
+
+// A rough EVM gas model, enough for fee previews to move with calldata and storage
+const TX_BASE_GAS = 21000n;
+const CALL_BASE_GAS = 5000n;
+const CREATE_GAS = 32000n;
+const CALLDATA_GAS_PER_BYTE = 16n;
+const STORAGE_WORD_GAS = 20000n;
+const BLOCK_GAS_LIMIT = 30_000_000n;
+
+// Transactions are never signed; ethers only needs a well-formed signature to parse them
+const PLACEHOLDER_S = `0x${'11'.repeat(32)}`;
+
+/** A JSON-RPC error, shaped like the ones nodes and wallets return */
+export class DemoRpcError extends Error {
+  readonly code: number;
+  readonly data?: string;
+
+  constructor(code: number, message: string, data?: string) {
+    super(message);
+    this.name = 'DemoRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+// Storage of an NFTMinter contract; addresses are checksummed
+interface CollectionState {
+  name: string;
+  symbol: string;
+  nextTokenId: bigint;
+  owners: Map<bigint, string>;
+  tokenUris: Map<bigint, string>;
+  balances: Map<string, bigint>;
+  tokenApprovals: Map<bigint, string>;
+  /** owner:operator pairs */
+  operatorApprovals: Set<string>;
+}
+
+interface ExecutionResult {
+  output: string;
+  logs: { topics: string[]; data: string }[];
+  gas: bigint;
+}
+
+interface DemoBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  transactions: string[];
+  gasUsed: bigint;
+}
+
+interface DemoLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  logIndex: number;
+}
+
+// Every collection on the chain, by checksummed address
+type WorldState = Map<string, CollectionState>;
+
+interface DemoTransaction {
+  hash: string;
+  from: string;
+  // Null for deployments
+  to: string | null;
+  contractAddress: string | null;
+  value: bigint;
+  data: string;
+  nonce: number;
+  gas: bigint;
+  gasPrice: bigint;
+  blockNumber: number;
+  blockHash: string;
+  status: 0 | 1;
+  gasUsed: bigint;
+  logs: DemoLog[];
+}
+
+interface RpcTransactionRequest {
+  from?: string;
+  to?: string | null;
+  value?: string;
+  data?: string;
+  input?: string;
+  gas?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+}
+
+interface RpcLogFilter {
+  address?: string | string[];
+  topics?: (string | string[] | null)[];
+  fromBlock?: string;
+  toBlock?: string;
+  blockHash?: string;
+}
+
+const createCollectionState = (name: string, symbol: string): CollectionState => ({
+  name,
+  symbol,
+  nextTokenId: 0n,
+  owners: new Map(),
+  tokenUris: new Map(),
+  balances: new Map(),
+  tokenApprovals: new Map(),
+  operatorApprovals: new Set(),
+});
+
+const cloneCollectionState = (state: CollectionState): CollectionState => ({
+  name: state.name,
+  symbol: state.symbol,
+  nextTokenId: state.nextTokenId,
+  owners: new Map(state.owners),
+  tokenUris: new Map(state.tokenUris),
+  balances: new Map(state.balances),
+  tokenApprovals: new Map(state.tokenApprovals),
+  operatorApprovals: new Set(state.operatorApprovals),
+});
+
+const cloneWorldState = (world: WorldState): WorldState =>
+  new Map([...world].map(([address, state]) => [address, cloneCollectionState(state)]));
+
+const revert = (errorName: string, args: unknown[]) =>
+  new DemoRpcError(3, 'execution reverted', NFT_MINTER_INTERFACE.encodeErrorResult(errorName, args));
+
+const getCalldataGas = (data: string) => BigInt(ethers.dataLength(data)) * CALLDATA_GAS_PER_BYTE;
+
+const getStorageWords = (value: string) => BigInt(Math.ceil(ethers.toUtf8Bytes(value).length / 32) + 1);
+
+/**
+ * Reads the name and symbol a deployment passes to the NFTMinter constructor.
+ * The demo chain does not run the bytecode, so the arguments are found by
+ * decoding ever longer tails of the init code until one encodes back to
+ * itself.
+ * @returns The name and symbol, or null if the init code carries none
+ */
+const decodeConstructorArgs = (data: string): { name: string; symbol: string } | null => {
+  const bytes = ethers.getBytes(data);
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  for (let length = 128; length <= bytes.length; length += 32) {
+    const tail = ethers.hexlify(bytes.slice(bytes.length - length));
+    try {
+      const [name, symbol] = coder.decode(CONSTRUCTOR_TYPES, tail);
+      if (coder.encode(CONSTRUCTOR_TYPES, [name, symbol]) === tail) {
+        return { name, symbol };
+      }
+    } catch {
+      // Not the start of the arguments; try a longer tail
+    }
+  }
+  return null;
+};
+
+/**
+ * Runs a call against the collection, following the OpenZeppelin ERC721 and
+ * ERC721URIStorage rules the deployed contract inherits. The state is
+ * changed in place, so callers pass a copy and keep it only on success.
+ * @throws DemoRpcError with the encoded custom error when the call reverts
+ */
+const executeCollection = (state: CollectionState, sender: string, data: string): ExecutionResult => {
+  let call: ethers.TransactionDescription | null = null;
+  try {
+    call = NFT_MINTER_INTERFACE.parseTransaction({ data });
+  } catch {
+    // Unknown selector or malformed arguments; the contract has no fallback
+  }
+  if (!call) {
+    throw new DemoRpcError(3, 'execution reverted', '0x');
+  }
+
+  const { fragment, args } = call;
+  const logs: ExecutionResult['logs'] = [];
+  let storageWords = 0n;
+
+  const result = (...values: unknown[]) => NFT_MINTER_INTERFACE.encodeFunctionResult(fragment, values);
+  const emit = (eventName: string, values: unknown[]) => {
+    logs.push(NFT_MINTER_INTERFACE.encodeEventLog(eventName, values));
+  };
+  const requireOwned = (tokenId: bigint) => {
+    const owner = state.owners.get(tokenId);
+    if (!owner) throw revert('ERC721NonexistentToken', [tokenId]);
+    return owner;
+  };
+  const isOperator = (owner: string, operator: string) => state.operatorApprovals.has(`${owner}:${operator}`);
+  const addBalance = (owner: string, delta: bigint) => {
+    state.balances.set(owner, (state.balances.get(owner) ?? 0n) + delta);
+  };
+
+  const transfer = (from: string, to: string, tokenId: bigint) => {
+    if (to === ethers.ZeroAddress) throw revert('ERC721InvalidReceiver', [to]);
+    const owner = requireOwned(tokenId);
+    if (sender !== owner && !isOperator(owner, sender) && state.tokenApprovals.get(tokenId) !== sender) {
+      throw revert('ERC721InsufficientApproval', [sender, tokenId]);
+    }
+    if (owner !== from) throw revert('ERC721IncorrectOwner', [from, tokenId, owner]);
+
+    state.tokenApprovals.delete(tokenId);
+    addBalance(owner, -1n);
+    addBalance(to, 1n);
+    state.owners.set(tokenId, to);
+    storageWords += 3n;
+    emit('Transfer', [owner, to, tokenId]);
+  };
+
+  let output: string;
+  switch (fragment.name) {
+    case 'name':
+      output = result(state.name);
+      break;
+    case 'symbol':
+      output = result(state.symbol);
+      break;
+    case 'getItemId':
+      output = result(state.nextTokenId);
+      break;
+    case 'supportsInterface':
+      output = result(SUPPORTED_INTERFACES.includes(String(args[0]).toLowerCase()));
+      break;
+    case 'balanceOf': {
+      const owner = ethers.getAddress(args[0]);
+      if (owner === ethers.ZeroAddress) throw revert('ERC721InvalidOwner', [owner]);
+      output = result(state.balances.get(owner) ?? 0n);
+      break;
+    }
+    case 'ownerOf':
+      output = result(requireOwned(args[0]));
+      break;
+    case 'tokenURI':
+      requireOwned(args[0]);
+      output = result(state.tokenUris.get(args[0]) ?? '');
+      break;
+    case 'getApproved':
+      requireOwned(args[0]);
+      output = result(state.tokenApprovals.get(args[0]) ?? ethers.ZeroAddress);
+      break;
+    case 'isApprovedForAll':
+      output = result(isOperator(ethers.getAddress(args[0]), ethers.getAddress(args[1])));
+      break;
+    case 'mintNFT': {
+      const tokenId = state.nextTokenId;
+      state.owners.set(tokenId, sender);
+      state.tokenUris.set(tokenId, args[0]);
+      addBalance(sender, 1n);
+      state.nextTokenId += 1n;
+      storageWords += 3n + getStorageWords(args[0]);
+      emit('Transfer', [ethers.ZeroAddress, sender, tokenId]);
+      emit('MetadataUpdate', [tokenId]);
+      output = result(tokenId);
+      break;
+    }
+    case 'approve': {
+      const to = ethers.getAddress(args[0]);
+      const owner = requireOwned(args[1]);
+      if (sender !== owner && !isOperator(owner, sender)) throw revert('ERC721InvalidApprover', [sender]);
+      state.tokenApprovals.set(args[1], to);
+      storageWords += 1n;
+      emit('Approval', [owner, to, args[1]]);
+      output = result();
+      break;
+    }
+    case 'setApprovalForAll': {
+      const operator = ethers.getAddress(args[0]);
+      if (operator === ethers.ZeroAddress) throw revert('ERC721InvalidOperator', [operator]);
+      if (args[1]) {
+        state.operatorApprovals.add(`${sender}:${operator}`);
+      } else {
+        state.operatorApprovals.delete(`${sender}:${operator}`);
+      }
+      storageWords += 1n;
+      emit('ApprovalForAll', [sender, operator, args[1]]);
+      output = result();
+      break;
+    }
+    case 'transferFrom':
+    case 'safeTransferFrom':
+      // Demo accounts hold no code, so the onERC721Received check of safeTransferFrom always passes
+      transfer(ethers.getAddress(args[0]), ethers.getAddress(args[1]), args[2]);
+      output = result();
+      break;
+    default:
+      throw new DemoRpcError(3, 'execution reverted', '0x');
+  }
+
+  return { output, logs, gas: CALL_BASE_GAS + storageWords * STORAGE_WORD_GAS };
+};
+
+const matchesTopics = (topics: string[], filter: RpcLogFilter['topics'] = []) =>
+  filter.every((expected, position) => {
+    if (expected === null) return true;
+    const topic = topics[position]?.toLowerCase();
+    return Array.isArray(expected)
+      ? expected.some((option) => option.toLowerCase() === topic)
+      : expected.toLowerCase() === topic;
+  });
+
+const formatLog = (log: DemoLog) => ({
+  address: log.address,
+  topics: log.topics,
+  data: log.data,
+  blockNumber: ethers.toQuantity(log.blockNumber),
+  blockHash: log.blockHash,
+  transactionHash: log.transactionHash,
+  transactionIndex: ethers.toQuantity(log.transactionIndex),
+  logIndex: ethers.toQuantity(log.logIndex),
+  removed: false,
+});
+
+/**
+ * Creates an in-memory chain for a registered network. The accounts in
+ * DEMO_ACCOUNTS start funded, and when the network lists an NFTMinter the
+ * shared collection lives at that address. Deployments create further
+ * collections with the name and symbol passed to the constructor. Every
+ * collection has the contract's semantics: mintNFT, tokenURI, ownerOf,
+ * approvals and transfers, with their Transfer events and IERC721Errors
+ * reverts. Every transaction is mined into its own block at once, and empty
+ * blocks follow every DEMO_BLOCK_TIME_MS.
+ * @param network The network the chain stands in for
+ * @returns The chain, answering the JSON-RPC methods the app and ethers use
+ */
+export const createDemoChain = (network: NetworkConfig): DemoChain => {
+  const { chainId } = network;
+  const genesis: WorldState = new Map();
+  if (network.contracts.NFTMinter) {
+    genesis.set(
+      ethers.getAddress(network.contracts.NFTMinter.address),
+      createCollectionState(SHARED_COLLECTION_NAME, SHARED_COLLECTION_SYMBOL)
+    );
+  }
+
+  const balances = new Map(DEMO_ACCOUNTS.map((account) => [account, DEMO_INITIAL_BALANCE]));
+  const nonces = new Map<string, number>();
+  const transactions = new Map<string, DemoTransaction>();
+  const logs: DemoLog[] = [];
+  const blocks: DemoBlock[] = [{
+    number: 0,
+    hash: ethers.id(`demo:${chainId}:block:0`),
+    parentHash: ethers.ZeroHash,
+    timestamp: Math.floor(Date.now() / 1000),
+    transactions: [],
+    gasUsed: 0n,
+  }];
+  // Collection state after each block that changed it, oldest first, so eth_call can read past blocks
+  const snapshots: { blockNumber: number; world: WorldState }[] = [{ blockNumber: 0, world: genesis }];
+
+  const getHead = () => blocks[blocks.length - 1];
+
+  const appendBlock = (timestamp: number, txHashes: string[] = [], gasUsed = 0n): DemoBlock => {
+    const number = getHead().number + 1;
+    const block = {
+      number,
+      hash: ethers.id(`demo:${chainId}:block:${number}`),
+      parentHash: getHead().hash,
+      timestamp,
+      transactions: txHashes,
+      gasUsed,
+    };
+    blocks.push(block);
+    return block;
+  };
+
+  // Blocks are produced lazily: each request first catches up with the time that has passed
+  const produceEmptyBlocks = () => {
+    const blockTime = DEMO_BLOCK_TIME_MS / 1000;
+    while ((getHead().timestamp + blockTime) * 1000 <= Date.now()) {
+      appendBlock(getHead().timestamp + blockTime);
+    }
+  };
+
+  const toBlockNumber = (tag: unknown): number => {
+    if (tag === undefined || tag === null || tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized') {
+      return getHead().number;
+    }
+    if (tag === 'earliest') return 0;
+    return Math.min(Number(tag), getHead().number);
+  };
+
+  const getWorldAt = (blockNumber: number) =>
+    [...snapshots].reverse().find((snapshot) => snapshot.blockNumber <= blockNumber)!.world;
+
+  const getBalance = (address: string) => balances.get(ethers.getAddress(address)) ?? 0n;
+
+  /**
+   * Prices a deployment and builds the collection it creates
+   * @throws DemoRpcError when the init code carries no constructor arguments
+   */
+  const executeDeployment = (data: string): ExecutionResult & { state: CollectionState } => {
+    const args = decodeConstructorArgs(data);
+    if (!args) {
+      throw new DemoRpcError(3, 'execution reverted', '0x');
+    }
+    return {
+      output: '0x',
+      logs: [],
+      gas: CREATE_GAS + (getStorageWords(args.name) + getStorageWords(args.symbol)) * STORAGE_WORD_GAS,
+      state: createCollectionState(args.name, args.symbol),
+    };
+  };
+
+  const estimate = (request: RpcTransactionRequest, blockNumber = getHead().number): ExecutionResult => {
+    const data = request.data ?? request.input ?? '0x';
+    const base = TX_BASE_GAS + getCalldataGas(data);
+    if (!request.to) {
+      const deployment = executeDeployment(data);
+      return { output: deployment.output, logs: deployment.logs, gas: base + deployment.gas };
+    }
+    const collection = getWorldAt(blockNumber).get(ethers.getAddress(request.to));
+    if (!collection) {
+      return { output: '0x', logs: [], gas: base };
+    }
+    const sender = request.from ? ethers.getAddress(request.from) : ethers.ZeroAddress;
+    const execution = executeCollection(cloneCollectionState(collection), sender, data);
+    return { ...execution, gas: base + execution.gas };
+  };
+
+  const sendTransaction = (request: RpcTransactionRequest): string => {
+    if (!request.from) {
+      throw new DemoRpcError(-32602, 'Transaction has no sender');
+    }
+    const from = ethers.getAddress(request.from);
+    const to = request.to ? ethers.getAddress(request.to) : null;
+    const data = request.data ?? request.input ?? '0x';
+    const value = BigInt(request.value ?? 0);
+    const gasPrice = BigInt(request.gasPrice ?? request.maxFeePerGas ?? DEMO_GAS_PRICE);
+    const gas = request.gas ? BigInt(request.gas) : TX_BASE_GAS + getCalldataGas(data) + CALL_BASE_GAS;
+
+    if (getBalance(from) < gas * gasPrice + value) {
+      throw new DemoRpcError(-32000, 'insufficient funds for gas * price + value');
+    }
+
+    const nonce = nonces.get(from) ?? 0;
+    const hash = ethers.id(`demo:${chainId}:tx:${from}:${nonce}`);
+    const contractAddress = to ? null : ethers.getCreateAddress({ from, nonce });
+    // The address the transaction runs against: the callee, or the new contract
+    const target = to ?? contractAddress!;
+
+    // A reverting transaction is still mined and pays for its gas, as on a real chain
+    let status: 0 | 1 = 1;
+    let gasUsed = TX_BASE_GAS + getCalldataGas(data);
+    let emitted: ExecutionResult['logs'] = [];
+    let world: WorldState | null = null;
+    const current = getWorldAt(getHead().number);
+    try {
+      if (!to) {
+        const deployment = executeDeployment(data);
+        gasUsed += deployment.gas;
+        world = cloneWorldState(current);
+        world.set(target, deployment.state);
+      } else if (current.has(to)) {
+        world = cloneWorldState(current);
+        const execution = executeCollection(world.get(to)!, from, data);
+        gasUsed += execution.gas;
+        emitted = execution.logs;
+      }
+    } catch (error) {
+      if (!(error instanceof DemoRpcError)) throw error;
+      status = 0;
+      world = null;
+    }
+    if (gasUsed > gas) {
+      status = 0;
+      world = null;
+      emitted = [];
+      gasUsed = gas;
+    }
+
+    nonces.set(from, nonce + 1);
+    balances.set(from, getBalance(from) - gasUsed * gasPrice - (status ? value : 0n));
+    if (status) {
+      balances.set(target, getBalance(target) + value);
+    }
+
+    const timestamp = Math.max(getHead().timestamp + 1, Math.floor(Date.now() / 1000));
+    const block = appendBlock(timestamp, [hash], gasUsed);
+    if (world) {
+      snapshots.push({ blockNumber: block.number, world });
+    }
+
+    const txLogs = emitted.map((log, logIndex) => ({
+      address: target,
+      topics: log.topics,
+      data: log.data,
+      blockNumber: block.number,
+      blockHash: block.hash,
+      transactionHash: hash,
+      transactionIndex: 0,
+      logIndex,
+    }));
+    logs.push(...txLogs);
+    transactions.set(hash, {
+      hash, from, to, contractAddress, value, data, nonce, gas, gasPrice,
+      blockNumber: block.number,
+      blockHash: block.hash,
+      status,
+      gasUsed,
+      logs: txLogs,
+    });
+    return hash;
+  };
+
+  const formatTransaction = (tx: DemoTransaction) => ({
+    hash: tx.hash,
+    type: '0x0',
+    chainId: ethers.toQuantity(chainId),
+    from: tx.from,
+    to: tx.to,
+    value: ethers.toQuantity(tx.value),
+    input: tx.data,
+    nonce: ethers.toQuantity(tx.nonce),
+    gas: ethers.toQuantity(tx.gas),
+    gasPrice: ethers.toQuantity(tx.gasPrice),
+    blockNumber: ethers.toQuantity(tx.blockNumber),
+    blockHash: tx.blockHash,
+    transactionIndex: '0x0',
+    r: tx.hash,
+    s: PLACEHOLDER_S,
+    v: '0x1b',
+  });
+
+  const formatReceipt = (tx: DemoTransaction) => ({
+    transactionHash: tx.hash,
+    transactionIndex: '0x0',
+    blockNumber: ethers.toQuantity(tx.blockNumber),
+    blockHash: tx.blockHash,
+    from: tx.from,
+    to: tx.to,
+    contractAddress: tx.contractAddress,
+    gasUsed: ethers.toQuantity(tx.gasUsed),
+    cumulativeGasUsed: ethers.toQuantity(tx.gasUsed),
+    effectiveGasPrice: ethers.toQuantity(tx.gasPrice),
+    logs: tx.logs.map(formatLog),
+    logsBloom: `0x${'00'.repeat(256)}`,
+    status: ethers.toQuantity(tx.status),
+    type: '0x0',
+  });
+
+  const formatBlock = (block: DemoBlock, fullTransactions: boolean) => ({
+    number: ethers.toQuantity(block.number),
+    hash: block.hash,
+    parentHash: block.parentHash,
+    timestamp: ethers.toQuantity(block.timestamp),
+    nonce: '0x0000000000000000',
+    difficulty: '0x0',
+    gasLimit: ethers.toQuantity(BLOCK_GAS_LIMIT),
+    gasUsed: ethers.toQuantity(block.gasUsed),
+    miner: ethers.ZeroAddress,
+    extraData: '0x',
+    baseFeePerGas: null,
+    transactions: fullTransactions
+      ? block.transactions.map((hash) => formatTransaction(transactions.get(hash)!))
+      : block.transactions,
+  });
+
+  const getLogs = (filter: RpcLogFilter) => {
+    let fromBlock: number;
+    let toBlock: number;
+    if (filter.blockHash) {
+      const block = blocks.find((candidate) => candidate.hash === filter.blockHash);
+      if (!block) return [];
+      fromBlock = toBlock = block.number;
+    } else {
+      fromBlock = toBlockNumber(filter.fromBlock);
+      toBlock = toBlockNumber(filter.toBlock);
+    }
+    const addresses = filter.address === undefined
+      ? null
+      : (Array.isArray(filter.address) ? filter.address : [filter.address]).map((address) => address.toLowerCase());
+
+    return logs
+      .filter((log) =>
+        log.blockNumber >= fromBlock
+        && log.blockNumber <= toBlock
+        && (!addresses || addresses.includes(log.address.toLowerCase()))
+        && matchesTopics(log.topics, filter.topics))
+      .map(formatLog);
+  };
+
+  const request: DemoChain['request'] = async ({ method, params }) => {
+    const args = Array.isArray(params) ? params : [];
+    produceEmptyBlocks();
+
+    switch (method) {
+      case 'eth_chainId':
+        return ethers.toQuantity(chainId);
+      case 'net_version':
+        return String(chainId);
+      case 'eth_blockNumber':
+        return ethers.toQuantity(getHead().number);
+      case 'eth_gasPrice':
+        return ethers.toQuantity(DEMO_GAS_PRICE);
+      case 'eth_maxPriorityFeePerGas':
+        return '0x0';
+      case 'eth_getBalance':
+        return ethers.toQuantity(getBalance(args[0] as string));
+      case 'eth_getTransactionCount':
+        return ethers.toQuantity(nonces.get(ethers.getAddress(args[0] as string)) ?? 0);
+      case 'eth_getCode':
+        return getWorldAt(toBlockNumber(args[1])).has(ethers.getAddress(args[0] as string)) ? COLLECTION_CODE : '0x';
+      case 'eth_call':
+        return estimate(args[0] as RpcTransactionRequest, toBlockNumber(args[1])).output;
+      case 'eth_estimateGas':
+        return ethers.toQuantity(estimate(args[0] as RpcTransactionRequest).gas);
+      case 'eth_sendTransaction':
+        return sendTransaction(args[0] as RpcTransactionRequest);
+      case 'eth_getTransactionByHash': {
+        const tx = transactions.get(args[0] as string);
+        return tx ? formatTransaction(tx) : null;
+      }
+      case 'eth_getTransactionReceipt': {
+        const tx = transactions.get(args[0] as string);
+        return tx ? formatReceipt(tx) : null;
+      }
+      case 'eth_getBlockByNumber': {
+        const block = blocks[toBlockNumber(args[0])];
+        return block ? formatBlock(block, Boolean(args[1])) : null;
+      }
+      case 'eth_getBlockByHash': {
+        const block = blocks.find((candidate) => candidate.hash === args[0]);
+        return block ? formatBlock(block, Boolean(args[1])) : null;
+      }
+      case 'eth_getLogs':
+        return getLogs(args[0] as RpcLogFilter);
+      default:
+        throw new DemoRpcError(-32601, `The demo chain does not support ${method}`);
+    }
+  };
+
+  return { chainId, request };
+};
@@ -0,0 +1,44 @@
+import { DemoChain, DemoWallet } from '../../types/demo';
+import { NetworkConfig } from '../../types/network';
+import { DEFAULT_NETWORK_ID, getNetworkByChainId, getNetworkById, NETWORKS } from '../../constants/networks';
+import { createDemoChain } from './chain';
+import { createDemoWallet } from './wallet';
+
+const chains = new Map<number, DemoChain>();
+let wallet: DemoWallet | null = null;
+
+/**
+ * True when the app runs offline against in-memory chains, either through
+ * `npm run demo` (vite --mode demo) or VITE_DEMO_MODE=true
+ */
+export const isDemoMode = (): boolean =>
+  import.meta.env.MODE === 'demo' || import.meta.env.VITE_DEMO_MODE === 'true';
+
+/**
+ * Returns the in-memory chain standing in for a network, creating it on first
+ * use. The wallet and read providers share it, so both see the same state.
+ * @param network The network to simulate
+ */
+export const getDemoChain = (network: NetworkConfig): DemoChain => {
+  let chain = chains.get(network.chainId);
+  if (!chain) {
+    chain = createDemoChain(network);
+    chains.set(network.chainId, chain);
+  }
+  return chain;
+};
+
+/**
+ * Returns the demo wallet, creating it on first use. It starts on the
+ * default network and can switch to any registered one.
+ */
+export const getDemoWallet = (): DemoWallet => {
+  if (!wallet) {
+    const initialNetwork = getNetworkById(DEFAULT_NETWORK_ID) ?? NETWORKS[0];
+    wallet = createDemoWallet((chainId) => {
+      const network = getNetworkByChainId(chainId);
+      return network && getDemoChain(network);
+    }, initialNetwork.chainId);
+  }
+  return wallet;
+};
@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+import { DemoChain, DemoWallet } from '../../types/demo';
+import { DEMO_ACCOUNTS } from '../../constants/demo';
+import { DemoRpcError } from './chain';
+
+type Listener = (...args: never[]) => void;
+
+/**
+ * Creates a wallet that behaves like an injected EIP-1193 extension without
+ * ever prompting: connecting approves at once, switching works for every
+ * chain getChain knows, and transactions are sent from the selected account
+ * unsigned.
+ * @param getChain Returns the demo chain for a chain ID, or undefined if the wallet does not know it
+ * @param initialChainId The chain the wallet starts on
+ */
+export const createDemoWallet = (
+  getChain: (chainId: number) => DemoChain | undefined,
+  initialChainId: number
+): DemoWallet => {
+  const listeners = new Map<string, Set<Listener>>();
+  let chainId = initialChainId;
+  let selectedAccount = DEMO_ACCOUNTS[0];
+  let connected = false;
+
+  const emit = (event: string, ...args: unknown[]) => {
+    for (const listener of listeners.get(event) ?? []) {
+      (listener as (...values: unknown[]) => void)(...args);
+    }
+  };
+
+  const getCurrentChain = () => {
+    const chain = getChain(chainId);
+    if (!chain) {
+      throw new DemoRpcError(4901, `The demo wallet is not connected to chain ${chainId}`);
+    }
+    return chain;
+  };
+
+  const request: DemoWallet['wallet']['provider']['request'] = async ({ method, params }) => {
+    const args = Array.isArray(params) ? params : [];
+
+    switch (method) {
+      case 'eth_accounts':
+        return connected ? [selectedAccount] : [];
+      case 'eth_requestAccounts':
+        if (!connected) {
+          connected = true;
+          emit('accountsChanged', [selectedAccount]);
+        }
+        return [selectedAccount];
+      case 'eth_chainId':
+        return ethers.toQuantity(chainId);
+      case 'wallet_switchEthereumChain': {
+        const requested = Number((args[0] as { chainId: string }).chainId);
+        if (!getChain(requested)) {
+          throw new DemoRpcError(4902, `Unrecognized chain ID ${requested}`);
+        }
+        if (requested !== chainId) {
+          chainId = requested;
+          emit('chainChanged', ethers.toQuantity(chainId));
+        }
+        return null;
+      }
+      case 'wallet_addEthereumChain': {
+        // Only registered networks have a demo chain behind them
+        const requested = Number((args[0] as { chainId: string }).chainId);
+        if (!getChain(requested)) {
+          throw new DemoRpcError(4200, `The demo wallet cannot add chain ${requested}`);
+        }
+        return null;
+      }
+      case 'eth_sendTransaction': {
+        const tx = args[0] as { from?: string };
+        if (!connected || (tx.from && ethers.getAddress(tx.from) !== selectedAccount)) {
+          throw new DemoRpcError(4100, 'The requested account has not been authorized by the user');
+        }
+        return getCurrentChain().request({ method, params: [{ ...tx, from: selectedAccount }] });
+      }
+      default:
+        return getCurrentChain().request({ method, params });
+    }
+  };
+
+  return {
+    wallet: {
+      kind: 'evm',
+      id: 'evm:demo',
+      name: 'Demo wallet',
+      provider: {
+        request,
+        on: (event, listener) => {
+          listeners.set(event, (listeners.get(event) ?? new Set()).add(listener));
+        },
+        removeListener: (event, listener) => {
+          listeners.get(event)?.delete(listener);
+        },
+      },
+    },
+    accounts: DEMO_ACCOUNTS,
+    getSelectedAccount: () => selectedAccount,
+    selectAccount: (address) => {
+      selectedAccount = ethers.getAddress(address);
+      if (connected) {
+        emit('accountsChanged', [selectedAccount]);
+      }
+    },
+  };
+};
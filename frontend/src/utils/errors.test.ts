@@ -0,0 +1,93 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { classifyError } from './errors';
+import { InsufficientFundsError } from './fees';
+import { WrongChainError } from './wallet/evm';
+import { CidMismatchError, StorageConfigError, StorageUploadError } from './storage/errors';
+import { getNetworkById } from '../constants/networks';
+import { NFT_MINTER_INTERFACE } from '../contracts/NFTMinter';
+
+const network = getNetworkById('westend-asset-hub')!;
+
+// An error shaped like the ones ethers throws for a reverted call or estimate
+const callException = (data: string | null) =>
+  ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'estimateGas', data, reason: null, transaction: { to: null, data: '0x' }, invocation: null, revert: null });
+
+describe('classifyError', () => {
+  it('recognises a rejected signature, however deeply the wallet nested it', () => {
+    const error = Object.assign(new Error('could not coalesce error'), { cause: { code: 4001, message: 'User denied transaction signature' } });
+
+    expect(classifyError(error, network)).toMatchObject({ kind: 'user-rejected', title: 'Request rejected', action: 'retry' });
+    expect(classifyError(ethers.makeError('user rejected action', 'ACTION_REJECTED', { action: 'sendTransaction', reason: 'rejected' })).kind)
+      .toBe('user-rejected');
+  });
+
+  it('maps the EIP-1193 authorization and unknown-chain codes', () => {
+    expect(classifyError({ code: 4100, message: 'Unauthorized' })).toMatchObject({ kind: 'unauthorized', action: 'reconnect' });
+    expect(classifyError({ code: 4902, message: 'Unrecognized chain' }, network)).toMatchObject({
+      kind: 'unknown-chain',
+      message: `Your wallet does not know ${network.name} yet. Add it to your wallet and try again.`,
+      action: 'switch-network',
+    });
+  });
+
+  it('asks to switch networks when the wallet is on another chain', () => {
+    expect(classifyError(new WrongChainError(1, network.chainId), network)).toMatchObject({
+      kind: 'wrong-chain',
+      message: `Your wallet is on another network. Switch it to ${network.name}; nothing was sent.`,
+      action: 'switch-network',
+    });
+  });
+
+  it('explains decoded custom errors', () => {
+    const data = NFT_MINTER_INTERFACE.encodeErrorResult('ERC721NonexistentToken', [9n]);
+
+    expect(classifyError(callException(data))).toMatchObject({
+      kind: 'contract-revert',
+      message: 'Token #9 does not exist.',
+      action: null,
+    });
+  });
+
+  it('names the panic of a revert without a custom error', () => {
+    const data = ethers.concat(['0x4e487b71', ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [0x11])]);
+
+    expect(classifyError(callException(data)).message)
+      .toBe('The contract rejected the transaction (Panic 0x11: Arithmetic overflow or underflow).');
+  });
+
+  it('reads RPC messages for funds, nonce and timeout errors', () => {
+    expect(classifyError(new Error('insufficient funds for gas * price + value'), network)).toMatchObject({
+      kind: 'insufficient-funds',
+      message: `Your account cannot pay for this transaction and its fee. Get test tokens from ${network.faucetUrl}`,
+    });
+    expect(classifyError({ code: -32000, message: 'nonce too low' }).kind).toBe('nonce-conflict');
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('timeout');
+  });
+
+  it('prefers the message of the fee service, which already names the shortfall', () => {
+    const check = { balance: 1n, required: 2n, sufficient: false, shortfall: 1n };
+    const error = new InsufficientFundsError(check, network);
+
+    expect(classifyError(error, network)).toMatchObject({ kind: 'insufficient-funds', message: error.message });
+  });
+
+  it('offers a retry only for storage failures that may pass on a second try', () => {
+    expect(classifyError(new StorageConfigError('VITE_PINATA_JWT is not set')).action).toBeNull();
+    expect(classifyError(new StorageUploadError('Bad gateway', { status: 502, retryable: true })).action).toBe('retry');
+    expect(classifyError(new StorageUploadError('Forbidden', { status: 403, retryable: false })).action).toBeNull();
+    expect(classifyError(new CidMismatchError('bafy1', 'bafy2')).action).toBe('retry');
+  });
+
+  it('falls back to the error message and keeps the technical details', () => {
+    const error = Object.assign(new Error('Something odd'), { cause: new Error('deeper') });
+
+    expect(classifyError(error)).toEqual({
+      kind: 'unknown',
+      title: 'Something went wrong',
+      message: 'Something odd',
+      action: 'retry',
+      details: 'Error: Something odd\ncaused by: Error: deeper',
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { ethers } from 'ethers';
+import { ErrorKind, FriendlyError, RecoveryAction } from '../types/errors';
+import { NetworkConfig } from '../types/network';
+import { DecodedRevert } from '../types/decoder';
+import { InsufficientFundsError } from './fees';
+import { WrongChainError } from './wallet/evm';
+import { decodeRevert, formatRevert, getRevertData } from './decoder';
+import { CidMismatchError, StorageConfigError, StorageError, StorageUploadError } from './storage/errors';
+
+const TITLES: Record<ErrorKind, string> = {
+  'user-rejected': 'Request rejected',
+  unauthorized: 'Wallet not authorized',
+  'unknown-chain': 'Network not added',
+  'wrong-chain': 'Wrong network',
+  'insufficient-funds': 'Insufficient funds',
+  'nonce-conflict': 'Transaction conflict',
+  timeout: 'Network not responding',
+  'contract-revert': 'Rejected by the contract',
+  storage: 'Upload failed',
+  unknown: 'Something went wrong',
+};
+
+const NONCE_PATTERN = /nonce too low|nonce has already been used|already known|replacement (transaction )?underpriced|invalid transaction nonce/;
+const FUNDS_PATTERN = /insufficient funds|insufficient balance|inability to pay/;
+const TIMEOUT_PATTERN = /timeout|timed out|failed to fetch|econnrefused/;
+
+// Wallets and ethers nest the original error under info.error or error
+const getNested = (error: unknown): unknown[] => {
+  const chain: unknown[] = [];
+  let current = error;
+  while (current && typeof current === 'object' && chain.length < 5) {
+    chain.push(current);
+    const { info, error: inner, cause } = current as { info?: { error?: unknown }; error?: unknown; cause?: unknown };
+    current = info?.error ?? inner ?? cause;
+  }
+  return chain;
+};
+
+// The EIP-1193 or JSON-RPC error code anywhere in the chain
+const getRpcCode = (chain: unknown[]): number | null => {
+  for (const error of chain) {
+    const { code } = error as { code?: unknown };
+    if (typeof code === 'number') return code;
+  }
+  return null;
+};
+
+const getText = (chain: unknown[]): string =>
+  chain
+    .map((error) => {
+      const { message, shortMessage } = error as { message?: unknown; shortMessage?: unknown };
+      return `${typeof shortMessage === 'string' ? shortMessage : ''} ${typeof message === 'string' ? message : ''}`;
+    })
+    .join(' ')
+    .toLowerCase();
+
+const describeRevert = (revert: DecodedRevert | null): string => {
+  if (revert?.kind !== 'custom') {
+    return `The contract rejected the transaction (${formatRevert(revert)}).`;
+  }
+  const tokenId = String(revert.args.tokenId);
+  switch (revert.name) {
+    case 'ERC721NonexistentToken':
+      return `Token #${tokenId} does not exist.`;
+    case 'ERC721IncorrectOwner':
+      return `The account does not own token #${tokenId}.`;
+    case 'ERC721InsufficientApproval':
+      return `The account is neither the owner of token #${tokenId} nor approved to move it.`;
+    case 'ERC721InvalidReceiver':
+      return 'The recipient is a contract that cannot receive NFTs.';
+    case 'ERC721InvalidSender':
+    case 'ERC721InvalidOwner':
+    case 'ERC721InvalidApprover':
+    case 'ERC721InvalidOperator':
+      return `The contract rejected an address: ${formatRevert(revert)}.`;
+    default:
+      return `The contract rejected the transaction: ${formatRevert(revert)}.`;
+  }
+};
+
+/**
+ * Writes out everything known about an error for the technical details
+ * @param error The original error
+ * @returns Multi-line text
+ */
+const describeTechnical = (error: unknown): string => {
+  if (!(error instanceof Error)) {
+    try {
+      return typeof error === 'string' ? error : JSON.stringify(error, null, 2);
+    } catch {
+      return String(error);
+    }
+  }
+
+  const lines = [`${error.name}: ${error.message}`];
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  if (code !== undefined) lines.push(`code: ${String(code)}`);
+  const revertData = getRevertData(error);
+  if (revertData) lines.push(`revert data: ${revertData}`);
+  if (cause !== undefined) lines.push(`caused by: ${describeTechnical(cause)}`);
+  return lines.join('\n');
+};
+
+const classify = (error: unknown, network?: NetworkConfig): { kind: ErrorKind; message: string; action: RecoveryAction | null } => {
+  const networkName = network?.name ?? 'this network';
+
+  if (error instanceof StorageError) {
+    if (error instanceof StorageConfigError) {
+      return { kind: 'storage', message: `Storage is not set up: ${error.message}. Nothing was minted.`, action: null };
+    }
+    const retryable = error instanceof CidMismatchError || (error instanceof StorageUploadError && error.retryable);
+    return {
+      kind: 'storage',
+      message: `The upload failed, so nothing was minted: ${error.message}`,
+      action: retryable ? 'retry' : null,
+    };
+  }
+
+  if (error instanceof InsufficientFundsError) {
+    return { kind: 'insufficient-funds', message: error.message, action: 'retry' };
+  }
+
+  if (error instanceof WrongChainError) {
+    return {
+      kind: 'wrong-chain',
+      message: `Your wallet is on another network. Switch it to ${networkName}; nothing was sent.`,
+      action: 'switch-network',
+    };
+  }
+
+  const chain = getNested(error);
+  const code = getRpcCode(chain);
+  const text = getText(chain);
+
+  if (code === 4001 || ethers.isError(error, 'ACTION_REJECTED')) {
+    return { kind: 'user-rejected', message: 'You rejected the request in your wallet. Nothing was sent.', action: 'retry' };
+  }
+  if (code === 4100) {
+    return {
+      kind: 'unauthorized',
+      message: 'Your wallet has not authorized this site for the selected account. Reconnect and approve the account.',
+      action: 'reconnect',
+    };
+  }
+  if (code === 4902) {
+    return {
+      kind: 'unknown-chain',
+      message: `Your wallet does not know ${networkName} yet. Add it to your wallet and try again.`,
+      action: 'switch-network',
+    };
+  }
+
+  const revertData = getRevertData(error);
+  if (revertData) {
+    return { kind: 'contract-revert', message: describeRevert(decodeRevert(revertData)), action: null };
+  }
+
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS') || FUNDS_PATTERN.test(text)) {
+    const faucet = network?.faucetUrl ? ` Get test tokens from ${network.faucetUrl}` : '';
+    return {
+      kind: 'insufficient-funds',
+      message: `Your account cannot pay for this transaction and its fee.${faucet}`,
+      action: 'retry',
+    };
+  }
+  if (ethers.isError(error, 'NONCE_EXPIRED') || ethers.isError(error, 'REPLACEMENT_UNDERPRICED') || NONCE_PATTERN.test(text)) {
+    return {
+      kind: 'nonce-conflict',
+      message: 'Another transaction from this account is pending or used the same nonce. Wait for it to confirm, then try again.',
+      action: 'retry',
+    };
+  }
+  if (ethers.isError(error, 'TIMEOUT') || ethers.isError(error, 'NETWORK_ERROR') || TIMEOUT_PATTERN.test(text)) {
+    return {
+      kind: 'timeout',
+      message: `The ${networkName} RPC node did not respond. Check your connection and try again.`,
+      action: 'retry',
+    };
+  }
+
+  // Checked after the patterns above, since some nodes report those as reverts without data
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    return { kind: 'contract-revert', message: describeRevert(null), action: null };
+  }
+
+  const shortMessage = (error as { shortMessage?: unknown }).shortMessage;
+  return {
+    kind: 'unknown',
+    message: typeof shortMessage === 'string' ? shortMessage : error instanceof Error ? error.message : String(error),
+    action: 'retry',
+  };
+};
+
+/**
+ * Translates a wallet, RPC, contract or storage error into a message for the
+ * user, the action that may fix it and the technical details
+ * @param error Anything thrown by the mint, connect or network-switch flows
+ * @param network The network the action targeted, used for names and faucet links
+ * @returns The classified error
+ */
+export const classifyError = (error: unknown, network?: NetworkConfig): FriendlyError => {
+  const { kind, message, action } = classify(error, network);
+  return { kind, title: TITLES[kind], message, action, details: describeTechnical(error) };
+};
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { watchCollectionEvents } from './events';
+import { NFT_MINTER_INTERFACE } from '../contracts/NFTMinter';
+import { LOG_CHUNK_SIZE } from '../constants/contract';
+
+const COLLECTION = '0x00000000000000000000000000000000000000c0';
+const ACCOUNT = '0x00000000000000000000000000000000000000a1';
+const POLL_INTERVAL_MS = 1000;
+
+const mintLog = (tokenId: bigint, blockNumber: number) => ({
+  ...NFT_MINTER_INTERFACE.encodeEventLog('Transfer', [ethers.ZeroAddress, ACCOUNT, tokenId]),
+  address: COLLECTION,
+  blockNumber,
+  transactionHash: ethers.zeroPadValue(ethers.toBeHex(tokenId), 32),
+  index: 0,
+});
+
+// A chain at the given head holding the given logs; getLogs fails with the next queued error, if any
+const fakeChain = (head: number, logs: ReturnType<typeof mintLog>[] = []) => {
+  const chain = {
+    head,
+    errors: [] as unknown[],
+    getBlockNumber: vi.fn(async () => chain.head),
+    getLogs: vi.fn(async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+      if (chain.errors.length > 0) throw chain.errors.shift();
+      return logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+    }),
+  };
+  return chain;
+};
+
+const ranges = (chain: ReturnType<typeof fakeChain>) =>
+  chain.getLogs.mock.calls.map(([{ fromBlock, toBlock }]) => [fromBlock, toBlock]);
+
+const watch = (chain: ReturnType<typeof fakeChain>, onEvents = vi.fn()) => {
+  const stop = watchCollectionEvents(chain as unknown as ethers.Provider, COLLECTION, {
+    backfillBlocks: 100,
+    deployBlock: 0,
+    pollIntervalMs: POLL_INTERVAL_MS,
+    onEvents,
+  });
+  return { stop, onEvents };
+};
+
+describe('watchCollectionEvents', () => {
+  let hidden: boolean;
+  let stop = () => {};
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    hidden = false;
+    vi.spyOn(document, 'hidden', 'get').mockImplementation(() => hidden);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    stop();
+    vi.useRealTimers();
+  });
+
+  it('backfills from before the head, then reads only new blocks from the cursor', async () => {
+    const chain = fakeChain(1000, [mintLog(1n, 950), mintLog(2n, 1003)]);
+    const watcher = watch(chain);
+    stop = watcher.stop;
+
+    await vi.advanceTimersByTimeAsync(0);
+    chain.head = 1005;
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+
+    expect(ranges(chain)).toEqual([[900, 1000], [1001, 1005]]);
+    expect(watcher.onEvents.mock.calls).toEqual([
+      [[expect.objectContaining({ kind: 'mint', tokenId: 1n, blockNumber: 950 })], true],
+      [[expect.objectContaining({ kind: 'mint', tokenId: 2n, blockNumber: 1003 })], false],
+    ]);
+  });
+
+  it('splits a long backfill into chunks', async () => {
+    const chain = fakeChain(25_000);
+    stop = watchCollectionEvents(chain as unknown as ethers.Provider, COLLECTION, {
+      backfillBlocks: 30_000,
+      deployBlock: 0,
+      pollIntervalMs: POLL_INTERVAL_MS,
+      onEvents: vi.fn(),
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(ranges(chain)).toEqual([[0, LOG_CHUNK_SIZE - 1], [LOG_CHUNK_SIZE, 2 * LOG_CHUNK_SIZE - 1], [2 * LOG_CHUNK_SIZE, 25_000]]);
+  });
+
+  it('pauses while the page is hidden and resumes from the cursor when shown', async () => {
+    const chain = fakeChain(1000, [mintLog(1n, 1010)]);
+    const watcher = watch(chain);
+    stop = watcher.stop;
+
+    await vi.advanceTimersByTimeAsync(0);
+    hidden = true;
+    chain.head = 1020;
+    await vi.advanceTimersByTimeAsync(5 * POLL_INTERVAL_MS);
+    expect(chain.getBlockNumber).toHaveBeenCalledTimes(1);
+
+    hidden = false;
+    document.dispatchEvent(new Event('visibilitychange'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(ranges(chain)).toEqual([[900, 1000], [1001, 1020]]);
+    expect(watcher.onEvents).toHaveBeenCalledWith([expect.objectContaining({ tokenId: 1n })], false);
+  });
+
+  it('reads the same blocks again after a failed poll', async () => {
+    const chain = fakeChain(1000, [mintLog(1n, 1001)]);
+    const watcher = watch(chain);
+    stop = watcher.stop;
+
+    await vi.advanceTimersByTimeAsync(0);
+    chain.head = 1002;
+    chain.errors.push(new Error('connection refused'));
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+
+    expect(ranges(chain)).toEqual([[900, 1000], [1001, 1002], [1001, 1002]]);
+    expect(watcher.onEvents).toHaveBeenCalledTimes(1);
+    expect(watcher.onEvents).toHaveBeenCalledWith([expect.objectContaining({ tokenId: 1n })], false);
+  });
+
+  it('shrinks a range the RPC rejects as too large and covers every block', async () => {
+    const chain = fakeChain(1000, [mintLog(1n, 920), mintLog(2n, 980)]);
+    chain.errors.push(new Error('block range is too large'));
+    const watcher = watch(chain);
+    stop = watcher.stop;
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(ranges(chain)).toEqual([[900, 1000], [900, 949], [950, 999], [1000, 1000]]);
+    expect(watcher.onEvents.mock.calls.map(([events]) => events.map((event: { tokenId: bigint }) => event.tokenId))).toEqual([[1n], [2n]]);
+  });
+
+  it('stops polling once stopped', async () => {
+    const chain = fakeChain(1000);
+    watch(chain).stop();
+
+    await vi.advanceTimersByTimeAsync(5 * POLL_INTERVAL_MS);
+
+    expect(chain.getBlockNumber).toHaveBeenCalledTimes(1);
+    expect(chain.getLogs).not.toHaveBeenCalled();
+  });
+});
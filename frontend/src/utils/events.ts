@@ -0,0 +1,109 @@
+import { ethers } from 'ethers';
+import { NFT_MINTER_INTERFACE, parseNFTMinterLog } from '../contracts/NFTMinter';
+import { ActivityEvent, EventWatchOptions } from '../types/activity';
+import { createLogRangeReader, LogRange } from './logs';
+
+// Events that change who owns a token or what it shows
+const WATCHED_TOPICS = ['Transfer', 'MetadataUpdate'].map((name) => NFT_MINTER_INTERFACE.getEvent(name)!.topicHash);
+
+const toActivityEvent = (log: ethers.Log): ActivityEvent | null => {
+  const event = parseNFTMinterLog(log);
+  const base = { id: `${log.transactionHash}:${log.index}`, txHash: log.transactionHash, blockNumber: log.blockNumber };
+
+  if (event?.name === 'Transfer') {
+    const { from, to, tokenId } = event.args;
+    const kind = from === ethers.ZeroAddress ? 'mint' : to === ethers.ZeroAddress ? 'burn' : 'transfer';
+    return { ...base, kind, tokenId, from, to };
+  }
+  if (event?.name === 'MetadataUpdate') {
+    return { ...base, kind: 'metadata', tokenId: event.args._tokenId, from: '', to: '' };
+  }
+  return null;
+};
+
+// setTokenURI emits MetadataUpdate during every mint; the mint entry already covers it
+const isMintMetadata = (event: ActivityEvent, events: ActivityEvent[]) =>
+  event.kind === 'metadata'
+  && events.some((other) => other.kind === 'mint' && other.txHash === event.txHash && other.tokenId === event.tokenId);
+
+/**
+ * Follows a collection's Transfer and MetadataUpdate events by polling
+ * eth_getLogs from a block cursor, since the Asset Hub eth-rpc may not serve
+ * websocket subscriptions. Polling pauses while the page is hidden and picks
+ * up from the cursor when it is shown again, so no block is skipped. Ranges
+ * the RPC rejects as too large are split.
+ * @param provider Provider for the collection's network
+ * @param address The collection contract
+ * @param options Backfill, poll interval and the callback for new events
+ * @returns A function that stops watching
+ */
+export const watchCollectionEvents = (
+  provider: ethers.Provider,
+  address: string,
+  options: EventWatchOptions
+): (() => void) => {
+  // Last block read, and the head when watching started; events up to it are the backfill
+  let cursor: number | null = null;
+  let backfillHead = 0;
+  let running = false;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const reader = createLogRangeReader();
+
+  const poll = async () => {
+    const head = await provider.getBlockNumber();
+    if (cursor === null) {
+      cursor = Math.max(options.deployBlock, head - options.backfillBlocks) - 1;
+      backfillHead = head;
+    } else if (head < cursor) {
+      // The chain was reset, as a restarted dev node or demo chain is
+      cursor = head;
+    }
+
+    while (cursor < head && !stopped) {
+      const { logs, toBlock }: LogRange<ethers.Log> = await reader.read(
+        (fromBlock, toBlock) => provider.getLogs({ address, topics: [WATCHED_TOPICS], fromBlock, toBlock }),
+        cursor + 1,
+        head
+      );
+      const decoded = logs
+        .map(toActivityEvent)
+        .filter((event): event is ActivityEvent => event !== null);
+      const events = decoded.filter((event) => !isMintMetadata(event, decoded));
+      cursor = toBlock;
+      if (events.length > 0 && !stopped) {
+        options.onEvents(events, toBlock <= backfillHead);
+      }
+    }
+  };
+
+  const run = async () => {
+    clearTimeout(timer);
+    if (stopped || running || document.hidden) return;
+
+    running = true;
+    try {
+      await poll();
+    } catch (error) {
+      console.warn('Polling contract events failed, retrying after the poll interval:', error);
+    } finally {
+      running = false;
+    }
+    if (!stopped) {
+      timer = setTimeout(run, options.pollIntervalMs);
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (!document.hidden) run();
+  };
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  run();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+};
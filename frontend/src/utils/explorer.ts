@@ -0,0 +1,17 @@
+import { NetworkConfig } from '../types/network';
+
+/**
+ * Builds the block explorer link for a transaction
+ * @param network The network the transaction was sent on
+ * @param txHash The transaction hash
+ */
+export const getExplorerTxUrl = (network: NetworkConfig, txHash: string) =>
+  `${network.explorerUrl}/tx/${txHash}`;
+
+/**
+ * Builds the block explorer link for an account or contract
+ * @param network The network to link to
+ * @param address The H160 address
+ */
+export const getExplorerAccountUrl = (network: NetworkConfig, address: string) =>
+  `${network.explorerUrl}/account/${address}`;
@@ -0,0 +1,33 @@
+import { FeeEstimate } from '../types/fees';
+import { NetworkConfig } from '../types/network';
+import { NFTMinterContract } from '../contracts/NFTMinter';
+import { estimateFee } from '../../../asset-hub-project/src/fees';
+
+// The fee service itself is shared with the asset-hub CLI
+export {
+  checkBalance,
+  estimateFee,
+  formatAmount,
+  getFeePolicy,
+  InsufficientFundsError,
+} from '../../../asset-hub-project/src/fees';
+
+/**
+ * Estimates the fee for minting a token URI
+ * @param contract The NFT contract instance, connected to the minting signer
+ * @param tokenUri The exact token URI that will be minted
+ * @param network The network the contract lives on
+ * @returns The fee estimate
+ */
+export const estimateMintFee = async (
+  contract: NFTMinterContract,
+  tokenUri: string,
+  network: NetworkConfig
+): Promise<FeeEstimate> => {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error('Contract is not connected to a provider');
+  }
+  const gas = await contract.mintNFT.estimateGas(tokenUri);
+  return estimateFee(provider, gas, network);
+};
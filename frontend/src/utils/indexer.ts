@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+import { IndexedEventRecord, IndexedOwnedToken, IndexerResponse } from '../types/indexer';
+import { NetworkConfig } from '../types/network';
+import { ProvenanceEvent } from '../types/nft';
+import { isDemoMode } from './demo';
+
+/**
+ * Queries the event indexer at VITE_INDEXER_URL. Answers from an indexer
+ * built for another chain or collection are ignored, and so is the indexer
+ * as a whole in demo mode.
+ * @param network The network being viewed
+ * @param contractAddress The collection being viewed
+ * @param path The API path, e.g. /mints/recent
+ * @returns The response data, or null if no matching indexer is available
+ */
+const queryIndexer = async <T>(network: NetworkConfig, contractAddress: string, path: string): Promise<T | null> => {
+  const baseUrl = import.meta.env.VITE_INDEXER_URL;
+  if (!baseUrl || isDemoMode()) return null;
+
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`);
+    if (!response.ok) {
+      throw new Error(`Indexer responded with ${response.status} ${response.statusText}`);
+    }
+    const body: IndexerResponse<T> = await response.json();
+    if (body.chainId !== network.chainId || body.contract.toLowerCase() !== contractAddress.toLowerCase()) {
+      console.warn(`Indexer at ${baseUrl} serves chain ${body.chainId} contract ${body.contract}; reading from the chain instead`);
+      return null;
+    }
+    return body.data;
+  } catch (error) {
+    console.warn('Indexer unavailable, reading from the chain instead:', error);
+    return null;
+  }
+};
+
+/**
+ * Lists the tokens an address owns according to the indexer
+ * @param network The network being viewed
+ * @param contractAddress The collection being viewed
+ * @param owner The owner address
+ * @returns The token IDs in ascending order, or null if no indexer is available
+ */
+export const getIndexedOwnedTokenIds = async (
+  network: NetworkConfig,
+  contractAddress: string,
+  owner: string
+): Promise<bigint[] | null> => {
+  const tokens = await queryIndexer<IndexedOwnedToken[]>(network, contractAddress, `/owners/${owner}/tokens`);
+  return tokens && tokens.map((token) => BigInt(token.tokenId));
+};
+
+/**
+ * Builds a token's ownership history from the indexer
+ * @param network The network being viewed
+ * @param contractAddress The collection being viewed
+ * @param tokenId The token to trace
+ * @returns The mint, transfers and burn, oldest first, or null if no indexer is available
+ */
+export const getIndexedProvenance = async (
+  network: NetworkConfig,
+  contractAddress: string,
+  tokenId: bigint
+): Promise<ProvenanceEvent[] | null> => {
+  const events = await queryIndexer<IndexedEventRecord[]>(network, contractAddress, `/tokens/${tokenId}/history`);
+  return events && events
+    .filter((event) => event.name === 'Transfer' && event.from && event.to)
+    .map((event) => {
+      // The indexer stores addresses lowercased
+      const from = ethers.getAddress(event.from!);
+      const to = ethers.getAddress(event.to!);
+      return {
+        kind: from === ethers.ZeroAddress ? 'mint' : to === ethers.ZeroAddress ? 'burn' : 'transfer',
+        from,
+        to,
+        txHash: event.txHash,
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp,
+      };
+    });
+};
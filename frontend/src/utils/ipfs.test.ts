@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { uploadToIPFS } from './ipfs';
+import { computeW3upCid } from './storage/cid';
+import { StorageProvider, StorageProviderName } from '../types/storage';
+
+const provider = vi.hoisted(() => ({ name: 'kubo' as StorageProviderName, upload: null as unknown as StorageProvider['upload'] }));
+
+vi.mock('./storage', () => ({
+  getStorageProvider: () => ({
+    name: provider.name,
+    upload: provider.upload,
+    computeCid: computeW3upCid,
+    getGatewayUrl: (cid: string) => `https://gateway.test/ipfs/${cid}`,
+  }),
+}));
+
+const image = () => new File(['the same pixels'], 'one.png', { type: 'image/png' });
+
+describe('uploadToIPFS', () => {
+  beforeEach(() => {
+    provider.name = 'kubo';
+    provider.upload = vi.fn(async (file: File) => computeW3upCid(file));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('sends identical files picked together once', async () => {
+    const copy = new File(['the same pixels'], 'copy.png', { type: 'image/png' });
+
+    const [first, second] = await Promise.all([uploadToIPFS(image()), uploadToIPFS(copy)]);
+
+    expect(first).toBe(second);
+    expect(provider.upload).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not send content this browser already pinned with the provider', async () => {
+    const uri = await uploadToIPFS(image());
+    const onProgress = vi.fn();
+
+    expect(await uploadToIPFS(image(), { onProgress })).toBe(uri);
+    expect(provider.upload).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenCalledWith({ loaded: image().size, total: image().size });
+  });
+
+  it('sends the same content again to another provider', async () => {
+    await uploadToIPFS(image());
+    provider.name = 'pinata';
+    await uploadToIPFS(image());
+
+    expect(provider.upload).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not remember uploads kept in memory, which are gone after a reload', async () => {
+    provider.name = 'memory';
+    await uploadToIPFS(image());
+    await uploadToIPFS(image());
+
+    expect(provider.upload).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,113 +1,145 @@
-import { create } from "@web3-storage/w3up-client";
 import { NFTMetadata } from '../types/nft';
+import { StorageProviderName, UploadOptions } from '../types/storage';
+import { getStorageProvider } from './storage';
+import { CidMismatchError, StorageError, StorageUploadError } from './storage/errors';
+import { withRetry } from './retry';
+import { serializeMetadata } from './metadata';
 
-// IPFS gateway for viewing content
-const IPFS_GATEWAY = 'https://w3s.link/ipfs/';
+const UPLOAD_ATTEMPTS = 3;
+const UPLOAD_RETRY_DELAY_MS = 1000;
 
-let client: Awaited<ReturnType<typeof create>> | null = null;
-let space: any | null = null;
+// CIDs already pinned, per storage provider
+const PINNED_STORAGE_KEY = 'nftminter.pinned';
+
+// Uploads in progress by CID, so identical files picked together are sent once
+const inflightUploads = new Map<string, Promise<string>>();
+
+const loadPinned = (): Partial<Record<StorageProviderName, string[]>> => {
+  const saved = localStorage.getItem(PINNED_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+const isPinned = (providerName: StorageProviderName, cid: string) =>
+  loadPinned()[providerName]?.includes(cid) ?? false;
+
+const recordPinned = (providerName: StorageProviderName, cid: string) => {
+  // Memory uploads are gone after a reload, so they must not be remembered
+  if (providerName === 'memory') return;
+  const pinned = loadPinned();
+  pinned[providerName] = [...new Set([...(pinned[providerName] ?? []), cid])];
+  localStorage.setItem(PINNED_STORAGE_KEY, JSON.stringify(pinned));
+};
 
 /**
- * Initialize the Web3.Storage client and space
+ * Sends a file through the configured storage provider, retrying transient
+ * failures and verifying the returned CID against the expected one
+ * @param file The file to upload
+ * @param expectedCid The CID computed from the bytes
+ * @param options Progress callback
+ * @returns The verified ipfs:// URI
+ * @throws StorageError if the upload fails or the CIDs do not match
  */
-export const initializeIPFS = async () => {
-  try {
-    if (!client) {
-      // Create client
-      client = await create();
-    }
-    
-    // Login with email (you'll need to replace this with your email)
-    const email = import.meta.env.VITE_W3UP_EMAIL;
-    if (!email) {
-      throw new Error('W3UP_EMAIL environment variable is not set');
-    }
-    
-    const account = await client.login(email);
-    
-    // Wait for payment plan if needed
-    await account.plan.wait();
-    
-    // Create or get space
-    if (!space) {
-      space = await client.createSpace("nft-storage-space", { 
-        account,
-        skipGatewayAuthorization: false // Allow gateway to serve content
-      });
-      await client.setCurrentSpace(space.did());
+const sendVerified = async (file: File, expectedCid: string, options: UploadOptions): Promise<string> => {
+  const provider = getStorageProvider();
+  console.log(`Uploading ${file.name} via ${provider.name}, expected CID:`, expectedCid);
+
+  const cid = await withRetry(
+    async () => {
+      try {
+        return await provider.upload(file, options);
+      } catch (error) {
+        if (error instanceof StorageError) throw error;
+        throw new StorageUploadError(`${provider.name} upload failed`, { retryable: true, cause: error });
+      }
+    },
+    {
+      attempts: UPLOAD_ATTEMPTS,
+      baseDelayMs: UPLOAD_RETRY_DELAY_MS,
+      shouldRetry: (error) => error instanceof StorageUploadError && error.retryable,
+      onRetry: (error, attempt, delayMs) => {
+        console.warn(`Upload attempt ${attempt} failed, retrying in ${Math.round(delayMs)}ms:`, error);
+        options.onProgress?.({ loaded: 0, total: file.size });
+      },
     }
-    
-    return true;
-  } catch (error) {
-    console.error('Error initializing IPFS:', error);
-    return false;
+  );
+
+  if (cid !== expectedCid) {
+    throw new CidMismatchError(expectedCid, cid);
   }
+
+  console.log('Upload verified:', cid);
+  recordPinned(provider.name, cid);
+  return `ipfs://${cid}`;
 };
 
 /**
- * Uploads a file to IPFS using Web3.Storage
+ * Uploads a file through the configured storage provider unless this browser
+ * already pinned the same content with it, or is pinning it right now
  * @param file The file to upload
- * @returns The IPFS hash of the uploaded file
+ * @param options Progress callback
+ * @returns The verified ipfs:// URI
+ * @throws StorageError if the upload fails or the CIDs do not match
  */
-export const uploadToIPFS = async (file: File): Promise<string> => {
+const uploadVerified = async (file: File, options: UploadOptions = {}): Promise<string> => {
+  const provider = getStorageProvider();
+
+  const expectedCid = await provider.computeCid(file);
+  if (isPinned(provider.name, expectedCid)) {
+    console.log(`${file.name} is already pinned via ${provider.name}:`, expectedCid);
+    options.onProgress?.({ loaded: file.size, total: file.size });
+    return `ipfs://${expectedCid}`;
+  }
+
+  const inflight = inflightUploads.get(expectedCid);
+  if (inflight) {
+    console.log(`${file.name} is already being uploaded:`, expectedCid);
+    const uri = await inflight;
+    options.onProgress?.({ loaded: file.size, total: file.size });
+    return uri;
+  }
+
+  const upload = sendVerified(file, expectedCid, options);
+  inflightUploads.set(expectedCid, upload);
   try {
-    console.log('Starting file upload to IPFS via Web3.Storage...');
-    
-    if (!client || !space) {
-      const initialized = await initializeIPFS();
-      if (!initialized) {
-        throw new Error('Failed to initialize IPFS client');
-      }
-    }
-    
-    // Upload the file
-    const cid = await client!.uploadFile(file);
-    console.log('File uploaded successfully:', cid);
-    
-    // Return the IPFS hash with the ipfs:// prefix
-    return `ipfs://${cid}`;
-  } catch (error) {
-    console.error('Error uploading to IPFS:', error);
-    
-    // Fallback to mock IPFS hash for testing
-    console.log('Using fallback mock IPFS hash for testing');
-    return 'ipfs://QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+    return await upload;
+  } finally {
+    inflightUploads.delete(expectedCid);
   }
 };
 
 /**
- * Uploads metadata to IPFS using Web3.Storage
+ * Uploads a file to IPFS using the configured storage provider
+ * @param file The file to upload
+ * @param options Progress callback
+ * @returns The IPFS hash of the uploaded file
+ * @throws StorageError if the upload fails or cannot be verified
+ */
+export const uploadToIPFS = async (file: File, options?: UploadOptions): Promise<string> => {
+  return uploadVerified(file, options);
+};
+
+/**
+ * Uploads metadata to IPFS using the configured storage provider
  * @param metadata The NFT metadata to upload
+ * @param options Progress callback
  * @returns The IPFS hash of the uploaded metadata
+ * @throws StorageError if the upload fails or cannot be verified
  */
-export const uploadMetadataToIPFS = async (metadata: NFTMetadata): Promise<string> => {
-  try {
-    console.log('Starting metadata upload to IPFS via Web3.Storage...', metadata);
-    
-    if (!client || !space) {
-      const initialized = await initializeIPFS();
-      if (!initialized) {
-        throw new Error('Failed to initialize IPFS client');
-      }
-    }
-    
-    // Convert metadata to File
-    const blob = new Blob([JSON.stringify(metadata)], { type: 'application/json' });
-    const file = new File([blob], 'metadata.json', { type: 'application/json' });
-    
-    // Upload the file
-    const cid = await client!.uploadFile(file);
-    console.log('Metadata uploaded successfully:', cid);
-    
-    // Return the IPFS hash with the ipfs:// prefix
-    return `ipfs://${cid}`;
-  } catch (error) {
-    console.error('Error uploading metadata to IPFS:', error);
-    
-    // Fallback to mock IPFS hash for testing
-    console.log('Using fallback mock IPFS hash for testing');
-    return 'ipfs://QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
-  }
+export const uploadMetadataToIPFS = async (metadata: NFTMetadata, options?: UploadOptions): Promise<string> => {
+  // Convert metadata to File
+  const blob = new Blob([serializeMetadata(metadata)], { type: 'application/json' });
+  const file = new File([blob], 'metadata.json', { type: 'application/json' });
+
+  return uploadVerified(file, options);
+};
+
+/**
+ * Computes the ipfs:// URI a file will have once uploaded, without uploading it
+ * @param file The file to address
+ * @returns The ipfs:// URI
+ */
+export const computeIpfsUri = async (file: Blob): Promise<string> => {
+  return `ipfs://${await getStorageProvider().computeCid(file)}`;
 };
 
 /**
@@ -118,5 +150,5 @@ export const uploadMetadataToIPFS = async (metadata: NFTMetadata): Promise<strin
 export const getIpfsUrl = (ipfsHash: string): string => {
   // Remove ipfs:// prefix if present
   const hash = ipfsHash.replace('ipfs://', '');
-  return `${IPFS_GATEWAY}${hash}`;
-}; 
\ No newline at end of file
+  return getStorageProvider().getGatewayUrl(hash);
+};
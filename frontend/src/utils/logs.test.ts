@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLogRangeReader } from './logs';
+
+type Range = [number, number];
+
+// A log query that rejects ranges wider than maxRange the way the given error says, recording every call
+const rpc = (maxRange: number, rejection: () => unknown = () => new Error('block range is too large')) => {
+  const calls: Range[] = [];
+  const query = async (fromBlock: number, toBlock: number) => {
+    calls.push([fromBlock, toBlock]);
+    if (toBlock - fromBlock + 1 > maxRange) throw rejection();
+    return [`${fromBlock}-${toBlock}`];
+  };
+  return { calls, query };
+};
+
+describe('createLogRangeReader', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('reads at most maxRange blocks per call', async () => {
+    const { calls, query } = rpc(100);
+    const reader = createLogRangeReader(100);
+
+    expect(await reader.read(query, 1, 250)).toEqual({ logs: ['1-100'], toBlock: 100 });
+    expect(await reader.read(query, 201, 250)).toEqual({ logs: ['201-250'], toBlock: 250 });
+    expect(calls).toEqual([[1, 100], [201, 250]]);
+  });
+
+  it('halves the range until the RPC accepts it and keeps the smaller range', async () => {
+    const { calls, query } = rpc(30);
+    const reader = createLogRangeReader(100);
+
+    expect(await reader.read(query, 1, 1000)).toEqual({ logs: ['1-25'], toBlock: 25 });
+    expect(await reader.read(query, 26, 1000)).toEqual({ logs: ['26-50'], toBlock: 50 });
+    expect(calls).toEqual([[1, 100], [1, 50], [1, 25], [26, 50]]);
+    expect(console.warn).toHaveBeenCalledWith('getLogs range rejected, retrying with 25 block ranges:', 'block range is too large');
+  });
+
+  it.each([
+    ['a limit exceeded code', () => ({ error: { code: -32005, message: 'query returned more than 10000 results' } })],
+    ['a nested RPC message', () => Object.assign(new Error('could not coalesce error'), { error: { code: -32000, message: 'exceed maximum block range: 50' } })],
+    ['a result size message', () => new Error('query returned more than 10000 logs')],
+  ])('recognises %s as a range error', async (_form, rejection) => {
+    const { query } = rpc(50, rejection);
+
+    expect(await createLogRangeReader(100).read(query, 1, 100)).toEqual({ logs: ['1-50'], toBlock: 50 });
+  });
+
+  it('grows the range back after five successful calls', async () => {
+    const limit = { maxRange: 25 };
+    const reader = createLogRangeReader(100);
+    const query = async (fromBlock: number, toBlock: number) => {
+      if (toBlock - fromBlock + 1 > limit.maxRange) throw new Error('block range too large');
+      return [];
+    };
+
+    let next = 1;
+    for (let i = 0; i < 5; i++) next = (await reader.read(query, next, 10_000)).toBlock + 1;
+    limit.maxRange = 100;
+
+    expect(await reader.read(query, next, 10_000)).toEqual({ logs: [], toBlock: next + 49 });
+  });
+
+  it('throws errors that are not about the range without retrying', async () => {
+    const query = vi.fn().mockRejectedValue(new Error('connection refused'));
+
+    await expect(createLogRangeReader(100).read(query, 1, 100)).rejects.toThrow('connection refused');
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws when even a single block is refused', async () => {
+    const { calls, query } = rpc(0);
+
+    await expect(createLogRangeReader(4).read(query, 1, 100)).rejects.toThrow('block range is too large');
+    expect(calls).toEqual([[1, 4], [1, 2], [1, 1]]);
+  });
+});
@@ -0,0 +1,76 @@
+import { LOG_CHUNK_SIZE } from '../constants/contract';
+
+// EIP-1474 "limit exceeded", which providers return for oversized log queries
+const LIMIT_EXCEEDED_CODE = -32005;
+
+// How providers word a rejected eth_getLogs range or result size
+const RANGE_ERROR_PATTERN = /block range|range (is )?too (large|wide)|too many (blocks|logs|results)|more than \d+ (logs|results)|limit exceeded|exceeds? (the )?(max|limit)|response (size|is too large)/i;
+
+// Successful calls in a row before a shrunk range is doubled again
+const GROW_AFTER_SUCCESSES = 5;
+
+// Whether the RPC refused a log query for its range or result size, rather than failing transiently
+const isRangeError = (error: unknown): boolean => {
+  const rpcError = (error as { error?: { code?: unknown; message?: unknown } } | null)?.error;
+  if (rpcError?.code === LIMIT_EXCEEDED_CODE) return true;
+  const messages = [error instanceof Error ? error.message : String(error), String(rpcError?.message ?? '')];
+  return messages.some((message) => RANGE_ERROR_PATTERN.test(message));
+};
+
+// Logs read in one call, and the last block they cover
+export interface LogRange<T> {
+  logs: T[];
+  toBlock: number;
+}
+
+export interface LogRangeReader {
+  /**
+   * Runs a log query from fromBlock over as much of the range up to toBlock
+   * as the current range size allows
+   * @param query Reads the logs of one range, e.g. with provider.getLogs
+   * @param fromBlock First block to read
+   * @param toBlock Last block wanted
+   * @returns The logs and the last block they cover
+   * @throws The query's error if it is not about the range, or a single block is still refused
+   */
+  read: <T>(
+    query: (fromBlock: number, toBlock: number) => Promise<T[]>,
+    fromBlock: number,
+    toBlock: number
+  ) => Promise<LogRange<T>>;
+}
+
+/**
+ * Creates a reader that splits eth_getLogs calls into ranges of at most
+ * maxRange blocks. The range is halved while the RPC rejects it as too large
+ * and doubled back after a run of successful calls, as the indexer does.
+ * @param maxRange Largest range requested per call
+ * @returns The reader; keep one per scan or watcher so the range carries over
+ */
+export const createLogRangeReader = (maxRange = LOG_CHUNK_SIZE): LogRangeReader => {
+  let range = maxRange;
+  let successes = 0;
+
+  return {
+    read: async (query, fromBlock, toBlock) => {
+      let end = Math.min(toBlock, fromBlock + range - 1);
+      for (;;) {
+        try {
+          const logs = await query(fromBlock, end);
+          successes++;
+          if (range < maxRange && successes >= GROW_AFTER_SUCCESSES) {
+            range = Math.min(maxRange, range * 2);
+            successes = 0;
+          }
+          return { logs, toBlock: end };
+        } catch (error) {
+          successes = 0;
+          if (!isRangeError(error) || end === fromBlock) throw error;
+          range = Math.max(1, Math.floor((end - fromBlock + 1) / 2));
+          end = fromBlock + range - 1;
+          console.warn(`getLogs range rejected, retrying with ${range} block ranges:`, error instanceof Error ? error.message : error);
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,110 @@
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { collectBatchFiles, parseCsv, parseManifest } from './manifest';
+
+const manifestFile = (name: string, text: string) => new File([text], name);
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('a,b\nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('keeps commas, newlines and escaped quotes inside quoted fields', () => {
+    expect(parseCsv('"a, b","line 1\nline 2","say ""hi"""')).toEqual([['a, b', 'line 1\nline 2', 'say "hi"']]);
+  });
+
+  it('accepts CRLF line endings and a trailing newline', () => {
+    expect(parseCsv('a,b\r\nc,d\r\n')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('keeps empty cells and drops blank lines', () => {
+    expect(parseCsv('a,,c\n\n,\n')).toEqual([['a', '', 'c']]);
+  });
+});
+
+describe('parseManifest', () => {
+  it('reads CSV rows, turning trait columns into attributes', async () => {
+    const csv = 'filename,name,description,external_url,trait:Color,trait:Level\n'
+      + 'one.png,One,"First, of many",https://example.com/1,Red,3\n'
+      + 'two.png,Two,Second,,,';
+
+    expect(await parseManifest(manifestFile('manifest.csv', csv))).toEqual([
+      {
+        filename: 'one.png',
+        name: 'One',
+        description: 'First, of many',
+        external_url: 'https://example.com/1',
+        attributes: [{ trait_type: 'Color', value: 'Red' }, { trait_type: 'Level', value: 3 }],
+      },
+      { filename: 'two.png', name: 'Two', description: 'Second' },
+    ]);
+  });
+
+  it('rejects a CSV without a required column', async () => {
+    await expect(parseManifest(manifestFile('manifest.csv', 'filename,name\none.png,One')))
+      .rejects.toThrow('Manifest is missing the "description" column');
+  });
+
+  it('lists every CSV row with an empty required field', async () => {
+    const csv = 'filename,name,description\none.png,,First\n,Two,';
+    await expect(parseManifest(manifestFile('manifest.csv', csv))).rejects.toThrow(
+      'Row 1: "name" must be a non-empty string\n'
+      + 'Row 2: "filename" must be a non-empty string\n'
+      + 'Row 2: "description" must be a non-empty string'
+    );
+  });
+
+  it('reads JSON entries and trims their fields', async () => {
+    const json = JSON.stringify([
+      { filename: ' one.png ', name: 'One', description: 'First', attributes: [{ trait_type: 'Level', value: 1 }] },
+    ]);
+
+    expect(await parseManifest(manifestFile('manifest.json', json))).toEqual([
+      { filename: 'one.png', name: 'One', description: 'First', attributes: [{ trait_type: 'Level', value: 1 }] },
+    ]);
+  });
+
+  it('applies the same checks to JSON entries as to CSV rows', async () => {
+    const json = JSON.stringify([
+      { filename: 'one.png', name: 1, description: 'First' },
+      { filename: 'two.png', name: 'Two', description: 'Second', external_url: 5, attributes: [{ value: 'Red' }] },
+      'three.png',
+    ]);
+
+    await expect(parseManifest(manifestFile('manifest.json', json))).rejects.toThrow(
+      'Row 1: "name" must be a non-empty string\n'
+      + 'Row 2: "external_url" must be a string\n'
+      + 'Row 2: "attributes" must be a list of { trait_type, value } objects\n'
+      + 'Row 3: expected an object with filename, name and description'
+    );
+  });
+
+  it('rejects a JSON manifest that is not an array', async () => {
+    await expect(parseManifest(manifestFile('manifest.json', '{"filename":"one.png"}')))
+      .rejects.toThrow('JSON manifest must be an array of entries');
+  });
+});
+
+describe('collectBatchFiles', () => {
+  it('extracts images and the manifest from a ZIP, skipping folders and macOS metadata', async () => {
+    const zip = zipSync({
+      'drop/manifest.csv': strToU8('filename,name,description'),
+      'drop/images/one.png': new Uint8Array([1, 2, 3]),
+      'drop/notes.txt': strToU8('not an image'),
+      '__MACOSX/drop/._one.png': new Uint8Array([0]),
+    });
+
+    const { images, manifest } = await collectBatchFiles([new File([zip], 'drop.zip')]);
+
+    expect([...images.keys()]).toEqual(['one.png']);
+    expect(images.get('one.png')!.type).toBe('image/png');
+    expect(manifest?.name).toBe('manifest.csv');
+  });
+
+  it('takes picked files as they are', async () => {
+    const image = new File(['<svg/>'], 'one.svg', { type: 'image/svg+xml' });
+    const manifest = manifestFile('metadata.json', '[]');
+
+    expect(await collectBatchFiles([image, manifest])).toEqual({ images: new Map([['one.svg', image]]), manifest });
+  });
+});
@@ -0,0 +1,220 @@
+import { unzipSync } from 'fflate';
+import { ManifestEntry } from '../types/batch';
+import { NFTAttribute } from '../types/nft';
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|svg|avif)$/i;
+const MANIFEST_FILENAMES = /^(manifest|metadata)\.(csv|json)$/i;
+
+// Extra CSV columns named `trait:<type>` become string or numeric traits
+const TRAIT_COLUMN_PREFIX = 'trait:';
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  avif: 'image/avif',
+};
+
+const basename = (path: string) => path.split('/').pop() ?? path;
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, escaped quotes, CRLF)
+ * @param text The CSV text
+ * @returns The rows as arrays of cells
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+};
+
+const REQUIRED_FIELDS = ['filename', 'name', 'description'] as const;
+const OPTIONAL_FIELDS = ['external_url', 'animation_url', 'background_color'] as const;
+
+const isAttribute = (value: unknown): value is NFTAttribute => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { trait_type: traitType, value: traitValue, display_type: displayType } = value as Record<string, unknown>;
+  return typeof traitType === 'string'
+    && (typeof traitValue === 'string' || typeof traitValue === 'number')
+    && (displayType === undefined || typeof displayType === 'string');
+};
+
+const checkManifestEntry = (entry: unknown, row: number, problems: string[]): ManifestEntry | null => {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    problems.push(`Row ${row}: expected an object with filename, name and description`);
+    return null;
+  }
+  const record = entry as Record<string, unknown>;
+  const start = problems.length;
+
+  for (const field of REQUIRED_FIELDS) {
+    const value = record[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+      problems.push(`Row ${row}: "${field}" must be a non-empty string`);
+    }
+  }
+  for (const field of OPTIONAL_FIELDS) {
+    if (record[field] !== undefined && typeof record[field] !== 'string') {
+      problems.push(`Row ${row}: "${field}" must be a string`);
+    }
+  }
+  const { attributes } = record;
+  if (attributes !== undefined && !(Array.isArray(attributes) && attributes.every(isAttribute))) {
+    problems.push(`Row ${row}: "attributes" must be a list of { trait_type, value } objects`);
+  }
+  if (problems.length > start) return null;
+
+  const optional = Object.fromEntries(
+    OPTIONAL_FIELDS.filter((field) => record[field]).map((field) => [field, (record[field] as string).trim()])
+  );
+  return {
+    filename: (record.filename as string).trim(),
+    name: (record.name as string).trim(),
+    description: (record.description as string).trim(),
+    ...optional,
+    ...(attributes !== undefined && { attributes: attributes as NFTAttribute[] }),
+  };
+};
+
+/**
+ * Checks every manifest entry, whichever format it came from, before anything
+ * is uploaded or minted
+ * @param entries The parsed rows or JSON entries
+ * @returns The entries
+ * @throws Error listing every problem found
+ */
+const toManifestEntries = (entries: unknown[]): ManifestEntry[] => {
+  const problems: string[] = [];
+  const checked = entries.map((entry, index) => checkManifestEntry(entry, index + 1, problems));
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+  return checked as ManifestEntry[];
+};
+
+const parseCsvManifest = (text: string): ManifestEntry[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('Manifest is empty');
+  }
+  const columns = header.map((column) => column.trim());
+  for (const required of ['filename', 'name', 'description']) {
+    if (!columns.includes(required)) {
+      throw new Error(`Manifest is missing the "${required}" column`);
+    }
+  }
+
+  const records = rows.map((cells) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = (cells[index] ?? '').trim();
+    });
+
+    const attributes: NFTAttribute[] = columns
+      .filter((column) => column.startsWith(TRAIT_COLUMN_PREFIX) && record[column] !== '')
+      .map((column) => {
+        const value = record[column];
+        return {
+          trait_type: column.slice(TRAIT_COLUMN_PREFIX.length),
+          value: /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value,
+        };
+      });
+
+    return { ...record, ...(attributes.length > 0 && { attributes }) };
+  });
+  return toManifestEntries(records);
+};
+
+const parseJsonManifest = (text: string): ManifestEntry[] => {
+  const entries: unknown = JSON.parse(text);
+  if (!Array.isArray(entries)) {
+    throw new Error('JSON manifest must be an array of entries');
+  }
+  return toManifestEntries(entries);
+};
+
+/**
+ * Parses a CSV or JSON manifest mapping image filenames to metadata
+ * @param file The manifest file
+ * @returns One entry per image
+ */
+export const parseManifest = async (file: File): Promise<ManifestEntry[]> => {
+  const text = await file.text();
+  return file.name.toLowerCase().endsWith('.json') ? parseJsonManifest(text) : parseCsvManifest(text);
+};
+
+/**
+ * Splits a picked folder or ZIP archive into images and an optional manifest.
+ * ZIP archives are extracted in memory.
+ * @param files Files from a directory picker, a file picker or a drop
+ * @returns The images keyed by filename and the manifest file if one was included
+ */
+export const collectBatchFiles = async (
+  files: File[]
+): Promise<{ images: Map<string, File>; manifest: File | null }> => {
+  const images = new Map<string, File>();
+  let manifest: File | null = null;
+
+  const add = (file: File) => {
+    const name = basename(file.name);
+    if (MANIFEST_FILENAMES.test(name)) {
+      manifest = file;
+    } else if (IMAGE_EXTENSIONS.test(name)) {
+      images.set(name, file);
+    }
+  };
+
+  for (const file of files) {
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+      for (const [path, bytes] of Object.entries(entries)) {
+        if (path.endsWith('/') || path.startsWith('__MACOSX/')) continue;
+        const name = basename(path);
+        const extension = name.split('.').pop()?.toLowerCase() ?? '';
+        add(new File([bytes], name, { type: MIME_TYPES[extension] ?? 'application/octet-stream' }));
+      }
+    } else {
+      add(file);
+    }
+  }
+
+  return { images, manifest };
+};
@@ -0,0 +1,94 @@
+import { AnimationKind } from '../../types/nft';
+
+// Used when the browser reports no type, as it does for .glb and .gltf files
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  glb: 'model/gltf-binary',
+  gltf: 'model/gltf+json',
+};
+
+// Non-standard names some browsers and servers use
+const TYPE_ALIASES: Record<string, string> = {
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/vnd.wave': 'audio/wav',
+};
+
+export const TYPE_LABELS: Record<string, string> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/gif': 'GIF',
+  'image/webp': 'WebP',
+  'image/svg+xml': 'SVG',
+  'video/mp4': 'MP4',
+  'video/webm': 'WebM',
+  'audio/mpeg': 'MP3',
+  'audio/wav': 'WAV',
+  'model/gltf-binary': 'GLB',
+  'model/gltf+json': 'glTF',
+};
+
+const normalizeType = (type: string) => {
+  const base = type.split(';')[0].trim().toLowerCase();
+  return TYPE_ALIASES[base] ?? base;
+};
+
+const getExtension = (path: string) => path.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? '';
+
+/**
+ * Returns a file's MIME type, falling back to its extension
+ * @param file The picked file
+ * @returns The normalized type, or an empty string if neither is known
+ */
+export const getFileType = (file: File): string =>
+  normalizeType(file.type) || EXTENSION_TYPES[getExtension(file.name)] || '';
+
+/**
+ * Builds a file input's accept attribute. Model types also list their
+ * extensions, since browsers do not recognise them by type.
+ * @param types Accepted MIME types
+ */
+export const toAcceptAttribute = (types: string[]): string => {
+  const extensions = Object.entries(EXTENSION_TYPES)
+    .filter(([, type]) => type.startsWith('model/') && types.includes(type))
+    .map(([extension]) => `.${extension}`);
+  return [...types, ...extensions].join(',');
+};
+
+/**
+ * Maps a MIME type to the player or viewer that shows it
+ * @param type A MIME type
+ * @returns The kind, or null for images and unsupported types
+ */
+export const getAnimationKind = (type: string): AnimationKind | null => {
+  const normalized = normalizeType(type);
+  if (normalized.startsWith('video/')) return 'video';
+  if (normalized.startsWith('audio/')) return 'audio';
+  if (normalized.startsWith('model/gltf')) return 'model';
+  return null;
+};
+
+/**
+ * Works out an animation_url's kind without fetching it, from the type
+ * recorded at mint, a data: URI's type or the URL's extension
+ * @param uri The animation_url
+ * @param recordedType animation_details.format, if the metadata has it
+ * @returns The kind, or null if it takes a request to tell
+ */
+export const guessAnimationKind = (uri: string, recordedType?: string): AnimationKind | null => {
+  if (recordedType) return getAnimationKind(recordedType);
+  if (uri.startsWith('data:')) return getAnimationKind(uri.slice(5).split(/[;,]/)[0]);
+  const type = EXTENSION_TYPES[getExtension(uri)];
+  return type ? getAnimationKind(type) : null;
+};
@@ -0,0 +1,241 @@
+import { ethers } from 'ethers';
+import {
+  MediaLimits,
+  MediaMetadata,
+  MediaUploadOptions,
+  MediaUris,
+  PreparedAnimation,
+  PreparedMedia,
+} from '../../types/media';
+import { MediaDetails, NFTMetadata, ResolvedAnimation } from '../../types/nft';
+import { computeIpfsUri, uploadToIPFS } from '../ipfs';
+import { getPublicUrl } from '../resolver';
+import { stripImageMetadata } from './strip';
+import { createRenditions } from './renditions';
+import { getAnimationKind, getFileType, guessAnimationKind, TYPE_LABELS } from './formats';
+
+export { getAnimationKind, getFileType, toAcceptAttribute } from './formats';
+
+// Accepted unless VITE_MEDIA_TYPES is set
+const DEFAULT_MEDIA_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml'];
+
+const DEFAULT_MAX_MEDIA_BYTES = 10 * 1024 * 1024;
+
+// Accepted for animation_url unless VITE_ANIMATION_TYPES is set
+const DEFAULT_ANIMATION_TYPES = [
+  'video/mp4',
+  'video/webm',
+  'audio/mpeg',
+  'audio/wav',
+  'model/gltf-binary',
+  'model/gltf+json',
+];
+
+const DEFAULT_MAX_ANIMATION_BYTES = 50 * 1024 * 1024;
+
+const readLimits = (types: string | undefined, maxBytes: string | undefined, defaults: MediaLimits): MediaLimits => {
+  const configuredTypes = (types ?? '')
+    .split(',')
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean);
+  const configuredMaxBytes = Number(maxBytes);
+  return {
+    types: configuredTypes.length > 0 ? configuredTypes : defaults.types,
+    maxBytes: configuredMaxBytes > 0 ? configuredMaxBytes : defaults.maxBytes,
+  };
+};
+
+/**
+ * Returns the accepted image types from VITE_MEDIA_TYPES (comma-separated)
+ * and the size limit from VITE_MEDIA_MAX_BYTES, or the defaults
+ */
+export const getMediaLimits = (): MediaLimits =>
+  readLimits(import.meta.env.VITE_MEDIA_TYPES, import.meta.env.VITE_MEDIA_MAX_BYTES, {
+    types: DEFAULT_MEDIA_TYPES,
+    maxBytes: DEFAULT_MAX_MEDIA_BYTES,
+  });
+
+/**
+ * Returns the accepted video, audio and model types from
+ * VITE_ANIMATION_TYPES and the size limit from VITE_ANIMATION_MAX_BYTES, or
+ * the defaults: MP4, WebM, MP3, WAV, GLB and glTF up to 50 MB
+ */
+export const getAnimationLimits = (): MediaLimits =>
+  readLimits(import.meta.env.VITE_ANIMATION_TYPES, import.meta.env.VITE_ANIMATION_MAX_BYTES, {
+    types: DEFAULT_ANIMATION_TYPES,
+    maxBytes: DEFAULT_MAX_ANIMATION_BYTES,
+  });
+
+/**
+ * Formats a byte count for limits and hints, e.g. "10 MB"
+ * @param bytes The size
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${Number((bytes / (1024 * 1024)).toFixed(1))} MB`;
+  if (bytes >= 1024) return `${Number((bytes / 1024).toFixed(1))} KB`;
+  return `${bytes} bytes`;
+};
+
+/**
+ * Describes the limits for the upload box, e.g. "PNG, JPEG or GIF up to 10 MB"
+ * @param limits The limits from getMediaLimits
+ */
+export const describeMediaLimits = (limits: MediaLimits): string => {
+  const labels = limits.types.map((type) => TYPE_LABELS[type] ?? type);
+  const list = labels.length > 1 ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}` : labels[0];
+  return `${list} up to ${formatBytes(limits.maxBytes)}`;
+};
+
+/**
+ * Checks a picked, dropped or pasted file against the limits
+ * @param file The file
+ * @param limits The limits from getMediaLimits
+ * @returns Why the file is refused, or null if it is accepted
+ */
+export const validateMediaFile = (file: File, limits: MediaLimits): string | null => {
+  const type = getFileType(file);
+  if (!limits.types.includes(type)) {
+    return `${type || 'This file type'} is not accepted; use ${describeMediaLimits(limits)}`;
+  }
+  if (file.size > limits.maxBytes) {
+    return `${file.name} is ${formatBytes(file.size)}, over the ${formatBytes(limits.maxBytes)} limit`;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  return null;
+};
+
+// Hashes a file and records its size and type for the metadata
+const describeFile = async (file: File, format: string): Promise<MediaDetails> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return { sha256: ethers.hexlify(new Uint8Array(digest)).slice(2), bytes: file.size, format };
+};
+
+/**
+ * Runs a picked image through the pipeline: strips EXIF, GPS and text
+ * metadata, hashes the result and makes a web-sized preview and a thumbnail
+ * @param file An accepted file, see validateMediaFile
+ * @returns The cleaned original, its renditions and its details
+ */
+export const prepareMedia = async (file: File): Promise<PreparedMedia> => {
+  const stripped = await stripImageMetadata(file);
+  const original = stripped ?? file;
+  const [{ dimensions, preview, thumbnail }, details] = await Promise.all([
+    createRenditions(original),
+    describeFile(original, original.type),
+  ]);
+
+  return {
+    file: original,
+    preview,
+    thumbnail,
+    details: { ...details, ...dimensions },
+    stripped: stripped !== null,
+  };
+};
+
+/**
+ * Prepares a video, audio or 3D model file for the animation_url. The file
+ * is pinned as is, typed from its extension if the browser left the type
+ * empty so gateways and players can tell what it is.
+ * @param file An accepted file, see validateMediaFile with getAnimationLimits
+ * @returns The typed file, its kind and its details
+ * @throws Error if the file is not a video, audio or model file
+ */
+export const prepareAnimation = async (file: File): Promise<PreparedAnimation> => {
+  const type = getFileType(file);
+  const kind = getAnimationKind(type);
+  if (!kind) {
+    throw new Error(`${type || 'This file type'} is not a video, audio or 3D model file`);
+  }
+  const typed = file.type === type ? file : new File([file], file.name, { type, lastModified: file.lastModified });
+  return { file: typed, kind, details: await describeFile(typed, type) };
+};
+
+/**
+ * Computes the ipfs:// URIs every rendition will have, without uploading
+ * @param media The prepared image
+ */
+export const computeMediaUris = async (media: PreparedMedia): Promise<MediaUris> => {
+  const [image, preview, thumbnail] = await Promise.all([
+    computeIpfsUri(media.file),
+    media.preview ? computeIpfsUri(media.preview) : undefined,
+    media.thumbnail ? computeIpfsUri(media.thumbnail) : undefined,
+  ]);
+  return { image, preview, thumbnail };
+};
+
+/**
+ * Pins the original and its renditions, one after the other so progress
+ * reads naturally. Content that is already pinned is not sent again.
+ * @param media The prepared image
+ * @param options Progress callback
+ * @returns The verified ipfs:// URIs
+ * @throws StorageError if an upload fails or cannot be verified
+ */
+export const uploadMedia = async (media: PreparedMedia, options: MediaUploadOptions = {}): Promise<MediaUris> => {
+  const image = await uploadToIPFS(media.file, {
+    onProgress: (progress) => options.onProgress?.('image', progress),
+  });
+  const preview = media.preview
+    ? await uploadToIPFS(media.preview, { onProgress: (progress) => options.onProgress?.('preview', progress) })
+    : undefined;
+  const thumbnail = media.thumbnail
+    ? await uploadToIPFS(media.thumbnail, { onProgress: (progress) => options.onProgress?.('thumbnail', progress) })
+    : undefined;
+  return { image, preview, thumbnail };
+};
+
+/**
+ * Builds the metadata fields recording a pinned image's renditions and details
+ * @param uris Where the renditions are pinned
+ * @param media The prepared image
+ */
+export const getMediaMetadata = (uris: MediaUris, media: PreparedMedia): MediaMetadata => {
+  const fields: MediaMetadata = {};
+  if (uris.preview) fields.image_preview = uris.preview;
+  if (uris.thumbnail) fields.image_thumbnail = uris.thumbnail;
+  fields.image_details = media.details;
+  return fields;
+};
+
+/**
+ * Builds the metadata fields for a pinned animation file
+ * @param uri Where the file is pinned
+ * @param animation The prepared file
+ */
+export const getAnimationMetadata = (uri: string, animation: PreparedAnimation): MediaMetadata => ({
+  animation_url: uri,
+  animation_details: animation.details,
+});
+
+/**
+ * Asks the gateway for an animation's type without downloading it
+ * @returns The kind, or null if the request fails or the type is not supported
+ */
+const fetchAnimationKind = async (url: string): Promise<ResolvedAnimation['kind']> => {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return getAnimationKind(response.headers.get('content-type') ?? '');
+  } catch (error) {
+    console.warn(`Could not read the type of ${url}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Resolves a token's animation_url for display. Unlike images, animations
+ * are not downloaded up front: the player streams them from the gateway once
+ * it is shown. The kind comes from the metadata or the URL when possible, and
+ * from a HEAD request otherwise.
+ * @param metadata The token metadata
+ * @returns The URL and kind, or null if the token has no animation
+ */
+export const resolveAnimation = async (metadata: Partial<NFTMetadata>): Promise<ResolvedAnimation | null> => {
+  if (!metadata.animation_url) return null;
+  const url = getPublicUrl(metadata.animation_url);
+  const kind = guessAnimationKind(metadata.animation_url, metadata.animation_details?.format)
+    ?? (url.startsWith('data:') ? null : await fetchAnimationKind(url));
+  return { url, kind };
+};
@@ -0,0 +1,87 @@
+// Longest edge of the web-sized preview and of the gallery thumbnail, in pixels
+export const PREVIEW_MAX_EDGE = 1200;
+export const THUMBNAIL_MAX_EDGE = 320;
+
+// Types the browser can decode into a bitmap and that gain from downscaling
+const SCALABLE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Preferred output; browsers that cannot encode WebP fall back to JPEG
+const RENDITION_TYPE = 'image/webp';
+const FALLBACK_RENDITION_TYPE = 'image/jpeg';
+const RENDITION_QUALITY = 0.85;
+
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob | null> =>
+  new Promise((resolve) => canvas.toBlob(resolve, type, RENDITION_QUALITY));
+
+/**
+ * Draws a bitmap scaled down to fit a square of maxEdge pixels
+ * @returns The encoded rendition, or null if the bitmap already fits
+ */
+const scale = async (bitmap: ImageBitmap, maxEdge: number, baseName: string, suffix: string): Promise<File | null> => {
+  const ratio = maxEdge / Math.max(bitmap.width, bitmap.height);
+  if (ratio >= 1) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * ratio));
+  canvas.height = Math.max(1, Math.round(bitmap.height * ratio));
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  let blob = await canvasToBlob(canvas, RENDITION_TYPE);
+  // toBlob silently returns PNG for types it cannot encode
+  if (!blob || blob.type !== RENDITION_TYPE) {
+    blob = await canvasToBlob(canvas, FALLBACK_RENDITION_TYPE);
+  }
+  if (!blob) return null;
+  return new File([blob], `${baseName}-${suffix}.${EXTENSIONS[blob.type] ?? 'img'}`, { type: blob.type });
+};
+
+/**
+ * Decodes an image and makes its preview and thumbnail. The bitmap follows
+ * the EXIF orientation, so the renditions come out upright. Animated GIFs
+ * get no preview, since it would only keep the first frame, and renditions
+ * larger than the original are dropped.
+ * @param file The stripped original
+ * @returns The pixel size and the renditions; all null for SVGs and undecodable files
+ */
+export const createRenditions = async (
+  file: File
+): Promise<{ dimensions: Dimensions | null; preview: File | null; thumbnail: File | null }> => {
+  if (!SCALABLE_TYPES.includes(file.type)) {
+    return { dimensions: null, preview: null, thumbnail: null };
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (error) {
+    console.warn(`Could not decode ${file.name} for previews:`, error);
+    return { dimensions: null, preview: null, thumbnail: null };
+  }
+
+  try {
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+    const smallerThanOriginal = (rendition: File | null) => (rendition && rendition.size < file.size ? rendition : null);
+    const preview = file.type === 'image/gif' ? null : await scale(bitmap, PREVIEW_MAX_EDGE, baseName, 'preview');
+    const thumbnail = await scale(bitmap, THUMBNAIL_MAX_EDGE, baseName, 'thumbnail');
+    return {
+      dimensions: { width: bitmap.width, height: bitmap.height },
+      preview: smallerThanOriginal(preview),
+      thumbnail: smallerThanOriginal(thumbnail),
+    };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { stripImageMetadata } from './strip';
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+const toHex = (bytes: ArrayLike<number>) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const segment = (marker: number, payload: number[]) =>
+  [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+
+// Big-endian TIFF with IFD0 holding the orientation and a pointer to a GPS IFD
+const EXIF = [
+  ...ascii('Exif\0\0'),
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+  0x00, 0x02,
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00, // orientation 6, rotated 90°
+  0x88, 0x25, 0x00, 0x04, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x26, // GPS IFD at 38
+  0x00, 0x00, 0x00, 0x00,
+  0x00, 0x01,
+  0x00, 0x01, 0x00, 0x02, 0x00, 0x00, 0x00, 0x02, ...ascii('N\0'), 0x00, 0x00, // GPSLatitudeRef "N"
+  0x00, 0x00, 0x00, 0x00,
+];
+
+const JFIF = segment(0xe0, [...ascii('JFIF\0'), 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00]);
+// Start of scan through end of image; stands in for the compressed picture
+const SCAN = [0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0x56, 0xff, 0xd9];
+
+const jpeg = (...segments: number[][]) =>
+  new File([new Uint8Array([0xff, 0xd8, ...segments.flat(), ...SCAN])], 'photo.jpg', { type: 'image/jpeg', lastModified: 1 });
+
+const pngChunk = (type: string, data: number[]) =>
+  [0x00, 0x00, 0x00, data.length, ...ascii(type), ...data, 0x00, 0x00, 0x00, 0x00];
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+describe('stripImageMetadata', () => {
+  it('removes the EXIF segment with its GPS data and comments from a JPEG', async () => {
+    const file = jpeg(JFIF, segment(0xe1, EXIF), segment(0xfe, ascii('shot at home')));
+
+    const stripped = await stripImageMetadata(file);
+    const hex = toHex(new Uint8Array(await stripped!.arrayBuffer()));
+
+    expect(hex).not.toContain(toHex(EXIF));
+    expect(hex).not.toContain(toHex(ascii('shot at home')));
+    expect(hex.startsWith(toHex([0xff, 0xd8, ...JFIF]))).toBe(true);
+    expect(hex.endsWith(toHex(SCAN))).toBe(true);
+    expect(stripped).toMatchObject({ name: 'photo.jpg', type: 'image/jpeg', lastModified: 1 });
+  });
+
+  it('keeps the orientation of a JPEG in a minimal EXIF segment after the JFIF one', async () => {
+    const stripped = await stripImageMetadata(jpeg(JFIF, segment(0xe1, EXIF)));
+    const bytes = new Uint8Array(await stripped!.arrayBuffer());
+
+    const orientation = bytes.subarray(2 + JFIF.length);
+    expect([orientation[0], orientation[1]]).toEqual([0xff, 0xe1]);
+    expect(toHex(orientation)).toContain(toHex([0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06]));
+    expect(toHex(orientation)).not.toContain('8825');
+  });
+
+  it('leaves a JPEG without metadata alone', async () => {
+    expect(await stripImageMetadata(jpeg(JFIF))).toBeNull();
+  });
+
+  it('removes EXIF and text chunks from a PNG', async () => {
+    const header = pngChunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]);
+    const data = pngChunk('IDAT', [0x78, 0x9c]);
+    const end = pngChunk('IEND', []);
+    const file = new File([new Uint8Array([
+      ...PNG_SIGNATURE, ...header, ...pngChunk('eXIf', EXIF.slice(6)), ...pngChunk('tEXt', ascii('Author\0me')), ...data, ...end,
+    ])], 'image.png', { type: 'image/png' });
+
+    const stripped = await stripImageMetadata(file);
+
+    expect(toHex(new Uint8Array(await stripped!.arrayBuffer()))).toBe(toHex([...PNG_SIGNATURE, ...header, ...data, ...end]));
+  });
+
+  it('leaves formats it does not handle alone', async () => {
+    expect(await stripImageMetadata(new File(['<svg/>'], 'image.svg', { type: 'image/svg+xml' }))).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+// JPEG markers
+const SOI = 0xd8;
+const SOS = 0xda;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const APP2 = 0xe2;
+const APP14 = 0xee;
+const COM = 0xfe;
+
+// EXIF tag holding the rotation a viewer must apply
+const ORIENTATION_TAG = 0x0112;
+
+// PNG chunks that carry EXIF, free text or an edit timestamp
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME'];
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// WebP chunks and the VP8X flags announcing them
+const WEBP_METADATA_CHUNKS = ['EXIF', 'XMP '];
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_XMP_FLAG = 0x04;
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+/**
+ * Reads the orientation from an APP1 Exif segment
+ * @param segment The segment payload, after the length
+ * @returns The orientation (1-8), or 1 if it is missing
+ */
+const readExifOrientation = (segment: Uint8Array): number => {
+  if (readAscii(segment, 0, 6) !== 'Exif\0\0') return 1;
+  const view = new DataView(segment.buffer, segment.byteOffset + 6, segment.length - 6);
+  try {
+    const littleEndian = view.getUint16(0) === 0x4949;
+    const ifdOffset = view.getUint32(4, littleEndian);
+    const entries = view.getUint16(ifdOffset, littleEndian);
+    for (let i = 0; i < entries; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+        const orientation = view.getUint16(entry + 8, littleEndian);
+        return orientation >= 1 && orientation <= 8 ? orientation : 1;
+      }
+    }
+  } catch {
+    // Truncated or malformed EXIF
+  }
+  return 1;
+};
+
+/**
+ * Builds an APP1 segment holding nothing but the orientation tag, so photos
+ * taken sideways still display upright once the rest of the EXIF is gone
+ */
+const buildOrientationSegment = (orientation: number): Uint8Array => {
+  const tiff = [
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian header, IFD0 at 8
+    0x00, 0x01,                                     // one entry
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, // orientation, SHORT, count 1
+    0x00, orientation, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00,                         // no next IFD
+  ];
+  const payload = [...'Exif\0\0'].map((char) => char.charCodeAt(0)).concat(tiff);
+  const length = payload.length + 2;
+  return new Uint8Array([0xff, APP1, length >> 8, length & 0xff, ...payload]);
+};
+
+/**
+ * Drops APP segments other than JFIF, ICC profiles and Adobe colour info,
+ * and comments. The compressed image data is copied as is.
+ */
+const stripJpeg = (bytes: Uint8Array): Uint8Array | null => {
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let orientation = 1;
+  let removed = false;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === SOS) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const segment = bytes.subarray(offset, offset + 2 + length);
+    const isApp = marker >= APP0 && marker <= 0xef;
+
+    if ((isApp && marker !== APP0 && marker !== APP2 && marker !== APP14) || marker === COM) {
+      if (marker === APP1) {
+        orientation = Math.max(orientation, readExifOrientation(segment.subarray(4)));
+      }
+      removed = true;
+    } else {
+      kept.push(segment);
+    }
+    offset += 2 + length;
+  }
+
+  if (!removed) return null;
+  const rest = bytes.subarray(offset);
+  if (orientation !== 1) {
+    // After the JFIF segment, if there is one
+    const position = kept.length > 1 && kept[1][1] === APP0 ? 2 : 1;
+    kept.splice(position, 0, buildOrientationSegment(orientation));
+  }
+  return concat([...kept, rest]);
+};
+
+const stripPng = (bytes: Uint8Array): Uint8Array | null => {
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  let removed = false;
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    if (PNG_METADATA_CHUNKS.includes(type)) {
+      removed = true;
+    } else {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+    if (type === 'IEND') break;
+  }
+
+  return removed ? concat(kept) : null;
+};
+
+const stripWebp = (bytes: Uint8Array): Uint8Array | null => {
+  const kept: Uint8Array[] = [];
+  let removed = false;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = readAscii(bytes, offset, 4);
+    const size = new DataView(bytes.buffer, bytes.byteOffset + offset + 4, 4).getUint32(0, true);
+    const end = offset + 8 + size + (size % 2);
+    if (WEBP_METADATA_CHUNKS.includes(type)) {
+      removed = true;
+    } else {
+      kept.push(bytes.slice(offset, end));
+    }
+    offset = end;
+  }
+  if (!removed) return null;
+
+  const vp8x = kept.find((chunk) => readAscii(chunk, 0, 4) === 'VP8X');
+  if (vp8x) {
+    vp8x[8] &= ~(VP8X_EXIF_FLAG | VP8X_XMP_FLAG);
+  }
+  const body = concat(kept);
+  const header = new Uint8Array(12);
+  header.set(bytes.subarray(0, 4));
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  header.set(bytes.subarray(8, 12), 8);
+  return concat([header, body]);
+};
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+
+/**
+ * Removes EXIF (including GPS), XMP and text metadata from a JPEG, PNG or
+ * WebP without re-encoding it. JPEGs keep their orientation.
+ * @param file The picked image
+ * @returns The cleaned file, or null if there was nothing to remove or the format is not handled
+ */
+export const stripImageMetadata = async (file: File): Promise<File | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  let stripped: Uint8Array | null = null;
+  if (bytes[0] === 0xff && bytes[1] === SOI) {
+    stripped = stripJpeg(bytes);
+  } else if (isPng(bytes)) {
+    stripped = stripPng(bytes);
+  } else if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') {
+    stripped = stripWebp(bytes);
+  }
+
+  return stripped ? new File([stripped], file.name, { type: file.type, lastModified: file.lastModified }) : null;
+};
@@ -0,0 +1,134 @@
+import { MetadataExtras, MetadataValidationError, NFTAttribute, NFTMetadata } from '../types/nft';
+import { MediaMetadata } from '../types/media';
+
+const URI_SCHEMES = ['ipfs://', 'ar://', 'https://', 'http://', 'data:'];
+const NUMERIC_DISPLAY_TYPES = ['number', 'boost_number', 'boost_percentage', 'date'];
+
+export const EMPTY_METADATA_EXTRAS: MetadataExtras = {
+  external_url: '',
+  animation_url: '',
+  background_color: '',
+  attributes: [],
+};
+
+const isUri = (value: string) => URI_SCHEMES.some((scheme) => value.startsWith(scheme));
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+// Empty input is NaN rather than Number('') === 0 so validation can flag it
+const parseNumber = (value: string) => (value.trim() ? Number(value) : NaN);
+
+/**
+ * Builds the metadata document for a token. Empty optional fields are left
+ * out so the pinned JSON only contains what the creator filled in.
+ * @param name Token name
+ * @param description Token description
+ * @param image URI of the token image
+ * @param extras Optional fields and traits from the metadata editor
+ * @param media Renditions and details of the image, from the media pipeline
+ * @returns The metadata document
+ */
+export const buildMetadata = (
+  name: string,
+  description: string,
+  image: string,
+  extras: MetadataExtras,
+  media: MediaMetadata = {}
+): NFTMetadata => {
+  const metadata: NFTMetadata = { name, description, image, ...media };
+
+  if (extras.external_url.trim()) metadata.external_url = extras.external_url.trim();
+  // An uploaded animation file takes the place of a typed-in URL
+  if (extras.animation_url.trim() && !media.animation_url) metadata.animation_url = extras.animation_url.trim();
+  if (extras.background_color.trim()) {
+    metadata.background_color = extras.background_color.trim().replace(/^#/, '').toLowerCase();
+  }
+
+  if (extras.attributes.length > 0) {
+    metadata.attributes = extras.attributes.map((trait) => {
+      const attribute: NFTAttribute = {
+        trait_type: trait.trait_type.trim(),
+        value: trait.valueType === 'number' ? parseNumber(trait.value) : trait.value,
+      };
+      if (trait.display_type) attribute.display_type = trait.display_type;
+      return attribute;
+    });
+  }
+
+  return metadata;
+};
+
+/**
+ * Serializes metadata exactly as it is pinned
+ * @param metadata The metadata document
+ * @returns The JSON text
+ */
+export const serializeMetadata = (metadata: NFTMetadata): string => JSON.stringify(metadata, null, 2);
+
+/**
+ * Validates metadata against the ERC-721 metadata JSON schema and the
+ * conventions marketplaces use for traits and optional fields
+ * @param metadata The metadata document
+ * @returns A list of problems; empty when the metadata is valid
+ */
+export const validateMetadata = (metadata: NFTMetadata): MetadataValidationError[] => {
+  const errors: MetadataValidationError[] = [];
+
+  if (!metadata.name.trim()) {
+    errors.push({ field: 'name', message: 'Name is required' });
+  }
+  if (!metadata.description.trim()) {
+    errors.push({ field: 'description', message: 'Description is required' });
+  }
+  if (!metadata.image || !isUri(metadata.image)) {
+    errors.push({ field: 'image', message: 'Image must be an ipfs://, ar://, https:// or data: URI' });
+  }
+  for (const field of ['image_preview', 'image_thumbnail'] as const) {
+    if (metadata[field] !== undefined && !isUri(metadata[field])) {
+      errors.push({ field, message: `${field === 'image_preview' ? 'Preview' : 'Thumbnail'} must be an ipfs://, ar://, https:// or data: URI` });
+    }
+  }
+  if (metadata.external_url !== undefined && !isHttpUrl(metadata.external_url)) {
+    errors.push({ field: 'external_url', message: 'External URL must be an http(s) URL' });
+  }
+  if (metadata.animation_url !== undefined && !isUri(metadata.animation_url)) {
+    errors.push({ field: 'animation_url', message: 'Animation URL must be an ipfs://, ar://, https:// or data: URI' });
+  }
+  if (metadata.background_color !== undefined && !/^[0-9a-f]{6}$/.test(metadata.background_color)) {
+    errors.push({ field: 'background_color', message: 'Background color must be a six-digit hex color without #' });
+  }
+
+  const traitTypes = new Set<string>();
+  metadata.attributes?.forEach((attribute, index) => {
+    const field = `attributes[${index}]`;
+
+    if (!attribute.trait_type) {
+      errors.push({ field, message: `Trait ${index + 1} needs a name` });
+    } else if (traitTypes.has(attribute.trait_type)) {
+      errors.push({ field, message: `Trait "${attribute.trait_type}" is listed more than once` });
+    }
+    traitTypes.add(attribute.trait_type);
+
+    if (typeof attribute.value === 'number' && !Number.isFinite(attribute.value)) {
+      errors.push({ field, message: `Trait "${attribute.trait_type}" must have a numeric value` });
+    }
+    if (typeof attribute.value === 'string' && !attribute.value.trim()) {
+      errors.push({ field, message: `Trait "${attribute.trait_type}" needs a value` });
+    }
+    if (attribute.display_type && NUMERIC_DISPLAY_TYPES.includes(attribute.display_type) && typeof attribute.value !== 'number') {
+      errors.push({ field, message: `Display type "${attribute.display_type}" requires a numeric value` });
+    }
+    if (attribute.display_type === 'date' && typeof attribute.value === 'number' && !Number.isInteger(attribute.value)) {
+      errors.push({ field, message: `Trait "${attribute.trait_type}" must be a Unix timestamp in seconds` });
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadPendingMints, savePendingMint, trackMint } from './mint';
+import { NFT_MINTER_INTERFACE } from '../contracts/NFTMinter';
+import { MintingState, PendingMint } from '../types/mint';
+
+const ACCOUNT = '0x7c77d685560f02ffb9F9B58245c06e1124502450';
+const COLLECTION = '0x1111111111111111111111111111111111111111';
+
+const pendingMint: PendingMint = {
+  txHash: ethers.id('mint'),
+  nonce: 4,
+  from: ACCOUNT,
+  chainId: 420420421,
+  contractAddress: COLLECTION,
+  startBlock: 0,
+  metadataUri: 'ipfs://metadata',
+  name: 'Test',
+  description: 'Test',
+  image: 'ipfs://image',
+  submittedAt: 0,
+};
+
+// A node that already mined the mint, with the given status
+const createMinedProvider = (status: number) => {
+  const provider = {
+    getTransaction: async () => null,
+    getTransactionReceipt: async () => receipt,
+  } as unknown as ethers.Provider;
+  const { data, topics } = NFT_MINTER_INTERFACE.encodeEventLog('Transfer', [ethers.ZeroAddress, ACCOUNT, 7n]);
+  const receipt = new ethers.TransactionReceipt({
+    to: COLLECTION,
+    from: ACCOUNT,
+    contractAddress: null,
+    hash: pendingMint.txHash,
+    index: 0,
+    blockHash: ethers.id('block'),
+    blockNumber: 10,
+    logsBloom: '0x',
+    gasUsed: 0n,
+    cumulativeGasUsed: 0n,
+    type: 2,
+    status,
+    root: null,
+    logs: status === 1 ? [{
+      transactionHash: pendingMint.txHash,
+      blockHash: ethers.id('block'),
+      blockNumber: 10,
+      removed: false,
+      address: COLLECTION,
+      data,
+      topics,
+      index: 0,
+      transactionIndex: 0,
+    }] : [],
+  }, provider);
+  return provider;
+};
+
+// A node that has never seen the transaction, and reports the sender's nonce as given
+const createUnawareProvider = (nonce: number) => ({
+  getTransaction: async () => null,
+  getTransactionReceipt: async () => null,
+  getTransactionCount: async () => nonce,
+}) as unknown as ethers.Provider;
+
+// Runs trackMint to the end, skipping the waits between lookups
+const trackWithoutDelays = async (provider: ethers.Provider, mint: PendingMint, onUpdate: (changes: Partial<MintingState>) => void) => {
+  vi.useFakeTimers();
+  const tracking = trackMint(provider, mint, onUpdate, 1);
+  await vi.runAllTimersAsync();
+  return tracking;
+};
+
+describe('trackMint', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('confirms a mined mint, reports its token and stops persisting it', async () => {
+    savePendingMint(pendingMint);
+    const onUpdate = vi.fn();
+
+    expect(await trackMint(createMinedProvider(1), pendingMint, onUpdate, 1)).toBe('confirmed');
+    expect(onUpdate).toHaveBeenCalledWith({ confirmations: 1, tokenId: '7' });
+    expect(onUpdate).toHaveBeenLastCalledWith({ stage: 'confirmed', confirmations: 1 });
+    expect(loadPendingMints()).toEqual([]);
+  });
+
+  it('reports a reverted transaction as failed', async () => {
+    savePendingMint(pendingMint);
+    const onUpdate = vi.fn();
+
+    expect(await trackMint(createMinedProvider(0), pendingMint, onUpdate, 1)).toBe('failed');
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ error: 'The mint transaction reverted' }));
+    expect(loadPendingMints()).toEqual([]);
+  });
+
+  it('treats a transaction the node never saw as dropped while its nonce is unused', async () => {
+    const onUpdate = vi.fn();
+    savePendingMint(pendingMint);
+
+    expect(await trackWithoutDelays(createUnawareProvider(pendingMint.nonce), pendingMint, onUpdate)).toBe('dropped');
+    expect(onUpdate).toHaveBeenCalledWith({ error: 'The transaction was dropped from the mempool. Nothing was minted; try again.' });
+    expect(loadPendingMints()).toEqual([]);
+  });
+
+  it('treats a transaction the node never saw as replaced once its nonce was used', async () => {
+    const onUpdate = vi.fn();
+
+    expect(await trackWithoutDelays(createUnawareProvider(pendingMint.nonce + 1), pendingMint, onUpdate)).toBe('replaced');
+    expect(onUpdate).toHaveBeenCalledWith({ error: 'Nonce 4 was used by another transaction' });
+  });
+
+  it('keeps the mint persisted when the node cannot be reached', async () => {
+    const provider = {
+      getTransaction: async () => {
+        throw new Error('Failed to fetch');
+      },
+      getTransactionReceipt: async () => null,
+    } as unknown as ethers.Provider;
+    savePendingMint(pendingMint);
+
+    await expect(trackMint(provider, pendingMint, vi.fn(), 1)).rejects.toThrow('Failed to fetch');
+    expect(loadPendingMints()).toEqual([pendingMint]);
+  });
+});
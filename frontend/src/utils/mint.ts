@@ -0,0 +1,178 @@
+import { ethers } from 'ethers';
+import { MintingState, MintStage, PendingMint } from '../types/mint';
+import { MINT_CONFIRMATIONS } from '../constants/contract';
+import { createNFTMinterClient } from '../contracts/NFTMinter';
+import { getMintedTokenId } from './tokens';
+import { withRetry } from './retry';
+
+const PENDING_MINTS_STORAGE_KEY = 'nftminter.pendingMints';
+
+// Lookups before a transaction unknown to the RPC is treated as replaced or dropped
+const LOOKUP_ATTEMPTS = 5;
+const LOOKUP_DELAY_MS = 2000;
+
+class TransactionNotFoundError extends Error {
+  constructor(txHash: string) {
+    super(`Transaction ${txHash} not found`);
+    this.name = 'TransactionNotFoundError';
+  }
+}
+
+/**
+ * Loads the mint transactions that were still being tracked
+ * @returns The saved pending mints, oldest first
+ */
+export const loadPendingMints = (): PendingMint[] => {
+  const saved = localStorage.getItem(PENDING_MINTS_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+};
+
+const savePendingMints = (mints: PendingMint[]) => {
+  if (mints.length > 0) {
+    localStorage.setItem(PENDING_MINTS_STORAGE_KEY, JSON.stringify(mints));
+  } else {
+    localStorage.removeItem(PENDING_MINTS_STORAGE_KEY);
+  }
+};
+
+/**
+ * Persists a sent mint so a reload resumes tracking it
+ * @param mint The sent transaction
+ */
+export const savePendingMint = (mint: PendingMint) => {
+  savePendingMints([...loadPendingMints().filter((m) => m.txHash !== mint.txHash), mint]);
+};
+
+/**
+ * Stops persisting a mint once it has reached a final state
+ * @param txHash The mint transaction hash
+ */
+export const removePendingMint = (txHash: string) => {
+  savePendingMints(loadPendingMints().filter((m) => m.txHash !== txHash));
+};
+
+type MintUpdate = (changes: Partial<MintingState>) => void;
+
+/**
+ * Waits for the mint receipt, following the transaction if the wallet
+ * re-prices it and detecting when it is cancelled, replaced or dropped
+ * @returns The receipt, or the final stage if the mint will never be mined
+ */
+const waitForReceipt = async (
+  provider: ethers.Provider,
+  mint: PendingMint,
+  onUpdate: MintUpdate
+): Promise<ethers.TransactionReceipt | MintStage> => {
+  let found: ethers.TransactionResponse | ethers.TransactionReceipt;
+  try {
+    // The public RPC may not have seen a freshly sent transaction yet
+    found = await withRetry(async () => {
+      const result = await provider.getTransaction(mint.txHash) ?? await provider.getTransactionReceipt(mint.txHash);
+      if (!result) {
+        throw new TransactionNotFoundError(mint.txHash);
+      }
+      return result;
+    }, {
+      attempts: LOOKUP_ATTEMPTS,
+      baseDelayMs: LOOKUP_DELAY_MS,
+      shouldRetry: (error) => error instanceof TransactionNotFoundError,
+    });
+  } catch (error) {
+    if (!(error instanceof TransactionNotFoundError)) throw error;
+
+    // Unknown to the node: either another transaction took the nonce or it was evicted
+    const nonce = await provider.getTransactionCount(mint.from, 'latest');
+    if (nonce > mint.nonce) {
+      onUpdate({ error: `Nonce ${mint.nonce} was used by another transaction` });
+      return 'replaced';
+    }
+    onUpdate({ error: 'The transaction was dropped from the mempool. Nothing was minted; try again.' });
+    return 'dropped';
+  }
+
+  if (found instanceof ethers.TransactionReceipt) {
+    return found;
+  }
+
+  try {
+    const receipt = await found.replaceableTransaction(mint.startBlock).wait(1);
+    if (!receipt) {
+      throw new Error('Transaction receipt not found');
+    }
+    return receipt;
+  } catch (error) {
+    if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+      if (error.reason === 'repriced') {
+        // Same mint sent again with a higher fee; keep tracking the replacement
+        removePendingMint(mint.txHash);
+        savePendingMint({ ...mint, txHash: error.replacement.hash });
+        onUpdate({ txHash: error.replacement.hash });
+        return error.receipt;
+      }
+      onUpdate({
+        replacementHash: error.replacement.hash,
+        error: error.reason === 'cancelled'
+          ? 'The mint was cancelled in your wallet'
+          : 'The mint was replaced by a different transaction',
+      });
+      return 'replaced';
+    }
+    if (ethers.isError(error, 'CALL_EXCEPTION')) {
+      onUpdate({ error: 'The mint transaction reverted' });
+      return 'failed';
+    }
+    throw error;
+  }
+};
+
+/**
+ * Follows a sent mint transaction until it is confirmed or can no longer be
+ * mined, reporting progress through onUpdate. The mint stays persisted if
+ * tracking itself fails (e.g. the RPC is unreachable) so it can be resumed.
+ * @param provider A provider on the network the mint was sent to
+ * @param mint The sent transaction
+ * @param onUpdate Called with every state change
+ * @param confirmations Blocks to wait for before reporting the mint as confirmed
+ * @returns The final stage
+ */
+export const trackMint = async (
+  provider: ethers.Provider,
+  mint: PendingMint,
+  onUpdate: MintUpdate,
+  confirmations = MINT_CONFIRMATIONS
+): Promise<MintStage> => {
+  onUpdate({ stage: 'pending', txHash: mint.txHash, confirmations: 0, error: null });
+
+  const result = await waitForReceipt(provider, mint, onUpdate);
+  if (typeof result === 'string') {
+    removePendingMint(mint.txHash);
+    onUpdate({ stage: result });
+    return result;
+  }
+
+  const receipt = result;
+  if (receipt.status !== 1) {
+    removePendingMint(receipt.hash);
+    onUpdate({ stage: 'failed', error: 'The mint transaction reverted' });
+    return 'failed';
+  }
+
+  const contract = createNFTMinterClient(mint.contractAddress, provider);
+  onUpdate({ confirmations: 1, tokenId: getMintedTokenId(contract, receipt)?.toString() });
+
+  if (confirmations > 1) {
+    const onBlock = (blockNumber: number) => {
+      onUpdate({ confirmations: Math.min(blockNumber - receipt.blockNumber + 1, confirmations) });
+    };
+    await provider.on('block', onBlock);
+    try {
+      await provider.waitForTransaction(receipt.hash, confirmations);
+    } finally {
+      await provider.off('block', onBlock);
+    }
+  }
+
+  removePendingMint(receipt.hash);
+  onUpdate({ stage: 'confirmed', confirmations });
+  return 'confirmed';
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { buildOnChainTokenUri, exceedsOnChainBudget, fileToDataUri, getUriBytes } from './onchain';
+import { ONCHAIN_URI_BUDGET_BYTES } from '../constants/contract';
+
+const JSON_PREFIX = 'data:application/json;base64,';
+
+// A data: URI of exactly the given size in bytes
+const uriOfBytes = (bytes: number) => `data:,${'a'.repeat(bytes - 'data:,'.length)}`;
+
+// Metadata whose compact JSON is exactly the given size in bytes
+const metadataOfBytes = (bytes: number) => {
+  const base = { name: 'One', description: '', image: 'data:image/svg+xml;base64,PHN2Zy8+' };
+  return { ...base, description: 'a'.repeat(bytes - JSON.stringify(base).length) };
+};
+
+describe('exceedsOnChainBudget', () => {
+  it.each([
+    ['just below', ONCHAIN_URI_BUDGET_BYTES - 1, false],
+    ['at', ONCHAIN_URI_BUDGET_BYTES, false],
+    ['just above', ONCHAIN_URI_BUDGET_BYTES + 1, true],
+  ])('checks a token URI %s the budget', (_position, bytes, exceeds) => {
+    expect(getUriBytes(uriOfBytes(bytes))).toBe(bytes);
+    expect(exceedsOnChainBudget(uriOfBytes(bytes))).toBe(exceeds);
+  });
+
+  it('counts UTF-8 bytes rather than characters', () => {
+    const uri = `${uriOfBytes(ONCHAIN_URI_BUDGET_BYTES - 1)}é`;
+
+    expect(uri.length).toBe(ONCHAIN_URI_BUDGET_BYTES);
+    expect(exceedsOnChainBudget(uri)).toBe(true);
+  });
+});
+
+describe('data: URI overhead', () => {
+  it('grows an image by a third plus the prefix', async () => {
+    const image = new File([new Uint8Array(3000)], 'one.png', { type: 'image/png' });
+
+    expect(getUriBytes(await fileToDataUri(image))).toBe('data:image/png;base64,'.length + 4000);
+  });
+
+  it('minifies SVGs before embedding them', async () => {
+    const svg = new File(['<?xml version="1.0"?>\n<!-- logo -->\n<svg>\n  <g/>\n</svg>\n'], 'one.svg', { type: 'image/svg+xml' });
+
+    expect(await fileToDataUri(svg)).toBe(`data:image/svg+xml;base64,${btoa('<svg><g/></svg>')}`);
+  });
+
+  it('rejects types that cannot be embedded', async () => {
+    await expect(fileToDataUri(new File(['x'], 'one.bmp', { type: 'image/bmp' }))).rejects.toThrow('image/bmp cannot be stored on-chain');
+  });
+
+  // 29 prefix bytes plus 4 base64 characters per 3 JSON bytes leave room for 12264 bytes of JSON
+  it('fits the largest metadata the budget allows, and not a byte more', () => {
+    const largest = buildOnChainTokenUri(metadataOfBytes(12264));
+    const tooLarge = buildOnChainTokenUri(metadataOfBytes(12265));
+
+    expect(largest.startsWith(JSON_PREFIX)).toBe(true);
+    expect(getUriBytes(largest)).toBe(JSON_PREFIX.length + 16352);
+    expect(exceedsOnChainBudget(largest)).toBe(false);
+    expect(getUriBytes(tooLarge)).toBe(ONCHAIN_URI_BUDGET_BYTES + 1);
+    expect(exceedsOnChainBudget(tooLarge)).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+import { NFTMetadata } from '../types/nft';
+import { OnChainCostEstimate } from '../types/mint';
+import { FeeEstimate } from '../types/fees';
+import { NFTMinterContract } from '../contracts/NFTMinter';
+import { ONCHAIN_URI_BUDGET_BYTES } from '../constants/contract';
+
+// Image types that can be embedded in a data: URI and shown by wallets and marketplaces
+export const ONCHAIN_IMAGE_TYPES = ['image/svg+xml', 'image/png', 'image/gif', 'image/jpeg', 'image/webp'];
+
+// Stand-in for the token URI an IPFS mint would store, used as the cost baseline
+const IPFS_BASELINE_URI = `ipfs://${'b'.padEnd(59, 'a')}`;
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Shrinks SVG markup without changing how it renders: drops the XML prolog,
+ * comments and whitespace between tags
+ * @param svg The SVG source
+ * @returns The minified SVG
+ */
+const minifySvg = (svg: string): string =>
+  svg
+    .replace(/<\?xml[\s\S]*?\?>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/>\s+</g, '><')
+    .trim();
+
+/**
+ * Embeds an image file in a data: URI. SVGs are minified first.
+ * @param file An image of one of ONCHAIN_IMAGE_TYPES
+ * @returns The base64 data: URI
+ * @throws Error if the file type cannot be embedded
+ */
+export const fileToDataUri = async (file: File): Promise<string> => {
+  if (!ONCHAIN_IMAGE_TYPES.includes(file.type)) {
+    throw new Error(`${file.type || 'This file type'} cannot be stored on-chain; use SVG, PNG, GIF, JPEG or WebP`);
+  }
+
+  const bytes = file.type === 'image/svg+xml'
+    ? new TextEncoder().encode(minifySvg(await file.text()))
+    : new Uint8Array(await file.arrayBuffer());
+  return `data:${file.type};base64,${bytesToBase64(bytes)}`;
+};
+
+/**
+ * Builds the token URI for a fully on-chain token. The JSON is compact, since
+ * every byte ends up in contract storage.
+ * @param metadata The metadata, usually with a data: image
+ * @returns The base64 data: URI to pass to mintNFT
+ */
+export const buildOnChainTokenUri = (metadata: NFTMetadata): string =>
+  `data:application/json;base64,${bytesToBase64(new TextEncoder().encode(JSON.stringify(metadata)))}`;
+
+/**
+ * Size of a token URI as stored by the contract
+ * @param tokenUri The token URI
+ * @returns The length in bytes
+ */
+export const getUriBytes = (tokenUri: string): number => new TextEncoder().encode(tokenUri).length;
+
+/**
+ * Whether a token URI is too large to mint on-chain
+ * @param tokenUri The data: URI to mint
+ * @returns True if it is over ONCHAIN_URI_BUDGET_BYTES
+ */
+export const exceedsOnChainBudget = (tokenUri: string): boolean => getUriBytes(tokenUri) > ONCHAIN_URI_BUDGET_BYTES;
+
+/**
+ * Works out how much of a data: URI mint's fee pays for storing the data, by
+ * comparing it with minting an ipfs:// URI. The node folds the storage
+ * deposit into the gas estimate.
+ * @param contract The NFT contract instance, connected to the minting signer
+ * @param tokenUri The data: URI to mint
+ * @param fee The fee estimate for minting tokenUri
+ * @returns The size and the extra gas and fee
+ */
+export const estimateOnChainExtraCost = async (
+  contract: NFTMinterContract,
+  tokenUri: string,
+  fee: FeeEstimate
+): Promise<OnChainCostEstimate> => {
+  const baselineGas = await contract.mintNFT.estimateGas(IPFS_BASELINE_URI);
+  const extraGas = fee.gas > baselineGas ? fee.gas - baselineGas : 0n;
+
+  return {
+    uriBytes: getUriBytes(tokenUri),
+    extraGas,
+    extraFee: extraGas * fee.gasPrice,
+  };
+};
@@ -1,101 +1,70 @@
 import { ethers } from 'ethers';
+import { NetworkConfig } from '../types/network';
+import { EIP1193Provider } from '../types/wallet';
+import { getDemoChain, isDemoMode } from './demo';
 
-// Westend RPC URL
-const WESTEND_RPC_URL = 'https://westend-asset-hub-eth-rpc.polkadot.io';
-
-// Westend Asset Hub chain ID (in hex format)
-const WESTEND_CHAIN_ID = '0x1919b0a1'; // 420420421 in hex
-
-// Contract ABI for the NFTMinter contract
-const NFT_MINTER_ABI = [
-  "function mint(address to, string memory uri) public returns (uint256)",
-  "function creatorOf(uint256 tokenId) public view returns (address)",
-  "function name() public view returns (string memory)",
-  "function symbol() public view returns (string memory)",
-  "function totalSupply() public view returns (uint256)"
-];
-
-export const connectToWestend = async () => {
-  if (!window.ethereum) {
-    throw new Error('MetaMask is not installed');
-  }
+/**
+ * Switches the wallet to a registered network, adding it to the wallet first
+ * if the wallet does not know the chain yet
+ * @param wallet The EIP-1193 provider of the connected wallet
+ * @param network The network to switch to
+ * @returns A provider for the wallet on the requested network
+ */
+export const switchToNetwork = async (wallet: EIP1193Provider, network: NetworkConfig) => {
+  const chainId = `0x${network.chainId.toString(16)}`;
 
   try {
     // Request account access
-    await window.ethereum.request({ method: 'eth_requestAccounts' });
-    
-    // Switch to Westend network
+    await wallet.request({ method: 'eth_requestAccounts' });
+
     try {
-      await window.ethereum.request({
+      await wallet.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: WESTEND_CHAIN_ID }],
+        params: [{ chainId }],
       });
-    } catch (switchError: any) {
-      // This error code indicates that the chain has not been added to MetaMask
-      if (switchError.code === 4902) {
+    } catch (switchError) {
+      // This error code indicates that the chain has not been added to the wallet
+      if ((switchError as { code?: number }).code === 4902) {
         try {
-          await window.ethereum.request({
+          await wallet.request({
             method: 'wallet_addEthereumChain',
             params: [
               {
-                chainId: WESTEND_CHAIN_ID,
-                chainName: 'Polkadot Asset Hub (Westend)',
-                nativeCurrency: {
-                  name: 'Westend',
-                  symbol: 'WND',
-                  decimals: 18,
-                },
-                rpcUrls: [WESTEND_RPC_URL],
-                blockExplorerUrls: ['https://westend.subscan.io/'],
+                chainId,
+                chainName: network.name,
+                nativeCurrency: network.nativeCurrency,
+                rpcUrls: network.rpcUrls,
+                blockExplorerUrls: [network.explorerUrl],
               },
             ],
           });
         } catch (addError) {
-          console.error('Error adding Westend network:', addError);
-          throw new Error('Failed to add Westend network to MetaMask');
+          console.error(`Error adding ${network.name}:`, addError);
+          throw addError;
         }
       } else {
-        console.error('Error switching to Westend network:', switchError);
+        console.error(`Error switching to ${network.name}:`, switchError);
         throw switchError;
       }
     }
-    
+
     // Create Web3Provider
-    const provider = new ethers.BrowserProvider(window.ethereum);
+    const provider = new ethers.BrowserProvider(wallet as ethers.Eip1193Provider);
     return provider;
   } catch (error) {
-    console.error('Error connecting to Westend:', error);
-    throw new Error('Failed to connect to Westend network');
+    // Rethrown as is; callers classify the wallet's error code for the user
+    console.error(`Error connecting to ${network.name}:`, error);
+    throw error;
   }
 };
 
-export const mintNFT = async (
-  provider: ethers.BrowserProvider,
-  metadataUri: string,
-  contractAddress: string
-) => {
-  try {
-    const signer = await provider.getSigner();
-    const address = await signer.getAddress();
-
-    // Create contract instance
-    const contract = new ethers.Contract(
-      contractAddress,
-      NFT_MINTER_ABI,
-      signer
-    );
-
-    // Call the mint function
-    const tx = await contract.mint(address, metadataUri);
-    console.log('Transaction sent:', tx.hash);
-
-    // Wait for the transaction to be mined
-    const receipt = await tx.wait();
-    console.log('Transaction confirmed:', receipt);
-
-    return receipt;
-  } catch (error) {
-    console.error('Error minting NFT:', error);
-    throw new Error('Failed to mint NFT');
-  }
-}; 
\ No newline at end of file
+/**
+ * Creates a read-only provider on a network's public RPC, independent of the
+ * chain the wallet is currently on. In demo mode it reads the network's
+ * in-memory chain instead.
+ * @param network The network to read from
+ */
+export const createReadProvider = (network: NetworkConfig): ethers.JsonRpcApiProvider =>
+  isDemoMode()
+    ? new ethers.BrowserProvider(getDemoChain(network), network.chainId, { staticNetwork: true })
+    : new ethers.JsonRpcProvider(network.rpcUrls[0], network.chainId, { staticNetwork: true });
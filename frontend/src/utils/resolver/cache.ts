@@ -0,0 +1,89 @@
+const DB_NAME = 'nftminter.resolver';
+const DB_VERSION = 1;
+
+export type CacheStore = 'metadata' | 'media';
+
+const STORES: CacheStore[] = ['metadata', 'media'];
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+}
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens the cache database once. Resolves to null where IndexedDB is not
+ * available (some private browsing modes), in which case nothing is cached.
+ */
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!database) {
+    database = new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const store of STORES) {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store, { keyPath: 'key' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Resolver cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return database;
+};
+
+/**
+ * Reads a cached value
+ * @param store The store to read from
+ * @param key The cache key
+ * @param maxAgeMs Entries older than this are ignored; omit for immutable content
+ * @returns The value, or undefined on a miss
+ */
+export const getCached = async <T>(store: CacheStore, key: string, maxAgeMs?: number): Promise<T | undefined> => {
+  try {
+    const db = await openDatabase();
+    if (!db) return undefined;
+    const entry: CacheEntry<T> | undefined = await promisify(db.transaction(store).objectStore(store).get(key));
+    if (!entry || (maxAgeMs !== undefined && Date.now() - entry.storedAt > maxAgeMs)) {
+      return undefined;
+    }
+    return entry.value;
+  } catch (error) {
+    console.warn(`Error reading ${key} from the ${store} cache:`, error);
+    return undefined;
+  }
+};
+
+/**
+ * Stores a value, replacing any previous entry. Failures (such as an
+ * exceeded quota) are logged and otherwise ignored.
+ * @param store The store to write to
+ * @param key The cache key
+ * @param value The value; must be structured-cloneable
+ */
+export const putCached = async <T>(store: CacheStore, key: string, value: T): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const entry: CacheEntry<T> = { key, value, storedAt: Date.now() };
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).put(entry));
+  } catch (error) {
+    console.warn(`Error writing ${key} to the ${store} cache:`, error);
+  }
+};
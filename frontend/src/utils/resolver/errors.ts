@@ -0,0 +1,34 @@
+/** Base class for failures while resolving a token URI or its media */
+export class ResolveError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'ResolveError';
+    this.cause = cause;
+  }
+}
+
+/** The URI is malformed or uses a scheme the resolver does not understand */
+export class UnsupportedUriError extends ResolveError {
+  readonly uri: string;
+
+  constructor(uri: string, reason: string) {
+    super(`Cannot resolve ${uri.slice(0, 80)}: ${reason}`);
+    this.name = 'UnsupportedUriError';
+    this.uri = uri;
+  }
+}
+
+/** Every gateway tried for the content failed or timed out */
+export class GatewayError extends ResolveError {
+  readonly urls: string[];
+  readonly failures: unknown[];
+
+  constructor(urls: string[], failures: unknown[]) {
+    super(`All ${urls.length} gateway(s) failed for ${urls[0]}`, failures[0]);
+    this.name = 'GatewayError';
+    this.urls = urls;
+    this.failures = failures;
+  }
+}
@@ -0,0 +1,97 @@
+import { ParsedUri } from '../../types/resolver';
+import { getIpfsUrl } from '../ipfs';
+import { GatewayError } from './errors';
+import { isDemoMode } from '../demo';
+
+// Public gateways raced for ipfs:// content unless VITE_IPFS_GATEWAYS is set
+const DEFAULT_IPFS_GATEWAYS = [
+  'https://w3s.link/ipfs/',
+  'https://ipfs.io/ipfs/',
+  'https://dweb.link/ipfs/',
+  'https://gateway.pinata.cloud/ipfs/',
+];
+
+const DEFAULT_ARWEAVE_GATEWAY = 'https://arweave.net/';
+
+const DEFAULT_GATEWAY_TIMEOUT_MS = 10000;
+
+const withTrailingSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`);
+
+/**
+ * Returns the IPFS gateways from VITE_IPFS_GATEWAYS (comma-separated), or
+ * the default public ones
+ */
+export const getIpfsGateways = (): string[] => {
+  const configured = (import.meta.env.VITE_IPFS_GATEWAYS ?? '')
+    .split(',')
+    .map((gateway) => gateway.trim())
+    .filter(Boolean);
+  return (configured.length > 0 ? configured : DEFAULT_IPFS_GATEWAYS).map(withTrailingSlash);
+};
+
+/** Per-gateway timeout from VITE_IPFS_GATEWAY_TIMEOUT_MS */
+export const getGatewayTimeoutMs = (): number => {
+  const configured = Number(import.meta.env.VITE_IPFS_GATEWAY_TIMEOUT_MS);
+  return configured > 0 ? configured : DEFAULT_GATEWAY_TIMEOUT_MS;
+};
+
+/**
+ * Lists the URLs content can be fetched from, best first. For IPFS the
+ * storage provider's own gateway leads, since it serves fresh uploads first.
+ * @param parsed A parsed non-data URI
+ * @returns The candidate URLs, without duplicates
+ */
+export const getCandidateUrls = (parsed: Exclude<ParsedUri, { kind: 'data' }>): string[] => {
+  switch (parsed.kind) {
+    case 'ipfs':
+      // Demo uploads only exist in memory; public gateways would just time out
+      if (isDemoMode()) return [getIpfsUrl(parsed.path)];
+      return [...new Set([getIpfsUrl(parsed.path), ...getIpfsGateways().map((gateway) => `${gateway}${parsed.path}`)])];
+    case 'arweave':
+      return [`${withTrailingSlash(import.meta.env.VITE_ARWEAVE_GATEWAY || DEFAULT_ARWEAVE_GATEWAY)}${parsed.path}`];
+    case 'http':
+      return [parsed.url];
+  }
+};
+
+/**
+ * Fetches the same content from several URLs at once and returns the first
+ * complete download. Slower requests are aborted once one succeeds, and each
+ * request is aborted if it does not finish within the timeout.
+ * @param urls The candidate URLs
+ * @param timeoutMs Time allowed for each request, body included
+ * @returns The downloaded content
+ * @throws GatewayError if every URL fails
+ */
+export const raceGateways = (urls: string[], timeoutMs: number = getGatewayTimeoutMs()): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const controllers = urls.map(() => new AbortController());
+    const failures: unknown[] = [];
+    let settled = false;
+
+    urls.forEach((url, index) => {
+      const controller = controllers[index];
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      fetch(url, { signal: controller.signal })
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error(`${url} responded with ${response.status} ${response.statusText}`);
+          }
+          return response.blob();
+        })
+        .then((blob) => {
+          if (settled) return;
+          settled = true;
+          controllers.forEach((other) => other !== controller && other.abort());
+          resolve(blob);
+        })
+        .catch((error) => {
+          failures.push(error);
+          if (!settled && failures.length === urls.length) {
+            reject(new GatewayError(urls, failures));
+          }
+        })
+        .finally(() => clearTimeout(timer));
+    });
+  });
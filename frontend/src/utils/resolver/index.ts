@@ -0,0 +1,130 @@
+import { NFTMetadata } from '../../types/nft';
+import { ParsedUri } from '../../types/resolver';
+import { getCacheKey, parseUri } from './uri';
+import { getCandidateUrls, raceGateways } from './gateways';
+import { getCached, putCached } from './cache';
+import { ResolveError } from './errors';
+
+// http(s) content can change, so it is only reused for a while
+const HTTP_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Larger media is still shown but not kept in IndexedDB
+const MAX_CACHED_MEDIA_BYTES = 20 * 1024 * 1024;
+
+type RemoteUri = Exclude<ParsedUri, { kind: 'data' }>;
+
+// Concurrent requests for the same content share one download
+const inFlight = new Map<string, Promise<unknown>>();
+
+// Object URLs handed out this session, so each media file is only wrapped once
+const mediaUrls = new Map<string, string>();
+
+const dedupe = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+  const promise = load().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+};
+
+// Content addressed by IPFS or Arweave never changes
+const getMaxAge = (parsed: RemoteUri) => (parsed.kind === 'http' ? HTTP_CACHE_TTL_MS : undefined);
+
+const parseMetadata = (text: string): NFTMetadata => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new ResolveError('Metadata is not valid JSON', error);
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ResolveError('Metadata is not a JSON object');
+  }
+  return value as NFTMetadata;
+};
+
+/**
+ * Resolves a token URI to its metadata JSON. Remote metadata is fetched from
+ * every configured gateway at once and cached in IndexedDB.
+ * @param tokenURI A data:, ipfs://, ar:// or http(s) URI
+ * @returns The parsed metadata
+ * @throws ResolveError if the URI is unsupported, unreachable or not JSON
+ */
+export const resolveMetadata = async (tokenURI: string): Promise<NFTMetadata> => {
+  const parsed = parseUri(tokenURI);
+  if (parsed.kind === 'data') {
+    return parseMetadata(new TextDecoder().decode(parsed.bytes));
+  }
+
+  const key = getCacheKey(parsed);
+  return dedupe(`metadata:${key}`, async () => {
+    const cached = await getCached<NFTMetadata>('metadata', key, getMaxAge(parsed));
+    if (cached) return cached;
+
+    const blob = await raceGateways(getCandidateUrls(parsed));
+    const metadata = parseMetadata(await blob.text());
+    await putCached('metadata', key, metadata);
+    return metadata;
+  });
+};
+
+/**
+ * Resolves an image or other media URI to a URL the browser can display.
+ * IPFS and Arweave content is downloaded from the fastest gateway and cached
+ * in IndexedDB; http(s) and data: URIs are returned unchanged.
+ * @param uri The media URI from the metadata
+ * @returns A URL for an img or video element, or an empty string if uri is empty
+ */
+export const resolveMediaUrl = async (uri: string): Promise<string> => {
+  if (!uri) return '';
+
+  let parsed: ParsedUri;
+  try {
+    parsed = parseUri(uri);
+  } catch (error) {
+    console.warn(error);
+    return uri;
+  }
+  // Remote images load fine in an img element but usually cannot be fetched without CORS
+  if (parsed.kind === 'data' || parsed.kind === 'http') {
+    return uri;
+  }
+
+  const key = getCacheKey(parsed);
+  const existing = mediaUrls.get(key);
+  if (existing) return existing;
+
+  return dedupe(`media:${key}`, async () => {
+    let blob = await getCached<Blob>('media', key);
+    if (!blob) {
+      try {
+        blob = await raceGateways(getCandidateUrls(parsed));
+      } catch (error) {
+        // Let the browser retry the primary gateway itself
+        console.error(`Error fetching ${uri}:`, error);
+        return getCandidateUrls(parsed)[0];
+      }
+      if (blob.size <= MAX_CACHED_MEDIA_BYTES) {
+        await putCached('media', key, blob);
+      }
+    }
+
+    const url = URL.createObjectURL(blob);
+    mediaUrls.set(key, url);
+    return url;
+  });
+};
+
+/**
+ * Returns a shareable http(s) URL for a URI, without fetching anything
+ * @param uri An ipfs://, ar:// or http(s) URI
+ * @returns The URL on the primary gateway, or the URI itself if it cannot be parsed
+ */
+export const getPublicUrl = (uri: string): string => {
+  try {
+    const parsed = parseUri(uri);
+    return parsed.kind === 'data' ? uri : getCandidateUrls(parsed)[0];
+  } catch {
+    return uri;
+  }
+};
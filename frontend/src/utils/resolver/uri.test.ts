@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { getCacheKey, parseUri } from './uri';
+import { UnsupportedUriError } from './errors';
+
+const CID_V0 = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+const CID_V1 = 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi';
+
+describe('parseUri', () => {
+  it.each([
+    ['base64', 'data:application/json;base64,eyJuYW1lIjoiT25lIn0=', 'application/json', '{"name":"One"}'],
+    ['base64 with a charset', 'data:application/json;charset=utf-8;base64,eyJuYW1lIjoiT25lIn0=', 'application/json', '{"name":"One"}'],
+    ['percent-encoded', 'data:application/json,%7B%22name%22%3A%22One%22%7D', 'application/json', '{"name":"One"}'],
+    ['plain text without a media type', 'data:,hello%20world', 'text/plain', 'hello world'],
+    ['percent-encoded base64', 'data:image/svg+xml;base64,PHN2Zy8%2B', 'image/svg+xml', '<svg/>'],
+  ])('decodes a %s data URI', (_form, uri, mediaType, text) => {
+    const parsed = parseUri(uri);
+
+    expect(parsed).toMatchObject({ kind: 'data', mediaType });
+    expect(parsed.kind === 'data' && new TextDecoder().decode(parsed.bytes)).toBe(text);
+  });
+
+  it('accepts URL-safe base64 without padding', () => {
+    const parsed = parseUri('data:application/octet-stream;base64,-_8');
+
+    expect(parsed.kind === 'data' && [...parsed.bytes]).toEqual([0xfb, 0xff]);
+  });
+
+  it.each([
+    ['ipfs://', `ipfs://${CID_V1}/metadata.json`, { kind: 'ipfs', path: `${CID_V1}/metadata.json` }],
+    ['ipfs://ipfs/', `ipfs://ipfs/${CID_V1}/metadata.json`, { kind: 'ipfs', path: `${CID_V1}/metadata.json` }],
+    ['/ipfs/', `/ipfs/${CID_V0}`, { kind: 'ipfs', path: CID_V0 }],
+    ['a gateway path URL', `https://w3s.link/ipfs/${CID_V1}/metadata.json`, { kind: 'ipfs', path: `${CID_V1}/metadata.json` }],
+    ['a bare CIDv0', CID_V0, { kind: 'ipfs', path: CID_V0 }],
+    ['a bare CIDv1 with a path', `${CID_V1}/1.json`, { kind: 'ipfs', path: `${CID_V1}/1.json` }],
+    ['ar://', 'ar://bNbA3TEQVL60xlgCcqdz4ZPHFZ711cZ3hmkpGttDt_U', { kind: 'arweave', path: 'bNbA3TEQVL60xlgCcqdz4ZPHFZ711cZ3hmkpGttDt_U' }],
+    ['an http URL', 'https://example.com/1.json', { kind: 'http', url: 'https://example.com/1.json' }],
+  ])('parses %s', (_form, uri, expected) => {
+    expect(parseUri(uri)).toEqual(expected);
+  });
+
+  it.each([
+    ['a data URI with no comma', 'data:application/json;base64', 'data URI has no payload'],
+    ['a data URI with invalid base64', 'data:application/json;base64,*', 'invalid base64 payload'],
+    ['an empty CID', 'ipfs://', 'missing CID'],
+    ['an ipfs:// URI with only ipfs/', 'ipfs://ipfs/', 'missing CID'],
+    ['an empty Arweave ID', 'ar://', 'missing transaction ID'],
+    ['an unknown scheme', 'ftp://example.com/1.json', 'unsupported scheme'],
+  ])('rejects %s', (_form, uri, reason) => {
+    expect(() => parseUri(uri)).toThrow(UnsupportedUriError);
+    expect(() => parseUri(uri)).toThrow(reason);
+  });
+});
+
+describe('getCacheKey', () => {
+  it('gives every form of the same IPFS content the same key', () => {
+    const keys = [
+      `ipfs://${CID_V1}/metadata.json`,
+      `ipfs://ipfs/${CID_V1}/metadata.json`,
+      `/ipfs/${CID_V1}/metadata.json`,
+      `https://w3s.link/ipfs/${CID_V1}/metadata.json`,
+      `https://ipfs.io/ipfs/${CID_V1}/metadata.json`,
+      `${CID_V1}/metadata.json`,
+    ].map((uri) => {
+      const parsed = parseUri(uri);
+      if (parsed.kind === 'data') throw new Error('Unexpected data URI');
+      return getCacheKey(parsed);
+    });
+
+    expect(new Set(keys)).toEqual(new Set([`ipfs://${CID_V1}/metadata.json`]));
+  });
+
+  it('keeps Arweave and http keys apart from IPFS ones', () => {
+    expect(getCacheKey({ kind: 'arweave', path: 'tx/1.json' })).toBe('ar://tx/1.json');
+    expect(getCacheKey({ kind: 'http', url: 'https://example.com/1.json' })).toBe('https://example.com/1.json');
+  });
+});
@@ -0,0 +1,119 @@
+import { ParsedUri } from '../../types/resolver';
+import { UnsupportedUriError } from './errors';
+
+// CIDv0 (base58btc) or CIDv1 (base32), optionally followed by a path
+const BARE_CID = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(\/.*)?$/;
+
+// Path-style gateway URLs such as https://w3s.link/ipfs/<cid>/file.json
+const GATEWAY_PATH = /^https?:\/\/[^/]+\/ipfs\/(.+)$/i;
+
+// Percent-decodes, leaving the input untouched if it contains a stray '%'
+const percentDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const base64ToBytes = (value: string): Uint8Array => {
+  // Accept the URL-safe alphabet, whitespace and missing padding
+  const normalized = value.replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+// Strips the scheme and any ipfs/ segments some minters prepend to the CID
+const normalizeIpfsPath = (value: string): string => value.replace(/^(?:\/*ipfs\/+)+/i, '').replace(/^\/+/, '');
+
+/**
+ * Parses a data: URI, either base64 or percent-encoded
+ * @param uri The data URI
+ * @returns The media type and decoded bytes
+ */
+const parseDataUri = (uri: string): ParsedUri => {
+  const comma = uri.indexOf(',');
+  if (comma === -1) {
+    throw new UnsupportedUriError(uri, 'data URI has no payload');
+  }
+
+  const [mediaType, ...params] = uri.slice('data:'.length, comma).split(';');
+  const payload = percentDecode(uri.slice(comma + 1));
+  const isBase64 = params.some((param) => param.trim().toLowerCase() === 'base64');
+
+  try {
+    return {
+      kind: 'data',
+      mediaType: mediaType.trim() || 'text/plain',
+      bytes: isBase64 ? base64ToBytes(payload) : new TextEncoder().encode(payload),
+    };
+  } catch (error) {
+    throw new UnsupportedUriError(uri, `invalid base64 payload (${error instanceof Error ? error.message : error})`);
+  }
+};
+
+/**
+ * Works out where the content behind a token or media URI lives. Handles
+ * data: URIs, ipfs:// (including ipfs://ipfs/ and bare CIDs), path-style
+ * gateway URLs, ar:// and plain http(s) URLs.
+ * @param uri The URI as stored on-chain or in metadata
+ * @returns The parsed location
+ * @throws UnsupportedUriError if the URI cannot be resolved
+ */
+export const parseUri = (uri: string): ParsedUri => {
+  const trimmed = uri.trim();
+  const lower = trimmed.toLowerCase();
+
+  if (lower.startsWith('data:')) {
+    return parseDataUri(trimmed);
+  }
+
+  if (lower.startsWith('ipfs://') || lower.startsWith('/ipfs/')) {
+    const path = normalizeIpfsPath(trimmed.replace(/^ipfs:\/\//i, ''));
+    if (!path) {
+      throw new UnsupportedUriError(uri, 'missing CID');
+    }
+    return { kind: 'ipfs', path };
+  }
+
+  if (lower.startsWith('ar://')) {
+    const path = trimmed.slice('ar://'.length).replace(/^\/+/, '');
+    if (!path) {
+      throw new UnsupportedUriError(uri, 'missing transaction ID');
+    }
+    return { kind: 'arweave', path };
+  }
+
+  // Content pinned behind a single gateway can be fetched from any other
+  const gatewayMatch = trimmed.match(GATEWAY_PATH);
+  if (gatewayMatch) {
+    return { kind: 'ipfs', path: gatewayMatch[1] };
+  }
+
+  if (lower.startsWith('https://') || lower.startsWith('http://')) {
+    return { kind: 'http', url: trimmed };
+  }
+
+  if (BARE_CID.test(trimmed)) {
+    return { kind: 'ipfs', path: trimmed };
+  }
+
+  throw new UnsupportedUriError(uri, 'unsupported scheme');
+};
+
+/**
+ * Key under which resolved content is cached; equal for URIs that point at
+ * the same content through different forms
+ * @param parsed A parsed non-data URI
+ * @returns The cache key
+ */
+export const getCacheKey = (parsed: Exclude<ParsedUri, { kind: 'data' }>): string => {
+  switch (parsed.kind) {
+    case 'ipfs':
+      return `ipfs://${parsed.path}`;
+    case 'arweave':
+      return `ar://${parsed.path}`;
+    case 'http':
+      return parsed.url;
+  }
+};
@@ -0,0 +1,36 @@
+interface RetryOptions {
+  /** Total attempts including the first one */
+  attempts: number;
+  /** Delay before the first retry; doubles on each further retry */
+  baseDelayMs: number;
+  /** Decides whether a failure is worth another attempt */
+  shouldRetry: (error: unknown) => boolean;
+  /** Called before waiting for the next attempt */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs an async operation, retrying failures with exponential backoff and jitter
+ * @param operation The operation to run; receives the 1-based attempt number
+ * @param options Attempt count, backoff and retry policy
+ * @returns The operation's result from the first successful attempt
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.attempts || !options.shouldRetry(error)) {
+        throw error;
+      }
+      const delayMs = options.baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+      options.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
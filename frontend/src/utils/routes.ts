@@ -0,0 +1,17 @@
+import { NetworkConfig } from '../types/network';
+
+/**
+ * Builds the shareable path of a token detail page. The network is part of the
+ * URL so the link opens the same token whatever network the visitor last used,
+ * and so is the collection unless it is the network's shared one.
+ * @param network The network the token lives on
+ * @param tokenId The token ID
+ * @param collectionAddress The collection the token belongs to
+ */
+export const getTokenPath = (network: NetworkConfig, tokenId: bigint | string, collectionAddress?: string) => {
+  const path = `/token/${tokenId}?network=${encodeURIComponent(network.id)}`;
+  const shared = network.contracts.NFTMinter?.address;
+  return collectionAddress && collectionAddress.toLowerCase() !== shared?.toLowerCase()
+    ? `${path}&collection=${collectionAddress}`
+    : path;
+};
@@ -0,0 +1,34 @@
+import { encodeFile } from '@web3-storage/upload-client/unixfs';
+import * as UnixFS from '@ipld/unixfs';
+import * as raw from 'multiformats/codecs/raw';
+import { withMaxChunkSize } from '@ipld/unixfs/file/chunker/fixed';
+import { withWidth } from '@ipld/unixfs/file/layout/balanced';
+
+// Matches `ipfs add --cid-version=1` on Kubo and Pinata's CIDv1 pins:
+// 256 KiB fixed chunks, raw leaves, balanced DAG with 174 links per node
+const KUBO_SETTINGS = UnixFS.configure({
+  fileChunkEncoder: raw,
+  smallFileEncoder: raw,
+  chunker: withMaxChunkSize(256 * 1024),
+  fileLayout: withWidth(174),
+});
+
+/**
+ * Computes the root CID w3up assigns to a file (1 MiB chunks, 1024-wide layout)
+ * @param file The file bytes
+ * @returns The CIDv1 string
+ */
+export const computeW3upCid = async (file: Blob): Promise<string> => {
+  const { cid } = await encodeFile(file);
+  return cid.toString();
+};
+
+/**
+ * Computes the root CID a Kubo node or Pinata assigns to a file added as CIDv1
+ * @param file The file bytes
+ * @returns The CIDv1 string
+ */
+export const computeKuboCid = async (file: Blob): Promise<string> => {
+  const { cid } = await encodeFile(file, { settings: KUBO_SETTINGS });
+  return cid.toString();
+};
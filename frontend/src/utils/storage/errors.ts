@@ -0,0 +1,47 @@
+/**
+ * Base class for storage failures. Uploads never fall back to placeholder
+ * content; callers get one of these instead.
+ */
+export class StorageError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+    this.cause = cause;
+  }
+}
+
+/** The selected provider is missing credentials or is misconfigured */
+export class StorageConfigError extends StorageError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageConfigError';
+  }
+}
+
+/** The provider rejected the upload or could not be reached */
+export class StorageUploadError extends StorageError {
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryable: boolean; cause?: unknown }) {
+    super(message, options.cause);
+    this.name = 'StorageUploadError';
+    this.status = options.status;
+    this.retryable = options.retryable;
+  }
+}
+
+/** The provider returned a CID that does not match the locally computed one */
+export class CidMismatchError extends StorageError {
+  readonly expected: string;
+  readonly actual: string;
+
+  constructor(expected: string, actual: string) {
+    super(`Storage provider returned CID ${actual}, expected ${expected}`);
+    this.name = 'CidMismatchError';
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
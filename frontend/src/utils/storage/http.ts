@@ -0,0 +1,56 @@
+import { UploadProgress } from '../../types/storage';
+import { StorageUploadError } from './errors';
+
+interface PostFormOptions {
+  headers?: Record<string, string>;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * POSTs multipart form data and parses the JSON response. Uses XMLHttpRequest
+ * because fetch does not report upload progress.
+ * @param url The endpoint to post to
+ * @param body The form data to send
+ * @param options Extra headers and a byte-level progress callback
+ * @returns The parsed response body
+ */
+export const postForm = <T>(url: string, body: FormData, options: PostFormOptions = {}): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        options.onProgress?.({ loaded: event.loaded, total: event.total });
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new StorageUploadError(`Upload failed: ${xhr.status} ${xhr.statusText}`, {
+          status: xhr.status,
+          // Rate limits and server errors are worth another attempt
+          retryable: xhr.status === 429 || xhr.status >= 500,
+        }));
+        return;
+      }
+      try {
+        resolve(JSON.parse(xhr.responseText));
+      } catch (error) {
+        reject(new StorageUploadError('Upload returned an invalid response', {
+          status: xhr.status,
+          retryable: false,
+          cause: error,
+        }));
+      }
+    };
+
+    xhr.onerror = () => {
+      reject(new StorageUploadError(`Could not reach ${new URL(url).host}`, { retryable: true }));
+    };
+
+    xhr.send(body);
+  });
@@ -0,0 +1,37 @@
+import { StorageProvider, StorageProviderName } from '../../types/storage';
+import { createW3upProvider } from './w3up';
+import { createPinataProvider } from './pinata';
+import { createKuboProvider } from './kubo';
+import { createMemoryProvider } from './memory';
+import { StorageConfigError } from './errors';
+import { isDemoMode } from '../demo';
+
+const DEFAULT_STORAGE_PROVIDER: StorageProviderName = 'w3up';
+
+const providerFactories: Record<StorageProviderName, () => StorageProvider> = {
+  w3up: createW3upProvider,
+  pinata: createPinataProvider,
+  kubo: createKuboProvider,
+  memory: createMemoryProvider,
+};
+
+let provider: StorageProvider | null = null;
+
+/**
+ * Returns the storage provider selected by VITE_STORAGE_PROVIDER
+ * (w3up, pinata, kubo or memory), creating it on first use. Demo mode
+ * always keeps uploads in memory.
+ */
+export const getStorageProvider = (): StorageProvider => {
+  if (!provider) {
+    const name = isDemoMode()
+      ? 'memory'
+      : (import.meta.env.VITE_STORAGE_PROVIDER || DEFAULT_STORAGE_PROVIDER) as StorageProviderName;
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new StorageConfigError(`Unknown storage provider: ${name}`);
+    }
+    provider = factory();
+  }
+  return provider;
+};
@@ -0,0 +1,39 @@
+import { StorageProvider } from '../../types/storage';
+import { computeKuboCid } from './cid';
+import { postForm } from './http';
+
+const DEFAULT_KUBO_API_URL = 'http://127.0.0.1:5001';
+const DEFAULT_KUBO_GATEWAY = 'http://127.0.0.1:8080/ipfs/';
+
+interface KuboAddResponse {
+  Name: string;
+  Hash: string;
+  Size: string;
+}
+
+/**
+ * Creates a storage provider for a self-hosted Kubo node's HTTP RPC API.
+ * The node must allow the app's origin in API.HTTPHeaders.Access-Control-Allow-Origin.
+ */
+export const createKuboProvider = (): StorageProvider => {
+  const apiUrl = import.meta.env.VITE_KUBO_API_URL || DEFAULT_KUBO_API_URL;
+  const gateway = import.meta.env.VITE_KUBO_GATEWAY || DEFAULT_KUBO_GATEWAY;
+
+  return {
+    name: 'kubo',
+
+    upload: async (file, options) => {
+      const body = new FormData();
+      body.append('file', file, file.name);
+
+      const result = await postForm<KuboAddResponse>(`${apiUrl}/api/v0/add?cid-version=1&pin=true`, body, {
+        onProgress: options?.onProgress,
+      });
+      return result.Hash;
+    },
+
+    computeCid: computeKuboCid,
+
+    getGatewayUrl: (cid) => `${gateway}${cid}`,
+  };
+};
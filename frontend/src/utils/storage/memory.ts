@@ -0,0 +1,31 @@
+import { StorageProvider } from '../../types/storage';
+import { computeW3upCid } from './cid';
+
+// Used for CIDs that were not uploaded in this session
+const FALLBACK_GATEWAY = 'https://w3s.link/ipfs/';
+
+/**
+ * Creates a storage provider that keeps uploads in memory for offline
+ * development. CIDs are computed with the same UnixFS settings as w3up, and
+ * content is served from object URLs until the page is reloaded.
+ */
+export const createMemoryProvider = (): StorageProvider => {
+  const objectUrls = new Map<string, string>();
+
+  return {
+    name: 'memory',
+
+    upload: async (file, options) => {
+      const cid = await computeW3upCid(file);
+      if (!objectUrls.has(cid)) {
+        objectUrls.set(cid, URL.createObjectURL(file));
+      }
+      options?.onProgress?.({ loaded: file.size, total: file.size });
+      return cid;
+    },
+
+    computeCid: computeW3upCid,
+
+    getGatewayUrl: (cid) => objectUrls.get(cid) ?? `${FALLBACK_GATEWAY}${cid}`,
+  };
+};
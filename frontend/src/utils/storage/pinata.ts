@@ -0,0 +1,42 @@
+import { PinataResponse } from '../../types/nft';
+import { StorageProvider } from '../../types/storage';
+import { computeKuboCid } from './cid';
+import { StorageConfigError } from './errors';
+import { postForm } from './http';
+
+const PINATA_API_URL = 'https://api.pinata.cloud';
+const DEFAULT_PINATA_GATEWAY = 'https://gateway.pinata.cloud/ipfs/';
+
+/**
+ * Creates a storage provider that pins through the Pinata REST API,
+ * authenticated with the VITE_PINATA_JWT access token.
+ */
+export const createPinataProvider = (): StorageProvider => {
+  const gateway = import.meta.env.VITE_PINATA_GATEWAY || DEFAULT_PINATA_GATEWAY;
+
+  return {
+    name: 'pinata',
+
+    upload: async (file, options) => {
+      const jwt = import.meta.env.VITE_PINATA_JWT;
+      if (!jwt) {
+        throw new StorageConfigError('PINATA_JWT environment variable is not set');
+      }
+
+      const body = new FormData();
+      body.append('file', file, file.name);
+      body.append('pinataMetadata', JSON.stringify({ name: file.name }));
+      body.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+
+      const result = await postForm<PinataResponse>(`${PINATA_API_URL}/pinning/pinFileToIPFS`, body, {
+        headers: { Authorization: `Bearer ${jwt}` },
+        onProgress: options?.onProgress,
+      });
+      return result.IpfsHash;
+    },
+
+    computeCid: computeKuboCid,
+
+    getGatewayUrl: (cid) => `${gateway}${cid}`,
+  };
+};
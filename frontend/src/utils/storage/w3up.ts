@@ -0,0 +1,67 @@
+import { create } from '@web3-storage/w3up-client';
+import { StorageProvider } from '../../types/storage';
+import { computeW3upCid } from './cid';
+import { StorageConfigError, StorageUploadError } from './errors';
+
+// IPFS gateway for viewing content
+const W3UP_GATEWAY = 'https://w3s.link/ipfs/';
+
+type W3upClient = Awaited<ReturnType<typeof create>>;
+
+/**
+ * Creates a storage provider backed by Web3.Storage (w3up). The client logs
+ * in with VITE_W3UP_EMAIL on first upload.
+ */
+export const createW3upProvider = (): StorageProvider => {
+  let client: W3upClient | null = null;
+  let spaceReady = false;
+
+  const initialize = async (): Promise<W3upClient> => {
+    const email = import.meta.env.VITE_W3UP_EMAIL;
+    if (!email) {
+      throw new StorageConfigError('W3UP_EMAIL environment variable is not set');
+    }
+
+    if (!client) {
+      client = await create();
+    }
+
+    if (!spaceReady) {
+      const account = await client.login(email);
+
+      // Wait for payment plan if needed
+      await account.plan.wait();
+
+      const space = await client.createSpace('nft-storage-space', {
+        account,
+        skipGatewayAuthorization: false, // Allow gateway to serve content
+      });
+      await client.setCurrentSpace(space.did());
+      spaceReady = true;
+    }
+
+    return client;
+  };
+
+  return {
+    name: 'w3up',
+
+    upload: async (file, options) => {
+      const w3up = await initialize();
+      try {
+        const cid = await w3up.uploadFile(file, {
+          // Retries are handled by the caller so progress restarts cleanly
+          retries: 0,
+          onUploadProgress: ({ loaded, total }) => options?.onProgress?.({ loaded, total }),
+        });
+        return cid.toString();
+      } catch (error) {
+        throw new StorageUploadError('w3up upload failed', { retryable: true, cause: error });
+      }
+    },
+
+    computeCid: computeW3upCid,
+
+    getGatewayUrl: (cid) => `${W3UP_GATEWAY}${cid}`,
+  };
+};
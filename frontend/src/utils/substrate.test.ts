@@ -0,0 +1,69 @@
+import type { ApiPromise } from '@polkadot/api';
+import { ethers } from 'ethers';
+import { encodeAddress } from '@polkadot/util-crypto';
+import { describe, expect, it } from 'vitest';
+import { checkExistentialDeposit, formatNativeAmount, getAccountMapping, toNativeAmount } from './substrate';
+import { getNetworkById } from '../constants/networks';
+import { NativeBalance } from '../types/substrate';
+
+const network = getNetworkById('westend-asset-hub')!;
+const H160 = '0x7c77d685560f02ffb9F9B58245c06e1124502450';
+const POLKADOT_ACCOUNT = ethers.getBytes(ethers.id('polkadot account'));
+
+// An API whose revive.originalAccount holds the given account for every H160
+const createApi = (original: Uint8Array | null) => ({
+  query: {
+    revive: {
+      originalAccount: async () => ({ isSome: original !== null, unwrap: () => ({ toU8a: () => original }) }),
+    },
+  },
+}) as unknown as ApiPromise;
+
+// 12 native decimals, as on Westend
+const balance = (free: bigint): NativeBalance => ({
+  free,
+  reserved: 0n,
+  frozen: 0n,
+  existentialDeposit: 1_000_000_000n,
+  decimals: 12,
+  symbol: 'WND',
+});
+
+describe('getAccountMapping', () => {
+  it('pads an unmapped H160 with 0xEE bytes', async () => {
+    const accountId = `${H160.toLowerCase()}${'ee'.repeat(12)}`;
+
+    expect(await getAccountMapping(createApi(null), network, H160.toLowerCase())).toEqual({
+      h160: H160,
+      accountId,
+      ss58: encodeAddress(accountId, network.ss58Prefix),
+      kind: 'eth-derived',
+    });
+  });
+
+  it('uses the Polkadot account registered for the H160', async () => {
+    expect(await getAccountMapping(createApi(POLKADOT_ACCOUNT), network, H160)).toMatchObject({
+      accountId: ethers.hexlify(POLKADOT_ACCOUNT),
+      ss58: encodeAddress(POLKADOT_ACCOUNT, network.ss58Prefix),
+      kind: 'mapped',
+    });
+  });
+});
+
+describe('checkExistentialDeposit', () => {
+  it('converts wei to native units, rounding the cost up', () => {
+    expect(toNativeAmount(1_000_000n, network, balance(0n))).toBe(1n);
+    expect(toNativeAmount(1_000_001n, network, balance(0n))).toBe(2n);
+  });
+
+  it('flags a payment that leaves less than the existential deposit', () => {
+    const cost = ethers.parseEther('0.001');
+
+    expect(checkExistentialDeposit(balance(2_000_000_000n), cost, network)).toEqual({ remaining: 1_000_000_000n, belowExistentialDeposit: false });
+    expect(checkExistentialDeposit(balance(1_999_999_999n), cost, network)).toEqual({ remaining: 999_999_999n, belowExistentialDeposit: true });
+  });
+
+  it('formats native amounts with the chain decimals and symbol', () => {
+    expect(formatNativeAmount(1_500_000_000_000n, balance(0n))).toBe('1.5 WND');
+  });
+});
@@ -0,0 +1,63 @@
+import type { ApiPromise } from '@polkadot/api';
+import { NetworkConfig } from '../types/network';
+import { NativeAccount } from '../types/substrate';
+import { isDemoMode } from './demo';
+import { getAccountMapping, getNativeBalance } from '../../../asset-hub-project/src/substrate';
+
+// The account service itself is shared with the asset-hub CLI
+export {
+  checkExistentialDeposit,
+  formatNativeAmount,
+  getAccountMapping,
+  getNativeBalance,
+  toNativeAmount,
+} from '../../../asset-hub-project/src/substrate';
+
+// One connection per network; @polkadot/api is only loaded once an account is shown
+const apis = new Map<string, Promise<ApiPromise>>();
+
+/**
+ * Whether a network's Substrate side can be queried. Demo chains only
+ * simulate the EVM side.
+ */
+export const hasSubstrateRpc = (network: NetworkConfig): boolean =>
+  !isDemoMode() && (network.substrateRpcUrls?.length ?? 0) > 0;
+
+/**
+ * Connects to a network's Substrate RPC, reusing the connection
+ * @param network The network, with substrateRpcUrls
+ * @returns The ready API
+ * @throws Error if the network has no Substrate RPC or none of its endpoints answers
+ */
+export const getSubstrateApi = (network: NetworkConfig): Promise<ApiPromise> => {
+  const existing = apis.get(network.id);
+  if (existing) return existing;
+  if (!hasSubstrateRpc(network)) {
+    return Promise.reject(new Error(`No Substrate RPC is configured for ${network.name}`));
+  }
+
+  const connecting = import('@polkadot/api').then(async ({ ApiPromise, WsProvider }) => {
+    const provider = new WsProvider(network.substrateRpcUrls);
+    try {
+      return await ApiPromise.create({ provider, throwOnConnect: true, noInitWarn: true });
+    } catch (error) {
+      await provider.disconnect();
+      throw error;
+    }
+  });
+  // A failed connection is retried on the next call
+  connecting.catch(() => apis.delete(network.id));
+  apis.set(network.id, connecting);
+  return connecting;
+};
+
+/**
+ * Loads both identities of an H160 and the balances of its Substrate account
+ * @param network The network, with substrateRpcUrls
+ * @param h160 The Ethereum address
+ */
+export const loadNativeAccount = async (network: NetworkConfig, h160: string): Promise<NativeAccount> => {
+  const api = await getSubstrateApi(network);
+  const mapping = await getAccountMapping(api, network, h160);
+  return { mapping, balance: await getNativeBalance(api, mapping.accountId) };
+};
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { getOwnedTokenIds, getTokenProvenance } from './tokens';
+import { NFTMinterContract } from '../contracts/NFTMinter';
+import { LOG_CHUNK_SIZE } from '../constants/contract';
+
+const ALICE = '0x00000000000000000000000000000000000000a1';
+const BOB = '0x00000000000000000000000000000000000000b0';
+
+interface Transfer {
+  from: string;
+  to: string;
+  tokenId: bigint;
+  blockNumber: number;
+}
+
+// A collection whose RPC rejects log ranges wider than maxRange, recording every range asked for
+const fakeCollection = (transfers: Transfer[], { head = 30_000, maxRange = LOG_CHUNK_SIZE } = {}) => {
+  const ranges: [number, number][] = [];
+  const owners = new Map(transfers.map(({ to, tokenId }) => [tokenId, to]));
+  const contract = {
+    runner: {
+      provider: {
+        getBlockNumber: async () => head,
+        getBlock: async (blockNumber: number) => ({ timestamp: 1_700_000_000 + blockNumber }),
+      },
+    },
+    filters: {
+      Transfer: (from: string | null, to: string | null, tokenId?: bigint) => ({ from, to, tokenId }),
+    },
+    queryFilter: vi.fn(async (filter: Partial<Transfer>, fromBlock: number, toBlock: number) => {
+      ranges.push([fromBlock, toBlock]);
+      if (toBlock - fromBlock + 1 > maxRange) {
+        throw Object.assign(new Error('could not coalesce error'), { error: { code: -32005, message: 'block range too large' } });
+      }
+      return transfers
+        .filter((transfer) => transfer.blockNumber >= fromBlock && transfer.blockNumber <= toBlock)
+        .filter((transfer) => (filter.to ?? transfer.to) === transfer.to && (filter.tokenId ?? transfer.tokenId) === transfer.tokenId)
+        .map((transfer) => ({ args: transfer, blockNumber: transfer.blockNumber, transactionHash: `0x${transfer.blockNumber}` }));
+    }),
+    ownerOf: async (tokenId: bigint) => {
+      const owner = owners.get(tokenId);
+      if (!owner || owner === ethers.ZeroAddress) throw new Error('ERC721NonexistentToken');
+      return owner;
+    },
+  };
+  return { contract: contract as unknown as NFTMinterContract, ranges, queryFilter: contract.queryFilter };
+};
+
+describe('getOwnedTokenIds', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('scans from the deploy block in chunks and keeps the tokens still owned', async () => {
+    const { contract, ranges } = fakeCollection([
+      { from: ethers.ZeroAddress, to: ALICE, tokenId: 2n, blockNumber: 12_000 },
+      { from: ethers.ZeroAddress, to: ALICE, tokenId: 1n, blockNumber: 5_000 },
+      { from: ethers.ZeroAddress, to: BOB, tokenId: 3n, blockNumber: 5_001 },
+      { from: ethers.ZeroAddress, to: ALICE, tokenId: 4n, blockNumber: 6_000 },
+      { from: ALICE, to: BOB, tokenId: 4n, blockNumber: 7_000 },
+    ], { head: 25_000 });
+
+    expect(await getOwnedTokenIds(contract, ALICE, 1_000)).toEqual([1n, 2n]);
+    expect(ranges).toEqual([[1_000, 10_999], [11_000, 20_999], [21_000, 25_000]]);
+  });
+
+  it('splits ranges the RPC rejects as too large without skipping blocks', async () => {
+    const { contract, ranges } = fakeCollection([
+      { from: ethers.ZeroAddress, to: ALICE, tokenId: 1n, blockNumber: 2_499 },
+      { from: ethers.ZeroAddress, to: ALICE, tokenId: 2n, blockNumber: 2_500 },
+      { from: ethers.ZeroAddress, to: ALICE, tokenId: 3n, blockNumber: 9_999 },
+    ], { head: 9_999, maxRange: 3_000 });
+
+    expect(await getOwnedTokenIds(contract, ALICE, 0)).toEqual([1n, 2n, 3n]);
+    expect(ranges).toEqual([[0, 9_999], [0, 4_999], [0, 2_499], [2_500, 4_999], [5_000, 7_499], [7_500, 9_999]]);
+    expect(console.warn).toHaveBeenCalledWith('getLogs range rejected, retrying with 2500 block ranges:', 'could not coalesce error');
+  });
+
+  it('fails on errors that are not about the range', async () => {
+    const { contract, queryFilter } = fakeCollection([]);
+    queryFilter.mockRejectedValueOnce(new Error('connection refused'));
+
+    await expect(getOwnedTokenIds(contract, ALICE, 0)).rejects.toThrow('connection refused');
+    expect(queryFilter).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getTokenProvenance', () => {
+  it('lists the mint, transfers and burn of a token with their block times', async () => {
+    const { contract } = fakeCollection([
+      { from: ethers.ZeroAddress, to: ALICE, tokenId: 1n, blockNumber: 100 },
+      { from: ethers.ZeroAddress, to: BOB, tokenId: 2n, blockNumber: 150 },
+      { from: ALICE, to: BOB, tokenId: 1n, blockNumber: 200 },
+      { from: BOB, to: ethers.ZeroAddress, tokenId: 1n, blockNumber: 300 },
+    ], { head: 400 });
+
+    const provenance = await getTokenProvenance(contract, 1n, 0);
+
+    expect(provenance.map(({ kind, blockNumber, timestamp }) => ({ kind, blockNumber, timestamp }))).toEqual([
+      { kind: 'mint', blockNumber: 100, timestamp: 1_700_000_100 },
+      { kind: 'transfer', blockNumber: 200, timestamp: 1_700_000_200 },
+      { kind: 'burn', blockNumber: 300, timestamp: 1_700_000_300 },
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import { ethers } from 'ethers';
+import { resolveMediaUrl, resolveMetadata } from './resolver';
+import { resolveAnimation } from './media';
+import { NFTMetadata, OwnedNFT, ProvenanceEvent } from '../types/nft';
+import { NFTMinterContract, parseNFTMinterLog } from '../contracts/NFTMinter';
+import { createLogRangeReader } from './logs';
+
+const getProvider = (contract: NFTMinterContract): ethers.Provider => {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error('Contract is not connected to a provider');
+  }
+  return provider;
+};
+
+/**
+ * Queries Transfer logs matching a filter in chunks from the deploy block, so
+ * RPCs that cap the eth_getLogs block range can still answer. Chunks the RPC
+ * rejects as too large are split.
+ * @param contract The NFT contract instance (must be connected to a provider)
+ * @param filter The Transfer filter
+ * @param deployBlock The block the contract was deployed in
+ * @returns The matching logs, oldest first
+ */
+const queryTransfers = async (
+  contract: NFTMinterContract,
+  filter: ethers.DeferredTopicFilter,
+  deployBlock: number
+): Promise<ethers.EventLog[]> => {
+  const latestBlock = await getProvider(contract).getBlockNumber();
+  const reader = createLogRangeReader();
+  const logs: ethers.EventLog[] = [];
+
+  for (let fromBlock = deployBlock; fromBlock <= latestBlock; ) {
+    const range = await reader.read((from, to) => contract.queryFilter(filter, from, to), fromBlock, latestBlock);
+    for (const event of range.logs) {
+      if ('args' in event) {
+        logs.push(event);
+      }
+    }
+    fromBlock = range.toBlock + 1;
+  }
+
+  return logs;
+};
+
+/**
+ * Collects every token ID ever transferred to an address
+ * @param contract The NFT contract instance (must be connected to a provider)
+ * @param owner The address to collect incoming transfers for
+ * @param deployBlock The block the contract was deployed in
+ * @returns The token IDs the address has received at some point
+ */
+const getReceivedTokenIds = async (
+  contract: NFTMinterContract,
+  owner: string,
+  deployBlock: number
+): Promise<bigint[]> => {
+  const events = await queryTransfers(contract, contract.filters.Transfer(null, owner), deployBlock);
+  return [...new Set(events.map((event) => BigInt(event.args.tokenId)))];
+};
+
+/**
+ * Reconstructs the tokens currently owned by an address. The contract is not
+ * ERC721Enumerable, so candidates come from Transfer logs and are confirmed
+ * with ownerOf, which drops tokens that have since been transferred away.
+ * @param contract The NFT contract instance
+ * @param owner The address whose tokens to list
+ * @param deployBlock The block the contract was deployed in
+ * @returns The owned token IDs in ascending order
+ */
+export const getOwnedTokenIds = async (
+  contract: NFTMinterContract,
+  owner: string,
+  deployBlock: number
+): Promise<bigint[]> => {
+  const candidates = await getReceivedTokenIds(contract, owner, deployBlock);
+
+  const owned = await Promise.all(
+    candidates.map(async (tokenId) => {
+      try {
+        const currentOwner = await contract.ownerOf(tokenId);
+        return currentOwner.toLowerCase() === owner.toLowerCase() ? tokenId : null;
+      } catch (error) {
+        // ownerOf reverts for burned tokens
+        console.error(`Error checking owner of token ${tokenId}:`, error);
+        return null;
+      }
+    })
+  );
+
+  return owned
+    .filter((tokenId): tokenId is bigint => tokenId !== null)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+};
+
+/**
+ * Loads the token URI and metadata for a token
+ * @param contract The NFT contract instance
+ * @param tokenId The token to load
+ * @returns The token with its resolved metadata
+ */
+export const loadToken = async (contract: NFTMinterContract, tokenId: bigint): Promise<OwnedNFT> => {
+  const tokenURI = await contract.tokenURI(tokenId);
+
+  let metadata: Partial<NFTMetadata> = {};
+  try {
+    metadata = await resolveMetadata(tokenURI);
+  } catch (error) {
+    console.error(`Error resolving metadata for token ${tokenId}:`, error);
+  }
+
+  return {
+    tokenId,
+    tokenURI,
+    name: metadata.name || `NFT #${tokenId}`,
+    description: metadata.description || 'This is an NFT minted on the Westend Asset Hub',
+    // Galleries show the thumbnail when the minter pinned one
+    image: await resolveMediaUrl(metadata.image_thumbnail || metadata.image || ''),
+    animation: await resolveAnimation(metadata),
+  };
+};
+
+/**
+ * Decodes the token ID minted by a transaction from its Transfer log
+ * @param contract The NFT contract instance
+ * @param receipt The mint transaction's receipt
+ * @returns The minted token ID, or null if the receipt has no mint Transfer
+ */
+export const getMintedTokenId = (
+  contract: NFTMinterContract,
+  receipt: ethers.TransactionReceipt
+): bigint | null => {
+  const address = typeof contract.target === 'string' ? contract.target.toLowerCase() : null;
+  for (const log of receipt.logs) {
+    if (address && log.address.toLowerCase() !== address) continue;
+    const event = parseNFTMinterLog(log);
+    if (event?.name === 'Transfer' && event.args.from === ethers.ZeroAddress) {
+      return event.args.tokenId;
+    }
+  }
+  return null;
+};
+
+/**
+ * Builds the ownership history of a token from its Transfer logs
+ * @param contract The NFT contract instance (must be connected to a provider)
+ * @param tokenId The token to trace
+ * @param deployBlock The block the contract was deployed in
+ * @returns The mint, transfers and burn of the token, oldest first
+ */
+export const getTokenProvenance = async (
+  contract: NFTMinterContract,
+  tokenId: bigint,
+  deployBlock: number
+): Promise<ProvenanceEvent[]> => {
+  const events = await queryTransfers(contract, contract.filters.Transfer(null, null, tokenId), deployBlock);
+
+  // Fetch each block once for its timestamp
+  const blockNumbers = [...new Set(events.map((event) => event.blockNumber))];
+  const provider = getProvider(contract);
+  const blocks = await Promise.all(blockNumbers.map((blockNumber) => provider.getBlock(blockNumber)));
+  const timestamps = new Map(blockNumbers.map((blockNumber, index) => [blockNumber, blocks[index]?.timestamp ?? null]));
+
+  return events.map((event) => {
+    const { from, to } = event.args;
+    return {
+      kind: from === ethers.ZeroAddress ? 'mint' : to === ethers.ZeroAddress ? 'burn' : 'transfer',
+      from,
+      to,
+      txHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      timestamp: timestamps.get(event.blockNumber) ?? null,
+    };
+  });
+};
@@ -0,0 +1,45 @@
+import { ethers } from 'ethers';
+import { NFTMinterContract, decodeNFTMinterError } from '../contracts/NFTMinter';
+
+// How the recipient of a transfer will handle the token
+export type RecipientKind =
+  | 'account'       // externally owned account; safeTransferFrom behaves like transferFrom
+  | 'receiver'      // contract implementing IERC721Receiver
+  | 'non-receiver'; // contract that would reject safeTransferFrom and could lock the token
+
+/**
+ * Classifies a transfer recipient. Contract recipients are checked by
+ * simulating safeTransferFrom, which calls onERC721Received on them.
+ * @param contract The NFT contract instance (must be connected to a provider)
+ * @param from The current owner
+ * @param to The recipient's H160 address
+ * @param tokenId The token to transfer
+ * @returns The recipient kind
+ */
+export const checkRecipient = async (
+  contract: NFTMinterContract,
+  from: string,
+  to: string,
+  tokenId: bigint
+): Promise<RecipientKind> => {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error('Contract is not connected to a provider');
+  }
+
+  const code = await provider.getCode(to);
+  if (code === '0x') {
+    return 'account';
+  }
+
+  try {
+    await contract['safeTransferFrom(address,address,uint256)'].staticCall(from, to, tokenId, { from });
+    return 'receiver';
+  } catch (error) {
+    const revert = ethers.isError(error, 'CALL_EXCEPTION') && error.data ? decodeNFTMinterError(error.data) : null;
+    if (revert?.name === 'ERC721InvalidReceiver') {
+      return 'non-receiver';
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,85 @@
+import { EIP6963ProviderDetail, EvmWallet } from '../../types/wallet';
+
+/** The wallet is on another chain than the one a write targets */
+export class WrongChainError extends Error {
+  readonly chainId: number | null;
+  readonly expectedChainId: number;
+
+  constructor(chainId: number | null, expectedChainId: number) {
+    super(`The wallet is on chain ${chainId ?? 'unknown'}, but this action targets chain ${expectedChainId}`);
+    this.name = 'WrongChainError';
+    this.chainId = chainId;
+    this.expectedChainId = expectedChainId;
+  }
+}
+
+// Id used for a legacy window.ethereum provider that does not announce itself
+const INJECTED_WALLET_ID = 'evm:injected';
+
+const toWallet = ({ info, provider }: EIP6963ProviderDetail): EvmWallet => ({
+  kind: 'evm',
+  id: `evm:${info.rdns}`,
+  name: info.name,
+  icon: info.icon,
+  provider,
+});
+
+/**
+ * Discovers injected EVM wallets through EIP-6963. Every wallet announces
+ * itself separately, so installing several extensions no longer means the last
+ * one to load owns window.ethereum.
+ * @param onChange Called with the full list whenever a wallet announces itself
+ * @returns A function that stops listening
+ */
+export const discoverEvmWallets = (onChange: (wallets: EvmWallet[]) => void) => {
+  const wallets = new Map<string, EvmWallet>();
+
+  const handleAnnounce = (event: CustomEvent<EIP6963ProviderDetail>) => {
+    const wallet = toWallet(event.detail);
+    if (wallets.get(INJECTED_WALLET_ID)?.provider === wallet.provider) {
+      wallets.delete(INJECTED_WALLET_ID);
+    }
+    wallets.set(wallet.id, wallet);
+    onChange([...wallets.values()]);
+  };
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+
+  // Wallets that predate EIP-6963 only inject window.ethereum
+  if (window.ethereum && ![...wallets.values()].some((wallet) => wallet.provider === window.ethereum)) {
+    wallets.set(INJECTED_WALLET_ID, {
+      kind: 'evm',
+      id: INJECTED_WALLET_ID,
+      name: 'Browser wallet',
+      provider: window.ethereum,
+    });
+    onChange([...wallets.values()]);
+  }
+
+  return () => window.removeEventListener('eip6963:announceProvider', handleAnnounce);
+};
+
+/**
+ * Reads the accounts a wallet has already authorized, without prompting
+ * @param wallet The wallet to query
+ * @returns The authorized accounts, empty if the site is not connected
+ */
+export const getAuthorizedAccounts = async (wallet: EvmWallet): Promise<string[]> =>
+  (await wallet.provider.request({ method: 'eth_accounts' })) as string[];
+
+/**
+ * Asks the wallet to connect
+ * @param wallet The wallet to connect
+ * @returns The accounts the user approved
+ */
+export const requestAccounts = async (wallet: EvmWallet): Promise<string[]> =>
+  (await wallet.provider.request({ method: 'eth_requestAccounts' })) as string[];
+
+/**
+ * Reads the chain a wallet is on, without prompting
+ * @param wallet The wallet to query
+ * @returns The chain ID
+ */
+export const getWalletChainId = async (wallet: EvmWallet): Promise<number> =>
+  Number(await wallet.provider.request({ method: 'eth_chainId' }));
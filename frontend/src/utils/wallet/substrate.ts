@@ -0,0 +1,48 @@
+import { SubstrateAccount, SubstrateWallet } from '../../types/wallet';
+
+// Name shown to the user when an extension asks to authorize the app
+const APP_NAME = 'NFT Minter';
+
+// Display names of the extensions we know about, keyed by their window.injectedWeb3 entry
+const KNOWN_EXTENSIONS: Record<string, string> = {
+  'polkadot-js': 'Polkadot.js',
+  talisman: 'Talisman',
+  'subwallet-js': 'SubWallet',
+};
+
+// extension-dapp touches window at import time, so it is loaded on demand
+const loadExtensionDapp = () => import('@polkadot/extension-dapp');
+
+/**
+ * Lists the Substrate wallet extensions injected into the page. This does not
+ * enable them, so no authorization popup is shown.
+ * @returns One wallet per injected extension
+ */
+export const detectSubstrateWallets = (): SubstrateWallet[] =>
+  Object.keys(window.injectedWeb3 ?? {}).map((source) => ({
+    kind: 'substrate',
+    id: `substrate:${source}`,
+    name: KNOWN_EXTENSIONS[source] ?? source,
+    source,
+  }));
+
+/**
+ * Authorizes the app with a Substrate extension and reads its accounts
+ * @param wallet The extension to connect
+ * @returns The accounts the extension shares with the app
+ * @throws Error if the extension refuses or has no accounts
+ */
+export const connectSubstrateWallet = async (wallet: SubstrateWallet): Promise<SubstrateAccount[]> => {
+  const { web3Enable, web3Accounts } = await loadExtensionDapp();
+
+  const extensions = await web3Enable(APP_NAME);
+  if (!extensions.some((extension) => extension.name === wallet.source)) {
+    throw new Error(`${wallet.name} did not authorize this site`);
+  }
+
+  const accounts = await web3Accounts({ extensions: [wallet.source] });
+  if (accounts.length === 0) {
+    throw new Error(`No accounts found in ${wallet.name}`);
+  }
+  return accounts.map(({ address, meta }) => ({ address, name: meta.name, source: meta.source }));
+};
@@ -1 +1,24 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DEFAULT_NETWORK?: string;
+  readonly VITE_STORAGE_PROVIDER?: string;
+  readonly VITE_W3UP_EMAIL?: `${string}@${string}`;
+  readonly VITE_PINATA_JWT?: string;
+  readonly VITE_PINATA_GATEWAY?: string;
+  readonly VITE_KUBO_API_URL?: string;
+  readonly VITE_KUBO_GATEWAY?: string;
+  readonly VITE_IPFS_GATEWAYS?: string;
+  readonly VITE_IPFS_GATEWAY_TIMEOUT_MS?: string;
+  readonly VITE_ARWEAVE_GATEWAY?: string;
+  readonly VITE_INDEXER_URL?: string;
+  readonly VITE_DEMO_MODE?: string;
+  readonly VITE_MEDIA_TYPES?: string;
+  readonly VITE_MEDIA_MAX_BYTES?: string;
+  readonly VITE_ANIMATION_TYPES?: string;
+  readonly VITE_ANIMATION_MAX_BYTES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,12 +1,28 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
-  define: {
+  resolve: {
+    // Modules imported from asset-hub-project must use the same copies as the app
+    dedupe: ['ethers', '@polkadot/api', '@polkadot/types', '@polkadot/util', '@polkadot/util-crypto'],
+  },
+  server: {
+    fs: {
+      // The network registry, ABIs and compiled artifacts live in asset-hub-project and are shared with the scripts
+      allow: [searchForWorkspaceRoot(process.cwd()), '../asset-hub-project'],
+    },
+  },
+  // Stand-ins for the Node globals some dependencies read; tests run in Node, which has the real ones
+  define: process.env.VITEST ? {} : {
     'process.env': {},
     'process.platform': JSON.stringify('browser'),
     'process.version': JSON.stringify(''),
   },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+  },
 })
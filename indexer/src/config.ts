@@ -0,0 +1,103 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { IndexerConfig } from './types.js';
+
+// Shared with the frontend and the asset-hub-project scripts
+const NETWORKS_FILE = fileURLToPath(new URL('../../asset-hub-project/networks.json', import.meta.url));
+const ABI_FILE = fileURLToPath(new URL('../../asset-hub-project/abis/NFTMinter.json', import.meta.url));
+
+const DEFAULT_NETWORK = 'westend-asset-hub';
+const DEFAULT_PORT = 4350;
+const DEFAULT_CHUNK_SIZE = 10000;
+const DEFAULT_POLL_INTERVAL_MS = 6000;
+const DEFAULT_REORG_DEPTH = 64;
+
+interface RegistryNetwork {
+  rpcUrls: string[];
+  contracts: Record<string, { address: string; deployBlock: number } | undefined>;
+}
+
+const USAGE = `Usage: npm start -- [options]
+
+Options:
+  --network <id>       Network from asset-hub-project/networks.json (default: ASSET_HUB_NETWORK or ${DEFAULT_NETWORK})
+  --rpc <url>          RPC endpoint; overrides the network's, e.g. a local dev node
+  --address <address>  NFTMinter address; overrides the network's deployment
+  --from-block <n>     First block to index; defaults to the deployment's deploy block
+  --db <path>          SQLite file (default: data/<network>-<address>.sqlite)
+  --port <n>           HTTP API port (default: ${DEFAULT_PORT})
+  --chunk-size <n>     Blocks per eth_getLogs call (default: ${DEFAULT_CHUNK_SIZE})
+  --poll-interval <ms> Delay between polls for new blocks (default: ${DEFAULT_POLL_INTERVAL_MS})
+  --reorg-depth <n>    Recent blocks checked for reorgs (default: ${DEFAULT_REORG_DEPTH})
+  --help               Show this message`;
+
+const parseInteger = (name: string, value: string | undefined, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+/**
+ * Builds the indexer configuration from command line flags, falling back to
+ * the network registry and environment variables
+ * @param argv Arguments after the script name
+ * @returns The configuration, or null if --help was given
+ * @throws Error if the network, RPC or contract cannot be determined
+ */
+export const loadConfig = (argv: string[]): IndexerConfig | null => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      network: { type: 'string' },
+      rpc: { type: 'string' },
+      address: { type: 'string' },
+      'from-block': { type: 'string' },
+      db: { type: 'string' },
+      port: { type: 'string' },
+      'chunk-size': { type: 'string' },
+      'poll-interval': { type: 'string' },
+      'reorg-depth': { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return null;
+  }
+
+  const networks: Record<string, RegistryNetwork> = JSON.parse(readFileSync(NETWORKS_FILE, 'utf8'));
+  // A custom RPC without --network points at a chain outside the registry, such as a local dev node
+  const networkId = values.network ?? (values.rpc ? 'custom' : process.env.ASSET_HUB_NETWORK || DEFAULT_NETWORK);
+  const network = networks[networkId];
+  if (!network && networkId !== 'custom') {
+    throw new Error(`Unknown network "${networkId}". Registered networks: ${Object.keys(networks).join(', ')}`);
+  }
+
+  const deployment = network?.contracts.NFTMinter;
+  const rpcUrl = values.rpc ?? network?.rpcUrls[0];
+  const contractAddress = values.address ?? deployment?.address;
+  if (!rpcUrl) {
+    throw new Error('No RPC endpoint; pass --rpc or --network');
+  }
+  if (!contractAddress) {
+    throw new Error(`NFTMinter is not deployed on ${networkId}; pass --address`);
+  }
+
+  return {
+    networkId,
+    rpcUrl,
+    contractAddress,
+    startBlock: parseInteger('from-block', values['from-block'], values.address ? 0 : deployment?.deployBlock ?? 0),
+    abiPath: ABI_FILE,
+    dbPath: values.db ?? `data/${networkId}-${contractAddress.toLowerCase()}.sqlite`,
+    port: parseInteger('port', values.port ?? process.env.PORT, DEFAULT_PORT),
+    chunkSize: Math.max(1, parseInteger('chunk-size', values['chunk-size'], DEFAULT_CHUNK_SIZE)),
+    pollIntervalMs: parseInteger('poll-interval', values['poll-interval'], DEFAULT_POLL_INTERVAL_MS),
+    reorgDepth: Math.max(1, parseInteger('reorg-depth', values['reorg-depth'], DEFAULT_REORG_DEPTH)),
+  };
+};
@@ -0,0 +1,60 @@
+import { readFileSync } from 'node:fs';
+import { Interface, Log, Result } from 'ethers';
+import { IndexedEvent } from './types.js';
+
+/**
+ * Loads a contract interface from an ABI file in asset-hub-project/abis
+ * @param abiPath Path to the ABI JSON
+ * @returns The interface used to decode the contract's logs
+ */
+export const loadInterface = (abiPath: string): Interface =>
+  new Interface(JSON.parse(readFileSync(abiPath, 'utf8')));
+
+const toJsonValue = (value: unknown): string | boolean =>
+  typeof value === 'boolean' ? value : String(value);
+
+const pick = (args: Result, ...names: string[]): string | null => {
+  for (const name of names) {
+    const value = args.getValue(name) as unknown;
+    if (value !== undefined) return String(value);
+  }
+  return null;
+};
+
+/**
+ * Decodes a log into the shape the indexer stores. The ERC-721 events put
+ * their parties and token under different names, so they are normalized into
+ * from, to and tokenId.
+ * @param iface The contract interface
+ * @param log A log emitted by the contract
+ * @returns The decoded event, or null for logs the ABI does not describe
+ */
+export const decodeLog = (iface: Interface, log: Log): IndexedEvent | null => {
+  let parsed;
+  try {
+    parsed = iface.parseLog(log);
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  const args: Record<string, string | boolean> = {};
+  parsed.fragment.inputs.forEach((input, index) => {
+    args[input.name || String(index)] = toJsonValue(parsed.args[index]);
+  });
+
+  const names = new Set(parsed.fragment.inputs.map((input) => input.name));
+  const get = (...candidates: string[]) => pick(parsed.args, ...candidates.filter((name) => names.has(name)));
+
+  return {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    logIndex: log.index,
+    txHash: log.transactionHash,
+    name: parsed.name,
+    tokenId: get('tokenId', '_tokenId'),
+    from: get('from', 'owner'),
+    to: get('to', 'approved', 'operator'),
+    args,
+  };
+};
@@ -0,0 +1,52 @@
+import { getAddress, JsonRpcProvider } from 'ethers';
+import { loadConfig } from './config.js';
+import { loadInterface } from './decoder.js';
+import { createEventStore } from './store.js';
+import { createIndexer } from './indexer.js';
+import { createApiServer } from './server.js';
+
+const main = async () => {
+  const config = loadConfig(process.argv.slice(2));
+  if (!config) return;
+
+  const provider = new JsonRpcProvider(config.rpcUrl);
+  const { chainId } = await provider.getNetwork();
+  const contract = getAddress(config.contractAddress);
+  console.log(`Connected to ${config.rpcUrl} (chain ${chainId}, network ${config.networkId})`);
+
+  const store = createEventStore(config.dbPath);
+  store.claim(String(chainId), contract);
+
+  const indexer = createIndexer(provider, loadInterface(config.abiPath), store, config);
+  const server = createApiServer(store, () => {
+    const head = store.getMeta('head');
+    return {
+      chainId: Number(chainId),
+      contract,
+      network: config.networkId,
+      indexedBlock: store.getCursor(),
+      headBlock: head === null ? null : Number(head),
+    };
+  });
+  server.listen(config.port, () => {
+    console.log(`API listening on http://localhost:${config.port}`);
+  });
+
+  const controller = new AbortController();
+  const shutdown = () => {
+    console.log('Shutting down...');
+    controller.abort();
+    server.close();
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  await indexer.run(controller.signal);
+  provider.destroy();
+  store.close();
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
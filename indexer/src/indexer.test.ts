@@ -0,0 +1,225 @@
+import { fileURLToPath } from 'node:url';
+import { Filter, id, JsonRpcProvider, Log, ZeroAddress } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadInterface } from './decoder.js';
+import { createIndexer } from './indexer.js';
+import { createEventStore, EventStore } from './store.js';
+import { IndexerConfig } from './types.js';
+
+const iface = loadInterface(fileURLToPath(new URL('../../asset-hub-project/abis/NFTMinter.json', import.meta.url)));
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const ALICE = '0xa11ce00000000000000000000000000000000000';
+const BOB = '0xb0b0000000000000000000000000000000000000';
+
+const config: IndexerConfig = {
+  networkId: 'test',
+  rpcUrl: 'http://localhost:8545',
+  contractAddress: CONTRACT,
+  startBlock: 1,
+  abiPath: '',
+  dbPath: ':memory:',
+  port: 0,
+  chunkSize: 8,
+  pollIntervalMs: 0,
+  reorgDepth: 4,
+};
+
+/**
+ * An in-memory chain behind the three provider calls the indexer makes.
+ * Blocks are mined one at a time, each holding at most one mint.
+ */
+const createFakeChain = () => {
+  const hashes = ['genesis'].map((seed) => id(seed));
+  let logs: Log[] = [];
+  // Largest eth_getLogs range accepted, and errors to throw from the next calls
+  let maxRange = Infinity;
+  const failures: unknown[] = [];
+  const ranges: [number, number][] = [];
+
+  const mine = (mintTo?: string, tokenId = 0n, fork = '') => {
+    const number = hashes.length;
+    hashes.push(id(`${fork}block ${number}`));
+    if (mintTo) {
+      const { topics, data } = iface.encodeEventLog('Transfer', [ZeroAddress, mintTo, tokenId]);
+      logs.push({
+        address: CONTRACT,
+        topics,
+        data,
+        blockNumber: number,
+        blockHash: hashes[number],
+        index: 0,
+        transactionHash: id(`${fork}tx ${number}`),
+      } as unknown as Log);
+    }
+  };
+
+  /** Drops every block from fromBlock on, so they can be mined again on a fork */
+  const reorg = (fromBlock: number) => {
+    hashes.length = fromBlock;
+    logs = logs.filter((log) => log.blockNumber < fromBlock);
+  };
+
+  const provider = {
+    getBlockNumber: async () => hashes.length - 1,
+    getBlock: async (blockNumber: number) => (blockNumber < hashes.length
+      ? { number: blockNumber, hash: hashes[blockNumber], timestamp: 1000 + blockNumber }
+      : null),
+    getLogs: async (filter: Filter) => {
+      const fromBlock = Number(filter.fromBlock);
+      const toBlock = Number(filter.toBlock);
+      ranges.push([fromBlock, toBlock]);
+      const failure = failures.shift();
+      if (failure) throw failure;
+      if (toBlock - fromBlock + 1 > maxRange) {
+        throw Object.assign(new Error('could not coalesce error'), { error: { code: -32005, message: 'query returned more than 10000 results' } });
+      }
+      return logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+    },
+  } as unknown as JsonRpcProvider;
+
+  return {
+    provider,
+    mine,
+    reorg,
+    ranges,
+    failures,
+    setMaxRange: (range: number) => {
+      maxRange = range;
+    },
+    // Stands in for a log served from a block that has since been replaced
+    staleLog: (blockNumber: number) => {
+      const log = logs.find((candidate) => candidate.blockNumber === blockNumber)!;
+      logs[logs.indexOf(log)] = { ...log, blockHash: id('stale') } as Log;
+    },
+  };
+};
+
+const ownerOf = (store: EventStore, owner: string) => store.getTokensByOwner(owner).map((token) => token.tokenId);
+
+describe('createIndexer', () => {
+  let store: EventStore;
+
+  beforeEach(() => {
+    store = createEventStore(':memory:');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    store.close();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('backfills the logs from the start block in chunks', async () => {
+    const chain = createFakeChain();
+    chain.mine(ALICE, 0n);
+    for (let i = 0; i < 10; i++) chain.mine();
+    chain.mine(BOB, 1n);
+
+    await createIndexer(chain.provider, iface, store, config).sync();
+
+    expect(chain.ranges).toEqual([[1, 8], [9, 12]]);
+    expect(store.getCursor()).toBe(12);
+    expect(ownerOf(store, ALICE)).toEqual(['0']);
+    expect(ownerOf(store, BOB)).toEqual(['1']);
+    expect(store.getTokenHistory('0')[0]).toMatchObject({ blockNumber: 1, timestamp: 1001 });
+  });
+
+  it('rolls back to the last matching block after a reorg inside the window', async () => {
+    const chain = createFakeChain();
+    const indexer = createIndexer(chain.provider, iface, store, config);
+    for (let i = 0; i < 5; i++) chain.mine();
+    chain.mine(ALICE, 0n);
+    await indexer.sync();
+
+    chain.reorg(5);
+    chain.mine(undefined, 0n, 'fork ');
+    chain.mine(BOB, 0n, 'fork ');
+    chain.mine(undefined, 0n, 'fork ');
+    await indexer.sync();
+
+    expect(store.getCursor()).toBe(7);
+    expect(ownerOf(store, ALICE)).toEqual([]);
+    expect(ownerOf(store, BOB)).toEqual(['0']);
+    expect(store.getTokenHistory('0')).toHaveLength(1);
+  });
+
+  it('re-indexes the whole window when the reorg is deeper than it', async () => {
+    const chain = createFakeChain();
+    const indexer = createIndexer(chain.provider, iface, store, config);
+    chain.mine(ALICE, 0n);
+    for (let i = 0; i < 9; i++) chain.mine();
+    await indexer.sync();
+
+    chain.reorg(1);
+    chain.mine(BOB, 0n, 'fork ');
+    for (let i = 0; i < 9; i++) chain.mine(undefined, 0n, 'fork ');
+    await indexer.sync();
+
+    // Only the headers of blocks 7-10 were kept, so those are indexed again
+    expect(chain.ranges.slice(-1)).toEqual([[7, 10]]);
+    expect(store.getCursor()).toBe(10);
+  });
+
+  it('stops without moving the cursor when a log comes from a replaced block', async () => {
+    const chain = createFakeChain();
+    chain.mine();
+    chain.mine(ALICE, 0n);
+    chain.staleLog(2);
+
+    await createIndexer(chain.provider, iface, store, config).sync();
+
+    expect(store.getCursor()).toBeNull();
+    expect(ownerOf(store, ALICE)).toEqual([]);
+  });
+
+  it('halves a range the RPC rejects and grows it back after a run of successes', async () => {
+    const chain = createFakeChain();
+    for (let i = 0; i < 40; i++) chain.mine();
+    chain.setMaxRange(2);
+    const indexer = createIndexer(chain.provider, iface, store, config);
+
+    await indexer.sync();
+
+    expect(chain.ranges.slice(0, 4)).toEqual([[1, 8], [1, 4], [1, 2], [3, 4]]);
+    expect(store.getCursor()).toBe(40);
+
+    chain.setMaxRange(Infinity);
+    for (let i = 0; i < 40; i++) chain.mine();
+    chain.ranges.length = 0;
+    await indexer.sync();
+
+    // The first sync ended on a range grown back to 4 blocks, which doubles after five more successes
+    expect(chain.ranges.map(([fromBlock, toBlock]) => toBlock - fromBlock + 1)).toEqual([4, 4, 4, 4, 4, 8, 8, 4]);
+  });
+
+  it('retries other failures on the same range with backoff', async () => {
+    vi.useFakeTimers();
+    const chain = createFakeChain();
+    chain.mine(ALICE, 0n);
+    chain.failures.push(new Error('socket hang up'), new Error('socket hang up'));
+
+    const syncing = createIndexer(chain.provider, iface, store, config).sync();
+    await vi.runAllTimersAsync();
+    await syncing;
+
+    expect(chain.ranges).toEqual([[1, 1], [1, 1], [1, 1]]);
+    expect(ownerOf(store, ALICE)).toEqual(['0']);
+  });
+
+  it('gives up on a range that keeps failing and keeps its cursor', async () => {
+    vi.useFakeTimers();
+    const chain = createFakeChain();
+    chain.mine(ALICE, 0n);
+    chain.failures.push(...Array.from({ length: 4 }, () => new Error('socket hang up')));
+
+    const syncing = expect(createIndexer(chain.provider, iface, store, config).sync()).rejects.toThrow('socket hang up');
+    await vi.runAllTimersAsync();
+    await syncing;
+
+    expect(chain.ranges).toHaveLength(4);
+    expect(store.getCursor()).toBeNull();
+  });
+});
@@ -0,0 +1,211 @@
+import { Interface, JsonRpcProvider, Log } from 'ethers';
+import { decodeLog } from './decoder.js';
+import { EventStore } from './store.js';
+import { BlockHeader, IndexerConfig } from './types.js';
+
+/** Logs in a range came from blocks that are no longer canonical */
+class ReorgDuringSyncError extends Error {
+  constructor(blockNumber: number) {
+    super(`Block ${blockNumber} changed while its range was being indexed`);
+    this.name = 'ReorgDuringSyncError';
+  }
+}
+
+// EIP-1474 "limit exceeded", which providers return for oversized log queries
+const LIMIT_EXCEEDED_CODE = -32005;
+
+// How providers word a rejected eth_getLogs range or result size
+const RANGE_ERROR_PATTERN = /block range|range (is )?too (large|wide)|too many (blocks|logs|results)|more than \d+ (logs|results)|limit exceeded|exceeds? (the )?(max|limit)|response (size|is too large)/i;
+
+// Attempts per range for other failures, with the delay doubling from GET_LOGS_RETRY_MS
+const GET_LOGS_ATTEMPTS = 4;
+const GET_LOGS_RETRY_MS = 1000;
+
+// Successful calls in a row before a shrunk range is doubled again
+const GROW_AFTER_SUCCESSES = 5;
+
+// Whether the RPC refused a log query for its range or result size, rather than failing transiently
+const isRangeError = (error: unknown): boolean => {
+  const rpcError = (error as { error?: { code?: unknown; message?: unknown } } | null)?.error;
+  if (rpcError?.code === LIMIT_EXCEEDED_CODE) return true;
+  const messages = [error instanceof Error ? error.message : String(error), String(rpcError?.message ?? '')];
+  return messages.some((message) => RANGE_ERROR_PATTERN.test(message));
+};
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : error);
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+export interface Indexer {
+  /** Indexes up to the current head once */
+  sync: () => Promise<void>;
+  /** Syncs, then keeps polling for new blocks until the signal aborts */
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Creates the indexer that backfills the contract's logs from its deploy
+ * block and then follows the head. Headers of the last reorgDepth blocks are
+ * kept; if one no longer matches the chain, everything after the last
+ * matching block is rolled back and indexed again.
+ * @param provider Provider for the indexed chain
+ * @param iface The contract interface used to decode logs
+ * @param store Where events are written
+ * @param config Contract, start block, chunk size and reorg window
+ */
+export const createIndexer = (
+  provider: JsonRpcProvider,
+  iface: Interface,
+  store: EventStore,
+  config: IndexerConfig
+): Indexer => {
+  // Shrinks when the RPC rejects a range as too large, and grows back to the
+  // configured size after a run of successful calls
+  let chunkSize = config.chunkSize;
+  let successes = 0;
+
+  const getHeader = async (blockNumber: number): Promise<BlockHeader> => {
+    const block = await provider.getBlock(blockNumber);
+    if (!block?.hash) {
+      throw new Error(`Block ${blockNumber} is not available`);
+    }
+    return { number: block.number, hash: block.hash, timestamp: block.timestamp };
+  };
+
+  /**
+   * Reads the contract's logs from fromBlock, halving the range while the RPC
+   * rejects it as too large. Other failures are retried on the same range
+   * with backoff, then thrown so the sync resumes from its cursor later.
+   * @returns The logs and the last block they cover
+   */
+  const getLogs = async (fromBlock: number, toBlock: number): Promise<{ logs: Log[]; toBlock: number }> => {
+    let attempt = 1;
+    for (;;) {
+      try {
+        const logs = await provider.getLogs({ address: config.contractAddress, fromBlock, toBlock });
+        successes++;
+        if (chunkSize < config.chunkSize && successes >= GROW_AFTER_SUCCESSES) {
+          chunkSize = Math.min(config.chunkSize, chunkSize * 2);
+          successes = 0;
+        }
+        return { logs, toBlock };
+      } catch (error) {
+        successes = 0;
+        if (isRangeError(error) && toBlock > fromBlock) {
+          chunkSize = Math.max(1, Math.floor((toBlock - fromBlock + 1) / 2));
+          toBlock = fromBlock + chunkSize - 1;
+          console.warn(`getLogs range rejected, retrying with ${chunkSize} block ranges:`, describeError(error));
+          continue;
+        }
+        if (attempt >= GET_LOGS_ATTEMPTS) throw error;
+        const retryMs = GET_LOGS_RETRY_MS * 2 ** (attempt - 1);
+        console.warn(`getLogs failed, retrying blocks ${fromBlock}-${toBlock} in ${retryMs} ms:`, describeError(error));
+        attempt++;
+        await delay(retryMs);
+      }
+    }
+  };
+
+  /**
+   * Compares the stored recent headers with the chain, newest first, and
+   * rolls back to the newest one that still matches
+   */
+  const handleReorg = async (head: number) => {
+    const cursor = store.getCursor();
+    if (cursor === null) return;
+
+    const stored = store.getHeadersFrom(Math.max(cursor - config.reorgDepth, config.startBlock));
+    for (const header of stored) {
+      if (header.number > head) continue;
+      const current = await getHeader(header.number);
+      if (current.hash === header.hash) {
+        if (header.number < cursor) {
+          console.warn(`Reorg detected: rolling back from block ${cursor} to ${header.number}`);
+          store.rollback(header.number);
+        }
+        return;
+      }
+    }
+
+    if (stored.length > 0) {
+      // The reorg is deeper than the window; re-index the whole window
+      const fromBlock = Math.max(stored[stored.length - 1].number - 1, config.startBlock - 1);
+      console.warn(`Reorg deeper than ${config.reorgDepth} blocks: rolling back to block ${fromBlock}`);
+      store.rollback(fromBlock);
+    }
+  };
+
+  const indexRange = async (fromBlock: number, toBlock: number, head: number): Promise<number> => {
+    const result = await getLogs(fromBlock, toBlock);
+    const events = result.logs
+      .map((log) => decodeLog(iface, log))
+      .filter((event) => event !== null);
+
+    // Timestamps for blocks with events, and hashes for every block that could still be reorged
+    const windowStart = Math.max(fromBlock, head - config.reorgDepth + 1);
+    const blockNumbers = new Set(events.map((event) => event.blockNumber));
+    for (let blockNumber = windowStart; blockNumber <= result.toBlock; blockNumber++) {
+      blockNumbers.add(blockNumber);
+    }
+    const headers = await Promise.all([...blockNumbers].map(getHeader));
+
+    const hashes = new Map(headers.map((header) => [header.number, header.hash]));
+    for (const event of events) {
+      if (hashes.get(event.blockNumber) !== event.blockHash) {
+        throw new ReorgDuringSyncError(event.blockNumber);
+      }
+    }
+
+    store.commitRange(events, headers, result.toBlock);
+    if (events.length > 0) {
+      console.log(`Indexed ${events.length} event(s) in blocks ${fromBlock}-${result.toBlock}`);
+    }
+    return result.toBlock;
+  };
+
+  const sync = async () => {
+    const head = await provider.getBlockNumber();
+    store.setMeta('head', String(head));
+    await handleReorg(head);
+
+    let fromBlock = (store.getCursor() ?? config.startBlock - 1) + 1;
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + chunkSize - 1, head);
+      try {
+        fromBlock = (await indexRange(fromBlock, toBlock, head)) + 1;
+      } catch (error) {
+        if (error instanceof ReorgDuringSyncError) {
+          // Picked up by handleReorg on the next poll
+          console.warn(error.message);
+          return;
+        }
+        throw error;
+      }
+    }
+
+    store.pruneHeaders(head - config.reorgDepth);
+  };
+
+  const run = async (signal: AbortSignal) => {
+    console.log(`Indexing ${config.contractAddress} from block ${store.getCursor() ?? config.startBlock}`);
+    while (!signal.aborted) {
+      try {
+        await sync();
+      } catch (error) {
+        console.error('Sync failed, retrying after the poll interval:', error);
+      }
+      await sleep(config.pollIntervalMs, signal);
+    }
+  };
+
+  return { sync, run };
+};
@@ -0,0 +1,107 @@
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { isAddress } from 'ethers';
+import { EventStore } from './store.js';
+import { IndexerStatus } from './types.js';
+
+const DEFAULT_RECENT_LIMIT = 20;
+const MAX_RECENT_LIMIT = 100;
+
+/** A request the API cannot answer, with its HTTP status */
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The frontend is served from another origin
+    'Access-Control-Allow-Origin': '*',
+  });
+  response.end(JSON.stringify(body));
+};
+
+const parseTokenId = (value: string): string => {
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `"${value}" is not a valid token ID`);
+  }
+  return BigInt(value).toString();
+};
+
+const parseLimit = (value: string | null): number => {
+  if (value === null) return DEFAULT_RECENT_LIMIT;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new HttpError(400, 'limit must be a positive integer');
+  }
+  return Math.min(limit, MAX_RECENT_LIMIT);
+};
+
+/**
+ * Creates the read-only HTTP API. Every response wraps its data with the
+ * chain, contract and indexed block, so clients can check they are reading
+ * the collection they expect and how fresh it is.
+ *
+ *   GET /status
+ *   GET /owners/:address/tokens
+ *   GET /tokens/:id/history
+ *   GET /mints/recent?limit=20
+ *
+ * @param store The indexed events
+ * @param getStatus Returns the current indexer status
+ * @returns The server, not yet listening
+ */
+export const createApiServer = (store: EventStore, getStatus: () => IndexerStatus): Server => {
+  const route = (request: IncomingMessage): unknown => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const segments = url.pathname.split('/').filter(Boolean);
+
+    if (segments.length === 1 && segments[0] === 'status') {
+      return null;
+    }
+    if (segments.length === 3 && segments[0] === 'owners' && segments[2] === 'tokens') {
+      if (!isAddress(segments[1])) {
+        throw new HttpError(400, `"${segments[1]}" is not an address`);
+      }
+      return store.getTokensByOwner(segments[1]);
+    }
+    if (segments.length === 3 && segments[0] === 'tokens' && segments[2] === 'history') {
+      return store.getTokenHistory(parseTokenId(segments[1]));
+    }
+    if (segments.length === 2 && segments[0] === 'mints' && segments[1] === 'recent') {
+      return store.getRecentMints(parseLimit(url.searchParams.get('limit')));
+    }
+    throw new HttpError(404, `No route for ${url.pathname}`);
+  };
+
+  return createHttpServer((request, response) => {
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET',
+      });
+      response.end();
+      return;
+    }
+    if (request.method !== 'GET') {
+      sendJson(response, 405, { error: 'Only GET is supported' });
+      return;
+    }
+
+    try {
+      sendJson(response, 200, { ...getStatus(), data: route(request) });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message });
+      } else {
+        console.error(`Error handling ${request.url}:`, error);
+        sendJson(response, 500, { error: 'Internal error' });
+      }
+    }
+  });
+};
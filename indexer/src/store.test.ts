@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createEventStore, EventStore } from './store.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const OTHER_CONTRACT = '0x2222222222222222222222222222222222222222';
+
+describe('claim', () => {
+  let store: EventStore;
+
+  beforeEach(() => {
+    store = createEventStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('records the chain and contract of a new database', () => {
+    store.claim('420420421', CONTRACT);
+
+    expect(store.getMeta('chainId')).toBe('420420421');
+    expect(store.getMeta('contract')).toBe(CONTRACT);
+  });
+
+  it('accepts the chain and contract the database was built for', () => {
+    store.claim('420420421', CONTRACT);
+
+    expect(() => store.claim('420420421', CONTRACT)).not.toThrow();
+  });
+
+  it('refuses a database built for another chain', () => {
+    store.claim('420420421', CONTRACT);
+
+    expect(() => store.claim('420420422', CONTRACT))
+      .toThrow(':memory: was built for chainId 420420421, not 420420422. Pass a different --db.');
+  });
+
+  it('refuses a database built for another contract without claiming it', () => {
+    store.claim('420420421', CONTRACT);
+
+    expect(() => store.claim('420420421', OTHER_CONTRACT)).toThrow(`was built for contract ${CONTRACT}`);
+    expect(store.getMeta('contract')).toBe(CONTRACT);
+  });
+});
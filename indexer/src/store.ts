@@ -0,0 +1,215 @@
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import { BlockHeader, EventRecord, IndexedEvent, OwnedToken } from './types.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  -- Headers of blocks holding events, plus every block in the reorg window
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    token_id TEXT,
+    from_address TEXT,
+    to_address TEXT,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS events_token ON events (token_id, block_number, log_index);
+  CREATE INDEX IF NOT EXISTS events_name ON events (name, block_number);
+  CREATE INDEX IF NOT EXISTS events_to ON events (to_address);
+`;
+
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  tx_hash: string;
+  name: string;
+  token_id: string | null;
+  from_address: string | null;
+  to_address: string | null;
+  args: string;
+  timestamp: number | null;
+}
+
+const EVENT_COLUMNS = `
+  e.block_number, e.log_index, e.block_hash, e.tx_hash, e.name, e.token_id,
+  e.from_address, e.to_address, e.args, b.timestamp
+`;
+
+const toRecord = (row: EventRow): EventRecord => ({
+  blockNumber: row.block_number,
+  blockHash: row.block_hash,
+  logIndex: row.log_index,
+  txHash: row.tx_hash,
+  name: row.name,
+  tokenId: row.token_id,
+  from: row.from_address,
+  to: row.to_address,
+  args: JSON.parse(row.args),
+  timestamp: row.timestamp,
+});
+
+// Addresses are stored lowercased so lookups do not depend on checksum casing
+const normalizeAddress = (address: string | null) => address?.toLowerCase() ?? null;
+
+export interface EventStore {
+  /** Reads a metadata value such as the chain ID the database was built for */
+  getMeta: (key: string) => string | null;
+  setMeta: (key: string, value: string) => void;
+  /**
+   * Records the chain and contract the database is built for
+   * @throws Error if it was already built for another chain or contract
+   */
+  claim: (chainId: string, contract: string) => void;
+  /** Last block whose logs are stored, or null before the first sync */
+  getCursor: () => number | null;
+  /** Stores a range's events and headers and moves the cursor, atomically */
+  commitRange: (events: IndexedEvent[], headers: BlockHeader[], toBlock: number) => void;
+  /** Stored headers at or above a block, newest first */
+  getHeadersFrom: (fromBlock: number) => BlockHeader[];
+  /** Forgets everything after a block, so it is indexed again */
+  rollback: (toBlock: number) => void;
+  /** Drops headers below a block that no event refers to */
+  pruneHeaders: (belowBlock: number) => void;
+  getTokensByOwner: (owner: string) => OwnedToken[];
+  getTokenHistory: (tokenId: string) => EventRecord[];
+  getRecentMints: (limit: number) => EventRecord[];
+  close: () => void;
+}
+
+/**
+ * Opens (and if needed creates) the SQLite database the indexer writes to
+ * @param path The database file; its directory is created if missing
+ * @returns The store
+ */
+export const createEventStore = (path: string): EventStore => {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  const getMetaStatement = db.prepare<[string], { value: string }>('SELECT value FROM meta WHERE key = ?');
+  const setMetaStatement = db.prepare(
+    'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value'
+  );
+  const insertEvent = db.prepare(`
+    INSERT OR REPLACE INTO events
+      (block_number, log_index, block_hash, tx_hash, name, token_id, from_address, to_address, args)
+    VALUES
+      (@blockNumber, @logIndex, @blockHash, @txHash, @name, @tokenId, @from, @to, @args)
+  `);
+  const insertHeader = db.prepare('INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)');
+
+  const getMeta = (key: string) => getMetaStatement.get(key)?.value ?? null;
+  const setMeta = (key: string, value: string) => {
+    setMetaStatement.run(key, value);
+  };
+
+  // A database belongs to one chain and contract; reusing it for another would mix their events
+  const claim = (chainId: string, contract: string) => {
+    for (const [key, value] of [['chainId', chainId], ['contract', contract]]) {
+      const saved = getMeta(key);
+      if (saved !== null && saved !== value) {
+        throw new Error(`${path} was built for ${key} ${saved}, not ${value}. Pass a different --db.`);
+      }
+    }
+    setMeta('chainId', chainId);
+    setMeta('contract', contract);
+  };
+
+  const commitRange = db.transaction((events: IndexedEvent[], headers: BlockHeader[], toBlock: number) => {
+    for (const header of headers) {
+      insertHeader.run(header.number, header.hash, header.timestamp);
+    }
+    for (const event of events) {
+      insertEvent.run({
+        ...event,
+        from: normalizeAddress(event.from),
+        to: normalizeAddress(event.to),
+        args: JSON.stringify(event.args),
+      });
+    }
+    setMeta('cursor', String(toBlock));
+  });
+
+  const rollback = db.transaction((toBlock: number) => {
+    db.prepare('DELETE FROM events WHERE block_number > ?').run(toBlock);
+    db.prepare('DELETE FROM blocks WHERE number > ?').run(toBlock);
+    setMeta('cursor', String(toBlock));
+  });
+
+  return {
+    getMeta,
+    setMeta,
+    claim,
+
+    getCursor: () => {
+      const cursor = getMeta('cursor');
+      return cursor === null ? null : Number(cursor);
+    },
+
+    commitRange: (events, headers, toBlock) => {
+      commitRange(events, headers, toBlock);
+    },
+
+    getHeadersFrom: (fromBlock) =>
+      db.prepare<[number], BlockHeader>('SELECT number, hash, timestamp FROM blocks WHERE number >= ? ORDER BY number DESC')
+        .all(fromBlock),
+
+    rollback: (toBlock) => {
+      rollback(toBlock);
+    },
+
+    pruneHeaders: (belowBlock) => {
+      db.prepare('DELETE FROM blocks WHERE number < ? AND number NOT IN (SELECT block_number FROM events)').run(belowBlock);
+    },
+
+    // The owner of a token is the recipient of its latest Transfer
+    getTokensByOwner: (owner) =>
+      db.prepare<[string], OwnedToken>(`
+        SELECT token_id AS tokenId, block_number AS acquiredBlock FROM (
+          SELECT token_id, to_address, block_number,
+            ROW_NUMBER() OVER (PARTITION BY token_id ORDER BY block_number DESC, log_index DESC) AS position
+          FROM events
+          WHERE name = 'Transfer'
+        )
+        WHERE position = 1 AND to_address = ?
+        ORDER BY length(token_id), token_id
+      `).all(owner.toLowerCase()),
+
+    getTokenHistory: (tokenId) =>
+      db.prepare<[string], EventRow>(`
+        SELECT ${EVENT_COLUMNS} FROM events e LEFT JOIN blocks b ON b.number = e.block_number
+        WHERE e.token_id = ?
+        ORDER BY e.block_number, e.log_index
+      `).all(tokenId).map(toRecord),
+
+    getRecentMints: (limit) =>
+      db.prepare<[number], EventRow>(`
+        SELECT ${EVENT_COLUMNS} FROM events e LEFT JOIN blocks b ON b.number = e.block_number
+        WHERE e.name = 'Transfer' AND e.from_address = '0x0000000000000000000000000000000000000000'
+        ORDER BY e.block_number DESC, e.log_index DESC
+        LIMIT ?
+      `).all(limit).map(toRecord),
+
+    close: () => db.close(),
+  };
+};
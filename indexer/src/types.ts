@@ -0,0 +1,61 @@
+export interface IndexerConfig {
+  /** Registry key from networks.json, or "custom" when only --rpc is given */
+  networkId: string;
+  rpcUrl: string;
+  contractAddress: string;
+  /** First block to index; normally the contract's deploy block */
+  startBlock: number;
+  abiPath: string;
+  dbPath: string;
+  port: number;
+  /** Largest block range requested per eth_getLogs call */
+  chunkSize: number;
+  pollIntervalMs: number;
+  /** Blocks below the head whose hashes are kept to detect reorgs */
+  reorgDepth: number;
+}
+
+/** A contract log decoded with the ABI */
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  txHash: string;
+  name: string;
+  /** Decimal token ID for events about a single token */
+  tokenId: string | null;
+  /** Sender of a Transfer, or owner of an Approval */
+  from: string | null;
+  /** Recipient of a Transfer, or approved address of an Approval */
+  to: string | null;
+  /** Every event argument, with integers as decimal strings */
+  args: Record<string, string | boolean>;
+}
+
+export interface BlockHeader {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+/** An event as returned by the API, with its block timestamp */
+export interface EventRecord extends IndexedEvent {
+  /** Block timestamp in seconds, or null if the block header was not stored */
+  timestamp: number | null;
+}
+
+export interface OwnedToken {
+  tokenId: string;
+  /** Block of the transfer that gave the owner this token */
+  acquiredBlock: number;
+}
+
+export interface IndexerStatus {
+  chainId: number;
+  contract: string;
+  network: string;
+  /** Last block whose logs are stored */
+  indexedBlock: number | null;
+  /** Chain head at the last poll */
+  headBlock: number | null;
+}